@@ -1,5 +1,6 @@
 import { PrismaClient } from '@prisma/client'
 import { hash } from 'bcryptjs'
+import { CONSENT_FORM_VERSION, consentFormText } from '@/lib/consent-forms'
 
 const prisma = new PrismaClient()
 
@@ -14,6 +15,7 @@ async function main() {
       loginAttempts: 0,
       lockedUntil: null,
       isActive: true,
+      emailVerified: new Date(),
     },
     create: {
       email: 'dr.sarah.provider@example.com',
@@ -22,6 +24,7 @@ async function main() {
       role: 'PROVIDER',
       hashedPassword: await hash('SecurePass123!@#', 12),
       isActive: true,
+      emailVerified: new Date(),
     }
   })
   console.log('Created provider user:', providerUser.email)
@@ -29,7 +32,7 @@ async function main() {
   // Create client user
   const clientUser = await prisma.user.upsert({
     where: { email: 'john.doe.client@example.com' },
-    update: {},
+    update: { emailVerified: new Date() },
     create: {
       email: 'john.doe.client@example.com',
       firstName: 'John Doe',
@@ -37,10 +40,27 @@ async function main() {
       role: 'CLIENT',
       hashedPassword: await hash('SecurePass123!@#', 12),
       isActive: true,
+      emailVerified: new Date(),
     }
   })
   console.log('Created client user:', clientUser.email)
 
+  // Create admin user; MFA enrollment is required at first sign-in
+  const adminUser = await prisma.user.upsert({
+    where: { email: 'admin@example.com' },
+    update: { emailVerified: new Date() },
+    create: {
+      email: 'admin@example.com',
+      firstName: 'Practice',
+      lastName: 'Admin',
+      role: 'ADMIN',
+      hashedPassword: await hash('SecurePass123!@#', 12),
+      isActive: true,
+      emailVerified: new Date(),
+    }
+  })
+  console.log('Created admin user:', adminUser.email)
+
   // Create a journal entry for the client
   const journalEntry = await prisma.journalEntry.upsert({
     where: { 
@@ -140,6 +160,28 @@ async function main() {
   })
   console.log('Created journal entry:', journalEntry.title)
 
+  // Create the client's consent to share with the provider; every share needs one
+  const consentWhere = {
+    clientId: clientUser.id,
+    providerId: providerUser.id,
+    purpose: 'TREATMENT',
+    scope: 'FULL_ACCESS',
+    revokedAt: null,
+    expiresAt: null,
+  } as const
+  const consent = await prisma.consent.findFirst({ where: consentWhere }) ?? await prisma.consent.create({
+    data: {
+      ...consentWhere,
+      formVersion: CONSENT_FORM_VERSION,
+      consentText: consentFormText('TREATMENT', {
+        providerName: [providerUser.firstName, providerUser.lastName].filter(Boolean).join(' '),
+        scope: 'FULL_ACCESS',
+      }),
+      signature: [clientUser.firstName, clientUser.lastName].filter(Boolean).join(' '),
+    }
+  })
+  console.log('Created treatment consent with FULL_ACCESS scope')
+
   // Create a share from client to provider
   await prisma.entryShare.upsert({
     where: {
@@ -149,11 +191,13 @@ async function main() {
         clientId: clientUser.id,
       }
     },
-    update: {},
+    // A share seeded before consents were recorded was revoked by shares:expire
+    update: { consentId: consent.id, isRevoked: false, revokedAt: null, revokedReason: null },
     create: {
       entryId: journalEntry.id,
       providerId: providerUser.id,
       clientId: clientUser.id,
+      consentId: consent.id,
       scope: 'FULL_ACCESS',
       message: 'Please review my weekly progress and let me know if you have any concerns about the medication timing.',
     }
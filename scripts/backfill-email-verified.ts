@@ -0,0 +1,40 @@
+import { db } from '@/lib/db'
+import { backfillEmailVerified } from '@/lib/db/account-tokens'
+import type { AuditContext } from '@/types/database'
+
+/**
+ * Mark existing accounts as verified after upgrading to email verification
+ *
+ *   npm run users:backfill-verified -- --before=2026-10-19T00:00:00Z
+ *
+ * Sign-in refuses accounts whose address isn't verified. Accounts created
+ * before the upgrade (--before, the time it was deployed) and never sent a
+ * verification link are marked verified as of their creation. Run once,
+ * right after `npm run db:push`; running it again changes nothing.
+ */
+
+const context: AuditContext = {
+  ipAddress: 'system',
+  userAgent: 'backfill-email-verified-script'
+}
+
+async function main() {
+  const beforeFlag = process.argv.slice(2).find(flag => flag.startsWith('--before='))
+  const before = beforeFlag ? new Date(beforeFlag.split('=')[1]) : null
+
+  if (!before || Number.isNaN(before.getTime())) {
+    throw new Error('--before must be the date and time email verification was deployed, e.g. --before=2026-10-19T00:00:00Z')
+  }
+
+  const marked = await backfillEmailVerified(before, context)
+  console.log(`Marked ${marked} existing accounts as verified`)
+}
+
+main()
+  .catch((e) => {
+    console.error('Email verification backfill failed:', e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await db.$disconnect()
+  })
@@ -0,0 +1,41 @@
+import { db } from '@/lib/db'
+import { revokeSharesWithoutConsent } from '@/lib/db/consents'
+import { expireShares, sendShareExpiryReminders } from '@/lib/db/share-expiry'
+import type { AuditContext } from '@/types/database'
+
+/**
+ * Expire shares, revoke shares without a consent, and remind clients of
+ * upcoming expiries
+ *
+ *   npm run shares:expire
+ *
+ * Marks each share whose expiry has passed as expired and audits it as an
+ * UNSHARE, revokes shares made before consents were recorded, then emails
+ * clients whose shares expire within the next few days.
+ * Meant for cron, every few minutes; the reminders go out once per share.
+ */
+
+const context: AuditContext = {
+  ipAddress: 'system',
+  userAgent: 'expire-shares-script'
+}
+
+async function main() {
+  const expired = await expireShares(context)
+  console.log(`Expired ${expired} shares`)
+
+  const unconsented = await revokeSharesWithoutConsent(context)
+  console.log(`Revoked ${unconsented} shares made without a consent`)
+
+  const reminded = await sendShareExpiryReminders()
+  console.log(`Sent share expiry reminders to ${reminded} clients`)
+}
+
+main()
+  .catch((e) => {
+    console.error('Share expiry failed:', e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await db.$disconnect()
+  })
@@ -0,0 +1,49 @@
+import { db } from '@/lib/db'
+import { flushAuditOutbox, getAuditHealth } from '@/lib/security/audit-outbox'
+
+/**
+ * Deliver queued audit events
+ *
+ *   npm run audit:flush -- [--batch-size=100]
+ *
+ * Appends every due AuditOutbox event to the audit log, then prints what is
+ * still waiting. Meant for cron; exits non-zero if anything failed.
+ */
+
+async function main() {
+  const batchFlag = process.argv.slice(2).find(flag => flag.startsWith('--batch-size='))
+  const batchSize = batchFlag ? Number(batchFlag.split('=')[1]) : undefined
+
+  if (batchSize !== undefined && (!Number.isInteger(batchSize) || batchSize < 1)) {
+    throw new Error('--batch-size must be a positive integer')
+  }
+
+  let written = 0
+  let failed = 0
+
+  // Failed events are pushed back by their retry delay, so this ends once only those are left
+  for (;;) {
+    const result = await flushAuditOutbox({ batchSize })
+    written += result.written
+    failed += result.failed
+    if (result.written === 0) {
+      break
+    }
+  }
+
+  const health = await getAuditHealth()
+  console.log(`Wrote ${written} queued audit events, ${failed} failed; ${health.outboxPending ?? 'unknown'} still pending`)
+
+  if (failed > 0) {
+    process.exitCode = 1
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error('Audit outbox flush failed:', e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await db.$disconnect()
+  })
@@ -0,0 +1,26 @@
+import { db } from '@/lib/db'
+import { notifyEndedEmergencyAccess } from '@/lib/db/emergency-access'
+
+/**
+ * Announce emergency access that has ended
+ *
+ *   npm run emergency-access:notify
+ *
+ * Emails the client and every admin about each break-the-glass access that
+ * expired (or was ended) since the last run. Meant for cron, every few
+ * minutes.
+ */
+
+async function main() {
+  const notified = await notifyEndedEmergencyAccess()
+  console.log(`Sent notifications for ${notified} ended emergency accesses`)
+}
+
+main()
+  .catch((e) => {
+    console.error('Emergency access notification failed:', e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await db.$disconnect()
+  })
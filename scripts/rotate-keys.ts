@@ -0,0 +1,73 @@
+import { db } from '@/lib/db'
+import {
+  rotateMasterKey,
+  rotateDataKeys,
+  getRotationProgress,
+  type RotationProgress
+} from '@/lib/security/key-management'
+import type { AuditContext } from '@/types/database'
+
+/**
+ * Encryption key rotation
+ *
+ *   npm run keys:rotate -- master [--batch-size=100]   re-wrap data keys with a new master key
+ *   npm run keys:rotate -- data [--batch-size=100]     new data keys + re-encrypt entries and other encrypted rows
+ *   npm run keys:rotate -- status                      show the current/last run
+ *
+ * An interrupted run resumes from its last completed batch when re-run.
+ */
+
+const context: AuditContext = {
+  ipAddress: 'system',
+  userAgent: 'rotate-keys-script'
+}
+
+function logProgress(progress: RotationProgress): void {
+  console.log(
+    `[${progress.runId}] ${progress.kind} ${progress.phase}: ${progress.processed} processed` +
+      (progress.cursor ? ` (cursor ${progress.cursor})` : '')
+  )
+}
+
+async function main() {
+  const [command = 'status', ...flags] = process.argv.slice(2)
+  const batchFlag = flags.find(flag => flag.startsWith('--batch-size='))
+  const batchSize = batchFlag ? Number(batchFlag.split('=')[1]) : undefined
+
+  if (batchSize !== undefined && (!Number.isInteger(batchSize) || batchSize < 1)) {
+    throw new Error('--batch-size must be a positive integer')
+  }
+
+  switch (command) {
+    case 'master': {
+      const progress = await rotateMasterKey(context, { batchSize, onProgress: logProgress })
+      console.log(`Master key rotation ${progress.runId} finished`)
+      break
+    }
+    case 'data': {
+      const progress = await rotateDataKeys(context, { batchSize, onProgress: logProgress })
+      console.log(`Data key rotation ${progress.runId} finished`)
+      break
+    }
+    case 'status': {
+      const progress = await getRotationProgress()
+      if (progress) {
+        logProgress(progress)
+      } else {
+        console.log('No key rotation has been run yet')
+      }
+      break
+    }
+    default:
+      throw new Error(`Unknown command "${command}". Use master, data or status.`)
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error('Key rotation failed:', e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await db.$disconnect()
+  })
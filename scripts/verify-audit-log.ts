@@ -0,0 +1,43 @@
+import { db } from '@/lib/db'
+import { verifyAuditChain } from '@/lib/security/audit-chain'
+
+/**
+ * Audit log integrity check
+ *
+ *   npm run audit:verify -- [--batch-size=1000]
+ *
+ * Exits non-zero if the hash chain is broken. Keep the printed head hash
+ * somewhere outside the database; a later run whose chain no longer reaches
+ * it means rows were removed from the end.
+ */
+
+async function main() {
+  const batchFlag = process.argv.slice(2).find(flag => flag.startsWith('--batch-size='))
+  const batchSize = batchFlag ? Number(batchFlag.split('=')[1]) : undefined
+
+  if (batchSize !== undefined && (!Number.isInteger(batchSize) || batchSize < 1)) {
+    throw new Error('--batch-size must be a positive integer')
+  }
+
+  const result = await verifyAuditChain({ batchSize })
+
+  console.log(`Checked ${result.checked} chained rows (${result.unchained} written before chaining)`)
+
+  if (result.firstBrokenLink) {
+    const { sequence, id, createdAt, reason } = result.firstBrokenLink
+    console.error(`Chain broken at sequence ${sequence} (${id}, ${createdAt}): ${reason}`)
+    process.exitCode = 1
+    return
+  }
+
+  console.log(`Chain intact; head is sequence ${result.headSequence ?? '-'} with hash ${result.headHash ?? '-'}`)
+}
+
+main()
+  .catch((e) => {
+    console.error('Audit log verification failed:', e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await db.$disconnect()
+  })
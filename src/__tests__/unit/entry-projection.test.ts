@@ -0,0 +1,106 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { PROJECTABLE_ENTRY_FIELDS, projectEntry, projectEntryTitle } from '@/lib/security/entry-projection'
+import type { JournalEntry, ShareScope } from '@/types/database'
+
+const entry = {
+  id: 'entry-1',
+  status: 'PUBLISHED',
+  wordCount: 7,
+  createdAt: new Date('2026-01-05T10:00:00Z'),
+  updatedAt: new Date('2026-01-06T10:00:00Z'),
+  title: 'A hard week',
+  aiSummary: 'Summary of the week',
+  aiSummaryAt: new Date('2026-01-06T11:00:00Z'),
+  content: { type: 'doc', content: [{ type: 'paragraph', content: [{ type: 'text', text: 'secret-content-marker' }] }] },
+  contentHtml: '<p>secret-html-marker</p>',
+  mood: 3,
+  tags: ['secret-tag-marker']
+} satisfies Pick<JournalEntry, keyof typeof PROJECTABLE_ENTRY_FIELDS>
+
+const BELOW_FULL_ACCESS: ShareScope[] = ['NONE', 'TITLE_ONLY', 'SUMMARY_ONLY']
+const FULL_ACCESS_ONLY = ['content', 'contentHtml', 'mood', 'tags']
+
+describe('projectEntry', () => {
+  for (const scope of BELOW_FULL_ACCESS) {
+    it(`leaves content, mood and tags out at ${scope}`, () => {
+      const view = projectEntry(entry, scope)
+
+      for (const field of FULL_ACCESS_ONLY) {
+        assert.equal(field in view, false, `${field} is in the ${scope} view`)
+      }
+
+      const serialized = JSON.stringify(view)
+      assert.doesNotMatch(serialized, /secret-content-marker|secret-html-marker|secret-tag-marker/)
+    })
+  }
+
+  it('shows only metadata at NONE', () => {
+    assert.deepEqual(projectEntry(entry, 'NONE'), {
+      id: 'entry-1',
+      status: 'PUBLISHED',
+      wordCount: 7,
+      createdAt: '2026-01-05T10:00:00.000Z',
+      updatedAt: '2026-01-06T10:00:00.000Z',
+      scope: 'NONE'
+    })
+  })
+
+  it('adds the title at TITLE_ONLY', () => {
+    const view = projectEntry(entry, 'TITLE_ONLY')
+
+    assert.equal(view.scope, 'TITLE_ONLY')
+    assert.equal('title' in view && view.title, 'A hard week')
+    assert.equal('aiSummary' in view, false)
+    assert.equal('aiSummaryAt' in view, false)
+  })
+
+  it('adds the AI summary at SUMMARY_ONLY', () => {
+    assert.deepEqual(projectEntry(entry, 'SUMMARY_ONLY'), {
+      id: 'entry-1',
+      status: 'PUBLISHED',
+      wordCount: 7,
+      createdAt: '2026-01-05T10:00:00.000Z',
+      updatedAt: '2026-01-06T10:00:00.000Z',
+      scope: 'SUMMARY_ONLY',
+      title: 'A hard week',
+      aiSummary: 'Summary of the week',
+      aiSummaryAt: '2026-01-06T11:00:00.000Z'
+    })
+  })
+
+  it('shows content, mood and tags at FULL_ACCESS', () => {
+    const view = projectEntry(entry, 'FULL_ACCESS')
+
+    assert.equal(view.scope, 'FULL_ACCESS')
+    if (view.scope !== 'FULL_ACCESS') return
+    assert.deepEqual(view.content, entry.content)
+    assert.equal(view.contentHtml, entry.contentHtml)
+    assert.equal(view.mood, 3)
+    assert.deepEqual(view.tags, ['secret-tag-marker'])
+    assert.equal(view.aiSummary, 'Summary of the week')
+  })
+
+  it('never passes on entry fields it was not written for', () => {
+    const withExtras = { ...entry, userId: 'client-1', encryptedData: 'enc:ciphertext', aiPreference: 'NEVER' }
+
+    for (const scope of [...BELOW_FULL_ACCESS, 'FULL_ACCESS'] as ShareScope[]) {
+      const view = projectEntry(withExtras, scope)
+      for (const field of ['userId', 'encryptedData', 'aiPreference']) {
+        assert.equal(field in view, false, `${field} is in the ${scope} view`)
+      }
+    }
+  })
+})
+
+describe('projectEntryTitle', () => {
+  it('hides the title at NONE', () => {
+    assert.equal(projectEntryTitle('A hard week', 'NONE'), null)
+  })
+
+  for (const scope of ['TITLE_ONLY', 'SUMMARY_ONLY', 'FULL_ACCESS'] as ShareScope[]) {
+    it(`shows the title at ${scope}`, () => {
+      assert.equal(projectEntryTitle('A hard week', scope), 'A hard week')
+    })
+  }
+})
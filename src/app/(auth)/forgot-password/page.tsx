@@ -0,0 +1,92 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { InputWithIcon } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardDescription, CardHeader } from '@/components/ui/card'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Heading } from '@/components/ui/heading'
+import { Text } from '@/components/ui/text'
+import { authService } from '@/services'
+import { AlertCircle, KeyRound, Loader2, Mail } from 'lucide-react'
+
+export default function ForgotPasswordPage(): React.JSX.Element {
+  const [email, setEmail] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState('')
+  const [sentMessage, setSentMessage] = useState('')
+
+  const handleSubmit = async (e: React.FormEvent): Promise<void> => {
+    e.preventDefault()
+    setError('')
+    setIsLoading(true)
+    try {
+      const message = await authService.requestPasswordReset({ email: email.trim() })
+      setSentMessage(message || 'Check your email for a reset link')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to request password reset')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <div className='min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 py-12 px-4 sm:px-6 lg:px-8'>
+      <Card className='w-full max-w-md relative z-10 shadow-2xl border-0 bg-white/95 backdrop-blur-sm'>
+        <CardHeader className='text-center pb-6 pt-8'>
+          <div className='mx-auto w-16 h-16 bg-gradient-to-r from-blue-600 to-purple-600 rounded-full flex items-center justify-center mb-4 shadow-lg'>
+            <KeyRound className='w-8 h-8 text-white' />
+          </div>
+          <Heading as='h1' size='2xl' variant='gradient'>
+            Forgot Password
+          </Heading>
+          <CardDescription className='mt-2'>
+            We&apos;ll email you a link to choose a new password. It also unlocks a locked account.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className='space-y-6'>
+          {error && (
+            <Alert variant='destructive'>
+              <AlertCircle className='h-4 w-4' />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+          {sentMessage ? (
+            <Alert>
+              <Mail className='h-4 w-4' />
+              <AlertDescription>{sentMessage}. The link expires in an hour.</AlertDescription>
+            </Alert>
+          ) : (
+            <form onSubmit={handleSubmit} className='space-y-6'>
+              <div className='space-y-2'>
+                <Label htmlFor='email'>Email address</Label>
+                <InputWithIcon
+                  id='email'
+                  name='email'
+                  type='email'
+                  autoComplete='email'
+                  required
+                  value={email}
+                  onChange={e => setEmail(e.target.value)}
+                  disabled={isLoading}
+                  icon={<Mail className='w-5 h-5' />}
+                />
+              </div>
+              <Button type='submit' variant='gradient' size='lg' className='w-full' disabled={isLoading}>
+                {isLoading ? <Loader2 className='w-4 h-4 mr-2 animate-spin' /> : null}
+                Send reset link
+              </Button>
+            </form>
+          )}
+          <Text as='div' size='sm' variant='muted' className='text-center'>
+            <Link href='/login' className='text-primary hover:underline font-medium'>
+              Back to sign in
+            </Link>
+          </Text>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -12,12 +12,14 @@ import { Card, CardContent, CardHeader } from '@/components/ui/card'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { Text } from '@/components/ui/text'
 import { Heading } from '@/components/ui/heading'
-import { FileText, Mail, Lock, AlertCircle, Loader2, User, Stethoscope } from 'lucide-react'
-import { LoginRequestParams } from '@/types/api'
+import { FileText, Mail, Lock, AlertCircle, Loader2, User, Stethoscope, ShieldCheck } from 'lucide-react'
+import { authService } from '@/services'
+import { LoginRequestParams, LoginErrorCode } from '@/types/api'
 
 const loginSchema = z.object({
   email: z.string().email('Invalid email address'),
-  password: z.string().min(1, 'Password is required')
+  password: z.string().min(1, 'Password is required'),
+  mfaCode: z.string().optional()
 })
 
 export default function LoginPage(): React.JSX.Element {
@@ -25,45 +27,75 @@ export default function LoginPage(): React.JSX.Element {
   const [errors, setErrors] = useState<Partial<LoginRequestParams>>({})
   const [isLoading, setIsLoading] = useState(false)
   const [loginError, setLoginError] = useState('')
+  const [mfaRequired, setMfaRequired] = useState(false)
+  const [unverifiedEmail, setUnverifiedEmail] = useState<string | null>(null)
+  const [notice, setNotice] = useState('')
   const router = useRouter()
 
+  const completeSignIn = async (credentials: LoginRequestParams, failureMessage: string): Promise<void> => {
+    const result = await signIn('credentials', {
+      email: credentials.email,
+      password: credentials.password,
+      ...(credentials.mfaCode && { mfaCode: credentials.mfaCode }),
+      redirect: false
+    })
+
+    if (result?.error) {
+      switch (result.error as LoginErrorCode) {
+        case 'MFA_REQUIRED':
+          // Password was right; keep it and ask for the second factor
+          setForm({ ...credentials, mfaCode: '' })
+          setMfaRequired(true)
+          break
+        case 'MFA_INVALID':
+          setLoginError('Invalid verification code')
+          break
+        case 'EMAIL_NOT_VERIFIED':
+          setUnverifiedEmail(credentials.email)
+          setLoginError('Verify your email address before signing in. Check your inbox for the link.')
+          break
+        case 'RATE_LIMITED':
+          setLoginError('Too many sign-in attempts. Wait a few minutes and try again.')
+          break
+        default:
+          setLoginError(failureMessage)
+      }
+      setIsLoading(false)
+      return
+    }
+
+    if (result?.ok) {
+      const session = await getSession()
+      if (session?.user?.role) {
+        switch (session.user.role) {
+          case 'ADMIN':
+            router.push('/admin')
+            break
+          case 'PROVIDER':
+            router.push('/provider')
+            break
+          case 'CLIENT':
+          default:
+            router.push('/client')
+            break
+        }
+      } else {
+        router.push('/client')
+      }
+    }
+  }
+
   const handleSubmit = async (e: React.FormEvent): Promise<void> => {
     e.preventDefault()
     setIsLoading(true)
     setErrors({})
     setLoginError('')
+    setNotice('')
+    setUnverifiedEmail(null)
 
     try {
       const validatedData = loginSchema.parse(form)
-      
-      const result = await signIn('credentials', {
-        email: validatedData.email,
-        password: validatedData.password,
-        redirect: false
-      })
-
-      if (result?.error) {
-        setLoginError('Invalid email or password')
-        setIsLoading(false)
-        return
-      }
-
-      if (result?.ok) {
-        const session = await getSession()
-        if (session?.user?.role) {
-          switch (session.user.role) {
-            case 'PROVIDER':
-              router.push('/provider')
-              break
-            case 'CLIENT':
-            default:
-              router.push('/client')
-              break
-          }
-        } else {
-          router.push('/client')
-        }
-      }
+      await completeSignIn(validatedData, 'Invalid email or password')
     } catch (error) {
       if (error instanceof z.ZodError) {
         const fieldErrors: Partial<LoginRequestParams> = {}
@@ -78,6 +110,27 @@ export default function LoginPage(): React.JSX.Element {
     }
   }
 
+  const handleResendVerification = async (): Promise<void> => {
+    if (!unverifiedEmail) return
+
+    setIsLoading(true)
+    try {
+      const message = await authService.resendVerificationEmail({ email: unverifiedEmail })
+      setLoginError('')
+      setNotice(message || 'A new verification link is on its way')
+    } catch (error) {
+      setLoginError(error instanceof Error ? error.message : 'Failed to send verification email')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleCancelMfa = (): void => {
+    setMfaRequired(false)
+    setForm({ email: form.email, password: '' })
+    setLoginError('')
+  }
+
   const handleChange = (field: keyof LoginRequestParams) => (e: React.ChangeEvent<HTMLInputElement>): void => {
     setForm(prev => ({ ...prev, [field]: e.target.value }))
     if (errors[field as keyof typeof errors]) {
@@ -91,34 +144,7 @@ export default function LoginPage(): React.JSX.Element {
     setLoginError('')
 
     try {
-      const result = await signIn('credentials', {
-        email,
-        password,
-        redirect: false
-      })
-
-      if (result?.error) {
-        setLoginError('Quick login failed - user may not exist')
-        setIsLoading(false)
-        return
-      }
-
-      if (result?.ok) {
-        const session = await getSession()
-        if (session?.user?.role) {
-          switch (session.user.role) {
-            case 'PROVIDER':
-              router.push('/provider')
-              break
-            case 'CLIENT':
-            default:
-              router.push('/client')
-              break
-          }
-        } else {
-          router.push('/client')
-        }
-      }
+      await completeSignIn({ email, password }, 'Quick login failed - user may not exist')
     } catch {
       setLoginError('Quick login failed')
       setIsLoading(false)
@@ -144,54 +170,104 @@ export default function LoginPage(): React.JSX.Element {
         </CardHeader>
         <CardContent>
           <form onSubmit={handleSubmit} className='space-y-6'>
-            <div className='space-y-2'>
-              <Label htmlFor='email'>Email address</Label>
-              <InputWithIcon
-                id='email'
-                name='email'
-                type='email'
-                autoComplete='email'
-                required
-                placeholder='Enter your email'
-                value={form.email}
-                onChange={handleChange('email')}
-                disabled={isLoading}
-                icon={<Mail className='w-5 h-5' />}
-              />
-              {errors.email && (
-                <Text variant='destructive' size='sm' className='flex items-center mt-1'>
-                  <AlertCircle className='w-4 h-4 mr-1' />
-                  {errors.email}
+            {mfaRequired ? (
+              <div className='space-y-2'>
+                <Label htmlFor='mfaCode'>Verification code</Label>
+                <InputWithIcon
+                  id='mfaCode'
+                  name='mfaCode'
+                  type='text'
+                  inputMode='numeric'
+                  autoComplete='one-time-code'
+                  autoFocus
+                  required
+                  placeholder='6-digit code or recovery code'
+                  value={form.mfaCode ?? ''}
+                  onChange={handleChange('mfaCode')}
+                  disabled={isLoading}
+                  icon={<ShieldCheck className='w-5 h-5' />}
+                />
+                <Text size='sm' variant='muted'>
+                  Enter the code from your authenticator app, or one of your recovery codes.
                 </Text>
-              )}
-            </div>
+              </div>
+            ) : (
+              <>
+                <div className='space-y-2'>
+                  <Label htmlFor='email'>Email address</Label>
+                  <InputWithIcon
+                    id='email'
+                    name='email'
+                    type='email'
+                    autoComplete='email'
+                    required
+                    placeholder='Enter your email'
+                    value={form.email}
+                    onChange={handleChange('email')}
+                    disabled={isLoading}
+                    icon={<Mail className='w-5 h-5' />}
+                  />
+                  {errors.email && (
+                    <Text variant='destructive' size='sm' className='flex items-center mt-1'>
+                      <AlertCircle className='w-4 h-4 mr-1' />
+                      {errors.email}
+                    </Text>
+                  )}
+                </div>
 
-            <div className='space-y-2'>
-              <Label htmlFor='password'>Password</Label>
-              <InputWithIcon
-                id='password'
-                name='password'
-                type='password'
-                autoComplete='current-password'
-                required
-                placeholder='Enter your password'
-                value={form.password}
-                onChange={handleChange('password')}
-                disabled={isLoading}
-                icon={<Lock className='w-5 h-5' />}
-              />
-              {errors.password && (
-                <Text variant='destructive' size='sm' className='flex items-center mt-1'>
-                  <AlertCircle className='w-4 h-4 mr-1' />
-                  {errors.password}
-                </Text>
-              )}
-            </div>
+                <div className='space-y-2'>
+                  <div className='flex items-center justify-between'>
+                    <Label htmlFor='password'>Password</Label>
+                    <Link href='/forgot-password' className='text-sm text-primary hover:underline'>
+                      Forgot password?
+                    </Link>
+                  </div>
+                  <InputWithIcon
+                    id='password'
+                    name='password'
+                    type='password'
+                    autoComplete='current-password'
+                    required
+                    placeholder='Enter your password'
+                    value={form.password}
+                    onChange={handleChange('password')}
+                    disabled={isLoading}
+                    icon={<Lock className='w-5 h-5' />}
+                  />
+                  {errors.password && (
+                    <Text variant='destructive' size='sm' className='flex items-center mt-1'>
+                      <AlertCircle className='w-4 h-4 mr-1' />
+                      {errors.password}
+                    </Text>
+                  )}
+                </div>
+              </>
+            )}
 
             {loginError && (
               <Alert variant="destructive">
                 <AlertCircle className='h-4 w-4' />
-                <AlertDescription>{loginError}</AlertDescription>
+                <AlertDescription>
+                  {loginError}
+                  {unverifiedEmail && (
+                    <Button
+                      type='button'
+                      variant='link'
+                      size='sm'
+                      className='px-0 h-auto'
+                      disabled={isLoading}
+                      onClick={handleResendVerification}
+                    >
+                      Resend verification email
+                    </Button>
+                  )}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {notice && (
+              <Alert>
+                <AlertDescription>{notice}</AlertDescription>
               </Alert>
             )}
 
@@ -208,10 +284,23 @@ export default function LoginPage(): React.JSX.Element {
                   Signing in...
                 </>
               ) : (
-                'Sign in'
+                mfaRequired ? 'Verify' : 'Sign in'
               )}
             </Button>
 
+            {mfaRequired && (
+              <Button
+                type='button'
+                variant='ghost'
+                size='sm'
+                className='w-full'
+                disabled={isLoading}
+                onClick={handleCancelMfa}
+              >
+                Use a different account
+              </Button>
+            )}
+
             <Text as='div' className='text-center'>
               <Text size='sm' variant='muted'>
                 Don&apos;t have an account?{' '}
@@ -0,0 +1,230 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import Image from 'next/image'
+import { Button } from '@/components/ui/button'
+import { InputWithIcon } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardHeader } from '@/components/ui/card'
+import { Alert, AlertTitle, AlertDescription } from '@/components/ui/alert'
+import { Text } from '@/components/ui/text'
+import { Heading } from '@/components/ui/heading'
+import { authService } from '@/services'
+import { ShieldCheck, KeyRound, AlertCircle, Loader2 } from 'lucide-react'
+import type { MfaEnrollmentResponse, MfaStatusResponse } from '@/types/api'
+
+export default function MfaSetupPage(): React.JSX.Element {
+  const { data: session, update } = useSession()
+  const router = useRouter()
+  const [status, setStatus] = useState<MfaStatusResponse | null>(null)
+  const [enrollment, setEnrollment] = useState<MfaEnrollmentResponse | null>(null)
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([])
+  const [code, setCode] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    authService.getMfaStatus()
+      .then(setStatus)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load two-factor status'))
+  }, [])
+
+  const dashboardUrl = session?.user?.role === 'ADMIN' ? '/admin'
+    : session?.user?.role === 'PROVIDER' ? '/provider'
+    : '/client'
+
+  const runAction = async (action: () => Promise<void>): Promise<void> => {
+    setIsLoading(true)
+    setError('')
+    try {
+      await action()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleStartEnrollment = (): Promise<void> => runAction(async () => {
+    setEnrollment(await authService.startMfaEnrollment())
+  })
+
+  const handleConfirm = (e: React.FormEvent): Promise<void> => {
+    e.preventDefault()
+    return runAction(async () => {
+      setRecoveryCodes(await authService.confirmMfaEnrollment(code))
+      setEnrollment(null)
+      setCode('')
+      // Re-run the jwt callback so middleware stops holding the user here
+      await update()
+      setStatus(await authService.getMfaStatus())
+    })
+  }
+
+  const handleRegenerate = (): Promise<void> => runAction(async () => {
+    setRecoveryCodes(await authService.regenerateRecoveryCodes(code))
+    setCode('')
+    setStatus(await authService.getMfaStatus())
+  })
+
+  const handleDisable = (): Promise<void> => runAction(async () => {
+    await authService.disableMfa(code)
+    setCode('')
+    setStatus(await authService.getMfaStatus())
+  })
+
+  const renderContent = (): React.JSX.Element => {
+    if (recoveryCodes.length > 0) {
+      return (
+        <div className='space-y-6'>
+          <Alert variant='success'>
+            <KeyRound className='h-4 w-4' />
+            <AlertTitle>Save your recovery codes</AlertTitle>
+            <AlertDescription>
+              Each code signs you in once if you lose your authenticator. They will not be shown again.
+            </AlertDescription>
+          </Alert>
+          <div className='grid grid-cols-2 gap-2 rounded-md border p-4 font-mono'>
+            {recoveryCodes.map(recoveryCode => (
+              <Text key={recoveryCode} size='sm' align='center'>{recoveryCode}</Text>
+            ))}
+          </div>
+          <Button variant='gradient' size='lg' className='w-full' onClick={() => router.push(dashboardUrl)}>
+            I&apos;ve saved these codes
+          </Button>
+        </div>
+      )
+    }
+
+    if (enrollment) {
+      return (
+        <form onSubmit={handleConfirm} className='space-y-6'>
+          <Text as='p' size='sm' variant='muted'>
+            Scan this QR code with your authenticator app, then enter the 6-digit code it shows.
+          </Text>
+          <div className='flex justify-center'>
+            <Image
+              src={enrollment.qrCodeDataUrl}
+              alt='Authenticator QR code'
+              width={200}
+              height={200}
+              unoptimized
+            />
+          </div>
+          <div className='space-y-1'>
+            <Text size='xs' variant='muted'>Can&apos;t scan it? Enter this key instead:</Text>
+            <Text as='div' size='sm' className='font-mono break-all'>{enrollment.secret}</Text>
+          </div>
+          <div className='space-y-2'>
+            <Label htmlFor='code'>Verification code</Label>
+            <InputWithIcon
+              id='code'
+              name='code'
+              type='text'
+              inputMode='numeric'
+              autoComplete='one-time-code'
+              required
+              placeholder='123456'
+              value={code}
+              onChange={e => setCode(e.target.value)}
+              disabled={isLoading}
+              icon={<ShieldCheck className='w-5 h-5' />}
+            />
+          </div>
+          <Button type='submit' variant='gradient' size='lg' className='w-full' disabled={isLoading}>
+            {isLoading ? <Loader2 className='w-4 h-4 mr-2 animate-spin' /> : null}
+            Verify and turn on
+          </Button>
+        </form>
+      )
+    }
+
+    if (status?.enabled) {
+      return (
+        <div className='space-y-6'>
+          <Alert variant='success'>
+            <ShieldCheck className='h-4 w-4' />
+            <AlertTitle>Two-factor authentication is on</AlertTitle>
+            <AlertDescription>
+              {status.recoveryCodesRemaining} unused recovery codes remaining.
+            </AlertDescription>
+          </Alert>
+          <div className='space-y-2'>
+            <Label htmlFor='code'>Current verification code</Label>
+            <InputWithIcon
+              id='code'
+              name='code'
+              type='text'
+              autoComplete='one-time-code'
+              placeholder='6-digit code or recovery code'
+              value={code}
+              onChange={e => setCode(e.target.value)}
+              disabled={isLoading}
+              icon={<ShieldCheck className='w-5 h-5' />}
+            />
+          </div>
+          <div className='flex flex-col gap-3'>
+            <Button variant='outline' disabled={isLoading || !code} onClick={handleRegenerate}>
+              Generate new recovery codes
+            </Button>
+            {!status.required && (
+              <Button variant='destructive' disabled={isLoading || !code} onClick={handleDisable}>
+                Turn off two-factor authentication
+              </Button>
+            )}
+            <Button variant='ghost' onClick={() => router.push(dashboardUrl)}>
+              Back to dashboard
+            </Button>
+          </div>
+        </div>
+      )
+    }
+
+    return (
+      <div className='space-y-6'>
+        {status?.required && (
+          <Alert>
+            <AlertCircle className='h-4 w-4' />
+            <AlertTitle>Two-factor authentication required</AlertTitle>
+            <AlertDescription>
+              Your role has access to client health information, so you need to set up an authenticator app before continuing.
+            </AlertDescription>
+          </Alert>
+        )}
+        <Text as='p' size='sm' variant='muted'>
+          Use an authenticator app such as Google Authenticator, 1Password or Authy to generate sign-in codes.
+        </Text>
+        <Button variant='gradient' size='lg' className='w-full' disabled={isLoading || !status} onClick={handleStartEnrollment}>
+          {isLoading ? <Loader2 className='w-4 h-4 mr-2 animate-spin' /> : null}
+          Set up authenticator app
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <div className='min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 py-12 px-4 sm:px-6 lg:px-8'>
+      <Card className='w-full max-w-md relative z-10 shadow-2xl border-0 bg-white/95 backdrop-blur-sm'>
+        <CardHeader className='text-center pb-6 pt-8'>
+          <div className='mx-auto w-16 h-16 bg-gradient-to-r from-blue-600 to-purple-600 rounded-full flex items-center justify-center mb-4 shadow-lg'>
+            <ShieldCheck className='w-8 h-8 text-white' />
+          </div>
+          <Heading as='h1' size='2xl' variant='gradient'>
+            Two-Factor Authentication
+          </Heading>
+        </CardHeader>
+        <CardContent className='space-y-6'>
+          {error && (
+            <Alert variant='destructive'>
+              <AlertCircle className='h-4 w-4' />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+          {renderContent()}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -1,10 +1,10 @@
 'use client'
 
-import { useState } from 'react'
+import { useState, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
 import { z } from 'zod'
-import { authService } from '@/services'
+import { authService, invitationService } from '@/services'
 import { Button } from '@/components/ui/button'
 import { InputWithIcon } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
@@ -13,19 +13,25 @@ import { Alert, AlertDescription } from '@/components/ui/alert'
 import { Text } from '@/components/ui/text'
 import { Heading } from '@/components/ui/heading'
 import { UserPlus, Mail, Lock, User, AlertCircle, Loader2, Stethoscope } from 'lucide-react'
-import { RegisterRequestParams } from '@/types/api'
+import { PasswordStrengthMeter } from '@/components/forms/PasswordStrengthMeter'
+import { DEFAULT_PASSWORD_POLICY, passwordRuleError } from '@/lib/security/password-policy'
+import { RegisterRequestParams, InvitationDetailsResponse, PasswordPolicy } from '@/types/api'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
-import type { UserRole } from '@/types/database'
+import type { UserRole, ShareScope } from '@/types/database'
+
+const SCOPE_LABELS: Record<ShareScope, string> = {
+  NONE: 'no access',
+  TITLE_ONLY: 'the title only',
+  SUMMARY_ONLY: 'the summary only',
+  FULL_ACCESS: 'the full entry'
+}
 
 const registerSchema = z.object({
   firstName: z.string().min(2, 'First name must be at least 2 characters'),
   lastName: z.string().min(2, 'Last name must be at least 2 characters'),
   email: z.string().email('Invalid email address'),
-  password: z.string().min(12, 'Password must be at least 12 characters')
-    .regex(/[a-z]/, 'Password must contain at least one lowercase letter')
-    .regex(/[A-Z]/, 'Password must contain at least one uppercase letter')
-    .regex(/\d/, 'Password must contain at least one number')
-    .regex(/[^a-zA-Z0-9]/, 'Password must contain at least one special character'),
+  // The rest of the password rules come from the server's policy
+  password: z.string().min(1, 'Password is required'),
   confirmPassword: z.string()
 }).refine((data) => data.password === data.confirmPassword, {
   message: "Passwords don't match",
@@ -50,8 +56,38 @@ export default function RegisterPage(): React.JSX.Element {
   const [registerError, setRegisterError] = useState('')
   const [successMessage, setSuccessMessage] = useState('')
   const [selectedRole, setSelectedRole] = useState<UserRole>('CLIENT')
+  const [invitationToken, setInvitationToken] = useState<string | null>(null)
+  const [invitation, setInvitation] = useState<InvitationDetailsResponse | null>(null)
+  const [acceptDefaultShare, setAcceptDefaultShare] = useState(false)
+  const [passwordPolicy, setPasswordPolicy] = useState<PasswordPolicy>(DEFAULT_PASSWORD_POLICY)
   const router = useRouter()
 
+  // The defaults stand in if this fails; the server checks the real policy either way
+  useEffect(() => {
+    authService.getPasswordPolicy()
+      .then(setPasswordPolicy)
+      .catch(() => undefined)
+  }, [])
+
+  // Invitation links look like /register?invitation=<token>
+  useEffect(() => {
+    const token = new URLSearchParams(window.location.search).get('invitation')
+    if (!token) return
+
+    setInvitationToken(token)
+    invitationService.getInvitationDetails(token)
+      .then(details => {
+        setInvitation(details)
+        setForm(prev => ({
+          ...prev,
+          email: details.email,
+          firstName: details.firstName ?? prev.firstName,
+          lastName: details.lastName ?? prev.lastName
+        }))
+      })
+      .catch(err => setRegisterError(err instanceof Error ? err.message : 'This invitation is invalid or has expired'))
+  }, [])
+
   const handleSubmit = async (e: React.FormEvent): Promise<void> => {
     e.preventDefault()
     setIsLoading(true)
@@ -61,15 +97,30 @@ export default function RegisterPage(): React.JSX.Element {
 
     try {
       const validatedData = registerSchema.parse(form)
+
+      const passwordError = passwordRuleError(validatedData.password, passwordPolicy)
+      if (passwordError) {
+        setErrors({ password: passwordError })
+        setIsLoading(false)
+        return
+      }
       
       await authService.register({
         firstName: validatedData.firstName,
         lastName: validatedData.lastName,
         email: validatedData.email,
         password: validatedData.password,
-        role: selectedRole
+        role: invitation ? 'CLIENT' : selectedRole,
+        ...(invitation && invitationToken && { invitationToken, acceptDefaultShare })
       })
 
+      // Invited clients proved their address by following the invitation link
+      if (!invitation) {
+        setSuccessMessage('Account created! Check your email for a link to verify your address, then sign in.')
+        setIsLoading(false)
+        return
+      }
+
       setSuccessMessage('Registration successful! Redirecting to login...')
       setTimeout(() => {
         router.push('/login')
@@ -84,7 +135,7 @@ export default function RegisterPage(): React.JSX.Element {
         })
         setErrors(fieldErrors as Partial<RegisterForm>)
       } else {
-        setRegisterError('An unexpected error occurred')
+        setRegisterError(error instanceof Error ? error.message : 'An unexpected error occurred')
       }
       setIsLoading(false)
     }
@@ -115,28 +166,37 @@ export default function RegisterPage(): React.JSX.Element {
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <Tabs value={selectedRole} onValueChange={(value) => setSelectedRole(value as UserRole)} className="w-full mb-6">
-            <TabsList className="grid w-full grid-cols-2">
-              <TabsTrigger value="CLIENT" className="flex items-center gap-2">
-                <User className="w-4 h-4" />
-                Client
-              </TabsTrigger>
-              <TabsTrigger value="PROVIDER" className="flex items-center gap-2">
-                <Stethoscope className="w-4 h-4" />
-                Provider
-              </TabsTrigger>
-            </TabsList>
-            <TabsContent value="CLIENT" className="mt-4">
-              <Text size="sm" className="text-center text-muted-foreground">
-                Register as a client to journal and share entries with healthcare providers
-              </Text>
-            </TabsContent>
-            <TabsContent value="PROVIDER" className="mt-4">
-              <Text size="sm" className="text-center text-muted-foreground">
-                Register as a healthcare provider to view shared journal entries from clients
-              </Text>
-            </TabsContent>
-          </Tabs>
+          {invitation ? (
+            <Alert className="mb-6">
+              <Stethoscope className='h-4 w-4' />
+              <AlertDescription>
+                {invitation.providerName} has invited you to join as a client.
+              </AlertDescription>
+            </Alert>
+          ) : (
+            <Tabs value={selectedRole} onValueChange={(value) => setSelectedRole(value as UserRole)} className="w-full mb-6">
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="CLIENT" className="flex items-center gap-2">
+                  <User className="w-4 h-4" />
+                  Client
+                </TabsTrigger>
+                <TabsTrigger value="PROVIDER" className="flex items-center gap-2">
+                  <Stethoscope className="w-4 h-4" />
+                  Provider
+                </TabsTrigger>
+              </TabsList>
+              <TabsContent value="CLIENT" className="mt-4">
+                <Text size="sm" className="text-center text-muted-foreground">
+                  Register as a client to journal and share entries with healthcare providers
+                </Text>
+              </TabsContent>
+              <TabsContent value="PROVIDER" className="mt-4">
+                <Text size="sm" className="text-center text-muted-foreground">
+                  Register as a healthcare provider to view shared journal entries from clients
+                </Text>
+              </TabsContent>
+            </Tabs>
+          )}
           
           <form onSubmit={handleSubmit} className='space-y-6'>
             <div className='flex space-x-4'>
@@ -195,6 +255,7 @@ export default function RegisterPage(): React.JSX.Element {
                 value={form.email}
                 onChange={handleChange('email')}
                 disabled={isLoading}
+                readOnly={!!invitation}
                 icon={<Mail className='w-5 h-5' />}
               />
               {errors.email && (
@@ -224,6 +285,7 @@ export default function RegisterPage(): React.JSX.Element {
                   {errors.password}
                 </Text>
               )}
+              {form.password && <PasswordStrengthMeter password={form.password} policy={passwordPolicy} />}
             </div>
             <div className='space-y-2'>
               <Label htmlFor='confirmPassword'>Confirm Password</Label>
@@ -247,6 +309,23 @@ export default function RegisterPage(): React.JSX.Element {
               )}
             </div>
 
+            {invitation?.defaultShareScope && (
+              <div className='flex items-start gap-3'>
+                <input
+                  id='acceptDefaultShare'
+                  type='checkbox'
+                  className='mt-1 h-4 w-4'
+                  checked={acceptDefaultShare}
+                  onChange={e => setAcceptDefaultShare(e.target.checked)}
+                  disabled={isLoading}
+                />
+                <Label htmlFor='acceptDefaultShare' className='font-normal leading-snug'>
+                  Share {SCOPE_LABELS[invitation.defaultShareScope]} of each new entry with {invitation.providerName}.
+                  You can change or revoke any share later.
+                </Label>
+              </div>
+            )}
+
             {registerError && (
               <Alert variant="destructive">
                 <AlertCircle className='h-4 w-4' />
@@ -0,0 +1,125 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { InputWithIcon } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardHeader } from '@/components/ui/card'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Heading } from '@/components/ui/heading'
+import { Text } from '@/components/ui/text'
+import { authService } from '@/services'
+import { AlertCircle, CheckCircle, KeyRound, Loader2, Lock } from 'lucide-react'
+
+export default function ResetPasswordPage(): React.JSX.Element {
+  const [token, setToken] = useState<string | null>(null)
+  const [password, setPassword] = useState('')
+  const [confirmPassword, setConfirmPassword] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState('')
+  const [isDone, setIsDone] = useState(false)
+
+  // Reset links look like /reset-password?token=<token>
+  useEffect(() => {
+    const value = new URLSearchParams(window.location.search).get('token')
+    if (value) {
+      setToken(value)
+    } else {
+      setError('This link is invalid or has expired')
+    }
+  }, [])
+
+  const handleSubmit = async (e: React.FormEvent): Promise<void> => {
+    e.preventDefault()
+    setError('')
+
+    if (password !== confirmPassword) {
+      setError('Passwords do not match')
+      return
+    }
+
+    if (!token) return
+
+    setIsLoading(true)
+    try {
+      await authService.confirmPasswordReset({ token, password })
+      setIsDone(true)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to reset password')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <div className='min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 py-12 px-4 sm:px-6 lg:px-8'>
+      <Card className='w-full max-w-md relative z-10 shadow-2xl border-0 bg-white/95 backdrop-blur-sm'>
+        <CardHeader className='text-center pb-6 pt-8'>
+          <div className='mx-auto w-16 h-16 bg-gradient-to-r from-blue-600 to-purple-600 rounded-full flex items-center justify-center mb-4 shadow-lg'>
+            <KeyRound className='w-8 h-8 text-white' />
+          </div>
+          <Heading as='h1' size='2xl' variant='gradient'>
+            Choose a New Password
+          </Heading>
+        </CardHeader>
+        <CardContent className='space-y-6'>
+          {error && (
+            <Alert variant='destructive'>
+              <AlertCircle className='h-4 w-4' />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+          {isDone ? (
+            <Alert>
+              <CheckCircle className='h-4 w-4' />
+              <AlertDescription>
+                Your password has been reset and you have been signed out everywhere else.
+              </AlertDescription>
+            </Alert>
+          ) : (
+            <form onSubmit={handleSubmit} className='space-y-6'>
+              <div className='space-y-2'>
+                <Label htmlFor='password'>New password</Label>
+                <InputWithIcon
+                  id='password'
+                  name='password'
+                  type='password'
+                  autoComplete='new-password'
+                  required
+                  value={password}
+                  onChange={e => setPassword(e.target.value)}
+                  disabled={isLoading || !token}
+                  icon={<Lock className='w-5 h-5' />}
+                />
+              </div>
+              <div className='space-y-2'>
+                <Label htmlFor='confirmPassword'>Confirm new password</Label>
+                <InputWithIcon
+                  id='confirmPassword'
+                  name='confirmPassword'
+                  type='password'
+                  autoComplete='new-password'
+                  required
+                  value={confirmPassword}
+                  onChange={e => setConfirmPassword(e.target.value)}
+                  disabled={isLoading || !token}
+                  icon={<Lock className='w-5 h-5' />}
+                />
+              </div>
+              <Button type='submit' variant='gradient' size='lg' className='w-full' disabled={isLoading || !token}>
+                {isLoading ? <Loader2 className='w-4 h-4 mr-2 animate-spin' /> : null}
+                Reset password
+              </Button>
+            </form>
+          )}
+          <Text as='div' size='sm' variant='muted' className='text-center'>
+            <Link href={isDone ? '/login' : '/forgot-password'} className='text-primary hover:underline font-medium'>
+              {isDone ? 'Sign in' : 'Request a new link'}
+            </Link>
+          </Text>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
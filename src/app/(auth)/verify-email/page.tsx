@@ -0,0 +1,73 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader } from '@/components/ui/card'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Heading } from '@/components/ui/heading'
+import { Text } from '@/components/ui/text'
+import { authService } from '@/services'
+import { AlertCircle, CheckCircle, Loader2, MailCheck } from 'lucide-react'
+
+export default function VerifyEmailPage(): React.JSX.Element {
+  const [state, setState] = useState<'verifying' | 'verified' | 'failed'>('verifying')
+  const [error, setError] = useState('')
+
+  // Verification links look like /verify-email?token=<token>
+  useEffect(() => {
+    const token = new URLSearchParams(window.location.search).get('token')
+    if (!token) {
+      setError('This link is invalid or has expired')
+      setState('failed')
+      return
+    }
+
+    authService.verifyEmail({ token })
+      .then(() => setState('verified'))
+      .catch(err => {
+        setError(err instanceof Error ? err.message : 'Failed to verify email address')
+        setState('failed')
+      })
+  }, [])
+
+  return (
+    <div className='min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 py-12 px-4 sm:px-6 lg:px-8'>
+      <Card className='w-full max-w-md relative z-10 shadow-2xl border-0 bg-white/95 backdrop-blur-sm'>
+        <CardHeader className='text-center pb-6 pt-8'>
+          <div className='mx-auto w-16 h-16 bg-gradient-to-r from-green-600 to-blue-600 rounded-full flex items-center justify-center mb-4 shadow-lg'>
+            <MailCheck className='w-8 h-8 text-white' />
+          </div>
+          <Heading as='h1' size='2xl' variant='gradient'>
+            Verify Email
+          </Heading>
+        </CardHeader>
+        <CardContent className='space-y-6'>
+          {state === 'verifying' && (
+            <Text as='div' variant='muted' className='flex items-center justify-center'>
+              <Loader2 className='w-4 h-4 mr-2 animate-spin' />
+              Verifying your email address...
+            </Text>
+          )}
+          {state === 'verified' && (
+            <Alert>
+              <CheckCircle className='h-4 w-4' />
+              <AlertDescription>Your email address is verified. You can now sign in.</AlertDescription>
+            </Alert>
+          )}
+          {state === 'failed' && (
+            <Alert variant='destructive'>
+              <AlertCircle className='h-4 w-4' />
+              <AlertDescription>
+                {error}. Sign in with your password to request a new link.
+              </AlertDescription>
+            </Alert>
+          )}
+          <Button variant='gradient' size='lg' className='w-full' asChild>
+            <Link href='/login'>Go to sign in</Link>
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,129 @@
+'use client'
+
+import { useState } from 'react'
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { InputWithIcon } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardHeader } from '@/components/ui/card'
+import { Alert, AlertTitle, AlertDescription } from '@/components/ui/alert'
+import { Heading } from '@/components/ui/heading'
+import { authService } from '@/services'
+import { AlertCircle, KeyRound, Loader2, Lock } from 'lucide-react'
+
+export default function ChangePasswordPage(): React.JSX.Element {
+  const { data: session, update } = useSession()
+  const router = useRouter()
+  const [currentPassword, setCurrentPassword] = useState('')
+  const [newPassword, setNewPassword] = useState('')
+  const [confirmPassword, setConfirmPassword] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState('')
+
+  const handleSubmit = async (e: React.FormEvent): Promise<void> => {
+    e.preventDefault()
+    setError('')
+
+    if (newPassword !== confirmPassword) {
+      setError('New passwords do not match')
+      return
+    }
+
+    setIsLoading(true)
+    try {
+      await authService.changePassword({ currentPassword, newPassword })
+      // Re-run the jwt callback so middleware stops holding the user here
+      await update()
+      router.push('/')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to change password')
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <div className='min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 py-12 px-4 sm:px-6 lg:px-8'>
+      <Card className='w-full max-w-md relative z-10 shadow-2xl border-0 bg-white/95 backdrop-blur-sm'>
+        <CardHeader className='text-center pb-6 pt-8'>
+          <div className='mx-auto w-16 h-16 bg-gradient-to-r from-blue-600 to-purple-600 rounded-full flex items-center justify-center mb-4 shadow-lg'>
+            <KeyRound className='w-8 h-8 text-white' />
+          </div>
+          <Heading as='h1' size='2xl' variant='gradient'>
+            Change Password
+          </Heading>
+        </CardHeader>
+        <CardContent className='space-y-6'>
+          {session?.passwordResetRequired && (
+            <Alert>
+              <AlertCircle className='h-4 w-4' />
+              <AlertTitle>New password required</AlertTitle>
+              <AlertDescription>
+                Your password has expired or an administrator has asked you to choose a new one before continuing.
+              </AlertDescription>
+            </Alert>
+          )}
+          {error && (
+            <Alert variant='destructive'>
+              <AlertCircle className='h-4 w-4' />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+          <form onSubmit={handleSubmit} className='space-y-6'>
+            <div className='space-y-2'>
+              <Label htmlFor='currentPassword'>Current password</Label>
+              <InputWithIcon
+                id='currentPassword'
+                name='currentPassword'
+                type='password'
+                autoComplete='current-password'
+                required
+                value={currentPassword}
+                onChange={e => setCurrentPassword(e.target.value)}
+                disabled={isLoading}
+                icon={<Lock className='w-5 h-5' />}
+              />
+            </div>
+            <div className='space-y-2'>
+              <Label htmlFor='newPassword'>New password</Label>
+              <InputWithIcon
+                id='newPassword'
+                name='newPassword'
+                type='password'
+                autoComplete='new-password'
+                required
+                value={newPassword}
+                onChange={e => setNewPassword(e.target.value)}
+                disabled={isLoading}
+                icon={<Lock className='w-5 h-5' />}
+              />
+            </div>
+            <div className='space-y-2'>
+              <Label htmlFor='confirmPassword'>Confirm new password</Label>
+              <InputWithIcon
+                id='confirmPassword'
+                name='confirmPassword'
+                type='password'
+                autoComplete='new-password'
+                required
+                value={confirmPassword}
+                onChange={e => setConfirmPassword(e.target.value)}
+                disabled={isLoading}
+                icon={<Lock className='w-5 h-5' />}
+              />
+            </div>
+            <Button type='submit' variant='gradient' size='lg' className='w-full' disabled={isLoading}>
+              {isLoading ? <Loader2 className='w-4 h-4 mr-2 animate-spin' /> : null}
+              Change password
+            </Button>
+            {!session?.passwordResetRequired && (
+              <Button type='button' variant='ghost' className='w-full' onClick={() => router.back()}>
+                Cancel
+              </Button>
+            )}
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,183 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { signOut } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import { Card, CardContent } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog'
+import { PageHeader } from '@/components/ui/page-header'
+import { Text } from '@/components/ui/text'
+import { DashboardLayout } from '@/components/layout/DashboardLayout'
+import { useRoleBasedAuth } from '@/hooks/useRoleBasedAuth'
+import { formatDate } from '@/lib/entryUtils'
+import { authService } from '@/services'
+import { LogOut, Monitor, Smartphone } from 'lucide-react'
+import type { SessionListResponse } from '@/types/api'
+
+// Good enough to tell devices apart; the raw user agent is shown alongside
+function describeDevice(userAgent: string | null): { label: string; isMobile: boolean } {
+  if (!userAgent || userAgent === 'unknown') {
+    return { label: 'Unknown device', isMobile: false }
+  }
+
+  const browser = /Edg\//.test(userAgent) ? 'Edge'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : 'Browser'
+  const os = /iPhone|iPad/.test(userAgent) ? 'iOS'
+    : /Android/.test(userAgent) ? 'Android'
+    : /Mac OS X/.test(userAgent) ? 'macOS'
+    : /Windows/.test(userAgent) ? 'Windows'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : 'Unknown OS'
+
+  return { label: `${browser} on ${os}`, isMobile: /Mobile|Android|iPhone/.test(userAgent) }
+}
+
+export default function SessionsPage(): React.JSX.Element {
+  const { session, isLoading: authLoading, handleSignOut } = useRoleBasedAuth({})
+  const router = useRouter()
+  const [sessions, setSessions] = useState<SessionListResponse[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [pendingId, setPendingId] = useState<string | null>(null)
+
+  const fetchSessions = useCallback(async (): Promise<void> => {
+    setError('')
+    try {
+      setSessions(await authService.getSessions())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load sessions')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (session) {
+      fetchSessions()
+    }
+  }, [session, fetchSessions])
+
+  const handleRevoke = async (item: SessionListResponse): Promise<void> => {
+    if (item.current) {
+      await handleSignOut()
+      return
+    }
+
+    setPendingId(item.id)
+    setError('')
+    try {
+      await authService.revokeSession(item.id)
+      await fetchSessions()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign out session')
+    } finally {
+      setPendingId(null)
+    }
+  }
+
+  const handleSignOutEverywhere = async (): Promise<void> => {
+    setPendingId('all')
+    setError('')
+    try {
+      await authService.signOutEverywhere()
+      // This device's session is gone too; clear the cookie as well
+      await signOut({ redirect: false })
+      router.push('/login')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign out of all sessions')
+      setPendingId(null)
+    }
+  }
+
+  return (
+    <DashboardLayout
+      session={session}
+      isLoading={authLoading}
+      onSignOut={handleSignOut}
+      title="HIPAA Journal"
+      icon={Monitor}
+    >
+      <PageHeader
+        title="Devices & sessions"
+        description="Everywhere your account is currently signed in"
+        actions={
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="destructive" size="sm" disabled={pendingId !== null || sessions.length === 0}>
+                <LogOut className='w-4 h-4 mr-2' />
+                Sign out everywhere
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Sign out everywhere?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  Every device signed in to your account, including this one, will be signed out immediately.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={handleSignOutEverywhere}>
+                  Sign out everywhere
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        }
+      />
+
+      {error && (
+        <Alert variant="destructive" className="mb-6">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {isLoading ? (
+        <Text variant="muted">Loading sessions...</Text>
+      ) : (
+        <div className='space-y-4'>
+          {sessions.map(item => {
+            const device = describeDevice(item.userAgent)
+            const DeviceIcon = device.isMobile ? Smartphone : Monitor
+
+            return (
+              <Card key={item.id} className='shadow-lg border-0 bg-white/90 backdrop-blur-sm'>
+                <CardContent className='p-6 flex items-center justify-between gap-4'>
+                  <div className='flex items-start gap-4 min-w-0'>
+                    <DeviceIcon className='w-6 h-6 mt-1 shrink-0' aria-hidden="true" />
+                    <div className='min-w-0 space-y-1'>
+                      <div className='flex items-center gap-2'>
+                        <Text weight="medium">{device.label}</Text>
+                        {item.current && <Badge variant="secondary">This device</Badge>}
+                      </div>
+                      <Text as='div' size="sm" variant="muted">
+                        {item.ipAddress || 'Unknown IP'} • Signed in {formatDate(item.createdAt)} • Last active {formatDate(item.lastActiveAt)}
+                      </Text>
+                      <Text as='div' size="xs" variant="muted" className='truncate'>
+                        {item.userAgent}
+                      </Text>
+                    </div>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={pendingId !== null}
+                    onClick={() => handleRevoke(item)}
+                  >
+                    {pendingId === item.id ? 'Signing out...' : 'Sign out'}
+                  </Button>
+                </CardContent>
+              </Card>
+            )
+          })}
+        </div>
+      )}
+    </DashboardLayout>
+  )
+}
@@ -0,0 +1,336 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { PageHeader } from '@/components/ui/page-header'
+import { Text } from '@/components/ui/text'
+import { DashboardLayout } from '@/components/layout/DashboardLayout'
+import { useRoleBasedAuth } from '@/hooks/useRoleBasedAuth'
+import { formatDate } from '@/lib/entryUtils'
+import { auditService } from '@/services'
+import { AlertTriangle, Download, FileSearch, Loader2, ShieldCheck } from 'lucide-react'
+import type { AuditAction } from '@/types/database'
+import type { AuditChainVerificationResponse, AuditHealthResponse, AuditLogExportFormat, AuditLogFilters, AuditLogResponse } from '@/types/api'
+
+const ACTIONS: AuditAction[] = ['CREATE', 'READ', 'UPDATE', 'DELETE', 'SHARE', 'UNSHARE', 'LOGIN', 'LOGOUT', 'EXPORT', 'PRINT']
+
+// Form values; dates are yyyy-mm-dd from the date inputs
+interface FilterForm {
+  action: AuditAction | 'all'
+  resource: string
+  userId: string
+  entryId: string
+  shareId: string
+  startDate: string
+  endDate: string
+}
+
+const EMPTY_FILTERS: FilterForm = {
+  action: 'all',
+  resource: '',
+  userId: '',
+  entryId: '',
+  shareId: '',
+  startDate: '',
+  endDate: ''
+}
+
+// Date inputs are in local time; the range covers both days in full
+function toApiFilters(form: FilterForm): AuditLogFilters {
+  return {
+    action: form.action === 'all' ? undefined : form.action,
+    resource: form.resource.trim() || undefined,
+    userId: form.userId.trim() || undefined,
+    entryId: form.entryId.trim() || undefined,
+    shareId: form.shareId.trim() || undefined,
+    startDate: form.startDate ? new Date(`${form.startDate}T00:00:00`).toISOString() : undefined,
+    endDate: form.endDate ? new Date(`${form.endDate}T23:59:59.999`).toISOString() : undefined
+  }
+}
+
+function describeBacklog(health: AuditHealthResponse): string {
+  const parts = [
+    health.outboxPending === null ? 'Outbox unreachable' : `${health.outboxPending} events waiting to be written`,
+    health.outboxRetrying ? `${health.outboxRetrying} retrying` : null,
+    health.oldestPendingAt ? `oldest from ${formatDate(health.oldestPendingAt)}` : null,
+    health.memoryQueued ? `${health.memoryQueued} held in memory` : null,
+    health.dropped ? `${health.dropped} lost` : null
+  ]
+  return `${parts.filter(Boolean).join(', ')}.`
+}
+
+function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+export default function AuditLogPage(): React.JSX.Element {
+  const { session, isLoading: authLoading, handleSignOut } = useRoleBasedAuth({ requiredRole: 'ADMIN' })
+  const [form, setForm] = useState<FilterForm>(EMPTY_FILTERS)
+  const [filters, setFilters] = useState<AuditLogFilters>({})
+  const [logs, setLogs] = useState<AuditLogResponse[]>([])
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isLoadingMore, setIsLoadingMore] = useState(false)
+  const [exporting, setExporting] = useState<AuditLogExportFormat | null>(null)
+  const [isVerifying, setIsVerifying] = useState(false)
+  const [verification, setVerification] = useState<AuditChainVerificationResponse | null>(null)
+  const [health, setHealth] = useState<AuditHealthResponse | null>(null)
+  const [error, setError] = useState('')
+
+  const fetchLogs = useCallback(async (cursor?: string): Promise<void> => {
+    setError('')
+    try {
+      const page = await auditService.getLogs({ ...filters, cursor })
+      setLogs(current => cursor ? [...current, ...page.items] : page.items)
+      setNextCursor(page.nextCursor)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load audit log')
+    }
+  }, [filters])
+
+  useEffect(() => {
+    if (!session) return
+
+    setIsLoading(true)
+    fetchLogs().finally(() => setIsLoading(false))
+  }, [session, fetchLogs])
+
+  useEffect(() => {
+    if (!session) return
+
+    auditService.getHealth()
+      .then(setHealth)
+      .catch(() => setHealth(null))
+  }, [session])
+
+  const updateForm = (field: keyof FilterForm, value: string): void => {
+    setForm(current => ({ ...current, [field]: value }))
+  }
+
+  const handleApply = (e: React.FormEvent): void => {
+    e.preventDefault()
+    setFilters(toApiFilters(form))
+  }
+
+  const handleClear = (): void => {
+    setForm(EMPTY_FILTERS)
+    setFilters({})
+  }
+
+  const handleLoadMore = async (): Promise<void> => {
+    if (!nextCursor) return
+
+    setIsLoadingMore(true)
+    await fetchLogs(nextCursor)
+    setIsLoadingMore(false)
+  }
+
+  const handleExport = async (format: AuditLogExportFormat): Promise<void> => {
+    setExporting(format)
+    setError('')
+    try {
+      const blob = await auditService.exportLogs(filters, format)
+      downloadBlob(blob, `audit-log-${new Date().toISOString().slice(0, 10)}.${format}`)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export audit log')
+    } finally {
+      setExporting(null)
+    }
+  }
+
+  const handleVerify = async (): Promise<void> => {
+    setIsVerifying(true)
+    setError('')
+    try {
+      setVerification(await auditService.verifyChain())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to verify audit log')
+    } finally {
+      setIsVerifying(false)
+    }
+  }
+
+  return (
+    <DashboardLayout
+      session={session}
+      isLoading={authLoading}
+      onSignOut={handleSignOut}
+      title="Administration"
+      icon={FileSearch}
+    >
+      <PageHeader
+        title="Audit log"
+        description="Every access to and change of protected information, newest first"
+        actions={
+          <div className='flex items-center gap-2'>
+            <Button variant="outline" size="sm" onClick={handleVerify} disabled={isVerifying}>
+              {isVerifying ? <Loader2 className='w-4 h-4 mr-2 animate-spin' /> : <ShieldCheck className='w-4 h-4 mr-2' />}
+              Verify integrity
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => handleExport('csv')} disabled={exporting !== null}>
+              <Download className='w-4 h-4 mr-2' />
+              {exporting === 'csv' ? 'Exporting...' : 'CSV'}
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => handleExport('json')} disabled={exporting !== null}>
+              <Download className='w-4 h-4 mr-2' />
+              {exporting === 'json' ? 'Exporting...' : 'JSON'}
+            </Button>
+          </div>
+        }
+      />
+
+      {health && health.status !== 'healthy' && (
+        <Alert variant={health.status === 'unavailable' ? 'destructive' : 'default'} className="mb-6">
+          <AlertTriangle className='h-4 w-4' />
+          <AlertTitle>
+            {health.status === 'unavailable' ? 'Audit log unavailable' : 'Audit events are queued'}
+          </AlertTitle>
+          <AlertDescription>
+            {describeBacklog(health)}{' '}
+            {health.failMode === 'closed'
+              ? 'Reads of protected information are refused until audit writes succeed.'
+              : 'Reads continue and are audited once the log is reachable.'}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {verification && (
+        <Alert variant={verification.valid ? 'default' : 'destructive'} className="mb-6">
+          <AlertTitle>{verification.valid ? 'Audit log intact' : 'Audit log has been altered'}</AlertTitle>
+          <AlertDescription>
+            {verification.firstBrokenLink
+              ? `The hash chain breaks at entry #${verification.firstBrokenLink.sequence} (${formatDate(verification.firstBrokenLink.createdAt)}): ${verification.firstBrokenLink.reason.replace(/_/g, ' ')}.`
+              : `${verification.checked} entries verified. Latest hash: ${verification.headHash ?? 'none'}`}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {error && (
+        <Alert variant="destructive" className="mb-6">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card className='shadow-lg border-0 bg-white/90 backdrop-blur-sm mb-6'>
+        <CardContent className='p-6'>
+          <form onSubmit={handleApply} className='grid gap-4 sm:grid-cols-2 lg:grid-cols-4'>
+            <div className='space-y-2'>
+              <Label htmlFor='audit-action'>Action</Label>
+              <Select value={form.action} onValueChange={value => updateForm('action', value)}>
+                <SelectTrigger id='audit-action'>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value='all'>All actions</SelectItem>
+                  {ACTIONS.map(action => (
+                    <SelectItem key={action} value={action}>{action}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className='space-y-2'>
+              <Label htmlFor='audit-resource'>Resource</Label>
+              <Input id='audit-resource' placeholder='e.g. journal_entries' value={form.resource} onChange={e => updateForm('resource', e.target.value)} />
+            </div>
+            <div className='space-y-2'>
+              <Label htmlFor='audit-start'>From</Label>
+              <Input id='audit-start' type='date' value={form.startDate} onChange={e => updateForm('startDate', e.target.value)} />
+            </div>
+            <div className='space-y-2'>
+              <Label htmlFor='audit-end'>To</Label>
+              <Input id='audit-end' type='date' value={form.endDate} onChange={e => updateForm('endDate', e.target.value)} />
+            </div>
+            <div className='space-y-2'>
+              <Label htmlFor='audit-user'>User ID</Label>
+              <Input id='audit-user' value={form.userId} onChange={e => updateForm('userId', e.target.value)} />
+            </div>
+            <div className='space-y-2'>
+              <Label htmlFor='audit-entry'>Entry ID</Label>
+              <Input id='audit-entry' value={form.entryId} onChange={e => updateForm('entryId', e.target.value)} />
+            </div>
+            <div className='space-y-2'>
+              <Label htmlFor='audit-share'>Share ID</Label>
+              <Input id='audit-share' value={form.shareId} onChange={e => updateForm('shareId', e.target.value)} />
+            </div>
+            <div className='flex items-end gap-2'>
+              <Button type='submit'>Apply filters</Button>
+              <Button type='button' variant='outline' onClick={handleClear}>Clear</Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card className='shadow-lg border-0 bg-white/90 backdrop-blur-sm'>
+        <CardContent className='p-6'>
+          {isLoading ? (
+            <Text variant="muted">Loading audit log...</Text>
+          ) : logs.length === 0 ? (
+            <Text variant="muted">No audit entries match these filters.</Text>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>#</TableHead>
+                  <TableHead>Time</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Resource</TableHead>
+                  <TableHead>User</TableHead>
+                  <TableHead>IP address</TableHead>
+                  <TableHead>Details</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {logs.map(log => (
+                  <TableRow key={log.id}>
+                    <TableCell className='text-muted-foreground'>{log.sequence}</TableCell>
+                    <TableCell className='whitespace-nowrap'>{formatDate(log.createdAt)}</TableCell>
+                    <TableCell>
+                      <Badge variant={log.action === 'DELETE' || log.action === 'EXPORT' ? 'destructive' : 'secondary'}>
+                        {log.action}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <Text as='div' size="sm">{log.resource}</Text>
+                      {log.resourceId && <Text as='div' size="xs" variant="muted">{log.resourceId}</Text>}
+                    </TableCell>
+                    <TableCell>
+                      <Text as='div' size="sm">{log.userEmail ?? (log.userId ? 'Deleted user' : 'System')}</Text>
+                      {log.userId && <Text as='div' size="xs" variant="muted">{log.userId}</Text>}
+                    </TableCell>
+                    <TableCell>{log.ipAddress ?? '—'}</TableCell>
+                    <TableCell className='max-w-xs'>
+                      <Text as='div' size="xs" variant="muted" className='truncate' title={log.details ? JSON.stringify(log.details) : undefined}>
+                        {log.details ? JSON.stringify(log.details) : '—'}
+                      </Text>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          {nextCursor && (
+            <div className='flex justify-center mt-6'>
+              <Button variant="outline" onClick={handleLoadMore} disabled={isLoadingMore}>
+                {isLoadingMore && <Loader2 className='w-4 h-4 mr-2 animate-spin' />}
+                Load more
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </DashboardLayout>
+  )
+}
@@ -0,0 +1,229 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { PageHeader } from '@/components/ui/page-header'
+import { Heading } from '@/components/ui/heading'
+import { Text } from '@/components/ui/text'
+import { DashboardLayout } from '@/components/layout/DashboardLayout'
+import { useRoleBasedAuth } from '@/hooks/useRoleBasedAuth'
+import { adminService } from '@/services'
+import { UsersRound, X } from 'lucide-react'
+import type { AdminUserResponse, CareTeamResponse } from '@/types/api'
+
+function formatUserName(user: AdminUserResponse): string {
+  return [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email
+}
+
+export default function AdminCareTeamsPage(): React.JSX.Element {
+  const { session, isLoading: authLoading, handleSignOut } = useRoleBasedAuth({ requiredRole: 'ADMIN' })
+  const [teams, setTeams] = useState<CareTeamResponse[] | null>(null)
+  const [providers, setProviders] = useState<AdminUserResponse[]>([])
+  const [form, setForm] = useState({ name: '', description: '' })
+  const [selectedProvider, setSelectedProvider] = useState<Record<string, string>>({})
+  const [pendingId, setPendingId] = useState<string | null>(null)
+  const [error, setError] = useState('')
+  const [notice, setNotice] = useState('')
+
+  const fetchTeams = useCallback(async (): Promise<void> => {
+    try {
+      setTeams(await adminService.getCareTeams())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load care teams')
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!session) return
+
+    fetchTeams()
+    adminService.getUsers({ role: 'PROVIDER', limit: 100 })
+      .then(result => setProviders(result.items.filter(user => user.isActive)))
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load providers'))
+  }, [session, fetchTeams])
+
+  // Runs a change to one team, then reloads the list so member counts stay right
+  const runTeamAction = async (teamId: string, action: () => Promise<string>): Promise<void> => {
+    setPendingId(teamId)
+    setError('')
+    setNotice('')
+    try {
+      setNotice(await action())
+      await fetchTeams()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update care team')
+    } finally {
+      setPendingId(null)
+    }
+  }
+
+  const handleCreate = async (e: React.FormEvent): Promise<void> => {
+    e.preventDefault()
+    await runTeamAction('new', async () => {
+      const team = await adminService.createCareTeam({
+        name: form.name.trim(),
+        ...(form.description.trim() && { description: form.description.trim() })
+      })
+      setForm({ name: '', description: '' })
+      return `${team.name} created.`
+    })
+  }
+
+  const handleAddMember = (team: CareTeamResponse): Promise<void> =>
+    runTeamAction(team.id, async () => {
+      const granted = await adminService.addCareTeamMember(team.id, selectedProvider[team.id])
+      setSelectedProvider(current => ({ ...current, [team.id]: '' }))
+      return `Member added and given access to ${granted} shared ${granted === 1 ? 'entry' : 'entries'}.`
+    })
+
+  const handleRemoveMember = (team: CareTeamResponse, providerId: string): Promise<void> =>
+    runTeamAction(team.id, async () => {
+      const revoked = await adminService.removeCareTeamMember(team.id, providerId)
+      return `Member removed and lost access to ${revoked} ${revoked === 1 ? 'entry' : 'entries'}.`
+    })
+
+  const handleDelete = (team: CareTeamResponse): Promise<void> =>
+    runTeamAction(team.id, async () => {
+      await adminService.deleteCareTeam(team.id)
+      return `${team.name} deleted. Its members no longer see entries shared with the team.`
+    })
+
+  return (
+    <DashboardLayout
+      session={session}
+      isLoading={authLoading}
+      onSignOut={handleSignOut}
+      title="Administration"
+      icon={UsersRound}
+    >
+      <PageHeader
+        title="Care teams"
+        description="Group providers so a client can share an entry with the whole team at once"
+      />
+
+      {error && (
+        <Alert variant="destructive" className="mb-6">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {notice && (
+        <Alert className="mb-6">
+          <AlertDescription>{notice}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card className='shadow-lg border-0 bg-white/90 backdrop-blur-sm mb-6'>
+        <CardHeader>
+          <CardTitle>New team</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleCreate} className='grid gap-4 sm:grid-cols-[1fr_2fr_auto] sm:items-end'>
+            <div className='space-y-2'>
+              <Label htmlFor='team-name'>Name</Label>
+              <Input
+                id='team-name'
+                maxLength={100}
+                value={form.name}
+                onChange={e => setForm(current => ({ ...current, name: e.target.value }))}
+                placeholder='Eating disorders team'
+              />
+            </div>
+            <div className='space-y-2'>
+              <Label htmlFor='team-description'>Description</Label>
+              <Input
+                id='team-description'
+                maxLength={500}
+                value={form.description}
+                onChange={e => setForm(current => ({ ...current, description: e.target.value }))}
+                placeholder='Optional'
+              />
+            </div>
+            <Button type='submit' disabled={pendingId !== null || !form.name.trim()}>
+              Create team
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {!teams ? (
+        <Text variant="muted">Loading care teams...</Text>
+      ) : teams.length === 0 ? (
+        <Text variant="muted">There are no care teams yet.</Text>
+      ) : (
+        <div className='space-y-4'>
+          {teams.map(team => {
+            const candidates = providers.filter(provider => !team.members.some(member => member.providerId === provider.id))
+
+            return (
+              <Card key={team.id} className='shadow-lg border-0 bg-white/90 backdrop-blur-sm'>
+                <CardContent className='p-6 space-y-4'>
+                  <div className='flex flex-col sm:flex-row sm:items-start justify-between gap-3'>
+                    <div className='space-y-1'>
+                      <Heading as='h2' size='default'>{team.name}</Heading>
+                      {team.description && <Text as='p' size="sm" variant="muted">{team.description}</Text>}
+                      <Text as='p' size="xs" variant="muted">
+                        {team.activeShares} {team.activeShares === 1 ? 'entry' : 'entries'} shared with this team
+                      </Text>
+                    </div>
+                    <Button variant="destructive" size="sm" disabled={pendingId !== null} onClick={() => handleDelete(team)}>
+                      Delete team
+                    </Button>
+                  </div>
+
+                  <div className='flex flex-wrap gap-2'>
+                    {team.members.length === 0 ? (
+                      <Text size="sm" variant="muted">No members yet.</Text>
+                    ) : team.members.map(member => (
+                      <Badge key={member.providerId} variant="secondary" className='gap-1'>
+                        {member.name}
+                        <button
+                          type='button'
+                          aria-label={`Remove ${member.name}`}
+                          disabled={pendingId !== null}
+                          onClick={() => handleRemoveMember(team, member.providerId)}
+                        >
+                          <X className='w-3 h-3' />
+                        </button>
+                      </Badge>
+                    ))}
+                  </div>
+
+                  <div className='flex flex-col sm:flex-row gap-2'>
+                    <Select
+                      value={selectedProvider[team.id] ?? ''}
+                      onValueChange={value => setSelectedProvider(current => ({ ...current, [team.id]: value }))}
+                    >
+                      <SelectTrigger aria-label={`Add a provider to ${team.name}`} className='sm:max-w-xs'>
+                        <SelectValue placeholder="Add a provider..." />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {candidates.map(provider => (
+                          <SelectItem key={provider.id} value={provider.id}>{formatUserName(provider)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={pendingId !== null || !selectedProvider[team.id]}
+                      onClick={() => handleAddMember(team)}
+                    >
+                      Add member
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            )
+          })}
+        </div>
+      )}
+    </DashboardLayout>
+  )
+}
@@ -0,0 +1,158 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { PageHeader } from '@/components/ui/page-header'
+import { Text } from '@/components/ui/text'
+import { DashboardLayout } from '@/components/layout/DashboardLayout'
+import { useRoleBasedAuth } from '@/hooks/useRoleBasedAuth'
+import { formatDate } from '@/lib/entryUtils'
+import { adminService } from '@/services'
+import { Siren } from 'lucide-react'
+import type { EmergencyAccessResponse } from '@/types/api'
+
+export default function AdminEmergencyAccessPage(): React.JSX.Element {
+  const { session, isLoading: authLoading, handleSignOut } = useRoleBasedAuth({ requiredRole: 'ADMIN' })
+  const [pendingOnly, setPendingOnly] = useState(true)
+  const [accesses, setAccesses] = useState<EmergencyAccessResponse[] | null>(null)
+  const [notes, setNotes] = useState<Record<string, string>>({})
+  const [pendingId, setPendingId] = useState<string | null>(null)
+  const [error, setError] = useState('')
+
+  const fetchAccesses = useCallback(async (): Promise<void> => {
+    setError('')
+    try {
+      setAccesses(await adminService.getEmergencyAccess(pendingOnly))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load emergency access')
+    }
+  }, [pendingOnly])
+
+  useEffect(() => {
+    if (session) {
+      fetchAccesses()
+    }
+  }, [session, fetchAccesses])
+
+  const handleReview = async (access: EmergencyAccessResponse): Promise<void> => {
+    setPendingId(access.id)
+    setError('')
+    try {
+      const note = notes[access.id]?.trim()
+      const reviewed = await adminService.reviewEmergencyAccess(access.id, note ? { note } : {})
+      setAccesses(current => current && (pendingOnly
+        ? current.filter(item => item.id !== reviewed.id)
+        : current.map(item => item.id === reviewed.id ? reviewed : item)))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to record review')
+    } finally {
+      setPendingId(null)
+    }
+  }
+
+  return (
+    <DashboardLayout
+      session={session}
+      isLoading={authLoading}
+      onSignOut={handleSignOut}
+      title="Administration"
+      icon={Siren}
+    >
+      <PageHeader
+        title="Emergency access"
+        description="Review each time a provider broke the glass to read a client's entries"
+      />
+
+      {error && (
+        <Alert variant="destructive" className="mb-6">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Tabs
+        value={pendingOnly ? 'pending' : 'all'}
+        onValueChange={value => setPendingOnly(value === 'pending')}
+        className='mb-4'
+      >
+        <TabsList>
+          <TabsTrigger value='pending'>Awaiting review</TabsTrigger>
+          <TabsTrigger value='all'>All</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      <Card className='shadow-lg border-0 bg-white/90 backdrop-blur-sm'>
+        <CardContent className='p-6'>
+          {!accesses ? (
+            <Text variant="muted">Loading emergency access...</Text>
+          ) : accesses.length === 0 ? (
+            <Text variant="muted">{pendingOnly ? 'Nothing is waiting for review.' : 'No provider has used emergency access.'}</Text>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Provider</TableHead>
+                  <TableHead>Client</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>When</TableHead>
+                  <TableHead>Review</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {accesses.map(access => (
+                  <TableRow key={access.id}>
+                    <TableCell>{access.providerName}</TableCell>
+                    <TableCell>{access.clientName}</TableCell>
+                    <TableCell className='max-w-sm'>
+                      <Text as='div' size="sm" className='whitespace-pre-wrap'>{access.reason}</Text>
+                    </TableCell>
+                    <TableCell className='whitespace-nowrap'>
+                      <Text as='div' size="sm">{formatDate(access.createdAt)}</Text>
+                      <Text as='div' size="xs" variant="muted">
+                        {access.status === 'active'
+                          ? `Active until ${formatDate(access.expiresAt)}`
+                          : `${access.status === 'ended' ? 'Ended' : 'Expired'} ${formatDate(access.endedAt ?? access.expiresAt)}`}
+                      </Text>
+                    </TableCell>
+                    <TableCell className='min-w-56'>
+                      {access.reviewedAt ? (
+                        <div className='space-y-1'>
+                          <Badge variant="secondary">Reviewed {formatDate(access.reviewedAt)}</Badge>
+                          {access.reviewNote && <Text as='div' size="xs" variant="muted">{access.reviewNote}</Text>}
+                        </div>
+                      ) : access.status === 'active' ? (
+                        <Badge variant="destructive">In progress</Badge>
+                      ) : (
+                        <div className='flex gap-2'>
+                          <Input
+                            aria-label='Review note'
+                            placeholder='Note (optional)'
+                            maxLength={1000}
+                            value={notes[access.id] ?? ''}
+                            onChange={e => setNotes(current => ({ ...current, [access.id]: e.target.value }))}
+                          />
+                          <Button
+                            size="sm"
+                            disabled={pendingId !== null}
+                            onClick={() => handleReview(access)}
+                          >
+                            Mark reviewed
+                          </Button>
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </DashboardLayout>
+  )
+}
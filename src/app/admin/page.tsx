@@ -0,0 +1,148 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { PageHeader } from '@/components/ui/page-header'
+import { Heading } from '@/components/ui/heading'
+import { Text } from '@/components/ui/text'
+import { DashboardLayout } from '@/components/layout/DashboardLayout'
+import { useRoleBasedAuth } from '@/hooks/useRoleBasedAuth'
+import { adminService } from '@/services'
+import { FileSearch, LayoutDashboard, Settings, Siren, Users, UsersRound } from 'lucide-react'
+import type { ShareStatisticsResponse } from '@/types/api'
+import type { ShareScope } from '@/types/database'
+
+const SCOPE_LABELS: Record<ShareScope, string> = {
+  NONE: 'No access',
+  TITLE_ONLY: 'Title only',
+  SUMMARY_ONLY: 'Summary only',
+  FULL_ACCESS: 'Full access'
+}
+
+const SECTIONS = [
+  { href: '/admin/users', label: 'Users', description: 'Activate, unlock and reset accounts', icon: Users },
+  { href: '/admin/care-teams', label: 'Care teams', description: 'Group providers so clients can share with a team', icon: UsersRound },
+  { href: '/admin/settings', label: 'Settings', description: 'Timeouts and other practice-wide settings', icon: Settings },
+  { href: '/admin/audit', label: 'Audit log', description: 'Review, export and verify the audit trail', icon: FileSearch },
+  { href: '/admin/emergency-access', label: 'Emergency access', description: 'Review providers\' break-the-glass access', icon: Siren }
+]
+
+export default function AdminDashboard(): React.JSX.Element {
+  const { session, isLoading: authLoading, handleSignOut } = useRoleBasedAuth({ requiredRole: 'ADMIN' })
+  const [statistics, setStatistics] = useState<ShareStatisticsResponse | null>(null)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    if (!session) return
+
+    adminService.getShareStatistics()
+      .then(setStatistics)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load share statistics'))
+  }, [session])
+
+  const totals = statistics ? [
+    { label: 'Active shares', value: statistics.activeShares },
+    { label: 'Expiring within 7 days', value: statistics.expiringSoon },
+    { label: 'Expired', value: statistics.expiredShares },
+    { label: 'Revoked', value: statistics.revokedShares },
+    { label: 'Clients sharing', value: statistics.sharingClients }
+  ] : []
+
+  return (
+    <DashboardLayout
+      session={session}
+      isLoading={authLoading}
+      onSignOut={handleSignOut}
+      title="Administration"
+      icon={LayoutDashboard}
+    >
+      <PageHeader
+        title="Admin console"
+        description="Accounts, settings and sharing across the practice"
+      />
+
+      <div className='grid gap-4 sm:grid-cols-2 lg:grid-cols-4 mb-8'>
+        {SECTIONS.map(section => (
+          <Card key={section.href} className='shadow-lg border-0 bg-white/90 backdrop-blur-sm'>
+            <CardContent className='p-6 space-y-3'>
+              <div className='flex items-center gap-2'>
+                <section.icon className='w-5 h-5' aria-hidden="true" />
+                <Heading as='h2' size='default'>{section.label}</Heading>
+              </div>
+              <Text as='p' size="sm" variant="muted">{section.description}</Text>
+              <Button variant="outline" size="sm" asChild>
+                <Link href={section.href}>Open</Link>
+              </Button>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {error && (
+        <Alert variant="destructive" className="mb-6">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card className='shadow-lg border-0 bg-white/90 backdrop-blur-sm'>
+        <CardHeader>
+          <CardTitle>Sharing</CardTitle>
+        </CardHeader>
+        <CardContent className='space-y-6'>
+          {!statistics ? (
+            <Text variant="muted">Loading share statistics...</Text>
+          ) : (
+            <>
+              <div className='grid gap-4 sm:grid-cols-3 lg:grid-cols-5'>
+                {totals.map(total => (
+                  <div key={total.label}>
+                    <Text as='div' size="2xl" weight="bold">{total.value}</Text>
+                    <Text as='div' size="sm" variant="muted">{total.label}</Text>
+                  </div>
+                ))}
+              </div>
+
+              <div className='flex flex-wrap gap-x-6 gap-y-1'>
+                {Object.entries(statistics.activeByScope).map(([scope, count]) => (
+                  <Text key={scope} size="sm" variant="muted">
+                    {SCOPE_LABELS[scope as ShareScope]}: {count}
+                  </Text>
+                ))}
+              </div>
+
+              {statistics.providers.length === 0 ? (
+                <Text variant="muted">No provider has an active share.</Text>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Provider</TableHead>
+                      <TableHead>Active shares</TableHead>
+                      <TableHead>Clients</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {statistics.providers.map(provider => (
+                      <TableRow key={provider.providerId}>
+                        <TableCell>
+                          <Text as='div' size="sm">{provider.providerName}</Text>
+                          <Text as='div' size="xs" variant="muted">{provider.providerEmail}</Text>
+                        </TableCell>
+                        <TableCell>{provider.activeShares}</TableCell>
+                        <TableCell>{provider.clients}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </DashboardLayout>
+  )
+}
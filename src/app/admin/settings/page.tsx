@@ -0,0 +1,200 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { PageHeader } from '@/components/ui/page-header'
+import { Text } from '@/components/ui/text'
+import { DashboardLayout } from '@/components/layout/DashboardLayout'
+import { useRoleBasedAuth } from '@/hooks/useRoleBasedAuth'
+import { formatDate } from '@/lib/entryUtils'
+import { adminService } from '@/services'
+import { Settings } from 'lucide-react'
+import type { SystemConfigResponse } from '@/types/api'
+
+const EMPTY_SETTING = { key: '', value: '', description: '' }
+
+export default function AdminSettingsPage(): React.JSX.Element {
+  const { session, isLoading: authLoading, handleSignOut } = useRoleBasedAuth({ requiredRole: 'ADMIN' })
+  const [configs, setConfigs] = useState<SystemConfigResponse[] | null>(null)
+  const [drafts, setDrafts] = useState<Record<string, string>>({})
+  const [newSetting, setNewSetting] = useState(EMPTY_SETTING)
+  const [savingKey, setSavingKey] = useState<string | null>(null)
+  const [error, setError] = useState('')
+
+  const fetchConfigs = useCallback(async (): Promise<void> => {
+    setError('')
+    try {
+      setConfigs(await adminService.getSystemConfig())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load settings')
+    }
+  }, [])
+
+  useEffect(() => {
+    if (session) {
+      fetchConfigs()
+    }
+  }, [session, fetchConfigs])
+
+  const saveSetting = async (key: string, value: string, description?: string): Promise<boolean> => {
+    setSavingKey(key)
+    setError('')
+    try {
+      const saved = await adminService.updateSystemConfig(key, { value, ...(description && { description }) })
+      setConfigs(current => {
+        const others = (current ?? []).filter(config => config.key !== saved.key)
+        return [...others, saved].sort((a, b) => a.key.localeCompare(b.key))
+      })
+      setDrafts(current => {
+        const next = { ...current }
+        delete next[key]
+        return next
+      })
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save setting')
+      return false
+    } finally {
+      setSavingKey(null)
+    }
+  }
+
+  const handleAdd = async (e: React.FormEvent): Promise<void> => {
+    e.preventDefault()
+    if (await saveSetting(newSetting.key.trim(), newSetting.value, newSetting.description.trim())) {
+      setNewSetting(EMPTY_SETTING)
+    }
+  }
+
+  return (
+    <DashboardLayout
+      session={session}
+      isLoading={authLoading}
+      onSignOut={handleSignOut}
+      title="Administration"
+      icon={Settings}
+    >
+      <PageHeader
+        title="Settings"
+        description="Practice-wide configuration. Changes take effect within a minute and are audited."
+      />
+
+      {error && (
+        <Alert variant="destructive" className="mb-6">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card className='shadow-lg border-0 bg-white/90 backdrop-blur-sm mb-6'>
+        <CardContent className='p-6'>
+          {!configs ? (
+            <Text variant="muted">Loading settings...</Text>
+          ) : configs.length === 0 ? (
+            <Text variant="muted">No settings yet; defaults are in use.</Text>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Key</TableHead>
+                  <TableHead>Value</TableHead>
+                  <TableHead>Last changed</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {configs.map(config => {
+                  const draft = drafts[config.key]
+
+                  return (
+                    <TableRow key={config.key}>
+                      <TableCell>
+                        <Text as='div' size="sm" className='font-mono'>{config.key}</Text>
+                        {config.description && <Text as='div' size="xs" variant="muted">{config.description}</Text>}
+                      </TableCell>
+                      <TableCell className='min-w-48'>
+                        {config.readOnly ? (
+                          <div className='flex items-center gap-2'>
+                            <Text size="sm" variant="muted" className='truncate max-w-xs'>
+                              {config.value ?? '••••••••'}
+                            </Text>
+                            <Badge variant="outline">{config.isEncrypted ? 'Encrypted' : 'Managed'}</Badge>
+                          </div>
+                        ) : (
+                          <Input
+                            aria-label={`Value for ${config.key}`}
+                            value={draft ?? config.value ?? ''}
+                            onChange={e => setDrafts(current => ({ ...current, [config.key]: e.target.value }))}
+                          />
+                        )}
+                      </TableCell>
+                      <TableCell className='whitespace-nowrap'>
+                        <Text as='div' size="sm">{formatDate(config.updatedAt)}</Text>
+                      </TableCell>
+                      <TableCell>
+                        {!config.readOnly && (
+                          <Button
+                            size="sm"
+                            disabled={draft === undefined || draft === config.value || savingKey !== null}
+                            onClick={() => saveSetting(config.key, draft)}
+                          >
+                            {savingKey === config.key ? 'Saving...' : 'Save'}
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className='shadow-lg border-0 bg-white/90 backdrop-blur-sm'>
+        <CardHeader>
+          <CardTitle>Add a setting</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleAdd} className='grid gap-4 sm:grid-cols-3'>
+            <div className='space-y-2'>
+              <Label htmlFor='setting-key'>Key</Label>
+              <Input
+                id='setting-key'
+                placeholder='e.g. session.idle_timeout.CLIENT'
+                value={newSetting.key}
+                onChange={e => setNewSetting(current => ({ ...current, key: e.target.value }))}
+              />
+            </div>
+            <div className='space-y-2'>
+              <Label htmlFor='setting-value'>Value</Label>
+              <Input
+                id='setting-value'
+                value={newSetting.value}
+                onChange={e => setNewSetting(current => ({ ...current, value: e.target.value }))}
+              />
+            </div>
+            <div className='space-y-2'>
+              <Label htmlFor='setting-description'>Description</Label>
+              <Input
+                id='setting-description'
+                value={newSetting.description}
+                onChange={e => setNewSetting(current => ({ ...current, description: e.target.value }))}
+              />
+            </div>
+            <div>
+              <Button type='submit' disabled={!newSetting.key.trim() || savingKey !== null}>
+                Add setting
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </DashboardLayout>
+  )
+}
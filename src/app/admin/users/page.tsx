@@ -0,0 +1,225 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { PageHeader } from '@/components/ui/page-header'
+import { Text } from '@/components/ui/text'
+import { DashboardLayout } from '@/components/layout/DashboardLayout'
+import { useRoleBasedAuth } from '@/hooks/useRoleBasedAuth'
+import { formatDate } from '@/lib/entryUtils'
+import { adminService } from '@/services'
+import { Users } from 'lucide-react'
+import type { UserRole } from '@/types/database'
+import type { AdminUserAction, AdminUserResponse, PaginationResponse } from '@/types/api'
+
+const ROLES: UserRole[] = ['CLIENT', 'PROVIDER', 'ADMIN']
+
+function isLocked(user: AdminUserResponse): boolean {
+  return !!user.lockedUntil && new Date(user.lockedUntil) > new Date()
+}
+
+// Only offer the actions that would change something
+function availableActions(user: AdminUserResponse): Array<{ action: AdminUserAction; label: string }> {
+  return [
+    user.isActive
+      ? { action: 'deactivate' as const, label: 'Deactivate' }
+      : { action: 'activate' as const, label: 'Activate' },
+    ...(isLocked(user) ? [{ action: 'unlock' as const, label: 'Unlock' }] : []),
+    ...(!isLocked(user) && user.loginAttempts > 0 ? [{ action: 'reset_login_attempts' as const, label: 'Reset attempts' }] : []),
+    ...(!user.passwordResetRequired ? [{ action: 'require_password_reset' as const, label: 'Force password reset' }] : [])
+  ]
+}
+
+export default function AdminUsersPage(): React.JSX.Element {
+  const { session, isLoading: authLoading, handleSignOut } = useRoleBasedAuth({ requiredRole: 'ADMIN' })
+  const [search, setSearch] = useState('')
+  const [query, setQuery] = useState<{ search?: string; role?: UserRole; page: number }>({ page: 1 })
+  const [result, setResult] = useState<PaginationResponse<AdminUserResponse> | null>(null)
+  const [pendingId, setPendingId] = useState<string | null>(null)
+  const [error, setError] = useState('')
+
+  const fetchUsers = useCallback(async (): Promise<void> => {
+    setError('')
+    try {
+      setResult(await adminService.getUsers(query))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load users')
+    }
+  }, [query])
+
+  useEffect(() => {
+    if (session) {
+      fetchUsers()
+    }
+  }, [session, fetchUsers])
+
+  const handleSearch = (e: React.FormEvent): void => {
+    e.preventDefault()
+    setQuery(current => ({ ...current, search: search.trim() || undefined, page: 1 }))
+  }
+
+  const handleRoleChange = (value: string): void => {
+    setQuery(current => ({ ...current, role: value === 'all' ? undefined : value as UserRole, page: 1 }))
+  }
+
+  const handleAction = async (user: AdminUserResponse, action: AdminUserAction): Promise<void> => {
+    setPendingId(user.id)
+    setError('')
+    try {
+      const updated = await adminService.updateUser(user.id, action)
+      setResult(current => current && {
+        ...current,
+        items: current.items.map(item => item.id === updated.id ? updated : item)
+      })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update user')
+    } finally {
+      setPendingId(null)
+    }
+  }
+
+  return (
+    <DashboardLayout
+      session={session}
+      isLoading={authLoading}
+      onSignOut={handleSignOut}
+      title="Administration"
+      icon={Users}
+    >
+      <PageHeader
+        title="Users"
+        description="Every account in the practice. Each change is recorded in the audit log."
+      />
+
+      {error && (
+        <Alert variant="destructive" className="mb-6">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card className='shadow-lg border-0 bg-white/90 backdrop-blur-sm mb-6'>
+        <CardContent className='p-6'>
+          <form onSubmit={handleSearch} className='grid gap-4 sm:grid-cols-3'>
+            <div className='space-y-2 sm:col-span-2'>
+              <Label htmlFor='user-search'>Search</Label>
+              <Input id='user-search' placeholder='Name or email' value={search} onChange={e => setSearch(e.target.value)} />
+            </div>
+            <div className='space-y-2'>
+              <Label htmlFor='user-role'>Role</Label>
+              <Select value={query.role ?? 'all'} onValueChange={handleRoleChange}>
+                <SelectTrigger id='user-role'>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value='all'>All roles</SelectItem>
+                  {ROLES.map(role => (
+                    <SelectItem key={role} value={role}>{role}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card className='shadow-lg border-0 bg-white/90 backdrop-blur-sm'>
+        <CardContent className='p-6'>
+          {!result ? (
+            <Text variant="muted">Loading users...</Text>
+          ) : result.items.length === 0 ? (
+            <Text variant="muted">No users match.</Text>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>User</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Last sign-in</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {result.items.map(user => (
+                  <TableRow key={user.id}>
+                    <TableCell>
+                      <Text as='div' size="sm">{[user.firstName, user.lastName].filter(Boolean).join(' ') || '—'}</Text>
+                      <Text as='div' size="xs" variant="muted">{user.email}</Text>
+                    </TableCell>
+                    <TableCell>{user.role}</TableCell>
+                    <TableCell>
+                      <div className='flex flex-wrap gap-1'>
+                        <Badge variant={user.isActive ? 'secondary' : 'destructive'}>
+                          {user.isActive ? 'Active' : 'Inactive'}
+                        </Badge>
+                        {isLocked(user) && <Badge variant="destructive">Locked</Badge>}
+                        {user.loginAttempts > 0 && <Badge variant="outline">{user.loginAttempts} failed attempts</Badge>}
+                        {user.passwordResetRequired && <Badge variant="outline">Password reset pending</Badge>}
+                        {user.mfaEnabled && <Badge variant="outline">2FA</Badge>}
+                      </div>
+                    </TableCell>
+                    <TableCell className='whitespace-nowrap'>
+                      {user.lastLoginAt ? formatDate(user.lastLoginAt) : 'Never'}
+                    </TableCell>
+                    <TableCell>
+                      {user.id === session?.user.id ? (
+                        <Text size="xs" variant="muted">This is you</Text>
+                      ) : (
+                        <div className='flex flex-wrap gap-2'>
+                          {availableActions(user).map(({ action, label }) => (
+                            <Button
+                              key={action}
+                              variant={action === 'deactivate' ? 'destructive' : 'outline'}
+                              size="sm"
+                              disabled={pendingId !== null}
+                              onClick={() => handleAction(user, action)}
+                            >
+                              {label}
+                            </Button>
+                          ))}
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          {result && result.totalPages > 1 && (
+            <div className='flex items-center justify-between mt-6'>
+              <Text size="sm" variant="muted">
+                Page {result.currentPage} of {result.totalPages} ({result.totalItems} users)
+              </Text>
+              <div className='flex gap-2'>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={!result.hasPreviousPage}
+                  onClick={() => setQuery(current => ({ ...current, page: current.page - 1 }))}
+                >
+                  Previous
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={!result.hasNextPage}
+                  onClick={() => setQuery(current => ({ ...current, page: current.page + 1 }))}
+                >
+                  Next
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </DashboardLayout>
+  )
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth'
+import { updateClientAiPreference } from '@/lib/db/ai-preferences'
+import { getAuditContext, AuditUnavailableError } from '@/lib/security/audit'
+import { auditUnavailable } from '@/lib/api/responses'
+import type { ApiResponse } from '@/types/api'
+
+const updateAiPreferenceSchema = z.object({
+  aiPreference: z.enum(['NEVER', 'PROVIDER_ONLY', 'ALWAYS'])
+})
+
+// Set whether the client's entries may be summarized by AI, unless an entry says otherwise
+export async function PUT(request: NextRequest): Promise<NextResponse<ApiResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'CLIENT') {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const { aiPreference } = updateAiPreferenceSchema.parse(await request.json())
+
+    const context = getAuditContext(request, session.user.id, session.sessionId)
+    await updateClientAiPreference(session.user.id, aiPreference, context)
+
+    return NextResponse.json({ success: true, message: 'AI preference updated' })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: error.errors[0]?.message || 'Validation error' },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof AuditUnavailableError) {
+      return auditUnavailable()
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to update AI preference' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth'
+import { getDisclosureReport } from '@/lib/db/disclosures'
+import { getAuditContext, AuditUnavailableError } from '@/lib/security/audit'
+import { auditUnavailable } from '@/lib/api/responses'
+import type { ApiResponse, DisclosureReportResponse } from '@/types/api'
+
+const reportSchema = z.object({
+  from: z.string().datetime('Invalid start date').optional(),
+  to: z.string().datetime('Invalid end date').optional()
+}).refine(
+  ({ from, to }) => !from || !to || new Date(from) <= new Date(to),
+  { message: 'Start date must be before end date' }
+)
+
+// Accounting of disclosures for the signed-in user's own entries
+export async function GET(request: NextRequest): Promise<NextResponse<ApiResponse<DisclosureReportResponse>>> {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const { from, to } = reportSchema.parse(Object.fromEntries(searchParams.entries()))
+
+    const report = await getDisclosureReport(
+      session.user.id,
+      { from: from ? new Date(from) : undefined, to: to ? new Date(to) : undefined },
+      getAuditContext(request, session.user.id, session.sessionId)
+    )
+
+    return NextResponse.json({ success: true, data: report })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: error.errors[0]?.message || 'Validation error' },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof AuditUnavailableError) {
+      return auditUnavailable()
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to build disclosure report' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { getAuditContext } from '@/lib/security/audit'
+import { beginMfaEnrollment } from '@/lib/security/mfa'
+import type { ApiResponse, MfaEnrollmentResponse } from '@/types/api'
+
+// Start enrollment: issue a new TOTP secret and its otpauth URI / QR code
+export async function POST(request: NextRequest): Promise<NextResponse<ApiResponse<MfaEnrollmentResponse>>> {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const context = getAuditContext(request, session.user.id)
+    const enrollment = await beginMfaEnrollment(session.user.id, context)
+
+    return NextResponse.json({ success: true, data: enrollment })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to start enrollment' },
+      { status: 400 }
+    )
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth'
+import { getAuditContext } from '@/lib/security/audit'
+import { regenerateRecoveryCodes } from '@/lib/security/mfa'
+import type { ApiResponse, MfaRecoveryCodesResponse } from '@/types/api'
+
+const regenerateSchema = z.object({
+  code: z.string().min(1, 'Verification code is required')
+})
+
+// Replace all recovery codes; the old ones stop working immediately
+export async function POST(request: NextRequest): Promise<NextResponse<ApiResponse<MfaRecoveryCodesResponse>>> {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const { code } = regenerateSchema.parse(body)
+
+    const context = getAuditContext(request, session.user.id)
+    const recoveryCodes = await regenerateRecoveryCodes(session.user.id, code, context)
+
+    return NextResponse.json({ success: true, data: { recoveryCodes } })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: error.errors[0]?.message || 'Validation error' },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to regenerate recovery codes' },
+      { status: 400 }
+    )
+  }
+}
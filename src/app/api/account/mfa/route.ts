@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth'
+import { getAuditContext } from '@/lib/security/audit'
+import { disableMfa, getMfaStatus } from '@/lib/security/mfa'
+import type { ApiResponse, MfaStatusResponse } from '@/types/api'
+
+const disableMfaSchema = z.object({
+  code: z.string().min(1, 'Verification code is required')
+})
+
+// Get the signed-in user's two-factor status
+export async function GET(): Promise<NextResponse<ApiResponse<MfaStatusResponse>>> {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const status = await getMfaStatus(session.user.id)
+
+    return NextResponse.json({ success: true, data: status })
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch two-factor status' },
+      { status: 500 }
+    )
+  }
+}
+
+// Turn two-factor authentication off (not allowed for roles that require it)
+export async function DELETE(request: NextRequest): Promise<NextResponse<ApiResponse<MfaStatusResponse>>> {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const { code } = disableMfaSchema.parse(body)
+
+    const context = getAuditContext(request, session.user.id)
+    await disableMfa(session.user.id, code, context)
+
+    return NextResponse.json({
+      success: true,
+      data: await getMfaStatus(session.user.id),
+      message: 'Two-factor authentication disabled'
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: error.errors[0]?.message || 'Validation error' },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to disable two-factor authentication' },
+      { status: 400 }
+    )
+  }
+}
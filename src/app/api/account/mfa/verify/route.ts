@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth'
+import { getAuditContext } from '@/lib/security/audit'
+import { confirmMfaEnrollment } from '@/lib/security/mfa'
+import type { ApiResponse, MfaRecoveryCodesResponse } from '@/types/api'
+
+const verifyCodeSchema = z.object({
+  code: z.string().regex(/^\d{6}$/, 'Enter the 6-digit code from your authenticator app')
+})
+
+// Finish enrollment: confirm a code from the authenticator and issue recovery codes
+export async function POST(request: NextRequest): Promise<NextResponse<ApiResponse<MfaRecoveryCodesResponse>>> {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const { code } = verifyCodeSchema.parse(body)
+
+    const context = getAuditContext(request, session.user.id)
+    const recoveryCodes = await confirmMfaEnrollment(session.user.id, code, context)
+
+    return NextResponse.json({
+      success: true,
+      data: { recoveryCodes },
+      message: 'Two-factor authentication enabled'
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: error.errors[0]?.message || 'Validation error' },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to verify code' },
+      { status: 400 }
+    )
+  }
+}
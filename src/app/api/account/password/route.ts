@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth'
+import { changePassword } from '@/lib/db/users'
+import { getAuditContext } from '@/lib/security/audit'
+import { PasswordPolicyError } from '@/lib/security/password'
+import type { ApiResponse } from '@/types/api'
+
+const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, 'Current password is required'),
+  newPassword: z.string().min(1, 'New password is required')
+}).refine(data => data.currentPassword !== data.newPassword, {
+  message: 'New password must be different from the current one'
+})
+
+// Change the signed-in user's password
+export async function PUT(request: NextRequest): Promise<NextResponse<ApiResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const validatedData = changePasswordSchema.parse(body)
+
+    const context = getAuditContext(request, session.user.id, session.sessionId)
+    const changed = await changePassword(
+      session.user.id,
+      validatedData.currentPassword,
+      validatedData.newPassword,
+      context
+    )
+
+    if (!changed) {
+      return NextResponse.json(
+        { success: false, error: 'Incorrect password' },
+        { status: 403 }
+      )
+    }
+
+    return NextResponse.json({ success: true, message: 'Password changed' })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: error.errors[0]?.message || 'Validation error' },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof PasswordPolicyError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to change password' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { compare } from 'bcryptjs'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth'
+import { db } from '@/lib/db'
+import { deleteUserAccount, type AccountDeletionResult } from '@/lib/db/users'
+import { getAuditContext } from '@/lib/security/audit'
+import type { ApiResponse } from '@/types/api'
+
+const deleteAccountSchema = z.object({
+  password: z.string().min(1, 'Password is required'),
+  confirmation: z.literal('DELETE', {
+    errorMap: () => ({ message: 'Type DELETE to confirm account deletion' })
+  })
+})
+
+// Permanently delete the signed-in user's account and shred their data keys
+export async function DELETE(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<AccountDeletionResult>>> {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const validatedData = deleteAccountSchema.parse(body)
+
+    const user = await db.user.findUnique({
+      where: { id: session.user.id },
+      select: { hashedPassword: true }
+    })
+
+    if (!user?.hashedPassword || !(await compare(validatedData.password, user.hashedPassword))) {
+      return NextResponse.json(
+        { success: false, error: 'Incorrect password' },
+        { status: 403 }
+      )
+    }
+
+    const context = getAuditContext(request, session.user.id)
+    const result = await deleteUserAccount(session.user.id, context)
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: 'Account deleted'
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: error.errors[0]?.message || 'Validation error' },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { revokeSession } from '@/lib/db/sessions'
+import { getAuditContext } from '@/lib/security/audit'
+import type { ApiResponse } from '@/types/api'
+
+interface RouteParams {
+  params: Promise<Record<'id', string>>
+}
+
+// Sign out a single device
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<ApiResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id: sessionId } = await params
+
+    const context = getAuditContext(request, session.user.id, session.sessionId)
+    const revoked = await revokeSession(session.user.id, sessionId, context)
+
+    if (!revoked) {
+      return NextResponse.json(
+        { success: false, error: 'Session not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true, message: 'Session signed out' })
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Failed to sign out session' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { listActiveSessions, revokeAllSessions } from '@/lib/db/sessions'
+import { getAuditContext } from '@/lib/security/audit'
+import type { ApiResponse, SessionListResponse } from '@/types/api'
+
+// List the signed-in user's active sessions (devices)
+export async function GET(): Promise<NextResponse<ApiResponse<SessionListResponse[]>>> {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const sessions = await listActiveSessions(session.user.id, session.sessionId)
+
+    return NextResponse.json({ success: true, data: sessions })
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch sessions' },
+      { status: 500 }
+    )
+  }
+}
+
+// Sign out everywhere, including this device
+export async function DELETE(request: NextRequest): Promise<NextResponse<ApiResponse<{ revoked: number }>>> {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const context = getAuditContext(request, session.user.id, session.sessionId)
+    const revoked = await revokeAllSessions(session.user.id, context)
+
+    return NextResponse.json({
+      success: true,
+      data: { revoked },
+      message: 'Signed out of all sessions'
+    })
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Failed to sign out of all sessions' },
+      { status: 500 }
+    )
+  }
+}
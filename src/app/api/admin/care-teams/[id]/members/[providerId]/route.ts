@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { removeCareTeamMember, CARE_TEAM_MEMBER_NOT_FOUND_ERROR } from '@/lib/db/care-teams'
+import { getAuditContext } from '@/lib/security/audit'
+import type { ApiResponse } from '@/types/api'
+
+interface RouteParams {
+  params: Promise<Record<'id' | 'providerId', string>>
+}
+
+// Remove a provider from a care team, revoking the shares they had through it
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<ApiResponse<{ revokedShares: number }>>> {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const { id: teamId, providerId } = await params
+    const context = getAuditContext(request, session.user.id, session.sessionId)
+    const revokedShares = await removeCareTeamMember(teamId, providerId, context)
+
+    return NextResponse.json({ success: true, data: { revokedShares }, message: 'Member removed' })
+  } catch (error) {
+    if (error instanceof Error && error.message === CARE_TEAM_MEMBER_NOT_FOUND_ERROR) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to remove member' },
+      { status: 500 }
+    )
+  }
+}
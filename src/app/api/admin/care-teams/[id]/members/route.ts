@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth'
+import {
+  addCareTeamMember,
+  CARE_TEAM_MEMBER_EXISTS_ERROR,
+  CARE_TEAM_NOT_FOUND_ERROR,
+  CARE_TEAM_PROVIDER_ERROR
+} from '@/lib/db/care-teams'
+import { getAuditContext } from '@/lib/security/audit'
+import type { ApiResponse } from '@/types/api'
+
+interface RouteParams {
+  params: Promise<Record<'id', string>>
+}
+
+const addMemberSchema = z.object({
+  providerId: z.string().min(1, 'Provider is required')
+})
+
+// Add a provider to a care team; entries shared with the team are shared with them too
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<ApiResponse<{ grantedShares: number }>>> {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const { id: teamId } = await params
+    const body = await request.json()
+    const { providerId } = addMemberSchema.parse(body)
+
+    const context = getAuditContext(request, session.user.id, session.sessionId)
+    const grantedShares = await addCareTeamMember(teamId, providerId, context)
+
+    return NextResponse.json(
+      { success: true, data: { grantedShares }, message: 'Member added' },
+      { status: 201 }
+    )
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: error.errors[0]?.message || 'Validation error' },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof Error && error.message === CARE_TEAM_NOT_FOUND_ERROR) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 404 }
+      )
+    }
+
+    if (error instanceof Error && error.message === CARE_TEAM_PROVIDER_ERROR) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof Error && error.message === CARE_TEAM_MEMBER_EXISTS_ERROR) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to add member' },
+      { status: 500 }
+    )
+  }
+}
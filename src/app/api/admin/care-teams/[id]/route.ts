@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { deleteCareTeam, CARE_TEAM_NOT_FOUND_ERROR } from '@/lib/db/care-teams'
+import { getAuditContext } from '@/lib/security/audit'
+import type { ApiResponse } from '@/types/api'
+
+interface RouteParams {
+  params: Promise<Record<'id', string>>
+}
+
+// Delete a care team; its members lose the shares they had through it
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<ApiResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const { id: teamId } = await params
+    const context = getAuditContext(request, session.user.id, session.sessionId)
+    await deleteCareTeam(teamId, context)
+
+    return NextResponse.json({ success: true, message: 'Care team deleted' })
+  } catch (error) {
+    if (error instanceof Error && error.message === CARE_TEAM_NOT_FOUND_ERROR) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete care team' },
+      { status: 500 }
+    )
+  }
+}
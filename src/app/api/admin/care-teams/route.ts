@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth'
+import { createCareTeam, listCareTeams } from '@/lib/db/care-teams'
+import { getAuditContext } from '@/lib/security/audit'
+import type { ApiResponse, CareTeamResponse } from '@/types/api'
+
+const createCareTeamSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100, 'Name too long'),
+  description: z.string().trim().max(500, 'Description too long').optional()
+})
+
+// Every care team and its members
+export async function GET(): Promise<NextResponse<ApiResponse<CareTeamResponse[]>>> {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const teams = await listCareTeams()
+
+    return NextResponse.json({ success: true, data: teams })
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch care teams' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse<ApiResponse<CareTeamResponse>>> {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const validatedData = createCareTeamSchema.parse(body)
+
+    const context = getAuditContext(request, session.user.id, session.sessionId)
+    const team = await createCareTeam(validatedData, context)
+
+    return NextResponse.json(
+      { success: true, data: team, message: 'Care team created' },
+      { status: 201 }
+    )
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: error.errors[0]?.message || 'Validation error' },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to create care team' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth'
+import { MANAGED_CONFIG_ERROR, updateSystemConfig } from '@/lib/db/system-config'
+import { getAuditContext } from '@/lib/security/audit'
+import type { ApiResponse, SystemConfigResponse } from '@/types/api'
+
+interface RouteParams {
+  params: Promise<Record<'key', string>>
+}
+
+const configKeySchema = z.string()
+  .max(100, 'Setting key is too long')
+  .regex(/^[A-Za-z0-9_.-]+$/, 'Setting keys may only contain letters, numbers, dots, dashes and underscores')
+
+const updateConfigSchema = z.object({
+  value: z.string().max(10000, 'Value is too long'),
+  description: z.string().max(500).nullable().optional()
+})
+
+// Create or change a setting
+export async function PUT(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<ApiResponse<SystemConfigResponse>>> {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const key = configKeySchema.parse((await params).key)
+    const body = await request.json()
+    const validatedData = updateConfigSchema.parse(body)
+
+    const context = getAuditContext(request, session.user.id, session.sessionId)
+    const config = await updateSystemConfig(key, validatedData, context)
+
+    return NextResponse.json({ success: true, data: config, message: 'Setting saved' })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: error.errors[0]?.message || 'Validation error' },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof Error && error.message === MANAGED_CONFIG_ERROR) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 403 }
+      )
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to save setting' },
+      { status: 500 }
+    )
+  }
+}
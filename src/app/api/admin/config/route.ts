@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { listSystemConfig } from '@/lib/db/system-config'
+import type { ApiResponse, SystemConfigResponse } from '@/types/api'
+
+export async function GET(): Promise<NextResponse<ApiResponse<SystemConfigResponse[]>>> {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const configs = await listSystemConfig()
+
+    return NextResponse.json({ success: true, data: configs })
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch settings' },
+      { status: 500 }
+    )
+  }
+}
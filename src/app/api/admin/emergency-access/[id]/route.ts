@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth'
+import {
+  reviewEmergencyAccess,
+  EMERGENCY_ACCESS_IN_PROGRESS_ERROR,
+  EMERGENCY_ACCESS_NOT_FOUND_ERROR
+} from '@/lib/db/emergency-access'
+import { getAuditContext } from '@/lib/security/audit'
+import type { ApiResponse, EmergencyAccessResponse } from '@/types/api'
+
+interface RouteParams {
+  params: Promise<Record<'id', string>>
+}
+
+const reviewEmergencyAccessSchema = z.object({
+  note: z.string().trim().max(1000, 'Note too long').optional()
+})
+
+// Mark an emergency access as reviewed, with an optional note
+export async function PATCH(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<ApiResponse<EmergencyAccessResponse>>> {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const { id: accessId } = await params
+    const body = await request.json()
+    const { note } = reviewEmergencyAccessSchema.parse(body)
+
+    const context = getAuditContext(request, session.user.id, session.sessionId)
+    const access = await reviewEmergencyAccess(accessId, session.user.id, note, context)
+
+    return NextResponse.json({ success: true, data: access, message: 'Review recorded' })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: error.errors[0]?.message || 'Validation error' },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof Error && error.message === EMERGENCY_ACCESS_NOT_FOUND_ERROR) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 404 }
+      )
+    }
+
+    if (error instanceof Error && error.message === EMERGENCY_ACCESS_IN_PROGRESS_ERROR) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to record review' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth'
+import { listEmergencyAccessForReview, notifyEndedEmergencyAccess } from '@/lib/db/emergency-access'
+import type { ApiResponse, EmergencyAccessResponse } from '@/types/api'
+
+const listEmergencyAccessSchema = z.object({
+  pending: z.enum(['true', 'false']).optional()
+})
+
+// Every emergency access in the practice, newest first; `pending=true` for those not yet reviewed
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<EmergencyAccessResponse[]>>> {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const { pending } = listEmergencyAccessSchema.parse(Object.fromEntries(searchParams.entries()))
+
+    // Catch up on accesses that expired since the last notification run
+    await notifyEndedEmergencyAccess()
+
+    const accesses = await listEmergencyAccessForReview({ pendingOnly: pending === 'true' })
+
+    return NextResponse.json({ success: true, data: accesses })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: error.errors[0]?.message || 'Validation error' },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch emergency access' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { getPracticeShareStatistics } from '@/lib/db/shares'
+import type { ApiResponse, ShareStatisticsResponse } from '@/types/api'
+
+// Sharing across the whole practice, as counts only
+export async function GET(): Promise<NextResponse<ApiResponse<ShareStatisticsResponse>>> {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const statistics = await getPracticeShareStatistics()
+
+    return NextResponse.json({ success: true, data: statistics })
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch share statistics' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth'
+import { applyAdminUserAction, OWN_ACCOUNT_ERROR } from '@/lib/db/users'
+import { getAuditContext } from '@/lib/security/audit'
+import type { AdminUserResponse, ApiResponse } from '@/types/api'
+
+interface RouteParams {
+  params: Promise<Record<'id', string>>
+}
+
+const userActionSchema = z.object({
+  action: z.enum(['activate', 'deactivate', 'unlock', 'reset_login_attempts', 'require_password_reset'])
+})
+
+// Activate, deactivate or unlock an account, or make its owner pick a new password
+export async function PATCH(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<ApiResponse<AdminUserResponse>>> {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const { id: userId } = await params
+    const body = await request.json()
+    const { action } = userActionSchema.parse(body)
+
+    const context = getAuditContext(request, session.user.id, session.sessionId)
+    const user = await applyAdminUserAction(userId, action, context)
+
+    return NextResponse.json({ success: true, data: user, message: 'User updated' })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: error.errors[0]?.message || 'Validation error' },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof Error && error.message === 'User not found') {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 404 }
+      )
+    }
+
+    if (error instanceof Error && error.message === OWN_ACCOUNT_ERROR) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to update user' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth'
+import { listUsers } from '@/lib/db/users'
+import type { AdminUserResponse, ApiResponse, PaginationResponse } from '@/types/api'
+
+const listUsersSchema = z.object({
+  role: z.enum(['CLIENT', 'PROVIDER', 'ADMIN']).optional(),
+  search: z.string().trim().max(100).optional(),
+  page: z.coerce.number().int().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional()
+})
+
+// All accounts in the practice, newest first
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<PaginationResponse<AdminUserResponse>>>> {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const params = listUsersSchema.parse(Object.fromEntries(searchParams.entries()))
+
+    const users = await listUsers(params)
+
+    return NextResponse.json({ success: true, data: users })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: error.errors[0]?.message || 'Validation error' },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch users' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth'
+import { auditLogFiltersSchema, canReadAuditLog, exportAuditLogs } from '@/lib/db/audit-logs'
+import { getAuditContext, AuditUnavailableError } from '@/lib/security/audit'
+import { auditUnavailable } from '@/lib/api/responses'
+import type { ApiResponse } from '@/types/api'
+
+const exportAuditLogsSchema = auditLogFiltersSchema.extend({
+  format: z.enum(['csv', 'json']).default('csv')
+})
+
+const CONTENT_TYPES = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8'
+} as const
+
+// Download the rows matching the filters as CSV or JSON; audited as EXPORT
+export async function GET(request: NextRequest): Promise<NextResponse<ApiResponse> | Response> {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!canReadAuditLog(session.user.role)) {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const { format, ...filters } = exportAuditLogsSchema.parse(Object.fromEntries(searchParams.entries()))
+    const context = getAuditContext(request, session.user.id, session.sessionId)
+
+    const { body } = await exportAuditLogs(filters, format, context)
+    const filename = `audit-log-${new Date().toISOString().slice(0, 10)}.${format}`
+
+    return new Response(body, {
+      headers: {
+        'Content-Type': CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store'
+      }
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: error.errors[0]?.message || 'Validation error' },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof Error && error.message.startsWith('Export is limited')) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof AuditUnavailableError) {
+      return auditUnavailable()
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to export audit log' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { canReadAuditLog } from '@/lib/db/audit-logs'
+import { getAuditHealth } from '@/lib/security/audit-outbox'
+import type { ApiResponse, AuditHealthResponse } from '@/types/api'
+
+// Audit pipeline status: outbox backlog and recent write failures on this server
+export async function GET(): Promise<NextResponse<ApiResponse<AuditHealthResponse>>> {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!canReadAuditLog(session.user.role)) {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const health = await getAuditHealth()
+
+    return NextResponse.json(
+      { success: true, data: health },
+      { status: health.status === 'unavailable' ? 503 : 200 }
+    )
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Failed to check audit health' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth'
+import { AUDIT_LOG_MAX_PAGE_SIZE, auditLogFiltersSchema, canReadAuditLog, listAuditLogs } from '@/lib/db/audit-logs'
+import type { ApiResponse, AuditLogPageResponse } from '@/types/api'
+
+const listAuditLogsSchema = auditLogFiltersSchema.extend({
+  cursor: z.string().max(200).optional(),
+  limit: z.coerce.number().int().min(1).max(AUDIT_LOG_MAX_PAGE_SIZE).optional()
+})
+
+// Browse the audit log, newest first
+export async function GET(request: NextRequest): Promise<NextResponse<ApiResponse<AuditLogPageResponse>>> {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!canReadAuditLog(session.user.role)) {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const { cursor, limit, ...filters } = listAuditLogsSchema.parse(Object.fromEntries(searchParams.entries()))
+
+    const page = await listAuditLogs(filters, { cursor, limit })
+
+    return NextResponse.json({ success: true, data: page })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: error.errors[0]?.message || 'Validation error' },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof Error && error.message === 'Invalid cursor') {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch audit log' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { auditSystemAction, getAuditContext, AuditUnavailableError } from '@/lib/security/audit'
+import { auditUnavailable } from '@/lib/api/responses'
+import { verifyAuditChain } from '@/lib/security/audit-chain'
+import { canReadAuditLog } from '@/lib/db/audit-logs'
+import type { ApiResponse, AuditChainVerificationResponse } from '@/types/api'
+
+// Walk the audit log hash chain and report the first broken link, if any
+export async function GET(request: NextRequest): Promise<NextResponse<ApiResponse<AuditChainVerificationResponse>>> {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!canReadAuditLog(session.user.role)) {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const verification = await verifyAuditChain()
+
+    await auditSystemAction(
+      'READ',
+      'audit_logs',
+      getAuditContext(request, session.user.id, session.sessionId),
+      {
+        operation: 'verify_chain',
+        valid: verification.valid,
+        checked: verification.checked,
+        headSequence: verification.headSequence,
+        brokenAtSequence: verification.firstBrokenLink?.sequence ?? null
+      }
+    )
+
+    return NextResponse.json({ success: true, data: verification })
+  } catch (error) {
+    if (error instanceof AuditUnavailableError) {
+      return auditUnavailable()
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to verify audit log' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getInvitationDetails, INVALID_INVITATION_ERROR } from '@/lib/db/invitations'
+import type { ApiResponse, InvitationDetailsResponse } from '@/types/api'
+
+// Public: the registration page uses this to pre-fill an invited client's details
+export async function GET(request: NextRequest): Promise<NextResponse<ApiResponse<InvitationDetailsResponse>>> {
+  try {
+    const token = request.nextUrl.searchParams.get('token')
+    const invitation = token ? await getInvitationDetails(token) : null
+
+    if (!invitation) {
+      return NextResponse.json(
+        { success: false, error: INVALID_INVITATION_ERROR },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true, data: invitation })
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch invitation' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server'
+import { getPasswordPolicy } from '@/lib/security/password'
+import type { ApiResponse, PasswordPolicy } from '@/types/api'
+
+// Public: registration and reset forms show the rules before anyone signs in
+export async function GET(): Promise<NextResponse<ApiResponse<PasswordPolicy>>> {
+  try {
+    const policy = await getPasswordPolicy()
+
+    return NextResponse.json({ success: true, data: policy })
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch password policy' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { resetPassword, INVALID_ACCOUNT_TOKEN_ERROR } from '@/lib/db/account-tokens'
+import { getAuditContext } from '@/lib/security/audit'
+import { PasswordPolicyError } from '@/lib/security/password'
+import type { ApiResponse } from '@/types/api'
+
+const confirmResetSchema = z.object({
+  token: z.string().min(1, 'Reset token is required'),
+  password: z.string().min(1, 'Password is required')
+})
+
+// Set a new password with the token from a reset email
+export async function POST(request: NextRequest): Promise<NextResponse<ApiResponse>> {
+  try {
+    const body = await request.json()
+    const { token, password } = confirmResetSchema.parse(body)
+
+    await resetPassword(token, password, getAuditContext(request))
+
+    return NextResponse.json({ success: true, message: 'Password reset. You can now sign in.' })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: error.errors[0]?.message || 'Validation error' },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof PasswordPolicyError || (error instanceof Error && error.message === INVALID_ACCOUNT_TOKEN_ERROR)) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to reset password' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requestPasswordReset } from '@/lib/db/account-tokens'
+import { getAuditContext } from '@/lib/security/audit'
+import type { ApiResponse } from '@/types/api'
+
+const passwordResetSchema = z.object({
+  email: z.string().email('Invalid email address')
+})
+
+// Email a reset link; same answer for every address, so this can't be used to probe for accounts
+export async function POST(request: NextRequest): Promise<NextResponse<ApiResponse>> {
+  try {
+    const body = await request.json()
+    const { email } = passwordResetSchema.parse(body)
+
+    await requestPasswordReset(email, getAuditContext(request))
+
+    return NextResponse.json({
+      success: true,
+      message: 'If that address has an account, a password reset link is on its way'
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: error.errors[0]?.message || 'Validation error' },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to request password reset' },
+      { status: 500 }
+    )
+  }
+}
@@ -3,17 +3,20 @@ import { hash } from 'bcryptjs'
 import { z } from 'zod'
 import { db } from '@/lib/db'
 import { createAuditLog, getAuditContext } from '@/lib/security/audit'
+import { enforcePasswordPolicy, recordPasswordHistory, PasswordPolicyError } from '@/lib/security/password'
+import { acceptInvitation, INVALID_INVITATION_ERROR } from '@/lib/db/invitations'
+import { sendVerificationEmail } from '@/lib/db/account-tokens'
 import type { ApiResponse } from '@/types/api'
 import type { UserRole, User } from '@/types/database'
 
 const registerSchema = z.object({
   email: z.string().email('Invalid email address'),
-  password: z.string().min(12, 'Password must be at least 12 characters')
-    .regex(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]/, 
-      'Password must contain at least one lowercase letter, one uppercase letter, one number, and one special character'),
+  password: z.string().min(1, 'Password is required'),
   firstName: z.string().optional(),
   lastName: z.string().optional(),
-  role: z.enum(['CLIENT', 'PROVIDER']).optional()
+  role: z.enum(['CLIENT', 'PROVIDER']).optional(),
+  invitationToken: z.string().min(1).optional(),
+  acceptDefaultShare: z.boolean().optional()
 })
 
 export async function POST(request: NextRequest): Promise<NextResponse<ApiResponse<Pick<User, 'id'>>>> {
@@ -33,34 +36,75 @@ export async function POST(request: NextRequest): Promise<NextResponse<ApiRespon
       )
     }
 
+    await enforcePasswordPolicy(validatedData.password)
+
     const hashedPassword = await hash(validatedData.password, 12)
-    const role: UserRole = validatedData.role || 'CLIENT'
-
-    const user = await db.user.create({
-      data: {
-        email: validatedData.email,
-        firstName: validatedData.firstName,
-        lastName: validatedData.lastName,
-        hashedPassword,
-        role,
-        emailVerified: new Date() // In production, implement email verification
-      }
+    // An invitation can only ever create a client account
+    const role: UserRole = validatedData.invitationToken ? 'CLIENT' : validatedData.role || 'CLIENT'
+
+    const user = await db.$transaction(async (tx) => {
+      const created = await tx.user.create({
+        data: {
+          email: validatedData.email,
+          firstName: validatedData.firstName,
+          lastName: validatedData.lastName,
+          hashedPassword,
+          passwordChangedAt: new Date(),
+          role,
+          // The invitation link already proved the address; anyone else verifies by email
+          emailVerified: validatedData.invitationToken ? new Date() : null
+        }
+      })
+      await recordPasswordHistory(created.id, hashedPassword, tx)
+
+      const context = getAuditContext(request, created.id)
+
+      // The invitation email reached this address, so the inviting provider
+      // becomes the account's creator
+      const invitation = validatedData.invitationToken
+        ? await acceptInvitation(
+            validatedData.invitationToken,
+            created,
+            validatedData.acceptDefaultShare ?? false,
+            context,
+            tx
+          )
+        : null
+
+      const user = invitation
+        ? await tx.user.update({ where: { id: created.id }, data: { createdById: invitation.invitedById } })
+        : created
+
+      // Audit user creation
+      await createAuditLog(
+        {
+          action: 'CREATE',
+          resource: 'users',
+          resourceId: user.id,
+          details: { email: user.email, role: user.role, ...(invitation && { invitationId: invitation.id }) }
+        },
+        context,
+        tx
+      )
+
+      return user
     })
 
-    // Audit user creation
-    const context = getAuditContext(request, user.id)
-    await createAuditLog(
-      {
-        action: 'CREATE',
-        resource: 'users',
-        resourceId: user.id,
-        details: { email: user.email, role: user.role }
-      },
-      context
-    )
+    // The account exists either way; a lost email can be resent from the login page
+    if (!user.emailVerified) {
+      await sendVerificationEmail(user, getAuditContext(request, user.id)).catch(error => {
+        console.error('Failed to send verification email:', error)
+      })
+    }
 
     return NextResponse.json(
-      { success: true, data: { id: user.id }, message: 'User created successfully' },
+      {
+        success: true,
+        data: { id: user.id },
+        message: user.emailVerified
+          ? 'User created successfully'
+          : 'User created. Check your email to verify your address before signing in.'
+      },
       { status: 201 }
     )
   } catch (error) {
@@ -71,6 +115,14 @@ export async function POST(request: NextRequest): Promise<NextResponse<ApiRespon
       )
     }
 
+    if (error instanceof PasswordPolicyError ||
+        (error instanceof Error && error.message === INVALID_INVITATION_ERROR)) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      )
+    }
+
     return NextResponse.json(
       { success: false, error: 'Internal server error' },
       { status: 500 }
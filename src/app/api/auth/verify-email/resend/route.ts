@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { resendVerificationEmail } from '@/lib/db/account-tokens'
+import { getAuditContext } from '@/lib/security/audit'
+import type { ApiResponse } from '@/types/api'
+
+const resendSchema = z.object({
+  email: z.string().email('Invalid email address')
+})
+
+// Same answer for every address, so this can't be used to probe for accounts
+export async function POST(request: NextRequest): Promise<NextResponse<ApiResponse>> {
+  try {
+    const body = await request.json()
+    const { email } = resendSchema.parse(body)
+
+    await resendVerificationEmail(email, getAuditContext(request))
+
+    return NextResponse.json({
+      success: true,
+      message: 'If that address has an account awaiting verification, a new link is on its way'
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: error.errors[0]?.message || 'Validation error' },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to send verification email' },
+      { status: 500 }
+    )
+  }
+}
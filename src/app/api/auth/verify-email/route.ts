@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { verifyEmail, INVALID_ACCOUNT_TOKEN_ERROR } from '@/lib/db/account-tokens'
+import { getAuditContext } from '@/lib/security/audit'
+import type { ApiResponse } from '@/types/api'
+
+const verifyEmailSchema = z.object({
+  token: z.string().min(1, 'Verification token is required')
+})
+
+// Confirm an address from the link in the verification email
+export async function POST(request: NextRequest): Promise<NextResponse<ApiResponse>> {
+  try {
+    const body = await request.json()
+    const { token } = verifyEmailSchema.parse(body)
+
+    await verifyEmail(token, getAuditContext(request))
+
+    return NextResponse.json({ success: true, message: 'Email address verified' })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: error.errors[0]?.message || 'Validation error' },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof Error && error.message === INVALID_ACCOUNT_TOKEN_ERROR) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to verify email address' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { listCareTeams } from '@/lib/db/care-teams'
+import type { ApiResponse, CareTeamResponse } from '@/types/api'
+
+// Care teams a client can share with, and who is in each
+export async function GET(): Promise<NextResponse<ApiResponse<CareTeamResponse[]>>> {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'CLIENT') {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const teams = await listCareTeams({ withMembersOnly: true })
+
+    return NextResponse.json({ success: true, data: teams })
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch care teams' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth'
+import { revokeConsent, CONSENT_NOT_FOUND_ERROR } from '@/lib/db/consents'
+import { getAuditContext, AuditUnavailableError } from '@/lib/security/audit'
+import { auditUnavailable } from '@/lib/api/responses'
+import type { ApiResponse } from '@/types/api'
+
+interface RouteParams {
+  params: Promise<Record<'id', string>>
+}
+
+const revokeConsentSchema = z.object({
+  reason: z.string().trim().min(1, 'Reason is required').max(200, 'Reason too long')
+})
+
+// Revoke a consent and every share made under it
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<ApiResponse<{ revokedShares: number }>>> {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'CLIENT') {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const { id: consentId } = await params
+    const { reason } = revokeConsentSchema.parse(await request.json())
+
+    const context = getAuditContext(request, session.user.id, session.sessionId)
+    const revokedShares = await revokeConsent(consentId, session.user.id, reason, context)
+
+    return NextResponse.json({ success: true, data: { revokedShares }, message: 'Consent revoked' })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: error.errors[0]?.message || 'Validation error' },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof AuditUnavailableError) {
+      return auditUnavailable()
+    }
+
+    if (error instanceof Error && error.message === CONSENT_NOT_FOUND_ERROR) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to revoke consent' },
+      { status: 500 }
+    )
+  }
+}
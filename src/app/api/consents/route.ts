@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth'
+import {
+  listConsents,
+  createConsent,
+  CONSENT_EXPIRY_PAST_ERROR,
+  CONSENT_FORM_OUTDATED_ERROR,
+  CONSENT_PROVIDER_ERROR
+} from '@/lib/db/consents'
+import { getAuditContext, AuditUnavailableError } from '@/lib/security/audit'
+import { auditUnavailable } from '@/lib/api/responses'
+import type { ApiResponse, ConsentResponse } from '@/types/api'
+
+const createConsentSchema = z.object({
+  purpose: z.enum(['TREATMENT', 'AI_PROCESSING']),
+  providerId: z.string().cuid('Invalid provider ID').optional(),
+  scope: z.enum(['TITLE_ONLY', 'SUMMARY_ONLY', 'FULL_ACCESS']).optional(),
+  expiresAt: z.string().datetime().optional(),
+  formVersion: z.string().min(1),
+  signature: z.string().trim().min(2, 'Type your full name to sign').max(200, 'Signature too long')
+}).refine(
+  data => data.purpose !== 'TREATMENT' || (data.providerId && data.scope),
+  { message: 'Choose the provider and what they may see' }
+).refine(
+  data => !data.expiresAt || new Date(data.expiresAt) > new Date(),
+  { message: CONSENT_EXPIRY_PAST_ERROR }
+)
+
+// The client's consents, in force or not
+export async function GET(): Promise<NextResponse<ApiResponse<ConsentResponse[]>>> {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'CLIENT') {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const consents = await listConsents(session.user.id)
+
+    return NextResponse.json({ success: true, data: consents })
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch consents' },
+      { status: 500 }
+    )
+  }
+}
+
+// Sign a consent form
+export async function POST(request: NextRequest): Promise<NextResponse<ApiResponse<ConsentResponse>>> {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'CLIENT') {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const validatedData = createConsentSchema.parse(body)
+
+    const context = getAuditContext(request, session.user.id, session.sessionId)
+    const consent = await createConsent(session.user.id, validatedData, context)
+
+    return NextResponse.json(
+      { success: true, data: consent, message: 'Consent recorded' },
+      { status: 201 }
+    )
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: error.errors[0]?.message || 'Validation error' },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof AuditUnavailableError) {
+      return auditUnavailable()
+    }
+
+    if (error instanceof Error && (error.message === CONSENT_PROVIDER_ERROR || error.message === CONSENT_EXPIRY_PAST_ERROR)) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof Error && error.message === CONSENT_FORM_OUTDATED_ERROR) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to record consent' },
+      { status: 500 }
+    )
+  }
+}
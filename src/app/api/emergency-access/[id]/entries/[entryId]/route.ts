@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { getEmergencyAccessEntry, EMERGENCY_ACCESS_INACTIVE_ERROR } from '@/lib/db/emergency-access'
+import { getAuditContext, AuditUnavailableError } from '@/lib/security/audit'
+import { auditUnavailable } from '@/lib/api/responses'
+import type { ApiResponse, EmergencyAccessEntryResponse } from '@/types/api'
+
+interface RouteParams {
+  params: Promise<Record<'id' | 'entryId', string>>
+}
+
+// One of the client's entries in full, while the emergency access lasts
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<ApiResponse<EmergencyAccessEntryResponse>>> {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'PROVIDER') {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const { id: accessId, entryId } = await params
+    const context = getAuditContext(request, session.user.id, session.sessionId)
+    const entry = await getEmergencyAccessEntry(accessId, entryId, session.user.id, context)
+
+    if (!entry) {
+      return NextResponse.json(
+        { success: false, error: 'Entry not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true, data: entry })
+  } catch (error) {
+    if (error instanceof AuditUnavailableError) {
+      return auditUnavailable()
+    }
+
+    if (error instanceof Error && error.message === EMERGENCY_ACCESS_INACTIVE_ERROR) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 403 }
+      )
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch entry' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { getEmergencyAccessEntries, EMERGENCY_ACCESS_INACTIVE_ERROR } from '@/lib/db/emergency-access'
+import { getAuditContext } from '@/lib/security/audit'
+import type { ApiResponse, EmergencyAccessEntryResponse } from '@/types/api'
+
+interface RouteParams {
+  params: Promise<Record<'id', string>>
+}
+
+// The client's entries, while the emergency access lasts
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<ApiResponse<EmergencyAccessEntryResponse[]>>> {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'PROVIDER') {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const { id: accessId } = await params
+    const context = getAuditContext(request, session.user.id, session.sessionId)
+    const entries = await getEmergencyAccessEntries(accessId, session.user.id, context)
+
+    return NextResponse.json({ success: true, data: entries })
+  } catch (error) {
+    if (error instanceof Error && error.message === EMERGENCY_ACCESS_INACTIVE_ERROR) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 403 }
+      )
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch entries' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { getAssignedClients } from '@/lib/db/emergency-access'
+import type { ApiResponse, AssignedClientResponse } from '@/types/api'
+
+// Clients in the provider's care, the only ones emergency access can reach
+export async function GET(): Promise<NextResponse<ApiResponse<AssignedClientResponse[]>>> {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'PROVIDER') {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const clients = await getAssignedClients(session.user.id)
+
+    return NextResponse.json({ success: true, data: clients })
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch clients' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth'
+import {
+  listEmergencyAccessForProvider,
+  startEmergencyAccess,
+  CLIENT_NOT_ASSIGNED_ERROR,
+  EMERGENCY_ACCESS_ACTIVE_ERROR,
+  EMERGENCY_ACCESS_MAX_MINUTES
+} from '@/lib/db/emergency-access'
+import { getAuditContext } from '@/lib/security/audit'
+import type { ApiResponse, EmergencyAccessResponse } from '@/types/api'
+
+const startEmergencyAccessSchema = z.object({
+  clientId: z.string().min(1, 'Client is required'),
+  reason: z.string().trim().min(10, 'Describe the emergency in at least 10 characters').max(1000, 'Reason too long'),
+  durationMinutes: z.number().int().min(15).max(EMERGENCY_ACCESS_MAX_MINUTES).optional()
+})
+
+// The provider's emergency accesses, current and past
+export async function GET(): Promise<NextResponse<ApiResponse<EmergencyAccessResponse[]>>> {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'PROVIDER') {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const accesses = await listEmergencyAccessForProvider(session.user.id)
+
+    return NextResponse.json({ success: true, data: accesses })
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch emergency access' },
+      { status: 500 }
+    )
+  }
+}
+
+// Break the glass: open time-boxed access to an assigned client's entries
+export async function POST(request: NextRequest): Promise<NextResponse<ApiResponse<EmergencyAccessResponse>>> {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'PROVIDER') {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const validatedData = startEmergencyAccessSchema.parse(body)
+
+    const context = getAuditContext(request, session.user.id, session.sessionId)
+    const access = await startEmergencyAccess(session.user.id, validatedData, context)
+
+    return NextResponse.json(
+      { success: true, data: access, message: 'Emergency access granted' },
+      { status: 201 }
+    )
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: error.errors[0]?.message || 'Validation error' },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof Error && error.message === CLIENT_NOT_ASSIGNED_ERROR) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 404 }
+      )
+    }
+
+    if (error instanceof Error && error.message === EMERGENCY_ACCESS_ACTIVE_ERROR) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to grant emergency access' },
+      { status: 500 }
+    )
+  }
+}
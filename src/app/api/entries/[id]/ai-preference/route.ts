@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth'
+import { getAiPreference, updateEntryAiPreference, AI_PREFERENCE_ENTRY_ERROR } from '@/lib/db/ai-preferences'
+import { getAuditContext, AuditUnavailableError } from '@/lib/security/audit'
+import { auditUnavailable } from '@/lib/api/responses'
+import type { AiPreferenceResponse, ApiResponse } from '@/types/api'
+
+interface RouteParams {
+  params: Promise<Record<'id', string>>
+}
+
+const updateEntryAiPreferenceSchema = z.object({
+  aiPreference: z.enum(['NEVER', 'PROVIDER_ONLY', 'ALWAYS']).nullable()
+})
+
+// The entry's AI preference, the client's default, and which one applies
+export async function GET(
+  _request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<ApiResponse<AiPreferenceResponse>>> {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'CLIENT') {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const { id: entryId } = await params
+    const preference = await getAiPreference(entryId, session.user.id)
+
+    return NextResponse.json({ success: true, data: preference })
+  } catch (error) {
+    if (error instanceof Error && error.message === AI_PREFERENCE_ENTRY_ERROR) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch AI preference' },
+      { status: 500 }
+    )
+  }
+}
+
+// Set the entry apart from the client's AI preference, or null to follow it again
+export async function PUT(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<ApiResponse<AiPreferenceResponse>>> {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'CLIENT') {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const { id: entryId } = await params
+    const { aiPreference } = updateEntryAiPreferenceSchema.parse(await request.json())
+
+    const context = getAuditContext(request, session.user.id, session.sessionId)
+    await updateEntryAiPreference(entryId, session.user.id, aiPreference, context)
+    const preference = await getAiPreference(entryId, session.user.id)
+
+    return NextResponse.json({ success: true, data: preference, message: 'AI preference updated' })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: error.errors[0]?.message || 'Validation error' },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof AuditUnavailableError) {
+      return auditUnavailable()
+    }
+
+    if (error instanceof Error && error.message === AI_PREFERENCE_ENTRY_ERROR) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to update AI preference' },
+      { status: 500 }
+    )
+  }
+}
@@ -3,8 +3,12 @@ import { getServerSession } from 'next-auth/next'
 import { z } from 'zod'
 import { authOptions } from '@/lib/auth'
 import { db } from '@/lib/db'
-import { createAuditLog, getAuditContext } from '@/lib/security/audit'
+import { createAuditLog, getAuditContext, AuditUnavailableError } from '@/lib/security/audit'
+import { auditUnavailable } from '@/lib/api/responses'
 import { toPlainText } from '@/lib/utils/tiptap-parser'
+import { normalizeTags } from '@/lib/utils/entry-utils'
+import { applyAutomaticShares } from '@/lib/db/shares'
+import { summaryStalenessData } from '@/lib/db/summary-cache'
 import type { ApiResponse } from '@/types/api'
 import type { JournalEntry } from '@/types/database'
 
@@ -57,8 +61,7 @@ export async function GET(
         action: 'READ',
         resource: 'journal_entries',
         resourceId: entryId,
-        entryId,
-        details: { title: entry.title }
+        entryId
       },
       context
     )
@@ -67,7 +70,11 @@ export async function GET(
       success: true,
       data: entry as JournalEntry
     })
-  } catch {
+  } catch (error) {
+    if (error instanceof AuditUnavailableError) {
+      return auditUnavailable()
+    }
+
     return NextResponse.json(
       { success: false, error: 'Internal server error' },
       { status: 500 }
@@ -110,6 +117,8 @@ export async function PUT(
 
     const updateData: Parameters<typeof db.journalEntry.update>[0]['data'] = {
       ...validatedData,
+      ...(validatedData.tags && { tags: normalizeTags(validatedData.tags) }),
+      ...summaryStalenessData(existingEntry, validatedData),
       updatedAt: new Date()
     }
 
@@ -130,26 +139,35 @@ export async function PUT(
       updateData.publishedAt = null
     }
 
-    const updatedEntry = await db.journalEntry.update({
-      where: { id: entryId },
-      data: updateData
-    })
-
-    // Audit log
+    // Update and audit in one transaction, so neither happens without the other
     const context = getAuditContext(request, session.user.id)
-    await createAuditLog(
-      {
-        action: 'UPDATE',
-        resource: 'journal_entries',
-        resourceId: entryId,
-        entryId,
-        details: { 
-          changes: Object.keys(validatedData),
-          title: updatedEntry.title 
-        }
-      },
-      context
-    )
+    const updatedEntry = await db.$transaction(async (tx) => {
+      const updated = await tx.journalEntry.update({
+        where: { id: entryId },
+        data: updateData
+      })
+
+      await createAuditLog(
+        {
+          action: 'UPDATE',
+          resource: 'journal_entries',
+          resourceId: entryId,
+          entryId,
+          details: { 
+            changes: Object.keys(validatedData)
+          }
+        },
+        context,
+        tx
+      )
+
+      // New tags can bring the entry under a share rule
+      if (validatedData.tags) {
+        await applyAutomaticShares(updated, context, tx, { newEntry: false })
+      }
+
+      return updated
+    })
 
     return NextResponse.json({
       success: true,
@@ -199,8 +217,7 @@ export async function DELETE(
         _count: {
           select: {
             shares: true,
-            versions: true,
-            auditLogs: true
+            versions: true
           }
         }
       }
@@ -213,34 +230,37 @@ export async function DELETE(
       )
     }
 
+    const auditLogsCount = await db.auditLog.count({ where: { entryId } })
     const context = getAuditContext(request, session.user.id)
 
-    // Audit log BEFORE deletion (for compliance)
-    await createAuditLog(
-      {
-        action: 'DELETE',
-        resource: 'journal_entries',
-        resourceId: entryId,
-        entryId,
-        details: {
-          title: existingEntry.title,
-          status: existingEntry.status,
-          sharesCount: existingEntry._count.shares,
-          versionsCount: existingEntry._count.versions,
-          auditLogsCount: existingEntry._count.auditLogs,
-          deletionReason: 'User requested deletion'
-        }
-      },
-      context
-    )
+    await db.$transaction(async (tx) => {
+      // Audit log BEFORE deletion (for compliance); rolls back with it
+      await createAuditLog(
+        {
+          action: 'DELETE',
+          resource: 'journal_entries',
+          resourceId: entryId,
+          entryId,
+          details: {
+            status: existingEntry.status,
+            sharesCount: existingEntry._count.shares,
+            versionsCount: existingEntry._count.versions,
+            auditLogsCount,
+            deletionReason: 'User requested deletion'
+          }
+        },
+        context,
+        tx
+      )
 
-    // Delete the entry (this will cascade to versions and shares due to onDelete: Cascade)
-    await db.journalEntry.delete({
-      where: { id: entryId }
+      // Delete the entry (this will cascade to versions and shares due to onDelete: Cascade)
+      await tx.journalEntry.delete({
+        where: { id: entryId }
+      })
     })
 
     // Note: Audit logs for the entry are preserved for compliance
-    // They remain in the database but with entryId still pointing to the deleted entry
+    // entryId is a plain column on AuditLog, so it still points to the deleted entry
 
     return NextResponse.json(
       {
@@ -249,7 +269,7 @@ export async function DELETE(
         data: {
           deletedShares: existingEntry._count.shares,
           deletedVersions: existingEntry._count.versions,
-          preservedAuditLogs: existingEntry._count.auditLogs
+          preservedAuditLogs: auditLogsCount
         }
       },
       { status: 200 }
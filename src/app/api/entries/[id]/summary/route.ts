@@ -3,6 +3,9 @@ import { getServerSession } from 'next-auth/next'
 import { z } from 'zod'
 import { authOptions } from '@/lib/auth'
 import { db } from '@/lib/db'
+import { entrySummarizableByUser } from '@/lib/db/query-helpers'
+import { checkAiProcessing, AI_BLOCKED_MESSAGES } from '@/lib/db/ai-preferences'
+import { isSummaryStale, maySaveSummary, reusableSummary, entrySummaryHash, summaryCacheData } from '@/lib/db/summary-cache'
 import { generateEntrySummary, validateSummaryContent } from '@/lib/ai/summarizer'
 import { toPlainText } from '@/lib/utils/tiptap-parser'
 import { createAuditLog, getAuditContext } from '@/lib/security/audit'
@@ -14,7 +17,8 @@ interface RouteParams {
 }
 
 const requestSchema = z.object({
-  saveToDatabase: z.boolean().optional().default(false)
+  saveToDatabase: z.boolean().optional().default(false),
+  forceRegenerate: z.boolean().optional().default(false)
 })
 
 /**
@@ -64,27 +68,13 @@ export async function POST(
     }
 
     const { id: entryId } = await params
-    const { saveToDatabase } = requestSchema.parse(await request.json())
+    const { saveToDatabase, forceRegenerate } = requestSchema.parse(await request.json())
 
     // Get entry with access check
     const entry = await db.journalEntry.findFirst({
       where: {
         id: entryId,
-        OR: [
-          { userId: session.user.id },
-          {
-            shares: {
-              some: {
-                OR: [
-                  { clientId: session.user.id },
-                  { providerId: session.user.id }
-                ],
-                scope: { in: ['SUMMARY_ONLY', 'FULL_ACCESS'] },
-                isRevoked: false
-              }
-            }
-          }
-        ]
+        ...entrySummarizableByUser(session.user.id)
       }
     })
 
@@ -95,21 +85,45 @@ export async function POST(
       )
     }
 
-    // Check if we have a saved summary (if requested)
-    if (!saveToDatabase && entry.aiSummary) {
+    // The saved summary stands while the entry, provider and prompt are unchanged
+    const context = getAuditContext(request, session.user.id)
+    const cached = forceRegenerate ? null : reusableSummary(entry)
+    if (cached) {
+      await createAuditLog(
+        {
+          action: 'READ',
+          resource: 'ai_summary',
+          resourceId: entryId,
+          entryId,
+          details: { cached: true }
+        },
+        context
+      )
+
       return NextResponse.json({
         success: true,
         data: {
-          summary: entry.aiSummary,
-          wordCount: entry.aiSummary.split(' ').length,
-          generatedAt: entry.aiSummaryAt?.toISOString() || new Date().toISOString()
+          summary: cached,
+          wordCount: cached.split(' ').length,
+          generatedAt: entry.aiSummaryAt?.toISOString() || new Date().toISOString(),
+          stale: false
         }
       })
     }
 
+    // Entry text only goes to the model as the owner allows
+    const { blocked } = await checkAiProcessing([entry], session.user.id, context)
+    if (blocked.length > 0) {
+      return NextResponse.json(
+        { success: false, error: AI_BLOCKED_MESSAGES[blocked[0].reason] },
+        { status: 403 }
+      )
+    }
+
     // Generate new summary with timeout
     // Prefer TipTap JSON content over contentHtml for more accurate text extraction
     const textContent = toPlainText(entry.content ?? entry.contentHtml ?? 'No content available')
+    const contentHash = entrySummaryHash(entry)
     
     // Create a timeout promise
     const timeoutPromise = new Promise<never>((_, reject) => 
@@ -132,19 +146,17 @@ export async function POST(
       throw new Error('Generated summary contains potentially identifying information')
     }
 
-    // Optionally save to database
-    if (saveToDatabase) {
+    // Optionally save to database, and always replace a saved summary that is out of date,
+    // but never someone else's current summary of the owner's entry
+    const saved = (saveToDatabase || !!entry.aiSummary) && maySaveSummary(entry, session.user.id)
+    if (saved) {
       await db.journalEntry.update({
         where: { id: entryId },
-        data: {
-          aiSummary: summaryResult.summary,
-          aiSummaryAt: new Date()
-        }
+        data: summaryCacheData(summaryResult, contentHash)
       })
     }
 
     // Audit log
-    const context = getAuditContext(request, session.user.id)
     await createAuditLog(
       {
         action: 'CREATE',
@@ -152,8 +164,9 @@ export async function POST(
         resourceId: entryId,
         entryId,
         details: {
-          savedToDb: saveToDatabase,
-          wordCount: summaryResult.wordCount
+          savedToDb: saved,
+          wordCount: summaryResult.wordCount,
+          model: summaryResult.model
         }
       },
       context
@@ -164,7 +177,8 @@ export async function POST(
       data: {
         summary: summaryResult.summary,
         wordCount: summaryResult.wordCount,
-        generatedAt: summaryResult.generatedAt.toISOString()
+        generatedAt: summaryResult.generatedAt.toISOString(),
+        stale: false
       }
     })
   } catch (error) {
@@ -182,7 +196,7 @@ export async function POST(
  * Get existing summary for an entry
  */
 export async function GET(
-  _request: NextRequest,
+  request: NextRequest,
   { params }: RouteParams
 ): Promise<NextResponse<ApiResponse<GenerateSummaryResponse | null>>> {
   try {
@@ -199,25 +213,13 @@ export async function GET(
     const entry = await db.journalEntry.findFirst({
       where: {
         id: entryId,
-        OR: [
-          { userId: session.user.id },
-          {
-            shares: {
-              some: {
-                OR: [
-                  { clientId: session.user.id },
-                  { providerId: session.user.id }
-                ],
-                scope: { in: ['SUMMARY_ONLY', 'FULL_ACCESS'] },
-                isRevoked: false
-              }
-            }
-          }
-        ]
+        ...entrySummarizableByUser(session.user.id)
       },
       select: {
         aiSummary: true,
-        aiSummaryAt: true
+        aiSummaryAt: true,
+        aiSummaryHash: true,
+        aiSummaryStale: true
       }
     })
 
@@ -228,12 +230,24 @@ export async function GET(
       })
     }
 
+    await createAuditLog(
+      {
+        action: 'READ',
+        resource: 'ai_summary',
+        resourceId: entryId,
+        entryId,
+        details: { stale: isSummaryStale(entry) }
+      },
+      getAuditContext(request, session.user.id)
+    )
+
     return NextResponse.json({
       success: true,
       data: {
         summary: entry.aiSummary,
         wordCount: entry.aiSummary.split(' ').length,
-        generatedAt: entry.aiSummaryAt?.toISOString() || new Date().toISOString()
+        generatedAt: entry.aiSummaryAt?.toISOString() || new Date().toISOString(),
+        stale: isSummaryStale(entry)
       }
     })
   } catch {
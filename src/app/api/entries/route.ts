@@ -5,6 +5,8 @@ import { sanitizeHtml } from '@/lib/security/sanitize'
 import { calculateWordCount, normalizeTags } from '@/lib/utils/entry-utils'
 import { entryAccessibleByUser, paginationParams, entryOrderBy, entrySearchWhere } from '@/lib/db/query-helpers'
 import { withAuth } from '@/lib/api/auth-wrapper'
+import { auditEntryAccess, getAuditContext } from '@/lib/security/audit'
+import { applyAutomaticShares } from '@/lib/db/shares'
 import { apiSuccess, apiPaginated, badRequest, serverError } from '@/lib/api/responses'
 import validator from 'validator'
 import type { User } from '@prisma/client'
@@ -51,19 +53,25 @@ export const POST = withAuth(
       const contentHtml = JSON.stringify(validatedData.content)
       const sanitizedHtml = sanitizeHtml(contentHtml)
       
-      // Create the entry
-      const entry = await db.journalEntry.create({
-        data: {
-          title: validatedData.title,
-          content: validatedData.content,
-          contentHtml: sanitizedHtml,
-          mood: validatedData.mood,
-          tags: validatedData.tags,
-          status: validatedData.status,
-          wordCount,
-          userId: user.id,
-          publishedAt: validatedData.status === 'PUBLISHED' ? new Date() : null,
-        }
+      // Create the entry, its audit record and any automatic shares together
+      const context = getAuditContext(request, user.id)
+      const entry = await db.$transaction(async (tx) => {
+        const created = await tx.journalEntry.create({
+          data: {
+            title: validatedData.title,
+            content: validatedData.content,
+            contentHtml: sanitizedHtml,
+            mood: validatedData.mood,
+            tags: validatedData.tags,
+            status: validatedData.status,
+            wordCount,
+            userId: user.id,
+            publishedAt: validatedData.status === 'PUBLISHED' ? new Date() : null,
+          }
+        })
+        await auditEntryAccess(created.id, 'CREATE', context, undefined, tx)
+        await applyAutomaticShares(created, context, tx, { newEntry: true })
+        return created
       })
 
       return apiSuccess({ id: entry.id }, 'Entry created successfully', 201)
@@ -74,8 +82,7 @@ export const POST = withAuth(
       }
       return serverError('Failed to create entry')
     }
-  },
-  { auditAction: 'CREATE', auditResource: 'journal_entries' }
+  }
 )
 
 // Get user's journal entries
@@ -127,6 +134,7 @@ export const GET = withAuth(
             publishedAt: true,
             aiSummary: true,
             aiSummaryAt: true,
+            aiSummaryStale: true,
           }
         }),
         db.journalEntry.count({ where })
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { revokeInvitation, INVITATION_NOT_PENDING_ERROR } from '@/lib/db/invitations'
+import { getAuditContext } from '@/lib/security/audit'
+import type { ApiResponse } from '@/types/api'
+
+interface RouteParams {
+  params: Promise<Record<'id', string>>
+}
+
+// Revoke a pending invitation so its link stops working
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<ApiResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'PROVIDER') {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const { id: invitationId } = await params
+    const context = getAuditContext(request, session.user.id, session.sessionId)
+    await revokeInvitation(invitationId, session.user.id, context)
+
+    return NextResponse.json({ success: true, message: 'Invitation revoked' })
+  } catch (error) {
+    if (error instanceof Error && error.message === INVITATION_NOT_PENDING_ERROR) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to revoke invitation' },
+      { status: 500 }
+    )
+  }
+}
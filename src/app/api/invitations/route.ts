@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth'
+import { createInvitation, listInvitations, EXISTING_ACCOUNT_ERROR } from '@/lib/db/invitations'
+import { getAuditContext } from '@/lib/security/audit'
+import type { ApiResponse, InvitationResponse } from '@/types/api'
+
+const createInvitationSchema = z.object({
+  email: z.string().email('Invalid email address'),
+  firstName: z.string().trim().max(100).optional(),
+  lastName: z.string().trim().max(100).optional(),
+  defaultShareScope: z.enum(['TITLE_ONLY', 'SUMMARY_ONLY', 'FULL_ACCESS']).nullable().optional()
+})
+
+// List the invitations the provider has sent
+export async function GET(): Promise<NextResponse<ApiResponse<InvitationResponse[]>>> {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'PROVIDER') {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const invitations = await listInvitations(session.user.id)
+
+    return NextResponse.json({ success: true, data: invitations })
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch invitations' },
+      { status: 500 }
+    )
+  }
+}
+
+// Invite a new client by email
+export async function POST(request: NextRequest): Promise<NextResponse<ApiResponse<InvitationResponse>>> {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'PROVIDER') {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const validatedData = createInvitationSchema.parse(body)
+
+    const context = getAuditContext(request, session.user.id, session.sessionId)
+    const invitation = await createInvitation(session.user.id, validatedData, context)
+
+    return NextResponse.json(
+      { success: true, data: invitation, message: 'Invitation sent' },
+      { status: 201 }
+    )
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: error.errors[0]?.message || 'Validation error' },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof Error && error.message === EXISTING_ACCOUNT_ERROR) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to send invitation' },
+      { status: 500 }
+    )
+  }
+}
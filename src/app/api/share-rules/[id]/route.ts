@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { deleteShareRule, SHARE_RULE_NOT_FOUND_ERROR } from '@/lib/db/share-rules'
+import { getAuditContext } from '@/lib/security/audit'
+import type { ApiResponse } from '@/types/api'
+
+interface RouteParams {
+  params: Promise<Record<'id', string>>
+}
+
+// Delete a rule; ?revokeShares=true also revokes the shares it made
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<ApiResponse<{ revokedShares: number }>>> {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'CLIENT') {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const { id: ruleId } = await params
+    const revokeShares = request.nextUrl.searchParams.get('revokeShares') === 'true'
+    const context = getAuditContext(request, session.user.id, session.sessionId)
+    const revokedShares = await deleteShareRule(ruleId, session.user.id, { revokeShares }, context)
+
+    return NextResponse.json({
+      success: true,
+      data: { revokedShares },
+      message: 'Share rule deleted'
+    })
+  } catch (error) {
+    if (error instanceof Error && error.message === SHARE_RULE_NOT_FOUND_ERROR) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete share rule' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth'
+import { createShareRule, listShareRules, SHARE_RULE_PROVIDER_ERROR } from '@/lib/db/share-rules'
+import { CONSENT_REQUIRED_ERROR } from '@/lib/db/consents'
+import { getAuditContext } from '@/lib/security/audit'
+import type { ApiResponse, ShareRuleResponse } from '@/types/api'
+
+const createShareRuleSchema = z.object({
+  providerId: z.string().cuid('Invalid provider ID'),
+  scope: z.enum(['TITLE_ONLY', 'SUMMARY_ONLY', 'FULL_ACCESS']),
+  tags: z.array(z.string().max(50, 'Tag too long')).max(10, 'Maximum 10 tags allowed').optional(),
+  createdAfter: z.string().datetime().optional(),
+  createdBefore: z.string().datetime().optional()
+}).refine(
+  data => !data.createdAfter || !data.createdBefore || data.createdAfter < data.createdBefore,
+  { message: 'The start of the date range must be before its end' }
+)
+
+// The client's share rules
+export async function GET(): Promise<NextResponse<ApiResponse<ShareRuleResponse[]>>> {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'CLIENT') {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const rules = await listShareRules(session.user.id)
+
+    return NextResponse.json({ success: true, data: rules })
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch share rules' },
+      { status: 500 }
+    )
+  }
+}
+
+// Create a rule; the client's existing matching entries are shared straight away
+export async function POST(request: NextRequest): Promise<NextResponse<ApiResponse<ShareRuleResponse>>> {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'CLIENT') {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const validatedData = createShareRuleSchema.parse(body)
+
+    const context = getAuditContext(request, session.user.id, session.sessionId)
+    const rule = await createShareRule(session.user.id, validatedData, context)
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: rule,
+        message: `Share rule created; ${rule.activeShares} existing ${rule.activeShares === 1 ? 'entry' : 'entries'} shared`
+      },
+      { status: 201 }
+    )
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: error.errors[0]?.message || 'Validation error' },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof Error && error.message === CONSENT_REQUIRED_ERROR) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 403 }
+      )
+    }
+
+    if (error instanceof Error && error.message === SHARE_RULE_PROVIDER_ERROR) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to create share rule' },
+      { status: 500 }
+    )
+  }
+}
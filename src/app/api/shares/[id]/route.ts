@@ -3,13 +3,21 @@ import { getServerSession } from 'next-auth/next'
 import { z } from 'zod'
 import { authOptions } from '@/lib/auth'
 import { getShareById, updateShare, revokeShare } from '@/lib/db/shares'
-import { getAuditContext } from '@/lib/security/audit'
-import type { ApiResponse } from '@/types/api'
+import { CONSENT_REQUIRED_ERROR } from '@/lib/db/consents'
+import { getAuditContext, AuditUnavailableError } from '@/lib/security/audit'
+import { auditUnavailable } from '@/lib/api/responses'
+import { projectEntry } from '@/lib/security/entry-projection'
+import type { ApiResponse, SharedEntryResponse } from '@/types/api'
+import type { User } from '@/types/database'
 
 interface RouteParams {
   params: Promise<Record<'id', string>>
 }
 
+function pickPerson(user: User): SharedEntryResponse['provider'] {
+  return { id: user.id, firstName: user.firstName, lastName: user.lastName, email: user.email }
+}
+
 const updateShareSchema = z.object({
   scope: z.enum(['NONE', 'TITLE_ONLY', 'SUMMARY_ONLY', 'FULL_ACCESS']).optional(),
   message: z.string().max(500, 'Message too long').optional(),
@@ -23,7 +31,7 @@ const revokeShareSchema = z.object({
 export async function GET(
   request: NextRequest,
   { params }: RouteParams
-): Promise<NextResponse<ApiResponse<Record<string, unknown>>>> {
+): Promise<NextResponse<ApiResponse<SharedEntryResponse>>> {
   try {
     const session = await getServerSession(authOptions)
     if (!session?.user?.id) {
@@ -45,81 +53,31 @@ export async function GET(
       )
     }
 
-    // Filter entry content based on share scope and user role
-    let entryData: Record<string, unknown> = {
-      id: share.entry.id,
-      status: share.entry.status,
-      createdAt: share.entry.createdAt.toISOString(),
-      updatedAt: share.entry.updatedAt.toISOString(),
-      wordCount: share.entry.wordCount
-    }
-
-    const isProvider = session.user.id === share.providerId
-    const isClient = session.user.id === share.clientId
-
-    if (isProvider) {
-      // Provider can see full entry data
-      entryData = {
-        ...entryData,
-        title: share.entry.title,
-        content: share.entry.content,
-        contentHtml: share.entry.contentHtml,
-        mood: share.entry.mood,
-        tags: share.entry.tags,
-        aiSummary: share.entry.aiSummary,
-        aiSummaryAt: share.entry.aiSummaryAt?.toISOString() || null
-      }
-    } else if (isClient) {
-      // Client sees data based on share scope
-      switch (share.scope) {
-        case 'FULL_ACCESS':
-          entryData = {
-            ...entryData,
-            title: share.entry.title,
-            content: share.entry.content,
-            contentHtml: share.entry.contentHtml,
-            mood: share.entry.mood,
-            tags: share.entry.tags,
-            aiSummary: share.entry.aiSummary,
-            aiSummaryAt: share.entry.aiSummaryAt?.toISOString() || null
-          }
-          break
-        case 'SUMMARY_ONLY':
-          entryData = {
-            ...entryData,
-            title: share.entry.title,
-            aiSummary: share.entry.aiSummary,
-            aiSummaryAt: share.entry.aiSummaryAt?.toISOString() || null,
-            mood: share.entry.mood,
-            tags: share.entry.tags
-          }
-          break
-        case 'TITLE_ONLY':
-          entryData = {
-            ...entryData,
-            title: share.entry.title
-          }
-          break
-        case 'NONE':
-        default:
-          // Only basic metadata
-          break
-      }
-    }
-
-    const responseData = {
-      ...share,
-      entry: entryData,
+    // Owner and recipient both see the entry as the share's scope allows
+    const responseData: SharedEntryResponse = {
+      id: share.id,
+      entryId: share.entryId,
+      providerId: share.providerId,
+      clientId: share.clientId,
+      scope: share.scope,
+      message: share.message,
+      entry: projectEntry(share.entry, share.scope),
+      provider: pickPerson(share.provider),
+      client: pickPerson(share.client),
+      expiresAt: share.expiresAt?.toISOString() || null,
       createdAt: share.createdAt.toISOString(),
-      updatedAt: share.updatedAt.toISOString(),
-      expiresAt: share.expiresAt?.toISOString() || null
+      updatedAt: share.updatedAt.toISOString()
     }
 
     return NextResponse.json({
       success: true,
       data: responseData
     })
-  } catch {
+  } catch (error) {
+    if (error instanceof AuditUnavailableError) {
+      return auditUnavailable()
+    }
+
     return NextResponse.json(
       { success: false, error: 'Failed to fetch share' },
       { status: 500 }
@@ -179,6 +137,13 @@ export async function PUT(
       )
     }
 
+    if (error instanceof Error && error.message === CONSENT_REQUIRED_ERROR) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 403 }
+      )
+    }
+
     return NextResponse.json(
       { 
         success: false, 
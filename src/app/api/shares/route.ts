@@ -3,13 +3,17 @@ import { getServerSession } from 'next-auth/next'
 import { z } from 'zod'
 import { authOptions } from '@/lib/auth'
 import { createShare, getSharesForProvider, getSharesForClient } from '@/lib/db/shares'
-import { getAuditContext } from '@/lib/security/audit'
+import { CONSENT_REQUIRED_ERROR } from '@/lib/db/consents'
+import { isShareActive } from '@/lib/db/query-helpers'
+import { getAuditContext, AuditUnavailableError } from '@/lib/security/audit'
+import { auditUnavailable } from '@/lib/api/responses'
+import { projectEntryTitle } from '@/lib/security/entry-projection'
 import type { ApiResponse } from '@/types/api'
 import type { EntryShare } from '@/types/database'
 
 interface ShareResponseItem extends Pick<EntryShare, 
   'id' | 'entryId' | 'providerId' | 'clientId' | 'scope' | 'message' | 'isRevoked' | 'revokedReason'> {
-  entryTitle: string
+  entryTitle: string | null
   providerName?: string | null
   clientName?: string | null
   expiresAt: string | null
@@ -89,6 +93,13 @@ export async function POST(request: NextRequest): Promise<NextResponse<ApiRespon
       )
     }
 
+    if (error instanceof Error && error.message === CONSENT_REQUIRED_ERROR) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 403 }
+      )
+    }
+
     return NextResponse.json(
       { 
         success: false, 
@@ -139,6 +150,7 @@ export async function GET(request: NextRequest): Promise<NextResponse<ApiRespons
         entryId: validatedParams.entryId,
         clientId: validatedParams.clientId,
         includeRevoked: validatedParams.includeRevoked,
+        includeExpired: validatedParams.includeExpired,
         limit: validatedParams.limit,
         offset: validatedParams.offset
       })
@@ -156,7 +168,10 @@ export async function GET(request: NextRequest): Promise<NextResponse<ApiRespons
     const transformedShares = shares.map(share => ({
       id: share.id,
       entryId: share.entryId,
-      entryTitle: share.entry.title,
+      // Clients see their own titles; providers only what an active share's scope shows
+      entryTitle: validatedParams.type !== 'provided'
+        ? share.entry.title
+        : isShareActive(share) ? projectEntryTitle(share.entry.title, share.scope) : null,
       providerId: share.providerId,
       providerName: validatedParams.type === 'received' ? 
         (share.provider.firstName && share.provider.lastName ? 
@@ -189,6 +204,10 @@ export async function GET(request: NextRequest): Promise<NextResponse<ApiRespons
       )
     }
 
+    if (error instanceof AuditUnavailableError) {
+      return auditUnavailable()
+    }
+
     return NextResponse.json(
       { success: false, error: 'Failed to fetch shares' },
       { status: 500 }
@@ -3,6 +3,9 @@ import { getServerSession } from 'next-auth/next'
 import { z } from 'zod'
 import { authOptions } from '@/lib/auth'
 import { db } from '@/lib/db'
+import { entrySummarizableByUser } from '@/lib/db/query-helpers'
+import { checkAiProcessing } from '@/lib/db/ai-preferences'
+import { isSummaryStale, maySaveSummary, reusableSummary, entrySummaryHash, summaryCacheData } from '@/lib/db/summary-cache'
 import { generateEntrySummary, validateSummaryContent, generateCombinedSummary } from '@/lib/ai/summarizer'
 import { toPlainText } from '@/lib/utils/tiptap-parser'
 import { createAuditLog, getAuditContext } from '@/lib/security/audit'
@@ -14,6 +17,8 @@ interface HierarchicalSummary {
   summary: string
   entryIds: string[]
   wordCount: number
+  // Built on an entry summary written before the entry was last edited
+  stale: boolean
   dateRange?: {
     start: string
     end: string
@@ -30,6 +35,7 @@ interface CombinedSummaryResponse {
   // Metadata
   totalEntries: number
   hierarchyLevels: number
+  stale: boolean
   dateRange: {
     start: string
     end: string
@@ -92,73 +98,79 @@ export async function POST(
     const { entryIds, groupSize, saveIndividualSummaries } = requestSchema.parse(await request.json())
 
     // Fetch all entries
-    const entries = await db.journalEntry.findMany({
+    const accessible = await db.journalEntry.findMany({
       where: {
         id: { in: entryIds },
-        OR: [
-          { userId: session.user.id },
-          {
-            shares: {
-              some: {
-                OR: [
-                  { clientId: session.user.id },
-                  { providerId: session.user.id }
-                ],
-                scope: { in: ['SUMMARY_ONLY', 'FULL_ACCESS'] },
-                isRevoked: false
-              }
-            }
-          }
-        ]
+        ...entrySummarizableByUser(session.user.id)
       },
       orderBy: { createdAt: 'asc' }
     })
 
+    // Entries their owner keeps from the model are left out
+    const context = getAuditContext(request, session.user.id)
+    const { allowed: entries } = await checkAiProcessing(accessible, session.user.id, context)
+
     if (entries.length < 2) {
       return NextResponse.json(
-        { success: false, error: 'Not enough accessible entries found' },
+        { success: false, error: accessible.length < 2 ? 'Not enough accessible entries found' : 'Not enough entries may be summarized by AI' },
         { status: 400 }
       )
     }
 
     const hierarchicalSummaries: HierarchicalSummary[] = []
     
-    // Level 1: Generate individual summaries
+    // Level 1: Individual summaries, reusing saved ones while their entry is unchanged
     const individualSummaries = await Promise.all(
       entries.map(async (entry) => {
-        // Check if summary exists
-        if (entry.aiSummary) {
+        const cached = reusableSummary(entry)
+        if (cached) {
           return {
             entryId: entry.id,
-            summary: entry.aiSummary,
-            wordCount: entry.aiSummary.split(' ').length,
-            createdAt: entry.createdAt
+            summary: cached,
+            wordCount: cached.split(' ').length,
+            createdAt: entry.createdAt,
+            cached: true,
+            stale: false
           }
         }
 
         // Generate new summary
         // Use toPlainText to extract proper text from TipTap JSON content
         const textContent = toPlainText(entry.content ?? entry.contentHtml ?? '')
-        const result = await generateEntrySummary(
-          entry.title,
-          textContent,
-          entry.mood,
-          entry.tags
-        )
+        let result
+        try {
+          result = await generateEntrySummary(
+            entry.title,
+            textContent,
+            entry.mood,
+            entry.tags
+          )
+        } catch (error) {
+          // Fall back to the saved summary, flagged if the entry has changed since
+          if (!entry.aiSummary) {
+            throw error
+          }
+          return {
+            entryId: entry.id,
+            summary: entry.aiSummary,
+            wordCount: entry.aiSummary.split(' ').length,
+            createdAt: entry.createdAt,
+            cached: true,
+            stale: isSummaryStale(entry)
+          }
+        }
 
         // Validate PHI
         if (!validateSummaryContent(result.summary)) {
-          result.summary = '[Summary contains PHI - redacted]'
+          throw new Error('Generated summary contains potentially identifying information')
         }
 
-        // Optionally save
-        if (saveIndividualSummaries) {
+        // Optionally save, and always replace a saved summary that is out of date,
+        // but never someone else's current summary of the owner's entry
+        if ((saveIndividualSummaries || entry.aiSummary) && maySaveSummary(entry, session.user.id)) {
           await db.journalEntry.update({
             where: { id: entry.id },
-            data: {
-              aiSummary: result.summary,
-              aiSummaryAt: new Date()
-            }
+            data: summaryCacheData(result, entrySummaryHash(entry))
           })
         }
 
@@ -166,7 +178,9 @@ export async function POST(
           entryId: entry.id,
           summary: result.summary,
           wordCount: result.wordCount,
-          createdAt: entry.createdAt
+          createdAt: entry.createdAt,
+          cached: false,
+          stale: false
         }
       })
     )
@@ -177,7 +191,8 @@ export async function POST(
         level: 'individual',
         summary: item.summary,
         entryIds: [item.entryId],
-        wordCount: item.wordCount
+        wordCount: item.wordCount,
+        stale: item.stale
       })
     })
 
@@ -195,7 +210,8 @@ export async function POST(
         level: 'group',
         summary: groupSummary,
         entryIds: group.map(g => g.entryId),
-        wordCount: llmGroup.wordCount
+        wordCount: llmGroup.wordCount,
+        stale: group.some(g => g.stale)
       })
     }
 
@@ -205,12 +221,14 @@ export async function POST(
       { dateRange: { start: entries[0].createdAt.toISOString(), end: entries[entries.length - 1].createdAt.toISOString() } }
     )
     const finalSummary = finalCombined.summary
+    const stale = individualSummaries.some(item => item.stale)
     
     hierarchicalSummaries.push({
       level: 'combined',
       summary: finalSummary,
       entryIds: entries.map(e => e.id),
       wordCount: finalCombined.wordCount,
+      stale,
       dateRange: {
         start: entries[0].createdAt.toISOString(),
         end: entries[entries.length - 1].createdAt.toISOString()
@@ -224,21 +242,36 @@ export async function POST(
     }
 
     // Audit log
-    const context = getAuditContext(request, session.user.id)
     await createAuditLog(
       {
         action: 'CREATE',
         resource: 'combined_summary',
         resourceId: null,
         details: {
+          entryIds: entries.map(entry => entry.id),
           entryCount: entries.length,
           hierarchyLevels: 3,
-          savedIndividual: saveIndividualSummaries
+          savedIndividual: saveIndividualSummaries,
+          reusedIndividual: individualSummaries.filter(item => item.cached).length
         }
       },
       context
     )
 
+    // Also one row per entry, so each entry's owner sees it in their disclosure report
+    await Promise.all(entries.map(entry =>
+      createAuditLog(
+        {
+          action: 'CREATE',
+          resource: 'ai_summary',
+          resourceId: entry.id,
+          entryId: entry.id,
+          details: { combined: true, savedToDb: saveIndividualSummaries }
+        },
+        context
+      )
+    ))
+
     return NextResponse.json({
       success: true,
       data: {
@@ -246,6 +279,7 @@ export async function POST(
         hierarchicalSummaries,
         totalEntries: entries.length,
         hierarchyLevels: 3,
+        stale,
         dateRange,
         generatedAt: new Date().toISOString()
       }
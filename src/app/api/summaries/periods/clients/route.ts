@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { listSummaryClients } from '@/lib/db/period-summaries'
+import type { ApiResponse, PeriodSummaryClientResponse } from '@/types/api'
+
+// Clients whose entries are shared with the provider for summaries
+export async function GET(): Promise<NextResponse<ApiResponse<PeriodSummaryClientResponse[]>>> {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'PROVIDER') {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const clients = await listSummaryClients(session.user.id)
+
+    return NextResponse.json({ success: true, data: clients })
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch clients' },
+      { status: 500 }
+    )
+  }
+}
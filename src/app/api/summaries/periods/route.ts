@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth'
+import { listPeriodSummaries, generatePeriodSummary, PERIOD_SUMMARY_NO_ENTRIES_ERROR } from '@/lib/db/period-summaries'
+import { getAuditContext, AuditUnavailableError } from '@/lib/security/audit'
+import { auditUnavailable } from '@/lib/api/responses'
+import { rateLimit, RATE_LIMITS } from '@/lib/security/rate-limit'
+import type { ApiResponse, PeriodSummaryResponse } from '@/types/api'
+
+const periodSchema = z.enum(['WEEK', 'MONTH', 'QUARTER'])
+
+const listSchema = z.object({
+  clientId: z.string({ required_error: 'Client is required' }).min(1, 'Client is required'),
+  period: periodSchema.default('WEEK')
+})
+
+const generateSchema = z.object({
+  clientId: z.string().min(1, 'Client is required'),
+  period: periodSchema,
+  periodStart: z.string().datetime('Invalid period start')
+})
+
+// The provider's weekly, monthly or quarterly summaries of a client
+export async function GET(request: NextRequest): Promise<NextResponse<ApiResponse<PeriodSummaryResponse[]>>> {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'PROVIDER') {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const { clientId, period } = listSchema.parse(Object.fromEntries(searchParams.entries()))
+
+    const context = getAuditContext(request, session.user.id, session.sessionId)
+    const summaries = await listPeriodSummaries(clientId, session.user.id, period, context)
+
+    return NextResponse.json({ success: true, data: summaries })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: error.errors[0]?.message || 'Validation error' },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof AuditUnavailableError) {
+      return auditUnavailable()
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch period summaries' },
+      { status: 500 }
+    )
+  }
+}
+
+// Generate a period's summary, or bring it up to date; unchanged entries keep their summaries
+export async function POST(request: NextRequest): Promise<NextResponse<ApiResponse<PeriodSummaryResponse>>> {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'PROVIDER') {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const rateLimitResult = await rateLimit(
+      request,
+      RATE_LIMITS.combinedSummary,
+      'period-summary',
+      () => `period-summary:${session.user.id}`
+    )
+
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        { success: false, error: `Rate limit exceeded. Try again at ${new Date(rateLimitResult.resetTime).toLocaleTimeString()}` },
+        { status: 429 }
+      )
+    }
+
+    const data = generateSchema.parse(await request.json())
+
+    const context = getAuditContext(request, session.user.id, session.sessionId)
+    const summary = await generatePeriodSummary(session.user.id, data, context)
+
+    return NextResponse.json({ success: true, data: summary, message: 'Summary updated' })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: error.errors[0]?.message || 'Validation error' },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof AuditUnavailableError) {
+      return auditUnavailable()
+    }
+
+    if (error instanceof Error && error.message === PERIOD_SUMMARY_NO_ENTRIES_ERROR) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to generate period summary' },
+      { status: 500 }
+    )
+  }
+}
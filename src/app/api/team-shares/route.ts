@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth'
+import {
+  getTeamSharesForEntry,
+  shareEntryWithTeam,
+  CARE_TEAM_NOT_FOUND_ERROR,
+  TEAM_SHARE_ENTRY_ERROR,
+  TEAM_SHARE_EXISTS_ERROR
+} from '@/lib/db/care-teams'
+import { getAuditContext, AuditUnavailableError } from '@/lib/security/audit'
+import { auditUnavailable } from '@/lib/api/responses'
+import type { ApiResponse, TeamShareResponse } from '@/types/api'
+import type { TeamShare } from '@/types/database'
+
+const createTeamShareSchema = z.object({
+  entryId: z.string().cuid('Invalid entry ID'),
+  teamId: z.string().cuid('Invalid care team ID'),
+  scope: z.enum(['TITLE_ONLY', 'SUMMARY_ONLY', 'FULL_ACCESS']),
+  message: z.string().max(500, 'Message too long').optional(),
+  expiresAt: z.string().datetime().optional()
+})
+
+const listTeamSharesSchema = z.object({
+  entryId: z.string().cuid('Invalid entry ID')
+})
+
+// The care teams one of the client's entries is shared with
+export async function GET(request: NextRequest): Promise<NextResponse<ApiResponse<TeamShareResponse[]>>> {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'CLIENT') {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const { entryId } = listTeamSharesSchema.parse(Object.fromEntries(searchParams.entries()))
+    const teamShares = await getTeamSharesForEntry(entryId, session.user.id)
+
+    return NextResponse.json({ success: true, data: teamShares })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: error.errors[0]?.message || 'Validation error' },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch team shares' },
+      { status: 500 }
+    )
+  }
+}
+
+// Share an entry with a care team; each member gets their own share
+export async function POST(request: NextRequest): Promise<NextResponse<ApiResponse<Pick<TeamShare, 'id'>>>> {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'CLIENT') {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const validatedData = createTeamShareSchema.parse(body)
+
+    const context = getAuditContext(request, session.user.id, session.sessionId)
+    const teamShare = await shareEntryWithTeam(validatedData, session.user.id, context)
+
+    return NextResponse.json(
+      { success: true, data: { id: teamShare.id }, message: 'Entry shared with the care team' },
+      { status: 201 }
+    )
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: error.errors[0]?.message || 'Validation error' },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof AuditUnavailableError) {
+      return auditUnavailable()
+    }
+
+    if (error instanceof Error && (error.message === TEAM_SHARE_ENTRY_ERROR || error.message === CARE_TEAM_NOT_FOUND_ERROR)) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 404 }
+      )
+    }
+
+    if (error instanceof Error && error.message === TEAM_SHARE_EXISTS_ERROR) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to share with the care team' },
+      { status: 500 }
+    )
+  }
+}
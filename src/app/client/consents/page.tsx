@@ -0,0 +1,273 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { PageHeader } from '@/components/ui/page-header'
+import { Text } from '@/components/ui/text'
+import { DashboardLayout } from '@/components/layout/DashboardLayout'
+import { useRoleBasedAuth } from '@/hooks/useRoleBasedAuth'
+import { formatDate } from '@/lib/entryUtils'
+import { CONSENT_FORM_VERSION, consentFormText } from '@/lib/consent-forms'
+import { consentService, sharingService } from '@/services'
+import { ShieldCheck } from 'lucide-react'
+import type { ConsentResponse, CreateConsentRequestParams, ProviderListResponse } from '@/types/api'
+import type { ConsentPurpose, ShareScope } from '@/types/database'
+
+const SCOPE_OPTIONS: Array<{ value: ShareScope; label: string }> = [
+  { value: 'TITLE_ONLY', label: 'Title only' },
+  { value: 'SUMMARY_ONLY', label: 'Summary only' },
+  { value: 'FULL_ACCESS', label: 'Full access' }
+]
+
+const STATUS_VARIANTS: Record<ConsentResponse['status'], 'default' | 'secondary' | 'destructive'> = {
+  active: 'default',
+  expired: 'secondary',
+  revoked: 'destructive'
+}
+
+const EMPTY_FORM = { purpose: 'TREATMENT' as ConsentPurpose, providerId: '', scope: 'FULL_ACCESS' as ShareScope, until: '', signature: '' }
+
+function formatProviderName(provider: ProviderListResponse): string {
+  return [provider.firstName, provider.lastName].filter(Boolean).join(' ') || provider.email
+}
+
+export default function ConsentsPage(): React.JSX.Element {
+  const { session, isLoading: authLoading, handleSignOut } = useRoleBasedAuth({ requiredRole: 'CLIENT' })
+  const [consents, setConsents] = useState<ConsentResponse[] | null>(null)
+  const [providers, setProviders] = useState<ProviderListResponse[]>([])
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [reasons, setReasons] = useState<Record<string, string>>({})
+  const [isSaving, setIsSaving] = useState(false)
+  const [pendingId, setPendingId] = useState<string | null>(null)
+  const [error, setError] = useState('')
+  const [notice, setNotice] = useState('')
+
+  const fetchConsents = useCallback(async (): Promise<void> => {
+    try {
+      setConsents(await consentService.getConsents())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load consents')
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!session) return
+
+    fetchConsents()
+    sharingService.getProviders()
+      .then(setProviders)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load providers'))
+  }, [session, fetchConsents])
+
+  const treatment = form.purpose === 'TREATMENT'
+  const provider = providers.find(item => item.id === form.providerId)
+  const expiresAt = form.until ? new Date(`${form.until}T23:59:59.999`).toISOString() : undefined
+  const formText = consentFormText(form.purpose, {
+    providerName: provider ? formatProviderName(provider) : undefined,
+    scope: treatment ? form.scope : null,
+    expiresAt
+  })
+
+  const handleSign = async (e: React.FormEvent): Promise<void> => {
+    e.preventDefault()
+    setIsSaving(true)
+    setError('')
+    setNotice('')
+    try {
+      const request: CreateConsentRequestParams = {
+        purpose: form.purpose,
+        formVersion: CONSENT_FORM_VERSION,
+        signature: form.signature,
+        ...(treatment && { providerId: form.providerId, scope: form.scope }),
+        ...(expiresAt && { expiresAt })
+      }
+      await consentService.createConsent(request)
+      setNotice('Consent recorded.')
+      setForm(EMPTY_FORM)
+      await fetchConsents()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to record consent')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleRevoke = async (consent: ConsentResponse): Promise<void> => {
+    setPendingId(consent.id)
+    setError('')
+    setNotice('')
+    try {
+      const revoked = await consentService.revokeConsent(consent.id, reasons[consent.id]?.trim() ?? '')
+      setNotice(`Consent revoked. ${revoked} ${revoked === 1 ? 'share was' : 'shares were'} ended.`)
+      await fetchConsents()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke consent')
+    } finally {
+      setPendingId(null)
+    }
+  }
+
+  return (
+    <DashboardLayout
+      session={session}
+      isLoading={authLoading}
+      onSignOut={handleSignOut}
+      title="HIPAA Journal"
+      icon={ShieldCheck}
+    >
+      <PageHeader
+        title="My consents"
+        description="Who you have agreed to share your journal with, and whether it may be summarized by AI"
+      />
+
+      {error && (
+        <Alert variant="destructive" className="mb-6">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {notice && (
+        <Alert className="mb-6">
+          <AlertDescription>{notice}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card className='shadow-lg border-0 bg-white/90 backdrop-blur-sm mb-6'>
+        <CardHeader>
+          <CardTitle>Give consent</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSign} className='grid gap-4 sm:grid-cols-2'>
+            <div className='space-y-2'>
+              <Label htmlFor='consent-purpose'>For</Label>
+              <Select value={form.purpose} onValueChange={value => setForm(current => ({ ...current, purpose: value as ConsentPurpose }))}>
+                <SelectTrigger id='consent-purpose'>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value='TREATMENT'>Sharing with a provider</SelectItem>
+                  <SelectItem value='AI_PROCESSING'>AI summaries</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className='space-y-2'>
+              <Label htmlFor='consent-until'>Until (optional)</Label>
+              <Input
+                id='consent-until'
+                type='date'
+                value={form.until}
+                onChange={e => setForm(current => ({ ...current, until: e.target.value }))}
+              />
+            </div>
+            {treatment && (
+              <>
+                <div className='space-y-2'>
+                  <Label htmlFor='consent-provider'>Provider</Label>
+                  <Select value={form.providerId} onValueChange={value => setForm(current => ({ ...current, providerId: value }))}>
+                    <SelectTrigger id='consent-provider'>
+                      <SelectValue placeholder="Select a healthcare provider..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {providers.map(item => (
+                        <SelectItem key={item.id} value={item.id}>{formatProviderName(item)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className='space-y-2'>
+                  <Label htmlFor='consent-scope'>They may see at most</Label>
+                  <Select value={form.scope} onValueChange={value => setForm(current => ({ ...current, scope: value as ShareScope }))}>
+                    <SelectTrigger id='consent-scope'>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SCOPE_OPTIONS.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </>
+            )}
+            <div className='sm:col-span-2 p-4 bg-primary/5 rounded-lg border border-primary/20'>
+              <Text as='p' size="sm">{formText}</Text>
+              <Text as='p' size="xs" variant="muted" className='mt-2'>Form version {CONSENT_FORM_VERSION}</Text>
+            </div>
+            <div className='space-y-2'>
+              <Label htmlFor='consent-signature'>Signature</Label>
+              <Input
+                id='consent-signature'
+                value={form.signature}
+                maxLength={200}
+                onChange={e => setForm(current => ({ ...current, signature: e.target.value }))}
+                placeholder='Type your full name'
+              />
+            </div>
+            <div className='flex items-end justify-end'>
+              <Button type='submit' disabled={isSaving || form.signature.trim().length < 2 || (treatment && !form.providerId)}>
+                {isSaving ? 'Signing...' : 'I agree and sign'}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      {!consents ? (
+        <Text variant="muted">Loading consents...</Text>
+      ) : consents.length === 0 ? (
+        <Text variant="muted">You have not given any consent yet. Entries can only be shared once you have.</Text>
+      ) : (
+        <div className='space-y-4'>
+          {consents.map(consent => (
+            <Card key={consent.id} className='shadow-lg border-0 bg-white/90 backdrop-blur-sm'>
+              <CardContent className='p-6 space-y-3'>
+                <div className='flex flex-wrap items-center gap-2'>
+                  <Text weight="semibold">
+                    {consent.purpose === 'AI_PROCESSING' ? 'AI summaries' : `Sharing with ${consent.providerName}`}
+                  </Text>
+                  <Badge variant={STATUS_VARIANTS[consent.status]}>{consent.status}</Badge>
+                  {consent.scope && (
+                    <Badge variant="outline">{SCOPE_OPTIONS.find(option => option.value === consent.scope)?.label ?? consent.scope}</Badge>
+                  )}
+                </div>
+                <Text as='p' size="sm" variant="muted">{consent.consentText}</Text>
+                <Text as='p' size="xs" variant="muted">
+                  Signed &quot;{consent.signature}&quot; on {formatDate(consent.grantedAt)} (form version {consent.formVersion})
+                  {consent.expiresAt && `, until ${formatDate(consent.expiresAt)}`}
+                  {consent.revokedAt && `. Revoked ${formatDate(consent.revokedAt)}: ${consent.revokedReason}`}
+                  {consent.purpose === 'TREATMENT' && consent.status === 'active' && `. ${consent.activeShares} ${consent.activeShares === 1 ? 'entry' : 'entries'} shared under it`}
+                </Text>
+                {consent.status === 'active' && (
+                  <div className='flex flex-col sm:flex-row gap-2'>
+                    <Input
+                      aria-label='Reason for revoking'
+                      placeholder='Reason for revoking'
+                      maxLength={200}
+                      value={reasons[consent.id] ?? ''}
+                      onChange={e => setReasons(current => ({ ...current, [consent.id]: e.target.value }))}
+                      className='sm:max-w-sm'
+                    />
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      disabled={pendingId !== null || !reasons[consent.id]?.trim()}
+                      onClick={() => handleRevoke(consent)}
+                    >
+                      Revoke
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </DashboardLayout>
+  )
+}
@@ -0,0 +1,152 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { PageHeader } from '@/components/ui/page-header'
+import { Heading } from '@/components/ui/heading'
+import { Text } from '@/components/ui/text'
+import { DashboardLayout } from '@/components/layout/DashboardLayout'
+import { useRoleBasedAuth } from '@/hooks/useRoleBasedAuth'
+import { formatDate } from '@/lib/entryUtils'
+import { auditService } from '@/services'
+import { Eye, Printer } from 'lucide-react'
+import type { DisclosureReportResponse } from '@/types/api'
+
+export default function DisclosuresPage(): React.JSX.Element {
+  const { session, isLoading: authLoading, handleSignOut } = useRoleBasedAuth({ requiredRole: 'CLIENT' })
+  const [report, setReport] = useState<DisclosureReportResponse | null>(null)
+  const [startDate, setStartDate] = useState('')
+  const [endDate, setEndDate] = useState('')
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState('')
+
+  // Without dates the server reports the last six years
+  const fetchReport = useCallback(async (from?: string, to?: string): Promise<void> => {
+    setIsLoading(true)
+    setError('')
+    try {
+      setReport(await auditService.getDisclosureReport({
+        from: from ? new Date(`${from}T00:00:00`).toISOString() : undefined,
+        to: to ? new Date(`${to}T23:59:59.999`).toISOString() : undefined
+      }))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load disclosure report')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (session) {
+      fetchReport()
+    }
+  }, [session, fetchReport])
+
+  const handleSubmit = (e: React.FormEvent): void => {
+    e.preventDefault()
+    fetchReport(startDate, endDate)
+  }
+
+  return (
+    <DashboardLayout
+      session={session}
+      isLoading={authLoading}
+      onSignOut={handleSignOut}
+      title="HIPAA Journal"
+      icon={Eye}
+    >
+      <PageHeader
+        title="Who viewed my journal"
+        description="Every time a provider opened, summarized or was given access to one of your entries"
+        actions={
+          <Button variant="outline" size="sm" onClick={() => window.print()} disabled={!report}>
+            <Printer className='w-4 h-4 mr-2' />
+            Print
+          </Button>
+        }
+      />
+
+      <Card className='shadow-lg border-0 bg-white/90 backdrop-blur-sm mb-6 print:hidden'>
+        <CardContent className='p-6'>
+          <form onSubmit={handleSubmit} className='flex flex-col sm:flex-row gap-4 sm:items-end'>
+            <div className='space-y-2'>
+              <Label htmlFor='disclosures-start'>From</Label>
+              <Input id='disclosures-start' type='date' value={startDate} onChange={e => setStartDate(e.target.value)} />
+            </div>
+            <div className='space-y-2'>
+              <Label htmlFor='disclosures-end'>To</Label>
+              <Input id='disclosures-end' type='date' value={endDate} onChange={e => setEndDate(e.target.value)} />
+            </div>
+            <Button type='submit' disabled={isLoading}>Update report</Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {error && (
+        <Alert variant="destructive" className="mb-6">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {isLoading ? (
+        <Text variant="muted">Loading report...</Text>
+      ) : report && (
+        <div className='space-y-6'>
+          <Text as='div' size="sm" variant="muted">
+            Accounting of disclosures from {formatDate(report.periodStart)} to {formatDate(report.periodEnd)},
+            prepared {formatDate(report.generatedAt)}. {report.totalEvents} {report.totalEvents === 1 ? 'event' : 'events'}.
+          </Text>
+
+          {report.recipients.length === 0 && (
+            <Text variant="muted">Nobody else has accessed your entries in this period.</Text>
+          )}
+
+          {report.recipients.map(recipient => (
+            <Card key={recipient.recipientId ?? 'system'} className='shadow-lg border-0 bg-white/90 backdrop-blur-sm break-inside-avoid'>
+              <CardHeader>
+                <CardTitle className='flex items-center gap-2'>
+                  {recipient.recipientName}
+                  <Badge variant="secondary">{recipient.totalEvents}</Badge>
+                </CardTitle>
+                {recipient.recipientEmail && <CardDescription>{recipient.recipientEmail}</CardDescription>}
+              </CardHeader>
+              <CardContent className='space-y-6'>
+                {recipient.entries.map(entry => (
+                  <div key={entry.entryId} className='space-y-2'>
+                    <Heading as='h3'>
+                      {entry.entryTitle ?? 'Deleted entry'}
+                    </Heading>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Date</TableHead>
+                          <TableHead>What was disclosed</TableHead>
+                          <TableHead>Purpose</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {entry.events.map(event => (
+                          <TableRow key={event.id}>
+                            <TableCell className='whitespace-nowrap'>{formatDate(event.date)}</TableCell>
+                            <TableCell>{event.description}</TableCell>
+                            <TableCell>{event.purpose}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </DashboardLayout>
+  )
+}
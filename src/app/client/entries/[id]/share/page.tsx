@@ -1,6 +1,7 @@
 'use client'
 
 import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Label } from '@/components/ui/label'
@@ -9,6 +10,9 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Alert, AlertTitle, AlertDescription } from '@/components/ui/alert'
 import { Text } from '@/components/ui/text'
 import { EntryDetailLayout } from '@/components/entries/EntryDetailLayout'
+import { AiPreferenceCard } from '@/components/entries/AiPreferenceCard'
+import { ShareRulesCard } from '@/components/entries/ShareRulesCard'
+import { TeamShareCard } from '@/components/entries/TeamShareCard'
 import { useRoleBasedAuth } from '@/hooks/useRoleBasedAuth'
 import { useRouter } from 'next/navigation'
 import { entriesService, sharingService } from '@/services'
@@ -194,6 +198,9 @@ export default function ShareEntryPage({ params }: ShareEntryPageProps): React.J
             <Text size="sm" variant="primary">
               <strong>What will be shared:</strong> Your healthcare provider will receive access to the complete journal entry including all content, mood, tags, and metadata.
             </Text>
+            <Text as='p' size="sm" variant="muted" className='mt-2'>
+              You can only share with a provider you have given consent to. <Link href='/client/consents' className='underline'>Manage your consents</Link>
+            </Text>
           </div>
 
           <form onSubmit={handleSubmit} className='space-y-6'>
@@ -242,6 +249,12 @@ export default function ShareEntryPage({ params }: ShareEntryPageProps): React.J
           </form>
         </CardContent>
       </Card>
+
+      <TeamShareCard entryId={entry.id} />
+
+      <ShareRulesCard providers={providers} suggestedTags={entry.tags} />
+
+      <AiPreferenceCard entryId={entry.id} />
     </EntryDetailLayout>
   )
 }
\ No newline at end of file
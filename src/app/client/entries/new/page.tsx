@@ -4,6 +4,7 @@ import { useState } from 'react'
 import { useSession } from 'next-auth/react'
 import { useRouter } from 'next/navigation'
 import { JournalEntryForm } from '@/components/forms/JournalEntryForm'
+import { useIdleTimeout } from '@/components/providers/IdleTimeoutProvider'
 import { AppHeader } from '@/components/layout/AppHeader'
 import { entriesService } from '@/services'
 import type { CreateEntryInput } from '@/types/database'
@@ -15,7 +16,10 @@ import { Heading } from '@/components/ui/heading'
 import { PlusCircle, AlertCircle } from 'lucide-react'
 
 export default function NewEntryPage(): React.JSX.Element {
-  const { data: session, status } = useSession()
+  const { data, status } = useSession()
+  const { lockedSession } = useIdleTimeout()
+  // After an idle logoff the draft stays on screen behind the re-auth prompt
+  const session = data ?? lockedSession
   const router = useRouter()
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [error, setError] = useState('')
@@ -4,7 +4,8 @@ import Link from 'next/link'
 import { useState } from 'react'
 import { Button } from '@/components/ui/button'
 import { PageHeader } from '@/components/ui/page-header'
-import { FileText, PlusCircle } from 'lucide-react'
+import { Text } from '@/components/ui/text'
+import { Eye, FileText, PlusCircle, ShieldCheck } from 'lucide-react'
 import { SearchBar } from '@/components/search/SearchBar'
 import { EntryGrid } from '@/components/entries/EntryGrid'
 import { DashboardLayout } from '@/components/layout/DashboardLayout'
@@ -23,12 +24,26 @@ export default function ClientDashboard(): React.JSX.Element {
   })
 
   const headerActions = (
-    <Button variant='gradient' size='sm' asChild>
-      <Link href='/client/entries/new'>
-        <PlusCircle className='w-4 h-4 mr-2' />
-        New Entry
-      </Link>
-    </Button>
+    <>
+      <Button variant='ghost' size='sm' asChild>
+        <Link href='/client/consents' aria-label='My consents'>
+          <ShieldCheck className='w-4 h-4' aria-hidden="true" />
+          <Text as='span' className='hidden sm:inline ml-2'>Consents</Text>
+        </Link>
+      </Button>
+      <Button variant='ghost' size='sm' asChild>
+        <Link href='/client/disclosures' aria-label='Who viewed my journal'>
+          <Eye className='w-4 h-4' aria-hidden="true" />
+          <Text as='span' className='hidden sm:inline ml-2'>Access report</Text>
+        </Link>
+      </Button>
+      <Button variant='gradient' size='sm' asChild>
+        <Link href='/client/entries/new'>
+          <PlusCircle className='w-4 h-4 mr-2' />
+          New Entry
+        </Link>
+      </Button>
+    </>
   )
 
   return (
@@ -51,7 +66,7 @@ export default function ClientDashboard(): React.JSX.Element {
         onSearchChange={setSearchQuery}
         statusFilter={statusFilter as 'all' | 'DRAFT' | 'PUBLISHED'}
         onStatusFilterChange={setStatusFilter}
-        placeholder='Search your entries...'
+        placeholder='Search your entries by tag...'
       />
 
       {/* Journal Entries Grid */}
@@ -20,6 +20,9 @@ export default function HomePage(): React.JSX.Element {
 
     // Redirect based on user role
     switch (session.user.role) {
+      case 'ADMIN':
+        router.push('/admin')
+        break
       case 'PROVIDER':
         router.push('/provider')
         break
@@ -0,0 +1,167 @@
+'use client'
+
+import React, { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Alert, AlertTitle, AlertDescription } from '@/components/ui/alert'
+import { EntryDetailLayout } from '@/components/entries/EntryDetailLayout'
+import { Text } from '@/components/ui/text'
+import { Heading } from '@/components/ui/heading'
+import { useRoleBasedAuth } from '@/hooks/useRoleBasedAuth'
+import { formatDate, getMoodEmoji, getMoodLabel, renderContent } from '@/lib/entryUtils'
+import { emergencyAccessService } from '@/services'
+import type { EmergencyAccessEntryResponse, EmergencyAccessResponse } from '@/types/api'
+
+interface EmergencyAccessPageProps {
+  params: Promise<{ id: string }>
+}
+
+export default function EmergencyAccessEntriesPage({ params }: EmergencyAccessPageProps): React.JSX.Element {
+  const { session, isLoading: authLoading, handleSignOut } = useRoleBasedAuth({ requiredRole: 'PROVIDER' })
+  const [accessId, setAccessId] = useState<string | null>(null)
+  const [access, setAccess] = useState<EmergencyAccessResponse | null>(null)
+  const [entries, setEntries] = useState<EmergencyAccessEntryResponse[] | null>(null)
+  const [selected, setSelected] = useState<EmergencyAccessEntryResponse | null>(null)
+  const [loadingEntryId, setLoadingEntryId] = useState<string | null>(null)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    params.then(resolved => setAccessId(resolved.id))
+  }, [params])
+
+  const fetchEntries = useCallback(async (): Promise<void> => {
+    if (!accessId) return
+
+    setError('')
+    try {
+      const accesses = await emergencyAccessService.getEmergencyAccess()
+      const current = accesses.find(item => item.id === accessId)
+      if (!current || current.status !== 'active') {
+        throw new Error('This emergency access has ended')
+      }
+      setAccess(current)
+      setEntries(await emergencyAccessService.getEntries(accessId))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load entries')
+    }
+  }, [accessId])
+
+  useEffect(() => {
+    if (accessId && session) {
+      fetchEntries()
+    }
+  }, [accessId, session, fetchEntries])
+
+  const handleOpen = async (entry: EmergencyAccessEntryResponse): Promise<void> => {
+    if (!accessId) return
+
+    setLoadingEntryId(entry.id)
+    setError('')
+    try {
+      setSelected(await emergencyAccessService.getEntry(accessId, entry.id))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load entry')
+    } finally {
+      setLoadingEntryId(null)
+    }
+  }
+
+  return (
+    <EntryDetailLayout
+      session={session}
+      isLoading={authLoading}
+      onSignOut={handleSignOut}
+      backUrl="/provider/emergency-access"
+      backText="Back to Emergency Access"
+      title={access ? `Emergency access: ${access.clientName}` : 'Emergency access'}
+      description={access ? `Until ${formatDate(access.expiresAt)}` : undefined}
+    >
+      <Alert variant="destructive" className="mb-6">
+        <AlertTitle>Every entry you open is audited as emergency access</AlertTitle>
+        <AlertDescription>
+          {access ? `Reason given: ${access.reason}` : 'Read only what the emergency requires.'}
+        </AlertDescription>
+      </Alert>
+
+      {error && (
+        <Alert variant="destructive" className="mb-6">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className='grid gap-6 lg:grid-cols-3'>
+        <Card className='shadow-lg border-0 bg-white/90 backdrop-blur-sm'>
+          <CardContent className='p-4 space-y-2'>
+            {!entries ? (
+              <Text variant="muted">{error ? 'No entries to show.' : 'Loading entries...'}</Text>
+            ) : entries.length === 0 ? (
+              <Text variant="muted">This client has no entries.</Text>
+            ) : (
+              entries.map(entry => (
+                <Button
+                  key={entry.id}
+                  variant={selected?.id === entry.id ? 'secondary' : 'ghost'}
+                  className='w-full justify-start h-auto py-2 text-left'
+                  disabled={loadingEntryId !== null}
+                  onClick={() => handleOpen(entry)}
+                >
+                  <div className='min-w-0'>
+                    <Text as='div' size="sm" className='truncate'>{entry.title || 'Untitled'}</Text>
+                    <Text as='div' size="xs" variant="muted">{formatDate(entry.createdAt)}</Text>
+                  </div>
+                </Button>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className='shadow-lg border-0 bg-white/90 backdrop-blur-sm lg:col-span-2'>
+          <CardContent className='p-6'>
+            {!selected ? (
+              <Text variant="muted">Choose an entry to read it.</Text>
+            ) : (
+              <>
+                <div className='flex items-start justify-between gap-4 mb-4'>
+                  <Heading as='h2' size='lg'>{selected.title || 'Untitled'}</Heading>
+                  <Badge variant="outline" className='capitalize'>{selected.status.toLowerCase()}</Badge>
+                </div>
+
+                {selected.content != null && (
+                  <div className='prose max-w-none mb-6'>
+                    <Text as='div' className='whitespace-pre-wrap leading-relaxed'>
+                      {renderContent(selected.content)}
+                    </Text>
+                  </div>
+                )}
+
+                {selected.aiSummary && (
+                  <div className='mb-6 p-4 bg-primary/5 rounded-lg'>
+                    <Heading as='h3' size='sm' className='mb-2'>AI Summary</Heading>
+                    <Text as='p' size='sm' variant='muted'>{selected.aiSummary}</Text>
+                  </div>
+                )}
+
+                <div className='flex flex-wrap items-center gap-4 mb-4'>
+                  {selected.mood && (
+                    <Text size='sm' variant='muted'>
+                      {getMoodEmoji(selected.mood)} {selected.mood}/10 - {getMoodLabel(selected.mood)}
+                    </Text>
+                  )}
+                  {selected.tags.map(tag => (
+                    <Badge key={tag} variant="secondary" className='text-xs'>#{tag}</Badge>
+                  ))}
+                </div>
+
+                <div className='pt-4 border-t border-border flex justify-between'>
+                  <Text size='xs' variant='muted'>Created: {formatDate(selected.createdAt)}</Text>
+                  <Text size='xs' variant='muted'>Modified: {formatDate(selected.updatedAt)}</Text>
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </EntryDetailLayout>
+  )
+}
@@ -0,0 +1,269 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Alert, AlertTitle, AlertDescription } from '@/components/ui/alert'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { PageHeader } from '@/components/ui/page-header'
+import { Text } from '@/components/ui/text'
+import { DashboardLayout } from '@/components/layout/DashboardLayout'
+import { useRoleBasedAuth } from '@/hooks/useRoleBasedAuth'
+import { formatDate } from '@/lib/entryUtils'
+import { emergencyAccessService } from '@/services'
+import { Siren } from 'lucide-react'
+import type { AssignedClientResponse, EmergencyAccessResponse, EmergencyAccessStatus } from '@/types/api'
+
+const DURATION_OPTIONS = [
+  { minutes: 30, label: '30 minutes' },
+  { minutes: 60, label: '1 hour' },
+  { minutes: 120, label: '2 hours' },
+  { minutes: 240, label: '4 hours' }
+]
+
+const STATUS_VARIANTS: Record<EmergencyAccessStatus, 'destructive' | 'secondary' | 'outline'> = {
+  active: 'destructive',
+  ended: 'secondary',
+  expired: 'outline'
+}
+
+const EMPTY_REQUEST = { clientId: '', reason: '', durationMinutes: 60 }
+
+export default function ProviderEmergencyAccessPage(): React.JSX.Element {
+  const { session, isLoading: authLoading, handleSignOut } = useRoleBasedAuth({ requiredRole: 'PROVIDER' })
+  const [clients, setClients] = useState<AssignedClientResponse[] | null>(null)
+  const [accesses, setAccesses] = useState<EmergencyAccessResponse[] | null>(null)
+  const [form, setForm] = useState(EMPTY_REQUEST)
+  const [isStarting, setIsStarting] = useState(false)
+  const [pendingId, setPendingId] = useState<string | null>(null)
+  const [error, setError] = useState('')
+
+  const fetchAccess = useCallback(async (): Promise<void> => {
+    setError('')
+    try {
+      const [assignedClients, history] = await Promise.all([
+        emergencyAccessService.getAssignedClients(),
+        emergencyAccessService.getEmergencyAccess()
+      ])
+      setClients(assignedClients)
+      setAccesses(history)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load emergency access')
+    }
+  }, [])
+
+  useEffect(() => {
+    if (session) {
+      fetchAccess()
+    }
+  }, [session, fetchAccess])
+
+  const selectedClient = clients?.find(client => client.id === form.clientId)
+
+  const handleStart = async (e: React.FormEvent): Promise<void> => {
+    e.preventDefault()
+    setIsStarting(true)
+    setError('')
+    try {
+      await emergencyAccessService.startEmergencyAccess({
+        clientId: form.clientId,
+        reason: form.reason.trim(),
+        durationMinutes: form.durationMinutes
+      })
+      setForm(EMPTY_REQUEST)
+      await fetchAccess()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to grant emergency access')
+    } finally {
+      setIsStarting(false)
+    }
+  }
+
+  const handleEnd = async (access: EmergencyAccessResponse): Promise<void> => {
+    setPendingId(access.id)
+    setError('')
+    try {
+      await emergencyAccessService.endEmergencyAccess(access.id)
+      await fetchAccess()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to end emergency access')
+    } finally {
+      setPendingId(null)
+    }
+  }
+
+  return (
+    <DashboardLayout
+      session={session}
+      isLoading={authLoading}
+      onSignOut={handleSignOut}
+      title="Provider Dashboard"
+      icon={Siren}
+    >
+      <PageHeader
+        title="Emergency access"
+        description="Read an assigned client's entries in a crisis, without a share"
+      />
+
+      <Alert variant="destructive" className="mb-6">
+        <AlertTitle>For emergencies only</AlertTitle>
+        <AlertDescription>
+          Emergency access opens every entry of the client for a limited time. Each entry you see is
+          recorded in the audit log as emergency access, and once the access ends the client and an
+          administrator are notified and the reason you give is reviewed.
+        </AlertDescription>
+      </Alert>
+
+      {error && (
+        <Alert variant="destructive" className="mb-6">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card className='shadow-lg border-0 bg-white/90 backdrop-blur-sm mb-6'>
+        <CardHeader>
+          <CardTitle>Break the glass</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {!clients ? (
+            <Text variant="muted">Loading clients...</Text>
+          ) : clients.length === 0 ? (
+            <Text variant="muted">No clients are in your care yet. Clients you invite are added once they register.</Text>
+          ) : (
+            <form onSubmit={handleStart} className='grid gap-4 sm:grid-cols-2'>
+              <div className='space-y-2'>
+                <Label htmlFor='emergency-client'>Client</Label>
+                <Select
+                  value={form.clientId}
+                  onValueChange={value => setForm(current => ({ ...current, clientId: value }))}
+                >
+                  <SelectTrigger id='emergency-client'>
+                    <SelectValue placeholder='Choose a client' />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {clients.map(client => (
+                      <SelectItem key={client.id} value={client.id}>{client.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className='space-y-2'>
+                <Label htmlFor='emergency-duration'>Duration</Label>
+                <Select
+                  value={String(form.durationMinutes)}
+                  onValueChange={value => setForm(current => ({ ...current, durationMinutes: Number(value) }))}
+                >
+                  <SelectTrigger id='emergency-duration'>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DURATION_OPTIONS.map(option => (
+                      <SelectItem key={option.minutes} value={String(option.minutes)}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className='sm:col-span-2 space-y-2'>
+                <Label htmlFor='emergency-reason'>Reason</Label>
+                <Textarea
+                  id='emergency-reason'
+                  required
+                  minLength={10}
+                  maxLength={1000}
+                  value={form.reason}
+                  onChange={e => setForm(current => ({ ...current, reason: e.target.value }))}
+                  placeholder='What is the emergency, and why can it not wait for the client to share?'
+                />
+                <Text as='p' size="xs" variant="muted">
+                  The client sees this reason in their accounting of disclosures.
+                </Text>
+              </div>
+              <div className='sm:col-span-2'>
+                {selectedClient?.activeEmergencyAccessId ? (
+                  <Button asChild>
+                    <Link href={`/provider/emergency-access/${selectedClient.activeEmergencyAccessId}`}>
+                      Open active access
+                    </Link>
+                  </Button>
+                ) : (
+                  <Button
+                    type='submit'
+                    variant='destructive'
+                    disabled={!form.clientId || form.reason.trim().length < 10 || isStarting}
+                  >
+                    {isStarting ? 'Opening...' : 'Open emergency access'}
+                  </Button>
+                )}
+              </div>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className='shadow-lg border-0 bg-white/90 backdrop-blur-sm'>
+        <CardContent className='p-6'>
+          {!accesses ? (
+            <Text variant="muted">Loading emergency access...</Text>
+          ) : accesses.length === 0 ? (
+            <Text variant="muted">You haven&apos;t used emergency access.</Text>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Client</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Opened</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {accesses.map(access => (
+                  <TableRow key={access.id}>
+                    <TableCell>{access.clientName}</TableCell>
+                    <TableCell className='max-w-xs'>
+                      <Text as='div' size="sm" className='line-clamp-2'>{access.reason}</Text>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_VARIANTS[access.status]} className='capitalize'>
+                        {access.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className='whitespace-nowrap'>
+                      <Text as='div' size="sm">{formatDate(access.createdAt)}</Text>
+                      <Text as='div' size="xs" variant="muted">
+                        {access.status === 'active' ? 'Expires' : 'Ended'} {formatDate(access.endedAt ?? access.expiresAt)}
+                      </Text>
+                    </TableCell>
+                    <TableCell>
+                      {access.status === 'active' && (
+                        <div className='flex gap-2'>
+                          <Button size="sm" asChild>
+                            <Link href={`/provider/emergency-access/${access.id}`}>Open</Link>
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={pendingId !== null}
+                            onClick={() => handleEnd(access)}
+                          >
+                            End
+                          </Button>
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </DashboardLayout>
+  )
+}
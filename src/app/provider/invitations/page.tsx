@@ -0,0 +1,246 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { PageHeader } from '@/components/ui/page-header'
+import { Text } from '@/components/ui/text'
+import { DashboardLayout } from '@/components/layout/DashboardLayout'
+import { useRoleBasedAuth } from '@/hooks/useRoleBasedAuth'
+import { formatDate } from '@/lib/entryUtils'
+import { invitationService } from '@/services'
+import { UserPlus } from 'lucide-react'
+import type { InvitationResponse, InvitationStatus } from '@/types/api'
+import type { ShareScope } from '@/types/database'
+
+const SCOPE_OPTIONS: Array<{ value: ShareScope | 'none'; label: string }> = [
+  { value: 'none', label: 'No default share' },
+  { value: 'TITLE_ONLY', label: 'Title only' },
+  { value: 'SUMMARY_ONLY', label: 'Summary only' },
+  { value: 'FULL_ACCESS', label: 'Full access' }
+]
+
+const STATUS_VARIANTS: Record<InvitationStatus, 'secondary' | 'outline' | 'destructive'> = {
+  pending: 'outline',
+  accepted: 'secondary',
+  expired: 'destructive',
+  revoked: 'destructive'
+}
+
+const EMPTY_INVITATION = { email: '', firstName: '', lastName: '', scope: 'none' as ShareScope | 'none' }
+
+export default function ProviderInvitationsPage(): React.JSX.Element {
+  const { session, isLoading: authLoading, handleSignOut } = useRoleBasedAuth({ requiredRole: 'PROVIDER' })
+  const [invitations, setInvitations] = useState<InvitationResponse[] | null>(null)
+  const [form, setForm] = useState(EMPTY_INVITATION)
+  const [isSending, setIsSending] = useState(false)
+  const [pendingId, setPendingId] = useState<string | null>(null)
+  const [error, setError] = useState('')
+  const [message, setMessage] = useState('')
+
+  const fetchInvitations = useCallback(async (): Promise<void> => {
+    setError('')
+    try {
+      setInvitations(await invitationService.getInvitations())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load invitations')
+    }
+  }, [])
+
+  useEffect(() => {
+    if (session) {
+      fetchInvitations()
+    }
+  }, [session, fetchInvitations])
+
+  const handleInvite = async (e: React.FormEvent): Promise<void> => {
+    e.preventDefault()
+    setIsSending(true)
+    setError('')
+    setMessage('')
+    try {
+      const invitation = await invitationService.createInvitation({
+        email: form.email.trim(),
+        ...(form.firstName.trim() && { firstName: form.firstName.trim() }),
+        ...(form.lastName.trim() && { lastName: form.lastName.trim() }),
+        defaultShareScope: form.scope === 'none' ? null : form.scope
+      })
+      setMessage(`Invitation sent to ${invitation.email}`)
+      setForm(EMPTY_INVITATION)
+      await fetchInvitations()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send invitation')
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  const handleRevoke = async (invitation: InvitationResponse): Promise<void> => {
+    setPendingId(invitation.id)
+    setError('')
+    setMessage('')
+    try {
+      await invitationService.revokeInvitation(invitation.id)
+      setInvitations(current => current && current.map(item =>
+        item.id === invitation.id ? { ...item, status: 'revoked' } : item
+      ))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke invitation')
+    } finally {
+      setPendingId(null)
+    }
+  }
+
+  return (
+    <DashboardLayout
+      session={session}
+      isLoading={authLoading}
+      onSignOut={handleSignOut}
+      title="Provider Dashboard"
+      icon={UserPlus}
+    >
+      <PageHeader
+        title="Invitations"
+        description="Invite new clients by email. Invitation links expire after 7 days and work once."
+      />
+
+      {error && (
+        <Alert variant="destructive" className="mb-6">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {message && (
+        <Alert className="mb-6">
+          <AlertDescription>{message}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card className='shadow-lg border-0 bg-white/90 backdrop-blur-sm mb-6'>
+        <CardHeader>
+          <CardTitle>Invite a client</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleInvite} className='grid gap-4 sm:grid-cols-2'>
+            <div className='space-y-2'>
+              <Label htmlFor='invite-email'>Email</Label>
+              <Input
+                id='invite-email'
+                type='email'
+                required
+                value={form.email}
+                onChange={e => setForm(current => ({ ...current, email: e.target.value }))}
+              />
+            </div>
+            <div className='space-y-2'>
+              <Label htmlFor='invite-scope'>Suggested default share</Label>
+              <Select
+                value={form.scope}
+                onValueChange={value => setForm(current => ({ ...current, scope: value as ShareScope | 'none' }))}
+              >
+                <SelectTrigger id='invite-scope'>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SCOPE_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className='space-y-2'>
+              <Label htmlFor='invite-first-name'>First name</Label>
+              <Input
+                id='invite-first-name'
+                value={form.firstName}
+                onChange={e => setForm(current => ({ ...current, firstName: e.target.value }))}
+              />
+            </div>
+            <div className='space-y-2'>
+              <Label htmlFor='invite-last-name'>Last name</Label>
+              <Input
+                id='invite-last-name'
+                value={form.lastName}
+                onChange={e => setForm(current => ({ ...current, lastName: e.target.value }))}
+              />
+            </div>
+            <div className='sm:col-span-2 space-y-2'>
+              <Text as='p' size="xs" variant="muted">
+                The client decides at registration whether to accept the default share.
+              </Text>
+              <Button type='submit' disabled={!form.email.trim() || isSending}>
+                {isSending ? 'Sending...' : 'Send invitation'}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card className='shadow-lg border-0 bg-white/90 backdrop-blur-sm'>
+        <CardContent className='p-6'>
+          {!invitations ? (
+            <Text variant="muted">Loading invitations...</Text>
+          ) : invitations.length === 0 ? (
+            <Text variant="muted">You haven&apos;t invited anyone yet.</Text>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Invitee</TableHead>
+                  <TableHead>Default share</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Sent</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {invitations.map(invitation => (
+                  <TableRow key={invitation.id}>
+                    <TableCell>
+                      <Text as='div' size="sm">
+                        {[invitation.firstName, invitation.lastName].filter(Boolean).join(' ') || '—'}
+                      </Text>
+                      <Text as='div' size="xs" variant="muted">{invitation.email}</Text>
+                    </TableCell>
+                    <TableCell>
+                      {SCOPE_OPTIONS.find(option => option.value === (invitation.defaultShareScope ?? 'none'))?.label}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_VARIANTS[invitation.status]} className='capitalize'>
+                        {invitation.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className='whitespace-nowrap'>
+                      <Text as='div' size="sm">{formatDate(invitation.createdAt)}</Text>
+                      {invitation.status === 'pending' && (
+                        <Text as='div' size="xs" variant="muted">Expires {formatDate(invitation.expiresAt)}</Text>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {invitation.status === 'pending' && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={pendingId !== null}
+                          onClick={() => handleRevoke(invitation)}
+                        >
+                          Revoke
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </DashboardLayout>
+  )
+}
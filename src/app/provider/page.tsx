@@ -31,9 +31,11 @@ export default function ProviderDashboard(): React.JSX.Element {
       end: string
     }
     finalSummary: string
+    stale?: boolean
     hierarchicalSummaries?: Array<{
       level: 'group' | 'entry'
       summary: string
+      stale?: boolean
       entries?: Array<{
         title: string
         timestamp: string
@@ -64,7 +66,7 @@ export default function ProviderDashboard(): React.JSX.Element {
       setProgress({ current: i + 1, total: sharedEntries.length })
 
       try {
-        if (!entry.aiSummary) {
+        if (!entry.aiSummary || entry.aiSummaryStale) {
           await entriesService.generateSummary(entry.id, true)
           successCount++
         }
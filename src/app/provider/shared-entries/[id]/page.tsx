@@ -10,7 +10,7 @@ import { Heading } from '@/components/ui/heading'
 import { useRoleBasedAuth } from '@/hooks/useRoleBasedAuth'
 import { formatDate, getMoodEmoji, getMoodLabel, renderContent, getScopeVariant, getScopeLabel } from '@/lib/entryUtils'
 import { sharingService } from '@/services'
-import type { EntryShareWithRelationsData } from '@/types/database'
+import type { SharedEntryResponse } from '@/types/api'
 
 interface ViewSharedEntryPageProps {
   params: Promise<{ id: string }>
@@ -18,7 +18,7 @@ interface ViewSharedEntryPageProps {
 
 export default function ViewSharedEntryPage({ params }: ViewSharedEntryPageProps): React.JSX.Element {
   const { session, isLoading: authLoading, handleSignOut } = useRoleBasedAuth({ requiredRole: 'PROVIDER' })
-  const [shareData, setShareData] = useState<EntryShareWithRelationsData | null>(null)
+  const [shareData, setShareData] = useState<SharedEntryResponse | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState('')
   const [shareId, setShareId] = useState<string | null>(null)
@@ -109,6 +109,8 @@ export default function ViewSharedEntryPage({ params }: ViewSharedEntryPageProps
     )
   }
 
+  const { entry } = shareData
+
   return (
     <EntryDetailLayout
       session={session}
@@ -116,7 +118,7 @@ export default function ViewSharedEntryPage({ params }: ViewSharedEntryPageProps
       onSignOut={handleSignOut}
       backUrl="/provider"
       backText="Back to Dashboard"
-      title={shareData.entry.title || 'Shared Entry'}
+      title={entry.scope === 'NONE' ? 'Shared Entry' : entry.title}
       description={`Shared by patient with ${getScopeLabel(shareData.scope)} access`}
     >
       {/* Share Information Header */}
@@ -152,56 +154,56 @@ export default function ViewSharedEntryPage({ params }: ViewSharedEntryPageProps
         <CardContent className='p-6'>
           {/* Entry Metadata */}
           <div className='flex items-center space-x-4 mb-6'>
-            <Text size='sm' variant='muted'>📝 {shareData.entry.wordCount} words</Text>
-            <Text size='sm' variant='muted'>🕒 {formatDate(shareData.entry.updatedAt)}</Text>
+            <Text size='sm' variant='muted'>📝 {entry.wordCount} words</Text>
+            <Text size='sm' variant='muted'>🕒 {formatDate(entry.updatedAt)}</Text>
           </div>
 
           {/* Full Content */}
-          {shareData.scope === 'FULL_ACCESS' && shareData.entry.content && (
+          {entry.scope === 'FULL_ACCESS' && entry.content && (
             <div className='mb-6'>
               <div className='prose max-w-none'>
                 <Text as='div' className='whitespace-pre-wrap leading-relaxed'>
-                  {renderContent(shareData.entry.content)}
+                  {renderContent(entry.content)}
                 </Text>
               </div>
             </div>
           )}
 
           {/* AI Summary */}
-          {(shareData.scope === 'FULL_ACCESS' || shareData.scope === 'SUMMARY_ONLY') && shareData.entry.aiSummary && (
+          {(entry.scope === 'FULL_ACCESS' || entry.scope === 'SUMMARY_ONLY') && entry.aiSummary && (
             <div className='mb-6 p-4 bg-primary/5 rounded-lg'>
               <Heading as='h3' size='sm' className='mb-2'>AI Summary</Heading>
-              <Text as='p' size='sm' variant='muted'>{shareData.entry.aiSummary}</Text>
-              {shareData.entry.aiSummaryAt && (
+              <Text as='p' size='sm' variant='muted'>{entry.aiSummary}</Text>
+              {entry.aiSummaryAt && (
                 <Text as='p' size='xs' variant='muted' className='mt-1'>
-                  Generated: {formatDate(shareData.entry.aiSummaryAt)}
+                  Generated: {formatDate(entry.aiSummaryAt)}
                 </Text>
               )}
             </div>
           )}
 
           {/* Metadata */}
-          {(shareData.scope === 'FULL_ACCESS' || shareData.scope === 'SUMMARY_ONLY') && (
+          {entry.scope === 'FULL_ACCESS' && (
             <div className='grid grid-cols-1 md:grid-cols-2 gap-6 mb-6'>
               {/* Mood */}
-              {shareData.entry.mood && (
+              {entry.mood && (
                 <div>
                   <Heading as='h3' size='sm' className='mb-2'>Mood</Heading>
                   <div className='flex items-center space-x-2'>
-                    <Text className='text-2xl'>{getMoodEmoji(shareData.entry.mood)}</Text>
+                    <Text className='text-2xl'>{getMoodEmoji(entry.mood)}</Text>
                     <Text size='sm' variant='muted'>
-                      {shareData.entry.mood}/10 - {getMoodLabel(shareData.entry.mood)}
+                      {entry.mood}/10 - {getMoodLabel(entry.mood)}
                     </Text>
                   </div>
                 </div>
               )}
 
               {/* Tags */}
-              {shareData.entry.tags && shareData.entry.tags.length > 0 && (
+              {entry.tags.length > 0 && (
                 <div>
                   <Heading as='h3' size='sm' className='mb-2'>Tags</Heading>
                   <div className='flex flex-wrap gap-1'>
-                    {shareData.entry.tags.map(tag => (
+                    {entry.tags.map(tag => (
                       <Badge key={tag} variant="secondary" className='text-xs'>
                         #{tag}
                       </Badge>
@@ -212,7 +214,7 @@ export default function ViewSharedEntryPage({ params }: ViewSharedEntryPageProps
             </div>
           )}
 
-          {shareData.scope === 'TITLE_ONLY' && (
+          {entry.scope === 'TITLE_ONLY' && (
             <div className='text-center py-8'>
               <Text as='p' variant='muted'>This entry was shared with &quot;Title Only&quot; access. Contact the patient for additional details if needed.</Text>
             </div>
@@ -221,8 +223,8 @@ export default function ViewSharedEntryPage({ params }: ViewSharedEntryPageProps
           {/* Timestamps */}
           <div className='pt-4 border-t border-border'>
             <div className='flex justify-between'>
-              <Text size='xs' variant='muted'>Created: {formatDate(shareData.entry.createdAt)}</Text>
-              <Text size='xs' variant='muted'>Modified: {formatDate(shareData.entry.updatedAt)}</Text>
+              <Text size='xs' variant='muted'>Created: {formatDate(entry.createdAt)}</Text>
+              <Text size='xs' variant='muted'>Modified: {formatDate(entry.updatedAt)}</Text>
             </div>
           </div>
         </CardContent>
@@ -0,0 +1,218 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { PageHeader } from '@/components/ui/page-header'
+import { Text } from '@/components/ui/text'
+import { DashboardLayout } from '@/components/layout/DashboardLayout'
+import { useRoleBasedAuth } from '@/hooks/useRoleBasedAuth'
+import { formatDate } from '@/lib/entryUtils'
+import { periodSummaryService } from '@/services'
+import { CalendarRange, Loader2 } from 'lucide-react'
+import type { PeriodSummaryClientResponse, PeriodSummaryResponse } from '@/types/api'
+import type { SummaryPeriod } from '@/types/database'
+
+const STATUS_LABELS: Record<PeriodSummaryResponse['status'], { label: string; variant: 'default' | 'secondary' | 'outline' }> = {
+  current: { label: 'Up to date', variant: 'default' },
+  outdated: { label: 'Outdated', variant: 'secondary' },
+  missing: { label: 'Not generated', variant: 'outline' }
+}
+
+const RISK_VARIANTS: Record<string, 'destructive' | 'secondary' | 'outline'> = {
+  HIGH: 'destructive',
+  MEDIUM: 'secondary',
+  LOW: 'outline'
+}
+
+// Period bounds are UTC dates, and the end is exclusive
+function formatPeriod(summary: PeriodSummaryResponse): string {
+  const options: Intl.DateTimeFormatOptions = { timeZone: 'UTC' }
+  const start = new Date(summary.periodStart)
+  const last = new Date(new Date(summary.periodEnd).getTime() - 1)
+
+  switch (summary.period) {
+    case 'WEEK':
+      return `Week of ${start.toLocaleDateString(undefined, { ...options, month: 'short', day: 'numeric', year: 'numeric' })}`
+    case 'MONTH':
+      return start.toLocaleDateString(undefined, { ...options, month: 'long', year: 'numeric' })
+    case 'QUARTER':
+      return `Q${Math.floor(start.getUTCMonth() / 3) + 1} ${start.getUTCFullYear()} (${start.toLocaleDateString(undefined, { ...options, month: 'short' })} to ${last.toLocaleDateString(undefined, { ...options, month: 'short' })})`
+  }
+}
+
+export default function ProviderSummariesPage(): React.JSX.Element {
+  const { session, isLoading: authLoading, handleSignOut } = useRoleBasedAuth({ requiredRole: 'PROVIDER' })
+  const [clients, setClients] = useState<PeriodSummaryClientResponse[] | null>(null)
+  const [clientId, setClientId] = useState('')
+  const [period, setPeriod] = useState<SummaryPeriod>('WEEK')
+  const [summaries, setSummaries] = useState<PeriodSummaryResponse[] | null>(null)
+  const [pendingStart, setPendingStart] = useState<string | null>(null)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    if (!session) return
+
+    periodSummaryService.getClients()
+      .then(list => {
+        setClients(list)
+        setClientId(current => current || list[0]?.id || '')
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load clients'))
+  }, [session])
+
+  const fetchSummaries = useCallback(async (): Promise<void> => {
+    if (!clientId) return
+
+    setSummaries(null)
+    setError('')
+    try {
+      setSummaries(await periodSummaryService.getSummaries(clientId, period))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load summaries')
+    }
+  }, [clientId, period])
+
+  useEffect(() => {
+    fetchSummaries()
+  }, [fetchSummaries])
+
+  const handleGenerate = async (summary: PeriodSummaryResponse): Promise<void> => {
+    setPendingStart(summary.periodStart)
+    setError('')
+    try {
+      const updated = await periodSummaryService.generateSummary({ clientId, period, periodStart: summary.periodStart })
+      setSummaries(current => current && current.map(item => item.periodStart === updated.periodStart ? updated : item))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to generate summary')
+    } finally {
+      setPendingStart(null)
+    }
+  }
+
+  return (
+    <DashboardLayout
+      session={session}
+      isLoading={authLoading}
+      onSignOut={handleSignOut}
+      title="Provider Dashboard"
+      icon={CalendarRange}
+    >
+      <PageHeader
+        title="Period summaries"
+        description="Weekly, monthly and quarterly summaries of the entries your clients share with you for summaries"
+      />
+
+      {error && (
+        <Alert variant="destructive" className="mb-6">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {!clients ? (
+        <Text variant="muted">Loading clients...</Text>
+      ) : clients.length === 0 ? (
+        <Text variant="muted">No client shares entries with you at a scope that allows summaries.</Text>
+      ) : (
+        <>
+          <div className='flex flex-col sm:flex-row sm:items-end gap-4 mb-6'>
+            <div className='space-y-2 sm:w-72'>
+              <Label htmlFor='summary-client'>Client</Label>
+              <Select value={clientId} onValueChange={setClientId}>
+                <SelectTrigger id='summary-client'>
+                  <SelectValue placeholder="Select a client..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {clients.map(client => (
+                    <SelectItem key={client.id} value={client.id}>
+                      {client.name} ({client.entryCount} {client.entryCount === 1 ? 'entry' : 'entries'})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Tabs value={period} onValueChange={value => setPeriod(value as SummaryPeriod)}>
+              <TabsList>
+                <TabsTrigger value='WEEK'>Weeks</TabsTrigger>
+                <TabsTrigger value='MONTH'>Months</TabsTrigger>
+                <TabsTrigger value='QUARTER'>Quarters</TabsTrigger>
+              </TabsList>
+            </Tabs>
+          </div>
+
+          {!summaries ? (
+            <Text variant="muted">Loading summaries...</Text>
+          ) : summaries.length === 0 ? (
+            <Text variant="muted">No shared entries in recent periods.</Text>
+          ) : (
+            <div className='space-y-4'>
+              {summaries.map(summary => {
+                const status = STATUS_LABELS[summary.status]
+                const content = summary.content
+                return (
+                  <Card key={summary.periodStart} className='shadow-lg border-0 bg-white/90 backdrop-blur-sm'>
+                    <CardContent className='p-6 space-y-4'>
+                      <div className='flex flex-col sm:flex-row sm:items-center justify-between gap-3'>
+                        <div className='flex flex-wrap items-center gap-2'>
+                          <Text weight="semibold">{formatPeriod(summary)}</Text>
+                          <Badge variant={status.variant}>{status.label}</Badge>
+                          <Text size="xs" variant="muted">
+                            {summary.entryCount} {summary.entryCount === 1 ? 'entry' : 'entries'}
+                            {summary.generatedAt && `, generated ${formatDate(summary.generatedAt)}`}
+                          </Text>
+                        </div>
+                        {summary.status !== 'current' && summary.entryCount > 0 && (
+                          <Button size="sm" disabled={pendingStart !== null} onClick={() => handleGenerate(summary)}>
+                            {pendingStart === summary.periodStart ? (
+                              <>
+                                <Loader2 className='w-4 h-4 mr-2 animate-spin' />
+                                Generating...
+                              </>
+                            ) : summary.status === 'missing' ? 'Generate' : 'Update'}
+                          </Button>
+                        )}
+                      </div>
+
+                      {!content ? (
+                        summary.status !== 'missing' && (
+                          <Text as='p' size="sm" variant="muted">
+                            This summary covers entries that are no longer shared with you for summaries. Update it to see a summary of the rest.
+                          </Text>
+                        )
+                      ) : (
+                        <>
+                          {content.overview && <Text as='p' size="sm">{content.overview}</Text>}
+                          <ul className='list-disc pl-5 space-y-1'>
+                            {content.bullets.map(bullet => (
+                              <li key={bullet.text}>
+                                <Text size="sm">{bullet.text}</Text>
+                              </li>
+                            ))}
+                          </ul>
+                          <div className='flex flex-wrap items-center gap-2'>
+                            {content.risks.level !== 'NONE' && (
+                              <Badge variant={RISK_VARIANTS[content.risks.level] ?? 'outline'}>Risk: {content.risks.level.toLowerCase()}</Badge>
+                            )}
+                            <Badge variant="outline">Mood trend: {content.sentiment.trend}</Badge>
+                            {content.themes.map(theme => (
+                              <Badge key={theme.name} variant="secondary">{theme.name}</Badge>
+                            ))}
+                          </div>
+                        </>
+                      )}
+                    </CardContent>
+                  </Card>
+                )
+              })}
+            </div>
+          )}
+        </>
+      )}
+    </DashboardLayout>
+  )
+}
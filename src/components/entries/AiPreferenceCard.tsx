@@ -0,0 +1,128 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Label } from '@/components/ui/label'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Text } from '@/components/ui/text'
+import { entriesService } from '@/services'
+import { Sparkles } from 'lucide-react'
+import type { AiPreferenceResponse } from '@/types/api'
+import type { AiPreference } from '@/types/database'
+
+const PREFERENCE_OPTIONS: Array<{ value: AiPreference; label: string }> = [
+  { value: 'ALWAYS', label: 'Allow AI summaries' },
+  { value: 'PROVIDER_ONLY', label: 'Only for providers I share with' },
+  { value: 'NEVER', label: 'Never' }
+]
+
+// Select items can't have an empty value, so following the default has its own
+const USE_DEFAULT = 'DEFAULT'
+
+interface AiPreferenceCardProps {
+  entryId: string
+}
+
+export function AiPreferenceCard({ entryId }: AiPreferenceCardProps): React.JSX.Element {
+  const [preference, setPreference] = useState<AiPreferenceResponse | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    entriesService.getAiPreference(entryId)
+      .then(setPreference)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load AI preference'))
+  }, [entryId])
+
+  const save = async (update: () => Promise<unknown>): Promise<void> => {
+    setIsSaving(true)
+    setError('')
+    try {
+      await update()
+      setPreference(await entriesService.getAiPreference(entryId))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update AI preference')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const defaultLabel = PREFERENCE_OPTIONS.find(option => option.value === preference?.clientPreference)?.label
+
+  return (
+    <Card className='shadow-lg border-0 bg-white/90 backdrop-blur-sm mt-6'>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Sparkles className="w-5 h-5" />
+          AI Summaries
+        </CardTitle>
+      </CardHeader>
+      <CardContent className='space-y-6'>
+        <Text as='p' size="sm" variant="muted">
+          Choose whether your entries may be sent to the AI model to be summarized, and by whom.
+          Requests you don&apos;t allow are refused and listed in your access report.
+        </Text>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {!preference ? (
+          <Text variant="muted">Loading AI preference...</Text>
+        ) : (
+          <>
+            {!preference.hasAiConsent && preference.effectivePreference !== 'NEVER' && (
+              <Text as='p' size="sm">
+                No entry will be summarized until you consent to AI processing. <Link href='/client/consents' className='underline'>Manage your consents</Link>
+              </Text>
+            )}
+            <div className='grid gap-4 sm:grid-cols-2'>
+              <div className='space-y-2'>
+                <Label htmlFor='ai-preference-default'>All my entries</Label>
+                <Select
+                  value={preference.clientPreference}
+                  disabled={isSaving}
+                  onValueChange={value => save(() => entriesService.updateClientAiPreference(value as AiPreference))}
+                >
+                  <SelectTrigger id='ai-preference-default'>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PREFERENCE_OPTIONS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className='space-y-2'>
+                <Label htmlFor='ai-preference-entry'>This entry</Label>
+                <Select
+                  value={preference.entryPreference ?? USE_DEFAULT}
+                  disabled={isSaving}
+                  onValueChange={value => save(() => entriesService.updateEntryAiPreference(
+                    entryId,
+                    value === USE_DEFAULT ? null : value as AiPreference
+                  ))}
+                >
+                  <SelectTrigger id='ai-preference-entry'>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={USE_DEFAULT}>Same as my other entries ({defaultLabel})</SelectItem>
+                    {PREFERENCE_OPTIONS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,252 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Text } from '@/components/ui/text'
+import { formatDate } from '@/lib/entryUtils'
+import { sharingService } from '@/services'
+import { ListChecks, CheckCircle } from 'lucide-react'
+import type { CreateShareRuleRequestParams, ProviderListResponse, ShareRuleResponse } from '@/types/api'
+import type { ShareScope } from '@/types/database'
+
+const SCOPE_OPTIONS: Array<{ value: ShareScope; label: string }> = [
+  { value: 'TITLE_ONLY', label: 'Title only' },
+  { value: 'SUMMARY_ONLY', label: 'Summary only' },
+  { value: 'FULL_ACCESS', label: 'Full access' }
+]
+
+const PERIOD_OPTIONS = [
+  { value: 'any', label: 'Any time' },
+  { value: '7', label: 'Past 7 days and from now on' },
+  { value: '30', label: 'Past 30 days and from now on' },
+  { value: '90', label: 'Past 90 days and from now on' },
+  { value: 'custom', label: 'Between two dates' }
+]
+
+const EMPTY_RULE = { providerId: '', scope: 'SUMMARY_ONLY' as ShareScope, tags: '', period: 'any', from: '', to: '' }
+
+interface ShareRulesCardProps {
+  providers: ProviderListResponse[]
+  // Offered as the starting tags, e.g. the entry being shared
+  suggestedTags?: string[]
+}
+
+function formatProviderName(provider: ProviderListResponse): string {
+  return [provider.firstName, provider.lastName].filter(Boolean).join(' ') || provider.email
+}
+
+function describeRule(rule: ShareRuleResponse): string {
+  const tags = rule.tags.length > 0 ? `Entries tagged ${rule.tags.map(tag => `#${tag}`).join(' or ')}` : 'All entries'
+  const from = rule.createdAfter ? ` from ${formatDate(rule.createdAfter)}` : ''
+  const to = rule.createdBefore ? ` until ${formatDate(rule.createdBefore)}` : ''
+  return `${tags}${from}${to}`
+}
+
+export function ShareRulesCard({ providers, suggestedTags = [] }: ShareRulesCardProps): React.JSX.Element {
+  const [rules, setRules] = useState<ShareRuleResponse[] | null>(null)
+  const [form, setForm] = useState({ ...EMPTY_RULE, tags: suggestedTags.join(', ') })
+  const [isSaving, setIsSaving] = useState(false)
+  const [pendingId, setPendingId] = useState<string | null>(null)
+  const [error, setError] = useState('')
+  const [success, setSuccess] = useState('')
+
+  const fetchRules = useCallback(async (): Promise<void> => {
+    try {
+      setRules(await sharingService.getShareRules())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load share rules')
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchRules()
+  }, [fetchRules])
+
+  const toRequest = (): CreateShareRuleRequestParams => {
+    const tags = form.tags.split(',').map(tag => tag.trim()).filter(Boolean)
+    const request: CreateShareRuleRequestParams = { providerId: form.providerId, scope: form.scope, tags }
+
+    if (form.period === 'custom') {
+      if (form.from) request.createdAfter = new Date(`${form.from}T00:00:00`).toISOString()
+      if (form.to) request.createdBefore = new Date(`${form.to}T23:59:59.999`).toISOString()
+    } else if (form.period !== 'any') {
+      request.createdAfter = new Date(Date.now() - Number(form.period) * 24 * 60 * 60 * 1000).toISOString()
+    }
+
+    return request
+  }
+
+  const handleCreate = async (e: React.FormEvent): Promise<void> => {
+    e.preventDefault()
+    setIsSaving(true)
+    setError('')
+    setSuccess('')
+    try {
+      const rule = await sharingService.createShareRule(toRequest())
+      setSuccess(`Rule saved. ${rule.activeShares} existing ${rule.activeShares === 1 ? 'entry was' : 'entries were'} shared.`)
+      setForm(EMPTY_RULE)
+      await fetchRules()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create share rule')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (rule: ShareRuleResponse, revokeShares: boolean): Promise<void> => {
+    setPendingId(rule.id)
+    setError('')
+    setSuccess('')
+    try {
+      const revoked = await sharingService.deleteShareRule(rule.id, revokeShares)
+      setSuccess(revokeShares
+        ? `Rule removed and ${revoked} ${revoked === 1 ? 'entry' : 'entries'} unshared.`
+        : 'Rule removed. Entries it shared stay shared.')
+      setRules(current => current && current.filter(item => item.id !== rule.id))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete share rule')
+    } finally {
+      setPendingId(null)
+    }
+  }
+
+  return (
+    <Card className='shadow-lg border-0 bg-white/90 backdrop-blur-sm mt-6'>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ListChecks className="w-5 h-5" />
+          Share Rules
+        </CardTitle>
+      </CardHeader>
+      <CardContent className='space-y-6'>
+        <Text as='p' size="sm" variant="muted">
+          A rule shares every entry that matches it with a provider: the ones you have written and the ones
+          you write or retag later. Entries you already shared with that provider, or stopped sharing, are left as they are.
+          A rule needs your consent to share with the provider at its access level.
+        </Text>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {success && (
+          <Alert variant="success">
+            <CheckCircle className="h-4 w-4" />
+            <AlertDescription>
+              <Text variant="success">{success}</Text>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {!rules ? (
+          <Text variant="muted">Loading share rules...</Text>
+        ) : rules.length === 0 ? (
+          <Text variant="muted">You have no share rules.</Text>
+        ) : (
+          <div className='space-y-3'>
+            {rules.map(rule => (
+              <div key={rule.id} className='flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4 rounded-lg border border-border'>
+                <div className='space-y-1'>
+                  <Text as='div' size="sm">
+                    {describeRule(rule)} with <strong>{rule.providerName}</strong>
+                  </Text>
+                  <div className='flex items-center gap-2'>
+                    <Badge variant="secondary">{SCOPE_OPTIONS.find(option => option.value === rule.scope)?.label ?? rule.scope}</Badge>
+                    <Text size="xs" variant="muted">
+                      {rule.activeShares} {rule.activeShares === 1 ? 'entry' : 'entries'} shared
+                    </Text>
+                  </div>
+                </div>
+                <div className='flex gap-2'>
+                  <Button variant="outline" size="sm" disabled={pendingId !== null} onClick={() => handleDelete(rule, false)}>
+                    Remove rule
+                  </Button>
+                  <Button variant="destructive" size="sm" disabled={pendingId !== null} onClick={() => handleDelete(rule, true)}>
+                    Remove and unshare
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <form onSubmit={handleCreate} className='grid gap-4 sm:grid-cols-2 pt-4 border-t border-border'>
+          <div className='space-y-2'>
+            <Label htmlFor='rule-provider'>Provider</Label>
+            <Select value={form.providerId} onValueChange={value => setForm(current => ({ ...current, providerId: value }))}>
+              <SelectTrigger id='rule-provider'>
+                <SelectValue placeholder="Select a healthcare provider..." />
+              </SelectTrigger>
+              <SelectContent>
+                {providers.map(provider => (
+                  <SelectItem key={provider.id} value={provider.id}>{formatProviderName(provider)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className='space-y-2'>
+            <Label htmlFor='rule-scope'>Access</Label>
+            <Select value={form.scope} onValueChange={value => setForm(current => ({ ...current, scope: value as ShareScope }))}>
+              <SelectTrigger id='rule-scope'>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SCOPE_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className='space-y-2'>
+            <Label htmlFor='rule-tags'>Tags</Label>
+            <Input
+              id='rule-tags'
+              value={form.tags}
+              onChange={e => setForm(current => ({ ...current, tags: e.target.value }))}
+              placeholder='anxiety, sleep'
+            />
+            <Text size="xs" variant="muted">Entries with any of these tags. Leave empty for every entry.</Text>
+          </div>
+          <div className='space-y-2'>
+            <Label htmlFor='rule-period'>Written</Label>
+            <Select value={form.period} onValueChange={value => setForm(current => ({ ...current, period: value }))}>
+              <SelectTrigger id='rule-period'>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PERIOD_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {form.period === 'custom' && (
+            <>
+              <div className='space-y-2'>
+                <Label htmlFor='rule-from'>From</Label>
+                <Input id='rule-from' type='date' value={form.from} onChange={e => setForm(current => ({ ...current, from: e.target.value }))} />
+              </div>
+              <div className='space-y-2'>
+                <Label htmlFor='rule-to'>To</Label>
+                <Input id='rule-to' type='date' value={form.to} onChange={e => setForm(current => ({ ...current, to: e.target.value }))} />
+              </div>
+            </>
+          )}
+          <div className='sm:col-span-2 flex justify-end'>
+            <Button type='submit' disabled={isSaving || !form.providerId}>
+              {isSaving ? 'Saving...' : 'Add rule'}
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,189 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Text } from '@/components/ui/text'
+import { formatDate } from '@/lib/entryUtils'
+import { sharingService } from '@/services'
+import { UsersRound, CheckCircle } from 'lucide-react'
+import type { CareTeamResponse, TeamShareResponse } from '@/types/api'
+import type { ShareScope } from '@/types/database'
+
+const SCOPE_OPTIONS: Array<{ value: ShareScope; label: string }> = [
+  { value: 'TITLE_ONLY', label: 'Title only' },
+  { value: 'SUMMARY_ONLY', label: 'Summary only' },
+  { value: 'FULL_ACCESS', label: 'Full access' }
+]
+
+interface TeamShareCardProps {
+  entryId: string
+}
+
+export function TeamShareCard({ entryId }: TeamShareCardProps): React.JSX.Element {
+  const [teams, setTeams] = useState<CareTeamResponse[]>([])
+  const [teamShares, setTeamShares] = useState<TeamShareResponse[] | null>(null)
+  const [teamId, setTeamId] = useState('')
+  const [scope, setScope] = useState<ShareScope>('SUMMARY_ONLY')
+  const [isSaving, setIsSaving] = useState(false)
+  const [pendingId, setPendingId] = useState<string | null>(null)
+  const [error, setError] = useState('')
+  const [success, setSuccess] = useState('')
+
+  const fetchTeamShares = useCallback(async (): Promise<void> => {
+    try {
+      setTeamShares(await sharingService.getTeamShares(entryId))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load team shares')
+    }
+  }, [entryId])
+
+  useEffect(() => {
+    fetchTeamShares()
+    sharingService.getCareTeams()
+      .then(setTeams)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load care teams'))
+  }, [fetchTeamShares])
+
+  const selectedTeam = teams.find(team => team.id === teamId)
+  const availableTeams = teams.filter(team => !teamShares?.some(share => share.teamId === team.id))
+
+  const handleShare = async (e: React.FormEvent): Promise<void> => {
+    e.preventDefault()
+    setIsSaving(true)
+    setError('')
+    setSuccess('')
+    try {
+      await sharingService.shareWithTeam({ entryId, teamId, scope })
+      setSuccess(`Entry shared with ${selectedTeam?.name ?? 'the care team'}.`)
+      setTeamId('')
+      await fetchTeamShares()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to share with the care team')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleRevoke = async (teamShare: TeamShareResponse): Promise<void> => {
+    setPendingId(teamShare.id)
+    setError('')
+    setSuccess('')
+    try {
+      await sharingService.revokeTeamShare(teamShare.id)
+      setSuccess(`Stopped sharing with ${teamShare.teamName}.`)
+      setTeamShares(current => current && current.filter(item => item.id !== teamShare.id))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke care team share')
+    } finally {
+      setPendingId(null)
+    }
+  }
+
+  return (
+    <Card className='shadow-lg border-0 bg-white/90 backdrop-blur-sm mt-6'>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <UsersRound className="w-5 h-5" />
+          Share with a Care Team
+        </CardTitle>
+      </CardHeader>
+      <CardContent className='space-y-6'>
+        <Text as='p' size="sm" variant="muted">
+          Everyone on the team you have given consent to can see this entry, including providers who join the team later.
+          Providers who leave the team lose access unless you also shared with them directly.
+        </Text>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {success && (
+          <Alert variant="success">
+            <CheckCircle className="h-4 w-4" />
+            <AlertDescription>
+              <Text variant="success">{success}</Text>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {!teamShares ? (
+          <Text variant="muted">Loading team shares...</Text>
+        ) : teamShares.length === 0 ? (
+          <Text variant="muted">This entry is not shared with any care team.</Text>
+        ) : (
+          <div className='space-y-3'>
+            {teamShares.map(teamShare => (
+              <div key={teamShare.id} className='flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4 rounded-lg border border-border'>
+                <div className='space-y-2'>
+                  <div className='flex items-center gap-2'>
+                    <Text as='div' size="sm" weight="semibold">{teamShare.teamName}</Text>
+                    <Badge variant="secondary">{SCOPE_OPTIONS.find(option => option.value === teamShare.scope)?.label ?? teamShare.scope}</Badge>
+                    {teamShare.expiresAt && (
+                      <Text size="xs" variant="muted">until {formatDate(teamShare.expiresAt)}</Text>
+                    )}
+                  </div>
+                  <div className='flex flex-wrap gap-1'>
+                    {teamShare.members.map(member => (
+                      <Badge key={member.providerId} variant={member.hasAccess ? 'outline' : 'destructive'}>
+                        {member.name}{member.hasAccess ? '' : ' (no access)'}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+                <Button variant="destructive" size="sm" disabled={pendingId !== null} onClick={() => handleRevoke(teamShare)}>
+                  Stop sharing
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <form onSubmit={handleShare} className='grid gap-4 sm:grid-cols-2 pt-4 border-t border-border'>
+          <div className='space-y-2'>
+            <Label htmlFor='team-share-team'>Care team</Label>
+            <Select value={teamId} onValueChange={setTeamId}>
+              <SelectTrigger id='team-share-team'>
+                <SelectValue placeholder={availableTeams.length > 0 ? 'Select a care team...' : 'No other care teams'} />
+              </SelectTrigger>
+              <SelectContent>
+                {availableTeams.map(team => (
+                  <SelectItem key={team.id} value={team.id}>{team.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className='space-y-2'>
+            <Label htmlFor='team-share-scope'>Access</Label>
+            <Select value={scope} onValueChange={value => setScope(value as ShareScope)}>
+              <SelectTrigger id='team-share-scope'>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SCOPE_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {selectedTeam && (
+            <Text as='p' size="sm" variant="muted" className='sm:col-span-2'>
+              Members: {selectedTeam.members.map(member => member.name).join(', ')}
+            </Text>
+          )}
+          <div className='sm:col-span-2 flex justify-end'>
+            <Button type='submit' disabled={isSaving || !teamId}>
+              {isSaving ? 'Sharing...' : 'Share with team'}
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,43 @@
+'use client'
+
+import { Progress } from '@/components/ui/progress'
+import { Text } from '@/components/ui/text'
+import { checkPasswordRules, passwordStrength } from '@/lib/security/password-policy'
+import { Check, X } from 'lucide-react'
+import type { PasswordPolicy } from '@/types/api'
+
+interface PasswordStrengthMeterProps {
+  password: string
+  policy: PasswordPolicy
+}
+
+const STRENGTH_LABELS = ['Too weak', 'Weak', 'Fair', 'Good', 'Strong']
+
+export function PasswordStrengthMeter({ password, policy }: PasswordStrengthMeterProps) {
+  const score = passwordStrength(password, policy)
+  const rules = checkPasswordRules(password, policy)
+
+  return (
+    <div className='space-y-2' aria-live='polite'>
+      <div className='flex items-center gap-3'>
+        <Progress value={score * 25} className='h-2' aria-label='Password strength' />
+        <Text size='xs' variant={score >= 3 ? 'success' : score >= 2 ? 'warning' : 'muted'} className='whitespace-nowrap'>
+          {STRENGTH_LABELS[score]}
+        </Text>
+      </div>
+      <ul className='grid grid-cols-2 gap-1'>
+        {rules.map(result => (
+          <Text as='li' key={result.rule} size='xs' variant={result.met ? 'success' : 'muted'} className='flex items-center gap-1'>
+            {result.met ? <Check className='w-3 h-3' aria-hidden='true' /> : <X className='w-3 h-3' aria-hidden='true' />}
+            {result.label}
+          </Text>
+        ))}
+      </ul>
+      {policy.breachedCheck && (
+        <Text as='p' size='xs' variant='muted'>
+          Passwords known from data breaches are refused.
+        </Text>
+      )}
+    </div>
+  )
+}
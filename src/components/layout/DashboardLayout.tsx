@@ -1,13 +1,14 @@
 'use client'
 
 import { ReactNode } from 'react'
+import Link from 'next/link'
 import { Button } from '@/components/ui/button'
 import { Skeleton } from '@/components/ui/skeleton'
 import { Heading } from '@/components/ui/heading'
 import { Text } from '@/components/ui/text'
 import { Alert, AlertTitle, AlertDescription } from '@/components/ui/alert'
 import { Separator } from '@/components/ui/separator'
-import { LogOut, LucideIcon } from 'lucide-react'
+import { CalendarRange, FileSearch, LayoutDashboard, LogOut, Monitor, ShieldCheck, Siren, UserPlus, LucideIcon } from 'lucide-react'
 import type { Session } from 'next-auth'
 
 interface DashboardLayoutProps {
@@ -76,6 +77,56 @@ export function DashboardLayout({
             <div className='flex items-center space-x-3'>
               {headerActions}
               {headerActions && <Separator orientation="vertical" className='hidden sm:block h-6' aria-hidden="true" />}
+              {session.user.role === 'ADMIN' && (
+                <>
+                  <Button variant="ghost" size="sm" asChild>
+                    <Link href="/admin" aria-label="Admin console">
+                      <LayoutDashboard className='w-4 h-4' aria-hidden="true" />
+                      <Text as='span' className='hidden sm:inline ml-2'>Admin</Text>
+                    </Link>
+                  </Button>
+                  <Button variant="ghost" size="sm" asChild>
+                    <Link href="/admin/audit" aria-label="Audit log">
+                      <FileSearch className='w-4 h-4' aria-hidden="true" />
+                      <Text as='span' className='hidden sm:inline ml-2'>Audit log</Text>
+                    </Link>
+                  </Button>
+                </>
+              )}
+              {session.user.role === 'PROVIDER' && (
+                <>
+                  <Button variant="ghost" size="sm" asChild>
+                    <Link href="/provider/invitations" aria-label="Client invitations">
+                      <UserPlus className='w-4 h-4' aria-hidden="true" />
+                      <Text as='span' className='hidden sm:inline ml-2'>Invitations</Text>
+                    </Link>
+                  </Button>
+                  <Button variant="ghost" size="sm" asChild>
+                    <Link href="/provider/summaries" aria-label="Period summaries">
+                      <CalendarRange className='w-4 h-4' aria-hidden="true" />
+                      <Text as='span' className='hidden sm:inline ml-2'>Summaries</Text>
+                    </Link>
+                  </Button>
+                  <Button variant="ghost" size="sm" asChild>
+                    <Link href="/provider/emergency-access" aria-label="Emergency access">
+                      <Siren className='w-4 h-4' aria-hidden="true" />
+                      <Text as='span' className='hidden sm:inline ml-2'>Emergency</Text>
+                    </Link>
+                  </Button>
+                </>
+              )}
+              <Button variant="ghost" size="sm" asChild>
+                <Link href="/account/sessions" aria-label="Devices and sessions">
+                  <Monitor className='w-4 h-4' aria-hidden="true" />
+                  <Text as='span' className='hidden sm:inline ml-2'>Devices</Text>
+                </Link>
+              </Button>
+              <Button variant="ghost" size="sm" asChild>
+                <Link href="/mfa/setup" aria-label="Two-factor authentication settings">
+                  <ShieldCheck className='w-4 h-4' aria-hidden="true" />
+                  <Text as='span' className='hidden sm:inline ml-2'>Security</Text>
+                </Link>
+              </Button>
               <Button
                 variant="outline"
                 size="sm"
@@ -1,5 +1,6 @@
 'use client'
 
+import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Text } from '@/components/ui/text'
@@ -13,9 +14,11 @@ interface SummaryDisplayProps {
       end: string
     }
     finalSummary: string
+    stale?: boolean
     hierarchicalSummaries?: Array<{
       level: 'group' | 'entry'
       summary: string
+      stale?: boolean
       entries?: Array<{
         title: string
         timestamp: string
@@ -82,7 +85,15 @@ export function SummaryDisplay({ summary, onClose }: SummaryDisplayProps) {
           <div className="flex items-start gap-3 mb-4">
             <CheckCircle2 className="w-5 h-5 text-primary mt-0.5" />
             <div className="flex-1">
-              <Text as="h3" size="lg" weight="semibold" className="block mb-3">Overall Summary</Text>
+              <div className="flex items-center gap-2 mb-3">
+                <Text as="h3" size="lg" weight="semibold">Overall Summary</Text>
+                {summary.stale && <Badge variant="secondary">Stale</Badge>}
+              </div>
+              {summary.stale && (
+                <Text size="sm" variant="muted" className="block mb-3">
+                  Some entries were edited after their summaries were written, and those summaries could not be regenerated. Generate again to bring this up to date.
+                </Text>
+              )}
               <Text className="block" leading="relaxed">
                 {summary.finalSummary}
               </Text>
@@ -104,7 +115,10 @@ export function SummaryDisplay({ summary, onClose }: SummaryDisplayProps) {
                 .map((group, index) => (
                   <div key={index} className="bg-muted/30 rounded-lg p-4 border border-primary/10">
                     <div className="mb-3">
-                      <Text weight="medium" className="block mb-2">Group {index + 1} Summary</Text>
+                      <div className="flex items-center gap-2 mb-2">
+                        <Text weight="medium">Group {index + 1} Summary</Text>
+                        {group.stale && <Badge variant="secondary">Stale</Badge>}
+                      </div>
                       <Text size="sm" className="block" leading="relaxed">
                         {group.summary}
                       </Text>
@@ -49,8 +49,8 @@ export function SummaryGenerator({
       setProgress({ current: i + 1, total: entries.length })
 
       try {
-        // Only generate summary if it doesn't exist
-        if (!entry.aiSummary) {
+        // Only generate summary if it doesn't exist or is out of date
+        if (!entry.aiSummary || entry.aiSummaryStale) {
           await entriesService.generateSummary(entry.id, true)
           successCount++
         }
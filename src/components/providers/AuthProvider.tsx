@@ -1,6 +1,7 @@
 'use client'
 
 import { SessionProvider } from 'next-auth/react'
+import { IdleTimeoutProvider } from '@/components/providers/IdleTimeoutProvider'
 import type { ReactNode } from 'react'
 
 interface AuthProviderProps {
@@ -10,7 +11,9 @@ interface AuthProviderProps {
 export function AuthProvider({ children }: AuthProviderProps): React.JSX.Element {
   return (
     <SessionProvider refetchInterval={5 * 60} refetchOnWindowFocus={true}>
-      {children}
+      <IdleTimeoutProvider>
+        {children}
+      </IdleTimeoutProvider>
     </SessionProvider>
   )
 }
\ No newline at end of file
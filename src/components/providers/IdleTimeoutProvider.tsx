@@ -0,0 +1,135 @@
+'use client'
+
+import { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react'
+import { signOut, useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog'
+import { ReauthDialog } from '@/components/providers/ReauthDialog'
+import type { ReactNode } from 'react'
+import type { Session } from 'next-auth'
+import type { SessionUpdateParams } from '@/types/api'
+
+// Warn this long before the idle timeout (set per role on the server) runs out
+const WARNING_SECONDS = 60
+// Report activity to the server at most this often; see IDLE_GRACE_SECONDS
+const HEARTBEAT_INTERVAL_MS = 30 * 1000
+const ACTIVITY_EVENTS = ['mousedown', 'mousemove', 'keydown', 'scroll', 'touchstart'] as const
+
+interface IdleTimeoutContextValue {
+  // The session that was active when the idle lock kicked in, until the user signs back in
+  lockedSession: Session | null
+}
+
+const IdleTimeoutContext = createContext<IdleTimeoutContextValue>({ lockedSession: null })
+
+export function useIdleTimeout(): IdleTimeoutContextValue {
+  return useContext(IdleTimeoutContext)
+}
+
+interface IdleTimeoutProviderProps {
+  children: ReactNode
+}
+
+export function IdleTimeoutProvider({ children }: IdleTimeoutProviderProps): React.JSX.Element {
+  const { data: session, update } = useSession()
+  const router = useRouter()
+  const [lockedSession, setLockedSession] = useState<Session | null>(null)
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null)
+  const lastActivity = useRef(Date.now())
+  const lastHeartbeat = useRef(Date.now())
+  const sessionRef = useRef(session)
+  sessionRef.current = session
+
+  const timeoutSeconds = lockedSession ? undefined : session?.idleTimeoutSeconds
+  const isWarning = secondsLeft !== null
+
+  const markActive = useCallback((): void => {
+    lastActivity.current = Date.now()
+    if (Date.now() - lastHeartbeat.current > HEARTBEAT_INTERVAL_MS) {
+      lastHeartbeat.current = Date.now()
+      update({ activity: true } satisfies SessionUpdateParams)
+    }
+  }, [update])
+
+  const lock = useCallback(async (): Promise<void> => {
+    setSecondsLeft(null)
+    setLockedSession(sessionRef.current)
+    // Ends the server session (and audits it) rather than waiting for the server-side expiry
+    await update({ idleLock: true } satisfies SessionUpdateParams)
+  }, [update])
+
+  useEffect(() => {
+    // While the warning is open only an explicit choice counts
+    if (!timeoutSeconds || isWarning) return
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, markActive, { passive: true }))
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, markActive))
+    }
+  }, [timeoutSeconds, isWarning, markActive])
+
+  useEffect(() => {
+    if (!timeoutSeconds) return
+
+    // Compare timestamps rather than counting ticks, since background tabs throttle timers
+    const interval = setInterval(() => {
+      const idleSeconds = (Date.now() - lastActivity.current) / 1000
+
+      if (idleSeconds >= timeoutSeconds) {
+        lock()
+      } else if (idleSeconds >= timeoutSeconds - WARNING_SECONDS) {
+        setSecondsLeft(Math.ceil(timeoutSeconds - idleSeconds))
+      } else {
+        setSecondsLeft(null)
+      }
+    }, 1000)
+
+    return () => clearInterval(interval)
+  }, [timeoutSeconds, lock])
+
+  const handleStaySignedIn = (): void => {
+    lastHeartbeat.current = 0
+    markActive()
+    setSecondsLeft(null)
+  }
+
+  const handleSignOut = async (): Promise<void> => {
+    setSecondsLeft(null)
+    setLockedSession(null)
+    await signOut({ redirect: false })
+    router.push('/login')
+  }
+
+  const handleReauthenticated = (): void => {
+    lastActivity.current = Date.now()
+    lastHeartbeat.current = Date.now()
+    setLockedSession(null)
+  }
+
+  return (
+    <IdleTimeoutContext.Provider value={{ lockedSession }}>
+      {children}
+
+      <AlertDialog open={isWarning}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Are you still there?</AlertDialogTitle>
+            <AlertDialogDescription>
+              For your security you will be signed out in {secondsLeft} seconds because of inactivity.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel onClick={handleSignOut}>Sign out now</AlertDialogCancel>
+            <AlertDialogAction onClick={handleStaySignedIn}>Stay signed in</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <ReauthDialog
+        email={lockedSession?.user.email ?? null}
+        onReauthenticated={handleReauthenticated}
+        onSignOut={handleSignOut}
+      />
+    </IdleTimeoutContext.Provider>
+  )
+}
@@ -0,0 +1,138 @@
+'use client'
+
+import { useState } from 'react'
+import { signIn } from 'next-auth/react'
+import { Button } from '@/components/ui/button'
+import { InputWithIcon } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { AlertDialog, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog'
+import { AlertCircle, Loader2, Lock, ShieldCheck } from 'lucide-react'
+import type { LoginErrorCode } from '@/types/api'
+import type { User } from '@/types/database'
+
+interface ReauthDialogProps {
+  email: User['email'] | null
+  onReauthenticated: () => void
+  onSignOut: () => void
+}
+
+/**
+ * Shown over the current page after an idle logoff. Signing back in here
+ * keeps the page mounted, so unsaved form state (e.g. a journal draft) survives.
+ */
+export function ReauthDialog({ email, onReauthenticated, onSignOut }: ReauthDialogProps): React.JSX.Element {
+  const [password, setPassword] = useState('')
+  const [mfaCode, setMfaCode] = useState('')
+  const [mfaRequired, setMfaRequired] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState('')
+
+  const handleSubmit = async (e: React.FormEvent): Promise<void> => {
+    e.preventDefault()
+    if (!email) return
+
+    setIsLoading(true)
+    setError('')
+
+    const result = await signIn('credentials', {
+      email,
+      password,
+      ...(mfaRequired && { mfaCode }),
+      redirect: false
+    })
+
+    setIsLoading(false)
+
+    if (result?.error) {
+      switch (result.error as LoginErrorCode) {
+        case 'MFA_REQUIRED':
+          setMfaRequired(true)
+          break
+        case 'MFA_INVALID':
+          setError('Invalid verification code')
+          break
+        case 'RATE_LIMITED':
+          setError('Too many attempts. Wait a few minutes and try again.')
+          break
+        default:
+          setError('Incorrect password')
+      }
+      return
+    }
+
+    if (result?.ok) {
+      setPassword('')
+      setMfaCode('')
+      setMfaRequired(false)
+      onReauthenticated()
+    }
+  }
+
+  return (
+    <AlertDialog open={!!email}>
+      <AlertDialogContent onEscapeKeyDown={e => e.preventDefault()}>
+        <form onSubmit={handleSubmit} className='space-y-4'>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Signed out due to inactivity</AlertDialogTitle>
+            <AlertDialogDescription>
+              Sign in again as {email} to continue. Anything you haven&apos;t saved on this page is kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+
+          {mfaRequired ? (
+            <div className='space-y-2'>
+              <Label htmlFor='reauth-code'>Verification code</Label>
+              <InputWithIcon
+                id='reauth-code'
+                type='text'
+                inputMode='numeric'
+                autoComplete='one-time-code'
+                autoFocus
+                required
+                placeholder='6-digit code or recovery code'
+                value={mfaCode}
+                onChange={e => setMfaCode(e.target.value)}
+                disabled={isLoading}
+                icon={<ShieldCheck className='w-5 h-5' />}
+              />
+            </div>
+          ) : (
+            <div className='space-y-2'>
+              <Label htmlFor='reauth-password'>Password</Label>
+              <InputWithIcon
+                id='reauth-password'
+                type='password'
+                autoComplete='current-password'
+                autoFocus
+                required
+                placeholder='Enter your password'
+                value={password}
+                onChange={e => setPassword(e.target.value)}
+                disabled={isLoading}
+                icon={<Lock className='w-5 h-5' />}
+              />
+            </div>
+          )}
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className='h-4 w-4' />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <AlertDialogFooter>
+            <Button type='button' variant='outline' onClick={onSignOut} disabled={isLoading}>
+              Sign out
+            </Button>
+            <Button type='submit' disabled={isLoading}>
+              {isLoading && <Loader2 className='w-4 h-4 mr-2 animate-spin' />}
+              {mfaRequired ? 'Verify' : 'Sign in'}
+            </Button>
+          </AlertDialogFooter>
+        </form>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
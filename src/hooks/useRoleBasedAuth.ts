@@ -3,14 +3,20 @@
 import { useSession, signOut } from 'next-auth/react'
 import { useRouter } from 'next/navigation'
 import { useEffect } from 'react'
+import { useIdleTimeout } from '@/components/providers/IdleTimeoutProvider'
+import type { UserRole } from '@/types/database'
 
 interface UseRoleBasedAuthProps {
-  requiredRole: 'CLIENT' | 'PROVIDER'
+  // Omit for pages any signed-in user may open
+  requiredRole?: UserRole
   redirectOnWrongRole?: boolean
 }
 
 export function useRoleBasedAuth({ requiredRole, redirectOnWrongRole = true }: UseRoleBasedAuthProps) {
-  const { data: session, status } = useSession()
+  const { data, status } = useSession()
+  const { lockedSession } = useIdleTimeout()
+  // Keep the page (and any unsaved input) mounted behind the re-auth prompt after an idle logoff
+  const session = data ?? lockedSession
   const router = useRouter()
 
   useEffect(() => {
@@ -21,9 +27,12 @@ export function useRoleBasedAuth({ requiredRole, redirectOnWrongRole = true }: U
       return
     }
 
-    if (redirectOnWrongRole && session.user.role !== requiredRole) {
+    if (requiredRole && redirectOnWrongRole && session.user.role !== requiredRole) {
       // Redirect to appropriate dashboard based on role
       switch (session.user.role) {
+        case 'ADMIN':
+          router.push('/admin')
+          break
         case 'PROVIDER':
           router.push('/provider')
           break
@@ -43,7 +52,7 @@ export function useRoleBasedAuth({ requiredRole, redirectOnWrongRole = true }: U
 
   const isLoading = status === 'loading'
   const isAuthenticated = !!session
-  const hasCorrectRole = session?.user?.role === requiredRole
+  const hasCorrectRole = !!session && (!requiredRole || session.user.role === requiredRole)
 
   return {
     session,
@@ -0,0 +1,227 @@
+import { ChatOpenAI } from '@langchain/openai'
+import { HumanMessage, SystemMessage } from '@langchain/core/messages'
+import { StringOutputParser } from '@langchain/core/output_parsers'
+
+/**
+ * Language model backends for summaries.
+ *
+ * Summaries go through whichever LLMProvider is installed: LLM_PROVIDER=openai
+ * calls OpenAI (OPENAI_API_KEY, OPENAI_MODEL), LLM_PROVIDER=local calls an
+ * OpenAI-compatible server on the clinic's own network, such as llama.cpp or
+ * Ollama (LOCAL_LLM_URL, LOCAL_LLM_MODEL), and LLM_PROVIDER=extractive picks
+ * sentences out of the text with no model at all, so summaries work offline
+ * and the same input always gives the same summary. Left unset, OpenAI is
+ * used when a key is configured and the extractive provider otherwise. A
+ * deployment or test can install its own with setLLMProvider().
+ *
+ * Providers only ever see text the summarizer has already redacted.
+ */
+
+export interface SummaryRequest {
+  system: string
+  prompt: string
+  // The redacted text the prompt is about, for providers that don't read prompts
+  sources: string[]
+}
+
+export interface SummaryCompletion {
+  summary: string
+  themes: string[]
+}
+
+export interface LLMProvider {
+  // Which backend and model wrote a summary, e.g. 'openai:gpt-4o-mini'
+  readonly id: string
+  summarize(request: SummaryRequest): Promise<SummaryCompletion>
+}
+
+// Remove markdown code fences from model outputs
+export function stripMarkdownCodeFences(text: string): string {
+  return text.replace(/```[a-zA-Z]*\s*([\s\S]*?)```/g, '$1').trim()
+}
+
+// Tolerant JSON parse: raw, fenced, or embedded JSON
+function parseJsonTolerant(text: string): Record<string, unknown> | null {
+  const candidates = [text, text.match(/\{[\s\S]*\}/)?.[0], stripMarkdownCodeFences(text)]
+  for (const candidate of candidates) {
+    if (!candidate?.trim().startsWith('{')) continue
+    try {
+      return JSON.parse(candidate)
+    } catch {
+      // try the next candidate
+    }
+  }
+  return null
+}
+
+/**
+ * A chat model asked for JSON with a summary (or overview), themes, and
+ * optional observations and recommendations, which are folded into the
+ * summary text. Output that isn't JSON is used as the summary as it is.
+ */
+class ChatModelProvider implements LLMProvider {
+  private readonly outputParser = new StringOutputParser()
+
+  constructor(readonly id: string, private readonly chat: ChatOpenAI) {}
+
+  async summarize(request: SummaryRequest): Promise<SummaryCompletion> {
+    const response = await this.chat.invoke([
+      new SystemMessage(request.system),
+      new HumanMessage(request.prompt)
+    ])
+    const raw = await this.outputParser.parse(response.content as string)
+
+    const result = parseJsonTolerant(raw)
+    if (!result) {
+      return { summary: stripMarkdownCodeFences(raw), themes: [] }
+    }
+
+    let summary = String(result.summary || result.overview || '')
+    if (result.observations) summary += ' ' + result.observations
+    if (result.recommendations) summary += ' Recommendations: ' + result.recommendations
+
+    return {
+      summary,
+      themes: Array.isArray(result.themes) ? result.themes.map(String) : []
+    }
+  }
+}
+
+export class OpenAIProvider extends ChatModelProvider {
+  private readonly hasApiKey: boolean
+
+  constructor(options: { apiKey?: string; model: string; maxTokens: number }) {
+    super(`openai:${options.model}`, new ChatOpenAI({
+      modelName: options.model,
+      temperature: 0.3,
+      maxTokens: options.maxTokens,
+      openAIApiKey: options.apiKey
+    }))
+    this.hasApiKey = !!options.apiKey
+  }
+
+  async summarize(request: SummaryRequest): Promise<SummaryCompletion> {
+    if (!this.hasApiKey) {
+      throw new Error('OpenAI API key not configured')
+    }
+    return super.summarize(request)
+  }
+}
+
+/**
+ * An OpenAI-compatible server run by the clinic, e.g. `llama-server` from
+ * llama.cpp or Ollama at http://localhost:11434/v1. Entry text never leaves
+ * the network it runs on.
+ */
+export class LocalLLMProvider extends ChatModelProvider {
+  constructor(options: { baseURL: string; model: string; maxTokens: number; apiKey?: string }) {
+    super(`local:${options.model}`, new ChatOpenAI({
+      modelName: options.model,
+      temperature: 0.3,
+      maxTokens: options.maxTokens,
+      // Local servers ignore the key, but the client won't start without one
+      openAIApiKey: options.apiKey || 'local',
+      configuration: { baseURL: options.baseURL }
+    }))
+  }
+}
+
+const STOPWORDS = new Set([
+  'about', 'after', 'again', 'also', 'am', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'because', 'been',
+  'before', 'being', 'but', 'by', 'can', 'could', 'did', 'do', 'does', 'doing', 'down', 'during', 'each',
+  'even', 'felt', 'for', 'from', 'get', 'got', 'had', 'has', 'have', 'having', 'he', 'her', 'here', 'him',
+  'his', 'how', 'if', 'in', 'into', 'is', 'it', 'its', 'just', 'like', 'me', 'more', 'most', 'much', 'my',
+  'myself', 'no', 'not', 'now', 'of', 'off', 'on', 'once', 'one', 'only', 'or', 'other', 'our', 'out',
+  'over', 'really', 'she', 'so', 'some', 'still', 'such', 'than', 'that', 'the', 'their', 'them', 'then',
+  'there', 'these', 'they', 'this', 'those', 'through', 'to', 'today', 'too', 'under', 'until', 'up',
+  'very', 'was', 'we', 'were', 'what', 'when', 'where', 'which', 'while', 'who', 'why', 'will', 'with',
+  'would', 'you', 'your'
+])
+
+// Redaction placeholders such as PERSON_NAME or [PHONE] aren't themes
+const PLACEHOLDER = /\[[A-Z_ ]+\]|\b[A-Z]+(?:_[A-Z]+)+\b/g
+
+function terms(sentence: string): string[] {
+  return (sentence.replace(PLACEHOLDER, ' ').toLowerCase().match(/[a-z][a-z'-]+/g) ?? [])
+    .filter(term => term.length > 2 && !STOPWORDS.has(term))
+}
+
+/**
+ * Extractive summaries with no model: the sentences whose words recur most
+ * across the text, in their original order, and the most frequent words as
+ * themes. Deterministic, so the summary pipeline can be run and tested
+ * offline.
+ */
+export class ExtractiveProvider implements LLMProvider {
+  readonly id = 'extractive:v1'
+
+  async summarize(request: SummaryRequest): Promise<SummaryCompletion> {
+    const sentences = request.sources
+      .flatMap(text => text.split(/(?<=[.!?])\s+|\n+/))
+      .map(sentence => sentence.trim())
+      .filter(sentence => sentence.length > 0)
+
+    const frequencies = new Map<string, number>()
+    for (const sentence of sentences) {
+      for (const term of terms(sentence)) {
+        frequencies.set(term, (frequencies.get(term) ?? 0) + 1)
+      }
+    }
+
+    const scored = sentences.map((sentence, index) => {
+      const sentenceTerms = terms(sentence)
+      const total = sentenceTerms.reduce((sum, term) => sum + (frequencies.get(term) ?? 0), 0)
+      return { sentence, index, score: sentenceTerms.length ? total / sentenceTerms.length : 0 }
+    })
+
+    // About a quarter of the text, between three and eight sentences
+    const count = Math.min(8, Math.max(3, Math.ceil(sentences.length / 4)))
+    const chosen = [...scored]
+      .sort((a, b) => b.score - a.score || a.index - b.index)
+      .slice(0, count)
+      .sort((a, b) => a.index - b.index)
+
+    const themes = [...frequencies.entries()]
+      .sort(([termA, countA], [termB, countB]) => countB - countA || termA.localeCompare(termB))
+      .slice(0, 5)
+      .map(([term]) => term)
+
+    return { summary: chosen.map(item => item.sentence).join(' '), themes }
+  }
+}
+
+let installedProvider: LLMProvider | null = null
+
+function createLLMProvider(): LLMProvider {
+  const maxTokens = Number(process.env.OPENAI_MAX_TOKENS || 1000)
+  const openai = (): LLMProvider => new OpenAIProvider({
+    apiKey: process.env.OPENAI_API_KEY,
+    model: process.env.OPENAI_MODEL || 'gpt-4o-mini',
+    maxTokens
+  })
+
+  switch (process.env.LLM_PROVIDER) {
+    case 'openai':
+      return openai()
+    case 'local':
+      return new LocalLLMProvider({
+        baseURL: process.env.LOCAL_LLM_URL || 'http://localhost:11434/v1',
+        model: process.env.LOCAL_LLM_MODEL || 'llama3.1',
+        apiKey: process.env.LOCAL_LLM_API_KEY,
+        maxTokens
+      })
+    case 'extractive':
+      return new ExtractiveProvider()
+    default:
+      return process.env.OPENAI_API_KEY ? openai() : new ExtractiveProvider()
+  }
+}
+
+export function getLLMProvider(): LLMProvider {
+  installedProvider ??= createLLMProvider()
+  return installedProvider
+}
+
+export function setLLMProvider(provider: LLMProvider): void {
+  installedProvider = provider
+}
@@ -2,9 +2,7 @@ import DOMPurify from 'isomorphic-dompurify'
 import { SyncRedactor } from 'redact-pii'
 // import { toPlainText } from '@/lib/utils/tiptap-parser'
 import { ContentProcessor } from '@/lib/services/content-processor'
-import { ChatOpenAI } from '@langchain/openai'
-import { HumanMessage, SystemMessage } from '@langchain/core/messages'
-import { StringOutputParser } from '@langchain/core/output_parsers'
+import { getLLMProvider, stripMarkdownCodeFences, type LLMProvider } from '@/lib/ai/llm-provider'
 
 /**
  * PRODUCTION RECOMMENDATION: Google Cloud DLP API
@@ -33,10 +31,18 @@ export interface SummaryResult {
   wordCount: number
   keyThemes: string[]
   generatedAt: Date
+  // The LLMProvider id that wrote it
+  model: string
+  promptVersion: string
 }
 
+// Bump when a prompt changes, so summaries saved with the old one are written again
+export const ENTRY_SUMMARY_PROMPT_VERSION = 'entry-1'
+export const COMBINED_SUMMARY_PROMPT_VERSION = 'combined-1'
+
 interface CombinedSummaryOptions {
   includeMoodAnalysis?: boolean
+  provider?: LLMProvider
   dateRange?: {
     start: string
     end: string
@@ -48,21 +54,6 @@ interface CombinedSummaryOptions {
 // TODO: Replace with Google Cloud DLP API in production for HIPAA compliance
 const redactor = new SyncRedactor()
 
-// Initialize LangChain with OpenAI (env-configurable model and max tokens)
-const model = new ChatOpenAI({
-  modelName: process.env.OPENAI_MODEL || 'gpt-4o-mini',
-  temperature: 0.3,
-  maxTokens: Number(process.env.OPENAI_MAX_TOKENS || 1000),
-  openAIApiKey: process.env.OPENAI_API_KEY,
-})
-
-const outputParser = new StringOutputParser()
-
-// Remove markdown code fences from model outputs
-function stripMarkdownCodeFences(text: string): string {
-  return text.replace(/```[a-zA-Z]*\s*([\s\S]*?)```/g, '$1').trim()
-}
-
 /**
  * Generate a HIPAA-compliant summary with PHI redaction and XSS protection
  */
@@ -71,8 +62,10 @@ export async function generateEntrySummary(
   content: string,
   mood: number | null,
   _tags: string[],
-  options: { includeMoodAnalysis?: boolean } = {}
+  options: { includeMoodAnalysis?: boolean; provider?: LLMProvider } = {}
 ): Promise<SummaryResult> {
+  const provider = options.provider ?? getLLMProvider()
+
   try {
     // Avoid logging PHI; log only lengths/flags
     
@@ -82,15 +75,10 @@ export async function generateEntrySummary(
     const safeContent = prepared.text
     const safeTitle = preparedTitle.text
     
-    // Step 4: Use LangChain with OpenAI to generate summary
+    // Step 4: Generate the summary with the configured provider
     let aiSummary: string
     let keyThemes: string[] = []
     
-    // Require API key for AI summaries
-    if (!process.env.OPENAI_API_KEY) {
-      throw new Error('OpenAI API key not configured')
-    }
-    
     if (safeContent.length < 10) {
       throw new Error('Content too short for summary generation')
     }
@@ -118,37 +106,9 @@ export async function generateEntrySummary(
         
         Format as JSON: { "summary": "...", "themes": ["theme1", "theme2"], "observations": "..." }`
         
-        const messages = [
-          new SystemMessage(systemPrompt),
-          new HumanMessage(userPrompt)
-        ]
-        
-        const response = await model.invoke(messages)
-        const rawContent = await outputParser.parse(response.content as string)
-
-        // Robust JSON parsing with tolerant extractor
-        const parseJsonTolerant = (text: string): any | null => {
-          try {
-            return JSON.parse(text)
-          } catch {
-            const match = text.match(/\{[\s\S]*\}/)
-            if (match) {
-              try { return JSON.parse(match[0]) } catch { /* ignore */ }
-            }
-            return null
-          }
-        }
-
-        const aiResult = parseJsonTolerant(rawContent)
-        if (aiResult) {
-          aiSummary = (aiResult.summary || aiResult.overview || '').toString()
-          keyThemes = Array.isArray(aiResult.themes) ? aiResult.themes : []
-          if (aiResult.observations) aiSummary += ' ' + aiResult.observations
-          if (aiResult.recommendations) aiSummary += ' Recommendations: ' + aiResult.recommendations
-        } else {
-          aiSummary = stripMarkdownCodeFences(rawContent)
-          keyThemes = []
-        }
+        const completion = await provider.summarize({ system: systemPrompt, prompt: userPrompt, sources: [safeContent] })
+        aiSummary = completion.summary
+        keyThemes = completion.themes
     } catch (aiError) {
       throw new Error(`Failed to generate AI summary: ${aiError instanceof Error ? aiError.message : 'Unknown error'}`)
     }
@@ -163,7 +123,9 @@ export async function generateEntrySummary(
       summary: finalSummary,
       wordCount: finalSummary.split(/\s+/).length,
       keyThemes,
-      generatedAt: new Date()
+      generatedAt: new Date(),
+      model: provider.id,
+      promptVersion: ENTRY_SUMMARY_PROMPT_VERSION
     }
   } catch (error) {
     throw new Error('Failed to generate summary')
@@ -184,6 +146,8 @@ export async function generateCombinedSummary(
   hierarchyLevel: 'daily' | 'weekly' | 'monthly' | 'custom',
   options: CombinedSummaryOptions = {}
 ): Promise<SummaryResult> {
+  const provider = options.provider ?? getLLMProvider()
+
   try {
     // Combine all summaries and re-redact/sanitize defensively
     const combinedRaw = individualSummaries
@@ -200,11 +164,6 @@ export async function generateCombinedSummary(
     let aiCombinedSummary: string
     let keyThemes: string[] = []
     
-    // Require API key for AI summaries
-    if (!process.env.OPENAI_API_KEY) {
-      throw new Error('OpenAI API key not configured')
-    }
-    
     if (combinedText.length < 10) {
       throw new Error('Combined text too short for summary generation')
     }
@@ -235,36 +194,9 @@ export async function generateCombinedSummary(
         
         Format as JSON: { "overview": "...", "themes": ["theme1", "theme2"], "recommendations": "..." }`
         
-        const messages = [
-          new SystemMessage(systemPrompt),
-          new HumanMessage(userPrompt)
-        ]
-        
-        const response = await model.invoke(messages)
-        const parsedResponse = await outputParser.parse(response.content as string)
-
-        // Tolerant JSON parse: raw, fenced, or embedded JSON
-        const parseJsonTolerant = (text: string): any | null => {
-          try { return JSON.parse(text) } catch {}
-          const match = text.match(/\{[\s\S]*\}/)
-          if (match) { try { return JSON.parse(match[0]) } catch {} }
-          const stripped = stripMarkdownCodeFences(text)
-          if (stripped.trim().startsWith('{')) { try { return JSON.parse(stripped) } catch {} }
-          return null
-        }
-
-        const aiResult = parseJsonTolerant(parsedResponse)
-        if (aiResult) {
-          aiCombinedSummary = aiResult.overview || ''
-          keyThemes = Array.isArray(aiResult.themes) ? aiResult.themes : []
-          if (aiResult.recommendations) {
-            aiCombinedSummary += ' Recommendations: ' + aiResult.recommendations
-          }
-        } else {
-          // Fallback to plain text without code fences
-          aiCombinedSummary = stripMarkdownCodeFences(parsedResponse)
-          keyThemes = []
-        }
+        const completion = await provider.summarize({ system: systemPrompt, prompt: userPrompt, sources: [combinedText] })
+        aiCombinedSummary = completion.summary
+        keyThemes = completion.themes
     } catch (aiError) {
       throw new Error(`Failed to generate combined AI summary: ${aiError instanceof Error ? aiError.message : 'Unknown error'}`)
     }
@@ -279,7 +211,9 @@ export async function generateCombinedSummary(
       summary: finalSummary,
       wordCount: finalSummary.split(/\s+/).length,
       keyThemes,
-      generatedAt: new Date()
+      generatedAt: new Date(),
+      model: provider.id,
+      promptVersion: COMBINED_SUMMARY_PROMPT_VERSION
     }
   } catch (error) {
     throw new Error('Failed to generate combined summary')
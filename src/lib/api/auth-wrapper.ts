@@ -1,15 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
-import { getAuditContext, createAuditLog } from '@/lib/security/audit'
-import type { User } from '@prisma/client'
+import { getAuditContext, createAuditLog, AuditUnavailableError } from '@/lib/security/audit'
+import { auditUnavailable } from '@/lib/api/responses'
+import type { User, UserRole } from '@prisma/client'
 
 export interface AuthenticatedRequest extends NextRequest {
   user?: User
 }
 
 interface RouteHandlerOptions {
-  requireRoles?: Array<'CLIENT' | 'PROVIDER' | 'ADMIN'>
+  requireRoles?: UserRole[]
   auditAction?: string
   auditResource?: string
 }
@@ -41,7 +42,7 @@ export function withAuth(
 
       // Check role authorization if specified
       if (options.requireRoles && options.requireRoles.length > 0) {
-        if (!options.requireRoles.includes(session.user.role as any)) {
+        if (!options.requireRoles.includes(session.user.role)) {
           return NextResponse.json(
             { success: false, error: 'Forbidden - Insufficient permissions' },
             { status: 403 }
@@ -49,7 +50,8 @@ export function withAuth(
         }
       }
 
-      // Create audit log if action specified
+      // Create audit log if action specified. Reads fail closed here, before
+      // the handler runs; anything else is queued if the log is unavailable.
       if (options.auditAction && options.auditResource) {
         const auditContext = getAuditContext(request, session.user.id)
         await createAuditLog(
@@ -60,15 +62,16 @@ export function withAuth(
             details: {},
           },
           auditContext
-        ).catch((error) => {
-          console.error('Failed to create audit log:', error)
-          // Don't fail the request if audit logging fails
-        })
+        )
       }
 
       // Call the actual handler with user context
       return await handler(request, { ...context, user: session.user as User })
     } catch (error) {
+      if (error instanceof AuditUnavailableError) {
+        return auditUnavailable()
+      }
+
       console.error('Auth wrapper error:', error)
       return NextResponse.json(
         { success: false, error: 'Internal server error' },
@@ -86,6 +86,10 @@ export const badRequest = (message: string, details?: any) =>
 export const serverError = (message = 'Internal server error', details?: any) =>
   apiError(message, 500, details)
 
+// The audit log couldn't record the access, so it was refused (fail closed)
+export const auditUnavailable = () =>
+  apiError('Service temporarily unavailable', 503)
+
 export const rateLimited = (resetTime?: Date) =>
   apiError(
     resetTime
@@ -2,7 +2,14 @@ import { NextAuthOptions, User as NextAuthUser } from 'next-auth'
 import CredentialsProvider from 'next-auth/providers/credentials'
 import { compare } from 'bcryptjs'
 import { db } from '@/lib/db'
+import { createSession, revokeSession, validateSession, SESSION_MAX_AGE_SECONDS } from '@/lib/db/sessions'
 import { createAuditLog, getAuditContext } from '@/lib/security/audit'
+import { getIdleTimeoutSeconds } from '@/lib/security/idle-timeout'
+import { isMfaRequired, verifyMfaCode } from '@/lib/security/mfa'
+import { getLockoutPolicy, getPasswordPolicy, isPasswordExpired } from '@/lib/security/password'
+import { lockoutDurationMs } from '@/lib/security/password-policy'
+import { consumeRateLimit, getClientIp, refundRateLimit, RATE_LIMITS } from '@/lib/security/rate-limit'
+import type { LoginErrorCode, SessionUpdateParams } from '@/types/api'
 import type { User } from '@/types/database'
 
 declare module 'next-auth' {
@@ -12,10 +19,14 @@ declare module 'next-auth' {
     firstName: string | null
     lastName: string | null
     role: import('@/types/database').UserRole
+    sessionId?: string
   }
 
   interface Session {
     user: User
+    sessionId?: string
+    idleTimeoutSeconds?: number
+    passwordResetRequired?: boolean
   }
 }
 
@@ -24,6 +35,54 @@ declare module 'next-auth/jwt' {
     email?: User['email'] | null
     firstName?: User['firstName'] | null
     lastName?: User['lastName'] | null
+    mfaSetupRequired?: boolean
+    passwordResetRequired?: boolean
+    sessionId?: string
+    idleTimeoutSeconds?: number
+  }
+}
+
+// Surfaced to the login page as `error` so it can ask for the second factor
+// or explain why a correct password didn't sign the user in
+class LoginChallengeError extends Error {
+  constructor(code: LoginErrorCode) {
+    super(code)
+    this.name = 'LoginChallengeError'
+  }
+}
+
+async function recordFailedLogin(
+  user: Pick<User, 'id'>,
+  reason: string,
+  req: unknown
+): Promise<void> {
+  // Increment login attempts in the database, so failures in parallel all count,
+  // then lock the account once past the policy's limit
+  const { loginAttempts } = await db.user.update({
+    where: { id: user.id },
+    data: { loginAttempts: { increment: 1 } },
+    select: { loginAttempts: true }
+  })
+  const lockoutMs = lockoutDurationMs(loginAttempts, await getLockoutPolicy())
+  if (lockoutMs) {
+    await db.user.update({
+      where: { id: user.id },
+      data: { lockedUntil: new Date(Date.now() + lockoutMs) }
+    })
+  }
+
+  // Audit failed login attempt
+  if (req) {
+    const context = getAuditContext(req as unknown as Request, user.id)
+    await createAuditLog(
+      {
+        action: 'LOGIN',
+        resource: 'users',
+        resourceId: user.id,
+        details: { success: false, reason, ...(lockoutMs && { lockedForMinutes: lockoutMs / 60000 }) }
+      },
+      context
+    )
   }
 }
 
@@ -33,13 +92,36 @@ export const authOptions: NextAuthOptions = {
       name: 'credentials',
       credentials: {
         email: { label: 'Email', type: 'email' },
-        password: { label: 'Password', type: 'password' }
+        password: { label: 'Password', type: 'password' },
+        mfaCode: { label: 'Verification code', type: 'text' }
       },
       async authorize(credentials, req): Promise<NextAuthUser | null> {
         if (!credentials?.email || !credentials?.password) {
           return null
         }
 
+        // Only failed attempts count, per account so guesses spread across
+        // many addresses still run into it, and per client IP. Each attempt is
+        // counted before the password is checked, so guesses sent in parallel
+        // can't all get past the limit, and given back once it proves not to
+        // be a failure: sign-ins and MFA prompts don't count, so a clinic
+        // behind one address isn't locked out
+        const limitKeys = [
+          `login:${credentials.email.toLowerCase()}`,
+          `login-ip:${getClientIp({ headers: new Headers(req?.headers as Record<string, string> | undefined) })}`
+        ]
+        const limits = await Promise.all(limitKeys.map(key => consumeRateLimit(key, RATE_LIMITS.auth)))
+        const refundAttempt = async (): Promise<void> => {
+          // Refused requests aren't counted, so only the limits that allowed it have anything to give back
+          await Promise.all(limitKeys
+            .filter((_, i) => limits[i].allowed)
+            .map(key => refundRateLimit(key, RATE_LIMITS.auth)))
+        }
+        if (limits.some(limit => !limit.allowed)) {
+          await refundAttempt()
+          throw new LoginChallengeError('RATE_LIMITED')
+        }
+
         try {
           const user = await db.user.findUnique({
             where: { email: credentials.email }
@@ -57,53 +139,59 @@ export const authOptions: NextAuthOptions = {
           const isPasswordValid = await compare(credentials.password, user.hashedPassword)
 
           if (!isPasswordValid) {
-            // Increment login attempts
-            await db.user.update({
-              where: { id: user.id },
-              data: {
-                loginAttempts: user.loginAttempts + 1,
-                lockedUntil: user.loginAttempts >= 4 ? 
-                  new Date(Date.now() + 15 * 60 * 1000) : // 15 minutes
-                  undefined
-              }
-            })
-
-            // Audit failed login attempt
-            if (req) {
-              const context = getAuditContext(req as unknown as Request, user.id)
-              await createAuditLog(
-                {
-                  action: 'LOGIN',
-                  resource: 'users',
-                  resourceId: user.id,
-                  details: { success: false, reason: 'invalid_password' }
-                },
-                context
-              )
+            await recordFailedLogin(user, 'invalid_password', req)
+            return null
+          }
+
+          // Only revealed to someone who knows the password
+          if (!user.emailVerified) {
+            await refundAttempt()
+            throw new LoginChallengeError('EMAIL_NOT_VERIFIED')
+          }
+
+          // Second step: only asked for once the password is known to be right
+          let mfaMethod: string | null = null
+          if (user.mfaEnabled) {
+            if (!credentials.mfaCode) {
+              await refundAttempt()
+              throw new LoginChallengeError('MFA_REQUIRED')
             }
 
-            return null
+            mfaMethod = await verifyMfaCode(user, credentials.mfaCode)
+            if (!mfaMethod) {
+              await recordFailedLogin(user, 'invalid_mfa_code', req)
+              throw new LoginChallengeError('MFA_INVALID')
+            }
           }
 
+          await refundAttempt()
+
+          // An expired password holds the session on the change-password page
+          const passwordExpired = isPasswordExpired(user, await getPasswordPolicy())
+
           // Reset login attempts on successful login
           await db.user.update({
             where: { id: user.id },
             data: {
               loginAttempts: 0,
               lockedUntil: null,
-              lastLoginAt: new Date()
+              lastLoginAt: new Date(),
+              ...(passwordExpired && { passwordResetRequired: true })
             }
           })
 
+          // Register the device so the session can be listed and revoked
+          const session = await createSession(user.id, getAuditContext(req as unknown as Request, user.id))
+
           // Audit successful login
           if (req) {
-            const context = getAuditContext(req as unknown as Request, user.id)
+            const context = getAuditContext(req as unknown as Request, user.id, session.id)
             await createAuditLog(
               {
                 action: 'LOGIN',
                 resource: 'users',
                 resourceId: user.id,
-                details: { success: true }
+                details: { success: true, mfa: mfaMethod, ...(passwordExpired && { passwordExpired }) }
               },
               context
             )
@@ -114,9 +202,13 @@ export const authOptions: NextAuthOptions = {
             email: user.email,
             firstName: user.firstName,
             lastName: user.lastName,
-            role: user.role
+            role: user.role,
+            sessionId: session.id
+          }
+        } catch (error) {
+          if (error instanceof LoginChallengeError) {
+            throw error
           }
-        } catch {
           return null
         }
       }
@@ -124,34 +216,69 @@ export const authOptions: NextAuthOptions = {
   ],
   session: {
     strategy: 'jwt',
-    maxAge: 8 * 60 * 60, // 8 hours
+    maxAge: SESSION_MAX_AGE_SECONDS,
     updateAge: 60 * 60 // Update every hour
   },
   jwt: {
-    maxAge: 8 * 60 * 60 // 8 hours
+    maxAge: SESSION_MAX_AGE_SECONDS
   },
   callbacks: {
-    async jwt({ token, user }) {
+    async jwt({ token, user, trigger, session }) {
       if (user) {
         token.id = user.id
         token.role = user.role
         token.email = user.email
         token.firstName = user.firstName
         token.lastName = user.lastName
+        token.sessionId = user.sessionId
       }
 
       // Validate user still exists and is active
       if (token.id) {
         const dbUser = await db.user.findUnique({
           where: { id: token.id as string },
-          select: { isActive: true, role: true }
+          select: { isActive: true, role: true, mfaEnabled: true, passwordResetRequired: true }
         })
 
         if (!dbUser?.isActive) {
           throw new Error('User account is inactive')
         }
 
+        if (!token.sessionId) {
+          throw new Error('Session is no longer active')
+        }
+
+        // Only useSession().update() calls carry client data; plain refetches don't count as activity
+        const updateParams = trigger === 'update' ? (session as SessionUpdateParams | undefined) : undefined
+
+        // The client locked itself after the idle timeout; end the session now
+        if (updateParams?.idleLock) {
+          await revokeSession(token.id, token.sessionId, {
+            userId: token.id,
+            ipAddress: 'unknown',
+            userAgent: 'unknown',
+            sessionId: token.sessionId
+          }, 'idle_timeout')
+          throw new Error('Session ended after inactivity')
+        }
+
+        // A revoked, expired or idle session invalidates the JWT even before it expires
+        const idleTimeoutSeconds = await getIdleTimeoutSeconds(dbUser.role)
+        const isActive = await validateSession(token.sessionId, token.id, {
+          idleTimeoutSeconds,
+          activity: !!user || !!updateParams?.activity
+        })
+        if (!isActive) {
+          throw new Error('Session is no longer active')
+        }
+
+        token.idleTimeoutSeconds = idleTimeoutSeconds
+
         token.role = dbUser.role
+        // Middleware holds these users on the enrollment page until they set MFA up
+        token.mfaSetupRequired = isMfaRequired(dbUser.role) && !dbUser.mfaEnabled
+        // ...and on the password page after an admin forces a reset
+        token.passwordResetRequired = dbUser.passwordResetRequired
       }
 
       return token
@@ -163,6 +290,9 @@ export const authOptions: NextAuthOptions = {
         session.user.email = (token.email as string) ?? session.user.email
         session.user.firstName = (token.firstName as string | null) ?? null
         session.user.lastName = (token.lastName as string | null) ?? null
+        session.sessionId = token.sessionId
+        session.idleTimeoutSeconds = token.idleTimeoutSeconds
+        session.passwordResetRequired = token.passwordResetRequired
       }
       return session
     },
@@ -176,29 +306,16 @@ export const authOptions: NextAuthOptions = {
   },
   events: {
     async signOut({ token }) {
-      if (token?.id) {
-        // Audit logout
+      if (token?.id && token.sessionId) {
         const context = {
           userId: token.id as string,
           ipAddress: 'unknown',
-          userAgent: 'unknown'
+          userAgent: 'unknown',
+          sessionId: token.sessionId
         }
 
-        await createAuditLog(
-          {
-            action: 'LOGOUT',
-            resource: 'users',
-            resourceId: token.id as string,
-            details: { success: true }
-          },
-          context
-        )
-
-        // Invalidate all sessions for the user
-        await db.session.updateMany({
-          where: { userId: token.id as string },
-          data: { isActive: false }
-        })
+        // End only this device; revokeSession writes the LOGOUT audit
+        await revokeSession(token.id as string, token.sessionId, context, 'sign_out')
       }
     }
   },
@@ -0,0 +1,55 @@
+import type { ConsentPurpose, ShareScope } from '@/types/database'
+
+/**
+ * Consent forms.
+ *
+ * The wording a client signs. Change CONSENT_FORM_VERSION with the text:
+ * each consent keeps the version and the text it was given, and a form
+ * submitted at an older version is turned away so the client reads it again.
+ * Shared by the consent page and the server, which stores its own rendering.
+ */
+
+export const CONSENT_FORM_VERSION = '2026-10-19'
+
+const SCOPE_WORDING: Record<ShareScope, string> = {
+  NONE: 'no part',
+  TITLE_ONLY: 'the titles',
+  SUMMARY_ONLY: 'the titles and summaries',
+  FULL_ACCESS: 'the full text, mood and tags'
+}
+
+export interface ConsentFormDetails {
+  providerName?: string
+  scope?: ShareScope | null
+  // ISO date the consent ends, if it does
+  expiresAt?: string | null
+}
+
+export function consentFormText(purpose: ConsentPurpose, details: ConsentFormDetails = {}): string {
+  const until = details.expiresAt
+    ? `until ${new Date(details.expiresAt).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })}`
+    : 'until I revoke it'
+
+  if (purpose === 'AI_PROCESSING') {
+    return [
+      'I authorize HIPAA Journal to send the text of my journal entries to its AI summarization service',
+      'to write summaries of them for me and for the providers I share them with.',
+      'Names, contact details and other identifiers it recognizes are removed before the text is sent.',
+      `This consent is in force ${until}.`,
+      'I may revoke it at any time; summaries already written are kept.',
+      'My care does not depend on signing it.'
+    ].join(' ')
+  }
+
+  return [
+    `I authorize HIPAA Journal to disclose ${SCOPE_WORDING[details.scope ?? 'NONE']} of the journal entries I choose to share`,
+    `to ${details.providerName ?? 'the provider named here'} for the purpose of my treatment,`,
+    'whether I share them one at a time, by a share rule or through a care team.',
+    `This consent is in force ${until}.`,
+    'I may revoke it at any time; revoking it ends access to every entry shared under it',
+    'but does not undo disclosures already made.',
+    'My treatment does not depend on signing it.',
+    'Information disclosed under it is protected by federal confidentiality rules (42 CFR Part 2),',
+    'which prohibit the recipient from disclosing it further unless I consent in writing or the law allows it.'
+  ].join(' ')
+}
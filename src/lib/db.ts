@@ -1,9 +1,5 @@
 import { PrismaClient } from '@prisma/client'
-
-// Global prisma instance for development to prevent multiple connections
-const globalForPrisma = globalThis as unknown as {
-  prisma: PrismaClient | undefined
-}
+import { fieldEncryptionExtension } from '@/lib/security/field-encryption'
 
 // During build time on Vercel, use a dummy URL if DATABASE_URL is not set
 // This prevents build failures when collecting page data
@@ -13,16 +9,24 @@ const databaseUrl = process.env.DATABASE_URL || (
     : undefined
 )
 
-export const db =
-  globalForPrisma.prisma ??
-  new PrismaClient({
+// Entry content is encrypted on write and decrypted on read by the extension
+function createPrismaClient() {
+  return new PrismaClient({
     log: process.env.NODE_ENV === 'development' ? ['query', 'error', 'warn'] : ['error'],
     datasources: databaseUrl ? {
       db: {
         url: databaseUrl
       }
     } : undefined
-  })
+  }).$extends(fieldEncryptionExtension)
+}
+
+// Global prisma instance for development to prevent multiple connections
+const globalForPrisma = globalThis as unknown as {
+  prisma: ReturnType<typeof createPrismaClient> | undefined
+}
+
+export const db = globalForPrisma.prisma ?? createPrismaClient()
 
 if (process.env.NODE_ENV !== 'production') globalForPrisma.prisma = db
 
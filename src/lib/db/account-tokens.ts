@@ -0,0 +1,243 @@
+import { hash as hashPassword } from 'bcryptjs'
+import { db } from '@/lib/db'
+import { revokeAllSessions } from '@/lib/db/sessions'
+import { auditSystemAction, auditUserAction } from '@/lib/security/audit'
+import { hash } from '@/lib/security/encryption'
+import { enforcePasswordPolicy, recordPasswordHistory } from '@/lib/security/password'
+import { issueSignedToken, verifySignedToken } from '@/lib/security/tokens'
+import { sendMail } from '@/lib/mail/mailer'
+import { appUrl, emailVerificationEmail, passwordResetEmail } from '@/lib/mail/templates'
+import type { AccountToken, AccountTokenPurpose, AuditContext, User } from '@/types/database'
+
+/**
+ * Emailed, single-use account links: verifying the address given at
+ * registration, and resetting a forgotten password.
+ *
+ * Request endpoints behave the same whether or not the address has an
+ * account, so they can't be used to find out who is registered.
+ */
+
+export const EMAIL_VERIFICATION_TTL_MS = 24 * 60 * 60 * 1000 // 24 hours
+export const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000 // 1 hour
+
+export const INVALID_ACCOUNT_TOKEN_ERROR = 'This link is invalid or has expired'
+
+const TOKEN_TTL_MS: Record<AccountTokenPurpose, number> = {
+  EMAIL_VERIFICATION: EMAIL_VERIFICATION_TTL_MS,
+  PASSWORD_RESET: PASSWORD_RESET_TTL_MS
+}
+
+// Only the most recent link for a purpose works; older ones are dropped
+async function issueAccountToken(
+  userId: string,
+  purpose: AccountTokenPurpose,
+  tx: Pick<typeof db, 'accountToken'>
+): Promise<{ token: string; expiresAt: Date }> {
+  const { token, tokenHash, expiresAt } = issueSignedToken(purpose, TOKEN_TTL_MS[purpose])
+
+  await tx.accountToken.deleteMany({ where: { userId, purpose, usedAt: null } })
+  await tx.accountToken.create({ data: { userId, purpose, tokenHash, expiresAt } })
+
+  return { token, expiresAt }
+}
+
+async function findRedeemableToken(
+  token: string,
+  purpose: AccountTokenPurpose,
+  client: Pick<typeof db, 'accountToken'> = db
+): Promise<AccountToken | null> {
+  const tokenHash = verifySignedToken(purpose, token)
+  if (!tokenHash) {
+    return null
+  }
+
+  const record = await client.accountToken.findUnique({ where: { tokenHash } })
+  if (!record || record.purpose !== purpose || record.usedAt || record.expiresAt <= new Date()) {
+    return null
+  }
+
+  return record
+}
+
+// Conditional, so the same link can't be used twice even by concurrent requests
+async function redeemAccountToken(
+  record: AccountToken,
+  tx: Pick<typeof db, 'accountToken'>
+): Promise<void> {
+  const { count } = await tx.accountToken.updateMany({
+    where: { id: record.id, usedAt: null },
+    data: { usedAt: new Date() }
+  })
+
+  if (count === 0) {
+    throw new Error(INVALID_ACCOUNT_TOKEN_ERROR)
+  }
+}
+
+async function auditUnmatchedRequest(operation: string, email: string, context: AuditContext): Promise<void> {
+  await auditSystemAction('UPDATE', 'users', context, {
+    operation,
+    matched: false,
+    emailHash: hash(email.toLowerCase())
+  })
+}
+
+export async function sendVerificationEmail(
+  user: Pick<User, 'id' | 'email'>,
+  context: AuditContext
+): Promise<void> {
+  const { token, expiresAt } = await db.$transaction(async tx => {
+    const issued = await issueAccountToken(user.id, 'EMAIL_VERIFICATION', tx)
+    await auditUserAction(user.id, 'UPDATE', context, { operation: 'email_verification_sent' }, tx)
+    return issued
+  })
+
+  await sendMail({
+    to: user.email,
+    ...emailVerificationEmail({
+      url: appUrl(`/verify-email?token=${encodeURIComponent(token)}`),
+      expiresAt
+    })
+  })
+}
+
+// For the login page's "resend" link; says nothing about whether the address is registered
+export async function resendVerificationEmail(email: string, context: AuditContext): Promise<void> {
+  const user = await db.user.findUnique({
+    where: { email },
+    select: { id: true, email: true, isActive: true, emailVerified: true }
+  })
+
+  if (!user?.isActive || user.emailVerified) {
+    await auditUnmatchedRequest('email_verification_requested', email, context)
+    return
+  }
+
+  await sendVerificationEmail(user, context)
+}
+
+export async function verifyEmail(token: string, context: AuditContext): Promise<void> {
+  const record = await findRedeemableToken(token, 'EMAIL_VERIFICATION')
+  if (!record) {
+    throw new Error(INVALID_ACCOUNT_TOKEN_ERROR)
+  }
+
+  await db.$transaction(async tx => {
+    await redeemAccountToken(record, tx)
+    await tx.user.update({
+      where: { id: record.userId },
+      data: { emailVerified: new Date() }
+    })
+    await auditUserAction(record.userId, 'UPDATE', { ...context, userId: record.userId }, {
+      operation: 'verify_email'
+    }, tx)
+  })
+}
+
+export async function requestPasswordReset(email: string, context: AuditContext): Promise<void> {
+  const user = await db.user.findUnique({
+    where: { email },
+    select: { id: true, email: true, isActive: true, hashedPassword: true }
+  })
+
+  if (!user?.isActive || !user.hashedPassword) {
+    await auditUnmatchedRequest('password_reset_requested', email, context)
+    return
+  }
+
+  const { token, expiresAt } = await db.$transaction(async tx => {
+    const issued = await issueAccountToken(user.id, 'PASSWORD_RESET', tx)
+    await auditUserAction(user.id, 'UPDATE', context, { operation: 'password_reset_requested' }, tx)
+    return issued
+  })
+
+  await sendMail({
+    to: user.email,
+    ...passwordResetEmail({
+      url: appUrl(`/reset-password?token=${encodeURIComponent(token)}`),
+      expiresAt
+    })
+  })
+}
+
+/**
+ * Set a new password from a reset link. Also lifts a lockout, clears an
+ * admin's forced reset, marks the address verified (the link reached it)
+ * and signs the user out everywhere.
+ */
+export async function resetPassword(
+  token: string,
+  newPassword: string,
+  context: AuditContext
+): Promise<void> {
+  const record = await findRedeemableToken(token, 'PASSWORD_RESET')
+  if (!record) {
+    throw new Error(INVALID_ACCOUNT_TOKEN_ERROR)
+  }
+
+  // Checked before redeeming, so a rejected password leaves the link usable
+  await enforcePasswordPolicy(newPassword, record.userId)
+
+  const hashedPassword = await hashPassword(newPassword, 12)
+  const actorContext = { ...context, userId: record.userId }
+
+  await db.$transaction(async tx => {
+    await redeemAccountToken(record, tx)
+
+    const user = await tx.user.findUniqueOrThrow({
+      where: { id: record.userId },
+      select: { emailVerified: true }
+    })
+
+    await tx.user.update({
+      where: { id: record.userId },
+      data: {
+        hashedPassword,
+        passwordChangedAt: new Date(),
+        loginAttempts: 0,
+        lockedUntil: null,
+        passwordResetRequired: false,
+        emailVerified: user.emailVerified ?? new Date()
+      }
+    })
+    await recordPasswordHistory(record.userId, hashedPassword, tx)
+
+    await auditUserAction(record.userId, 'UPDATE', actorContext, { operation: 'reset_password' }, tx)
+  })
+
+  await revokeAllSessions(record.userId, actorContext, 'password_reset')
+}
+
+/**
+ * Mark accounts created before email verification was introduced as verified
+ * as of their creation, so sign-in doesn't turn them away. Only accounts
+ * created before `before` that were never sent a verification link qualify;
+ * anyone who registered since has been sent one. Returns how many were marked.
+ */
+export async function backfillEmailVerified(before: Date, context: AuditContext): Promise<number> {
+  const users = await db.user.findMany({
+    where: {
+      emailVerified: null,
+      createdAt: { lt: before },
+      accountTokens: { none: { purpose: 'EMAIL_VERIFICATION' } }
+    },
+    select: { id: true, createdAt: true }
+  })
+
+  for (const user of users) {
+    await db.user.update({
+      where: { id: user.id },
+      data: { emailVerified: user.createdAt }
+    })
+  }
+
+  if (users.length > 0) {
+    await auditSystemAction('UPDATE', 'users', context, {
+      emailVerifiedBackfill: true,
+      before: before.toISOString(),
+      userIds: users.map(user => user.id)
+    })
+  }
+
+  return users.length
+}
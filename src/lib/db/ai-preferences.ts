@@ -0,0 +1,164 @@
+import { db } from '@/lib/db'
+import { AI_CONSENT_REQUIRED_ERROR, clientsConsentingToAi, hasAiProcessingConsent } from '@/lib/db/consents'
+import { createAuditLog } from '@/lib/security/audit'
+import type { AiPreference, AuditContext, JournalEntry } from '@/types/database'
+import type { AiPreferenceResponse } from '@/types/api'
+
+/**
+ * AI processing preferences.
+ *
+ * A client chooses whether their entries may be sent to the AI model at all
+ * (NEVER), only when a provider they shared with asks (PROVIDER_ONLY), or
+ * whenever a summary is asked for (ALWAYS), and can set an entry apart from
+ * the rest. On top of that the client needs an AI_PROCESSING consent in
+ * force. Each request the summary routes turn away is audited against the
+ * entry, so the client sees it in their access report.
+ */
+
+export const AI_PREFERENCE_ENTRY_ERROR = 'Entry not found or access denied'
+
+export const AI_BLOCKED_MESSAGES = {
+  never: 'The client has turned off AI summaries for this entry',
+  provider_only: 'AI summaries of this entry are only available to providers it is shared with',
+  no_consent: AI_CONSENT_REQUIRED_ERROR
+} as const
+
+export function effectiveAiPreference(
+  entry: Pick<JournalEntry, 'aiPreference'>,
+  owner: { aiPreference: AiPreference }
+): AiPreference {
+  return entry.aiPreference ?? owner.aiPreference
+}
+
+interface AiProcessingDecision<T> {
+  allowed: T[]
+  blocked: Array<{ entry: T; reason: keyof typeof AI_BLOCKED_MESSAGES }>
+}
+
+/**
+ * Split entries into those the requester may have summarized and those they
+ * may not. The requester is the owner or a provider the entry is shared
+ * with; callers check that access first.
+ */
+export async function evaluateAiProcessing<T extends Pick<JournalEntry, 'id' | 'userId' | 'aiPreference'>>(
+  entries: T[],
+  requesterId: string
+): Promise<AiProcessingDecision<T>> {
+  const ownerIds = [...new Set(entries.map(entry => entry.userId))]
+  const [owners, consenting] = await Promise.all([
+    db.user.findMany({ where: { id: { in: ownerIds } }, select: { id: true, aiPreference: true } }),
+    clientsConsentingToAi(ownerIds)
+  ])
+  const ownerPreferences = new Map(owners.map(owner => [owner.id, owner.aiPreference]))
+
+  const decision: AiProcessingDecision<T> = { allowed: [], blocked: [] }
+  for (const entry of entries) {
+    const preference = entry.aiPreference ?? ownerPreferences.get(entry.userId) ?? 'NEVER'
+    const reason = preference === 'NEVER' ? 'never'
+      : preference === 'PROVIDER_ONLY' && requesterId === entry.userId ? 'provider_only'
+      : !consenting.has(entry.userId) ? 'no_consent'
+      : null
+
+    if (reason) {
+      decision.blocked.push({ entry, reason })
+    } else {
+      decision.allowed.push(entry)
+    }
+  }
+
+  return decision
+}
+
+// evaluateAiProcessing() for a request about to go to the model: each refusal is audited
+export async function checkAiProcessing<T extends Pick<JournalEntry, 'id' | 'userId' | 'aiPreference'>>(
+  entries: T[],
+  requesterId: string,
+  context: AuditContext
+): Promise<AiProcessingDecision<T>> {
+  const decision = await evaluateAiProcessing(entries, requesterId)
+
+  for (const { entry, reason } of decision.blocked) {
+    await createAuditLog(
+      {
+        action: 'CREATE',
+        resource: 'ai_summary',
+        resourceId: entry.id,
+        entryId: entry.id,
+        details: { blocked: true, reason }
+      },
+      context
+    )
+  }
+
+  return decision
+}
+
+export async function getAiPreference(entryId: string, clientId: string): Promise<AiPreferenceResponse> {
+  const entry = await db.journalEntry.findFirst({
+    where: { id: entryId, userId: clientId },
+    select: { aiPreference: true, user: { select: { aiPreference: true } } }
+  })
+
+  if (!entry) {
+    throw new Error(AI_PREFERENCE_ENTRY_ERROR)
+  }
+
+  return {
+    clientPreference: entry.user.aiPreference,
+    entryPreference: entry.aiPreference,
+    effectivePreference: effectiveAiPreference(entry, entry.user),
+    hasAiConsent: await hasAiProcessingConsent(clientId)
+  }
+}
+
+export async function updateClientAiPreference(
+  clientId: string,
+  aiPreference: AiPreference,
+  context: AuditContext
+): Promise<void> {
+  await db.$transaction(async tx => {
+    const previous = await tx.user.findUniqueOrThrow({ where: { id: clientId }, select: { aiPreference: true } })
+    await tx.user.update({ where: { id: clientId }, data: { aiPreference } })
+
+    await createAuditLog(
+      {
+        action: 'UPDATE',
+        resource: 'users',
+        resourceId: clientId,
+        details: { aiPreference, previousAiPreference: previous.aiPreference }
+      },
+      context,
+      tx
+    )
+  })
+}
+
+// Null makes the entry follow the client's preference again
+export async function updateEntryAiPreference(
+  entryId: string,
+  clientId: string,
+  aiPreference: AiPreference | null,
+  context: AuditContext
+): Promise<void> {
+  const entry = await db.journalEntry.findFirst({ where: { id: entryId, userId: clientId }, select: { aiPreference: true } })
+
+  if (!entry) {
+    throw new Error(AI_PREFERENCE_ENTRY_ERROR)
+  }
+
+  await db.$transaction(async tx => {
+    await tx.journalEntry.update({ where: { id: entryId }, data: { aiPreference } })
+
+    await createAuditLog(
+      {
+        action: 'UPDATE',
+        resource: 'journal_entries',
+        resourceId: entryId,
+        entryId,
+        details: { aiPreference, previousAiPreference: entry.aiPreference }
+      },
+      context,
+      tx
+    )
+  })
+}
@@ -0,0 +1,211 @@
+import { z } from 'zod'
+import { db } from '@/lib/db'
+import { auditSystemAction } from '@/lib/security/audit'
+import type { Prisma } from '@prisma/client'
+import type { AuditContext, AuditLog, UserRole } from '@/types/database'
+import type { AuditLogExportFormat, AuditLogFilters, AuditLogPageResponse, AuditLogResponse } from '@/types/api'
+
+/**
+ * Read side of the audit log, for compliance review.
+ *
+ * Pages run newest first on (createdAt, sequence) so filtered queries can use
+ * the [action, createdAt] / [userId, createdAt] indexes. The cursor is the
+ * position of the last row returned; sequence breaks createdAt ties.
+ */
+
+// Roles allowed to browse, export and verify the whole audit log
+export const AUDIT_LOG_READER_ROLES: readonly UserRole[] = ['ADMIN']
+
+export const AUDIT_LOG_DEFAULT_PAGE_SIZE = 50
+export const AUDIT_LOG_MAX_PAGE_SIZE = 200
+export const AUDIT_LOG_MAX_EXPORT_ROWS = 10000
+
+const EXPORT_BATCH_SIZE = 1000
+
+const CSV_COLUMNS: Array<keyof AuditLogResponse> = [
+  'sequence',
+  'createdAt',
+  'action',
+  'resource',
+  'resourceId',
+  'userId',
+  'userEmail',
+  'ipAddress',
+  'userAgent',
+  'sessionId',
+  'entryId',
+  'shareId',
+  'details'
+]
+
+// Query string filters shared by the list and export routes
+export const auditLogFiltersSchema = z.object({
+  action: z.enum(['CREATE', 'READ', 'UPDATE', 'DELETE', 'SHARE', 'UNSHARE', 'LOGIN', 'LOGOUT', 'EXPORT', 'PRINT']).optional(),
+  resource: z.string().max(100).optional(),
+  userId: z.string().max(100).optional(),
+  entryId: z.string().max(100).optional(),
+  shareId: z.string().max(100).optional(),
+  startDate: z.string().datetime('Invalid start date').optional(),
+  endDate: z.string().datetime('Invalid end date').optional()
+})
+
+type AuditLogCursor = Pick<AuditLog, 'createdAt' | 'sequence'>
+
+export function canReadAuditLog(role: UserRole): boolean {
+  return AUDIT_LOG_READER_ROLES.includes(role)
+}
+
+function encodeCursor(row: AuditLogCursor): string {
+  return Buffer.from(`${row.createdAt.toISOString()}|${row.sequence}`).toString('base64url')
+}
+
+function decodeCursor(cursor: string): AuditLogCursor {
+  const [createdAt, sequence] = Buffer.from(cursor, 'base64url').toString('utf8').split('|')
+  const decoded = { createdAt: new Date(createdAt), sequence: Number(sequence) }
+
+  if (isNaN(decoded.createdAt.getTime()) || !Number.isInteger(decoded.sequence)) {
+    throw new Error('Invalid cursor')
+  }
+
+  return decoded
+}
+
+function filtersWhere(filters: AuditLogFilters): Prisma.AuditLogWhereInput {
+  return {
+    action: filters.action,
+    resource: filters.resource,
+    userId: filters.userId,
+    entryId: filters.entryId,
+    shareId: filters.shareId,
+    ...((filters.startDate || filters.endDate) && {
+      createdAt: {
+        ...(filters.startDate && { gte: new Date(filters.startDate) }),
+        ...(filters.endDate && { lte: new Date(filters.endDate) })
+      }
+    })
+  }
+}
+
+function afterCursorWhere(cursor: AuditLogCursor): Prisma.AuditLogWhereInput {
+  return {
+    OR: [
+      { createdAt: { lt: cursor.createdAt } },
+      { createdAt: cursor.createdAt, sequence: { lt: cursor.sequence } }
+    ]
+  }
+}
+
+async function findPage(
+  filters: AuditLogFilters,
+  take: number,
+  cursor?: AuditLogCursor
+): Promise<AuditLog[]> {
+  return db.auditLog.findMany({
+    where: cursor ? { AND: [filtersWhere(filters), afterCursorWhere(cursor)] } : filtersWhere(filters),
+    orderBy: [{ createdAt: 'desc' }, { sequence: 'desc' }],
+    take
+  })
+}
+
+// Actors are plain ids on AuditLog, and may belong to deleted accounts
+async function toResponses(rows: AuditLog[]): Promise<AuditLogResponse[]> {
+  const userIds = [...new Set(rows.map(row => row.userId).filter((id): id is string => !!id))]
+  const users = userIds.length > 0
+    ? await db.user.findMany({ where: { id: { in: userIds } }, select: { id: true, email: true } })
+    : []
+  const emails = new Map(users.map(user => [user.id, user.email]))
+
+  return rows.map(row => ({
+    id: row.id,
+    sequence: row.sequence,
+    action: row.action,
+    resource: row.resource,
+    resourceId: row.resourceId,
+    userId: row.userId,
+    userEmail: row.userId ? emails.get(row.userId) ?? null : null,
+    ipAddress: row.ipAddress,
+    userAgent: row.userAgent,
+    sessionId: row.sessionId,
+    entryId: row.entryId,
+    shareId: row.shareId,
+    details: row.details,
+    createdAt: row.createdAt.toISOString()
+  }))
+}
+
+export async function listAuditLogs(
+  filters: AuditLogFilters,
+  options: { cursor?: string; limit?: number } = {}
+): Promise<AuditLogPageResponse> {
+  const limit = Math.min(options.limit ?? AUDIT_LOG_DEFAULT_PAGE_SIZE, AUDIT_LOG_MAX_PAGE_SIZE)
+
+  // Fetch one extra row to know whether there is a next page
+  const rows = await findPage(filters, limit + 1, options.cursor ? decodeCursor(options.cursor) : undefined)
+  const page = rows.slice(0, limit)
+
+  return {
+    items: await toResponses(page),
+    nextCursor: rows.length > limit ? encodeCursor(page[page.length - 1]) : null
+  }
+}
+
+// Quote where needed, and defuse cells a spreadsheet would run as a formula
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) {
+    return ''
+  }
+
+  let text = typeof value === 'object' ? JSON.stringify(value) : String(value)
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function toCsv(rows: AuditLogResponse[]): string {
+  const lines = [
+    CSV_COLUMNS.join(','),
+    ...rows.map(row => CSV_COLUMNS.map(column => csvCell(row[column])).join(','))
+  ]
+  return `${lines.join('\r\n')}\r\n`
+}
+
+/**
+ * Export every row matching the filters. The export itself is audited, with
+ * the filters used, so the log shows who took a copy of it.
+ */
+export async function exportAuditLogs(
+  filters: AuditLogFilters,
+  format: AuditLogExportFormat,
+  context: AuditContext
+): Promise<{ body: string; rowCount: number }> {
+  const total = await db.auditLog.count({ where: filtersWhere(filters) })
+  if (total > AUDIT_LOG_MAX_EXPORT_ROWS) {
+    throw new Error(`Export is limited to ${AUDIT_LOG_MAX_EXPORT_ROWS} rows; narrow the filters (${total} match)`)
+  }
+
+  const rows: AuditLogResponse[] = []
+  let cursor: AuditLogCursor | undefined
+
+  for (;;) {
+    const batch = await findPage(filters, EXPORT_BATCH_SIZE, cursor)
+    rows.push(...await toResponses(batch))
+
+    if (batch.length < EXPORT_BATCH_SIZE || rows.length >= AUDIT_LOG_MAX_EXPORT_ROWS) {
+      break
+    }
+    cursor = batch[batch.length - 1]
+  }
+
+  await auditSystemAction('EXPORT', 'audit_logs', context, {
+    format,
+    filters,
+    rowCount: rows.length
+  })
+
+  return {
+    body: format === 'csv' ? toCsv(rows) : JSON.stringify(rows, null, 2),
+    rowCount: rows.length
+  }
+}
@@ -0,0 +1,541 @@
+import { db } from '@/lib/db'
+import { activeSharesWhere, isShareActive, shareBatches, SHARE_BATCH_SIZE, SHARE_BATCH_TRANSACTION } from '@/lib/db/query-helpers'
+import { auditShareAction, createAuditLog, type AuditWriter } from '@/lib/security/audit'
+import { consentCovers, expiryUnderConsent, findTreatmentConsents } from '@/lib/db/consents'
+import type { Prisma } from '@prisma/client'
+import type { AuditContext, CareTeam, TeamShare, User } from '@/types/database'
+import type {
+  CareTeamMemberResponse,
+  CareTeamResponse,
+  CreateCareTeamRequestParams,
+  CreateTeamShareRequestParams,
+  TeamShareResponse
+} from '@/types/api'
+
+/**
+ * Care teams and team shares.
+ *
+ * Admins group providers into care teams; a client can share an entry with a
+ * whole team. A team share is never an access path of its own: it is
+ * resolved into one EntryShare per member (teamShareId set), created, audited
+ * and revoked one by one, so every access check, the expiry job and the
+ * accounting of disclosures see each member individually. Members joining or
+ * leaving the team get or lose those shares as it happens.
+ *
+ * There is still at most one EntryShare per entry and provider. A member who
+ * already has an active share of the entry keeps it as it is; a revoked or
+ * expired one is taken over by the team share. When a member's team share
+ * ends but another of their teams still shares the entry, their share is
+ * handed over to that team share rather than revoked. Like any share, a member's
+ * needs the client's consent for that provider: members without one are
+ * left out until the client gives it and shares again.
+ */
+
+export const CARE_TEAM_NOT_FOUND_ERROR = 'Care team not found'
+export const CARE_TEAM_PROVIDER_ERROR = 'Provider not found, inactive, or invalid role'
+export const CARE_TEAM_MEMBER_EXISTS_ERROR = 'Provider is already a member of this care team'
+export const CARE_TEAM_MEMBER_NOT_FOUND_ERROR = 'Provider is not a member of this care team'
+export const TEAM_SHARE_ENTRY_ERROR = 'Entry not found or access denied'
+export const TEAM_SHARE_EXISTS_ERROR = 'Entry is already shared with this care team'
+export const TEAM_SHARE_NOT_FOUND_ERROR = 'Team share not found'
+
+const PERSON = { select: { id: true, firstName: true, lastName: true, email: true } } as const
+
+function toMemberResponse(provider: Pick<User, 'id' | 'firstName' | 'lastName' | 'email'>): CareTeamMemberResponse {
+  return {
+    providerId: provider.id,
+    name: [provider.firstName, provider.lastName].filter(Boolean).join(' ') || provider.email,
+    email: provider.email
+  }
+}
+
+// activeSharesWhere() for team shares
+function activeTeamSharesWhere(now: Date = new Date()): Prisma.TeamShareWhereInput {
+  return {
+    isRevoked: false,
+    OR: [{ expiresAt: null }, { expiresAt: { gt: now } }]
+  }
+}
+
+// isShareActive() for team shares, which carry no consent of their own
+function isTeamShareActive(share: Pick<TeamShare, 'isRevoked' | 'expiresAt'>, now: Date = new Date()): boolean {
+  return !share.isRevoked && (!share.expiresAt || share.expiresAt > now)
+}
+
+async function findTeam(teamId: string): Promise<CareTeam> {
+  const team = await db.careTeam.findUnique({ where: { id: teamId } })
+
+  if (!team) {
+    throw new Error(CARE_TEAM_NOT_FOUND_ERROR)
+  }
+
+  return team
+}
+
+/**
+ * Give one member their own share of a team-shared entry, unless they can
+ * already see it or the client has not consented. Returns whether a share
+ * was granted.
+ */
+async function grantMemberShare(
+  teamShare: TeamShare,
+  providerId: string,
+  context: AuditContext,
+  tx: AuditWriter & Pick<typeof db, 'entryShare' | 'consent'>
+): Promise<boolean> {
+  const existing = await tx.entryShare.findUnique({
+    where: {
+      entryId_providerId_clientId: { entryId: teamShare.entryId, providerId, clientId: teamShare.clientId }
+    }
+  })
+
+  if (existing && isShareActive(existing)) {
+    return false
+  }
+
+  const consent = (await findTreatmentConsents(teamShare.clientId, [providerId], tx)).get(providerId)
+  if (!consentCovers(consent, teamShare.scope)) {
+    return false
+  }
+
+  const data = {
+    scope: teamShare.scope,
+    message: teamShare.message,
+    expiresAt: expiryUnderConsent(consent, teamShare.expiresAt),
+    teamShareId: teamShare.id,
+    consentId: consent.id
+  }
+
+  const share = existing
+    ? await tx.entryShare.update({
+        where: { id: existing.id },
+        data: {
+          ...data,
+          isRevoked: false,
+          revokedAt: null,
+          revokedReason: null,
+          expiredAt: null,
+          expiryReminderSentAt: null,
+          shareRuleId: null
+        }
+      })
+    : await tx.entryShare.create({
+        data: { ...data, entryId: teamShare.entryId, providerId, clientId: teamShare.clientId }
+      })
+
+  await auditShareAction(share.id, 'SHARE', context, {
+    entryId: teamShare.entryId,
+    providerId,
+    scope: teamShare.scope,
+    careTeamId: teamShare.teamId,
+    teamShareId: teamShare.id,
+    consentId: consent.id
+  }, tx)
+
+  return true
+}
+
+type MemberSharesWhere = { teamShareId: string } | { teamShare: { teamId: string }; providerId?: string }
+
+/**
+ * Revoke the active member shares resolved from team shares, or up to `take`
+ * of them, one audited UNSHARE each. A member another of their teams still
+ * shares the entry with keeps the share, now resolved from that team's
+ * share. Returns how many shares were handled and how many were revoked.
+ */
+async function revokeMemberShares(
+  where: MemberSharesWhere,
+  reason: string,
+  context: AuditContext,
+  tx: AuditWriter & Pick<typeof db, 'entryShare' | 'teamShare' | 'consent'>,
+  take?: number
+): Promise<{ handled: number; revoked: number }> {
+  const shares = await tx.entryShare.findMany({
+    where: { ...where, ...activeSharesWhere() },
+    include: { teamShare: { select: { teamId: true } } },
+    take
+  })
+
+  let revoked = 0
+  for (const share of shares) {
+    // Memberships and team shares being ended are already gone or revoked, or belong to this team
+    const others = await tx.teamShare.findMany({
+      where: {
+        entryId: share.entryId,
+        clientId: share.clientId,
+        ...activeTeamSharesWhere(),
+        ...(share.teamShare && { teamId: { not: share.teamShare.teamId } }),
+        team: { members: { some: { providerId: share.providerId } } }
+      },
+      orderBy: { createdAt: 'asc' }
+    })
+    const consent = others.length > 0
+      ? (await findTreatmentConsents(share.clientId, [share.providerId], tx)).get(share.providerId)
+      : undefined
+    const other = others.find(teamShare => consentCovers(consent, teamShare.scope))
+
+    if (other && consent) {
+      await tx.entryShare.update({
+        where: { id: share.id },
+        data: {
+          scope: other.scope,
+          message: other.message,
+          expiresAt: expiryUnderConsent(consent, other.expiresAt),
+          teamShareId: other.id,
+          consentId: consent.id
+        }
+      })
+
+      await auditShareAction(share.id, 'UPDATE', context, {
+        reason,
+        entryId: share.entryId,
+        providerId: share.providerId,
+        scope: other.scope,
+        careTeamId: other.teamId,
+        teamShareId: other.id,
+        previousTeamShareId: share.teamShareId
+      }, tx)
+      continue
+    }
+
+    await tx.entryShare.update({
+      where: { id: share.id },
+      data: { isRevoked: true, revokedAt: new Date(), revokedReason: reason }
+    })
+
+    await auditShareAction(share.id, 'UNSHARE', context, {
+      reason,
+      entryId: share.entryId,
+      providerId: share.providerId,
+      careTeamId: share.teamShare?.teamId,
+      teamShareId: share.teamShareId
+    }, tx)
+    revoked++
+  }
+
+  return { handled: shares.length, revoked }
+}
+
+/**
+ * revokeMemberShares() a batch at a time, each batch in its own transaction,
+ * until a batch comes up short. Shares handled drop out of `where`, being
+ * revoked or moved to another team's share. Returns how many were revoked.
+ */
+async function revokeMemberSharesInBatches(
+  where: MemberSharesWhere,
+  reason: string,
+  context: AuditContext
+): Promise<number> {
+  let revoked = 0
+  for (;;) {
+    const batch = await db.$transaction(
+      tx => revokeMemberShares(where, reason, context, tx, SHARE_BATCH_SIZE),
+      SHARE_BATCH_TRANSACTION
+    )
+    revoked += batch.revoked
+    if (batch.handled < SHARE_BATCH_SIZE) return revoked
+  }
+}
+
+export async function listCareTeams(
+  options: { withMembersOnly?: boolean } = {}
+): Promise<CareTeamResponse[]> {
+  const teams = await db.careTeam.findMany({
+    where: options.withMembersOnly ? { members: { some: {} } } : {},
+    include: {
+      members: { include: { provider: PERSON }, orderBy: { createdAt: 'asc' } },
+      _count: { select: { shares: { where: activeTeamSharesWhere() } } }
+    },
+    orderBy: { name: 'asc' }
+  })
+
+  return teams.map(team => ({
+    id: team.id,
+    name: team.name,
+    description: team.description,
+    members: team.members.map(member => toMemberResponse(member.provider)),
+    activeShares: team._count.shares,
+    createdAt: team.createdAt.toISOString()
+  }))
+}
+
+export async function createCareTeam(
+  data: CreateCareTeamRequestParams,
+  context: AuditContext
+): Promise<CareTeamResponse> {
+  const team = await db.$transaction(async tx => {
+    const created = await tx.careTeam.create({
+      data: { name: data.name, description: data.description || null }
+    })
+
+    await createAuditLog(
+      { action: 'CREATE', resource: 'care_teams', resourceId: created.id, details: { name: created.name } },
+      context,
+      tx
+    )
+
+    return created
+  })
+
+  return {
+    id: team.id,
+    name: team.name,
+    description: team.description,
+    members: [],
+    activeShares: 0,
+    createdAt: team.createdAt.toISOString()
+  }
+}
+
+/**
+ * Delete a team. Every member share resolved from its team shares is revoked
+ * first, in batches; if one fails the team stays, and deleting it again
+ * finishes the job. The team shares themselves go with the team.
+ */
+export async function deleteCareTeam(teamId: string, context: AuditContext): Promise<void> {
+  const team = await findTeam(teamId)
+  const reason = 'Care team deleted'
+
+  let revokedShares = await revokeMemberSharesInBatches({ teamShare: { teamId } }, reason, context)
+
+  await db.$transaction(async tx => {
+    // Any granted while the batches ran
+    revokedShares += (await revokeMemberShares({ teamShare: { teamId } }, reason, context, tx)).revoked
+
+    await tx.careTeam.delete({ where: { id: teamId } })
+
+    await createAuditLog(
+      { action: 'DELETE', resource: 'care_teams', resourceId: teamId, details: { name: team.name, revokedShares } },
+      context,
+      tx
+    )
+  }, SHARE_BATCH_TRANSACTION)
+}
+
+/**
+ * Add a provider to a team and share every entry currently shared with the
+ * team with them, a batch of team shares at a time. Returns how many entries
+ * were shared.
+ */
+export async function addCareTeamMember(
+  teamId: string,
+  providerId: string,
+  context: AuditContext
+): Promise<number> {
+  await findTeam(teamId)
+
+  const provider = await db.user.findUnique({ where: { id: providerId } })
+  if (!provider || !provider.isActive || provider.role !== 'PROVIDER') {
+    throw new Error(CARE_TEAM_PROVIDER_ERROR)
+  }
+
+  const existing = await db.careTeamMember.findUnique({ where: { teamId_providerId: { teamId, providerId } } })
+  if (existing) {
+    throw new Error(CARE_TEAM_MEMBER_EXISTS_ERROR)
+  }
+
+  // Team shares made from here on reach the new member as they are made
+  const teamShares = await db.$transaction(async tx => {
+    await tx.careTeamMember.create({ data: { teamId, providerId } })
+
+    const current = await tx.teamShare.findMany({ where: { teamId, ...activeTeamSharesWhere() } })
+
+    await createAuditLog(
+      { action: 'UPDATE', resource: 'care_teams', resourceId: teamId, details: { memberAdded: providerId, teamShares: current.length } },
+      context,
+      tx
+    )
+
+    return current
+  })
+
+  let granted = 0
+  for (const batch of shareBatches(teamShares)) {
+    granted += await db.$transaction(async tx => {
+      let grantedInBatch = 0
+      for (const teamShare of batch) {
+        if (await grantMemberShare(teamShare, providerId, context, tx)) grantedInBatch++
+      }
+      return grantedInBatch
+    }, SHARE_BATCH_TRANSACTION)
+  }
+
+  return granted
+}
+
+/**
+ * Remove a provider from a team, revoking the shares they had through it,
+ * in batches before the membership goes; if one fails they stay a member,
+ * and removing them again finishes the job. Shares of their own stay.
+ * Returns how many shares were revoked.
+ */
+export async function removeCareTeamMember(
+  teamId: string,
+  providerId: string,
+  context: AuditContext
+): Promise<number> {
+  const member = await db.careTeamMember.findUnique({ where: { teamId_providerId: { teamId, providerId } } })
+  if (!member) {
+    throw new Error(CARE_TEAM_MEMBER_NOT_FOUND_ERROR)
+  }
+
+  const where = { teamShare: { teamId }, providerId }
+  const reason = 'Removed from care team'
+  let revoked = await revokeMemberSharesInBatches(where, reason, context)
+
+  return db.$transaction(async tx => {
+    await tx.careTeamMember.delete({ where: { id: member.id } })
+
+    // Any granted while the batches ran
+    revoked += (await revokeMemberShares(where, reason, context, tx)).revoked
+
+    await createAuditLog(
+      { action: 'UPDATE', resource: 'care_teams', resourceId: teamId, details: { memberRemoved: providerId, revokedShares: revoked } },
+      context,
+      tx
+    )
+
+    return revoked
+  }, SHARE_BATCH_TRANSACTION)
+}
+
+export async function getTeamSharesForEntry(entryId: string, clientId: string): Promise<TeamShareResponse[]> {
+  const teamShares = await db.teamShare.findMany({
+    where: { entryId, clientId, ...activeTeamSharesWhere() },
+    include: {
+      team: { include: { members: { include: { provider: PERSON }, orderBy: { createdAt: 'asc' } } } }
+    },
+    orderBy: { createdAt: 'desc' }
+  })
+
+  const withAccess = await db.entryShare.findMany({
+    where: { entryId, clientId, ...activeSharesWhere() },
+    select: { providerId: true }
+  })
+  const providersWithAccess = new Set(withAccess.map(share => share.providerId))
+
+  return teamShares.map(teamShare => ({
+    id: teamShare.id,
+    entryId: teamShare.entryId,
+    teamId: teamShare.teamId,
+    teamName: teamShare.team.name,
+    scope: teamShare.scope,
+    message: teamShare.message,
+    members: teamShare.team.members.map(member => ({
+      ...toMemberResponse(member.provider),
+      hasAccess: providersWithAccess.has(member.providerId)
+    })),
+    expiresAt: teamShare.expiresAt?.toISOString() ?? null,
+    createdAt: teamShare.createdAt.toISOString()
+  }))
+}
+
+/**
+ * Share a client's entry with a care team: the team share, then a share for
+ * each current member, a batch of members at a time, each with its audit event
+ */
+export async function shareEntryWithTeam(
+  data: CreateTeamShareRequestParams,
+  clientId: string,
+  context: AuditContext
+): Promise<TeamShare> {
+  const entry = await db.journalEntry.findFirst({ where: { id: data.entryId, userId: clientId } })
+  if (!entry) {
+    throw new Error(TEAM_SHARE_ENTRY_ERROR)
+  }
+
+  await findTeam(data.teamId)
+
+  const existing = await db.teamShare.findUnique({
+    where: { entryId_teamId: { entryId: data.entryId, teamId: data.teamId } }
+  })
+  if (existing && isTeamShareActive(existing)) {
+    throw new Error(TEAM_SHARE_EXISTS_ERROR)
+  }
+
+  const fields = {
+    scope: data.scope,
+    message: data.message || null,
+    expiresAt: data.expiresAt ? new Date(data.expiresAt) : null
+  }
+
+  const teamShare = await db.$transaction(async tx => {
+    // A revoked or expired team share is taken over by the new one
+    const shared = existing
+      ? await tx.teamShare.update({
+          where: { id: existing.id },
+          data: { ...fields, isRevoked: false, revokedAt: null }
+        })
+      : await tx.teamShare.create({
+          data: { ...fields, entryId: data.entryId, teamId: data.teamId, clientId }
+        })
+
+    await createAuditLog(
+      {
+        action: 'SHARE',
+        resource: 'team_shares',
+        resourceId: shared.id,
+        entryId: data.entryId,
+        details: { careTeamId: data.teamId, scope: data.scope, expiresAt: fields.expiresAt?.toISOString() }
+      },
+      context,
+      tx
+    )
+
+    return shared
+  })
+
+  // Members who join from here on get their share as they join
+  const members = await db.careTeamMember.findMany({
+    where: { teamId: data.teamId, provider: { isActive: true } },
+    select: { providerId: true }
+  })
+
+  for (const batch of shareBatches(members)) {
+    await db.$transaction(async tx => {
+      for (const member of batch) {
+        await grantMemberShare(teamShare, member.providerId, context, tx)
+      }
+    }, SHARE_BATCH_TRANSACTION)
+  }
+
+  return teamShare
+}
+
+// Stop sharing an entry with a team; every member loses the share they had through it
+export async function revokeTeamShare(
+  teamShareId: string,
+  clientId: string,
+  context: AuditContext
+): Promise<void> {
+  const teamShare = await db.teamShare.findFirst({ where: { id: teamShareId, clientId, isRevoked: false } })
+  if (!teamShare) {
+    throw new Error(TEAM_SHARE_NOT_FOUND_ERROR)
+  }
+
+  // Members' shares first, in batches; if one fails the team share stays, and revoking it again finishes the job
+  const reason = 'Care team share revoked'
+  await revokeMemberSharesInBatches({ teamShareId }, reason, context)
+
+  await db.$transaction(async tx => {
+    await tx.teamShare.update({
+      where: { id: teamShareId },
+      data: { isRevoked: true, revokedAt: new Date() }
+    })
+
+    await createAuditLog(
+      {
+        action: 'UNSHARE',
+        resource: 'team_shares',
+        resourceId: teamShareId,
+        entryId: teamShare.entryId,
+        details: { careTeamId: teamShare.teamId }
+      },
+      context,
+      tx
+    )
+
+    // Any granted while the batches ran
+    await revokeMemberShares({ teamShareId }, reason, context, tx)
+  }, SHARE_BATCH_TRANSACTION)
+}
@@ -0,0 +1,349 @@
+import { db } from '@/lib/db'
+import { activeSharesWhere, SHARE_BATCH_SIZE, SHARE_BATCH_TRANSACTION } from '@/lib/db/query-helpers'
+import { auditShareAction, createAuditLog, type AuditWriter } from '@/lib/security/audit'
+import { SCOPE_RANK } from '@/lib/security/entry-projection'
+import { CONSENT_FORM_VERSION, consentFormText } from '@/lib/consent-forms'
+import type { Prisma } from '@prisma/client'
+import type { AuditContext, Consent, ShareScope, User } from '@/types/database'
+import type { ConsentResponse, CreateConsentRequestParams } from '@/types/api'
+
+/**
+ * Consents.
+ *
+ * A share is a disclosure, so it needs the client's consent on record: a
+ * TREATMENT consent naming the provider, at a scope at least as broad as the
+ * share's. Sending entry text to the AI model needs an AI_PROCESSING consent.
+ * A share made under a consent records it, and never outlives it: its expiry
+ * is capped at the consent's, and revoking the consent revokes the share.
+ * Shares made before consents were recorded have none, so they grant no
+ * access (see activeSharesWhere) and are revoked by `npm run shares:expire`.
+ */
+
+export const CONSENT_REQUIRED_ERROR = 'No consent on file covers sharing with this provider at this scope'
+export const AI_CONSENT_REQUIRED_ERROR = 'The client has not consented to AI processing of their entries'
+export const CONSENT_FORM_OUTDATED_ERROR = 'The consent form has changed. Please read it again before signing'
+export const CONSENT_PROVIDER_ERROR = 'Provider not found, inactive, or invalid role'
+export const CONSENT_NOT_FOUND_ERROR = 'Consent not found or already revoked'
+export const CONSENT_EXPIRY_PAST_ERROR = 'The end date must be in the future'
+export const NO_CONSENT_REVOKED_REASON = 'No consent on file'
+
+function consentInForceWhere(now = new Date()): Prisma.ConsentWhereInput {
+  return {
+    revokedAt: null,
+    OR: [{ expiresAt: null }, { expiresAt: { gt: now } }]
+  }
+}
+
+function consentStatus(consent: Pick<Consent, 'revokedAt' | 'expiresAt'>, now = new Date()): ConsentResponse['status'] {
+  if (consent.revokedAt) return 'revoked'
+  return consent.expiresAt && consent.expiresAt <= now ? 'expired' : 'active'
+}
+
+/**
+ * The client's consents in force for the providers, keyed by provider: the
+ * one covering the broadest scope, and of those the one lasting longest
+ */
+export async function findTreatmentConsents(
+  clientId: string,
+  providerIds: string[],
+  reader: Pick<typeof db, 'consent'> = db
+): Promise<Map<string, Consent>> {
+  const consents = await reader.consent.findMany({
+    where: { clientId, purpose: 'TREATMENT', providerId: { in: providerIds }, ...consentInForceWhere() }
+  })
+
+  const lasts = (consent: Consent): number => consent.expiresAt?.getTime() ?? Infinity
+  const best = new Map<string, Consent>()
+  for (const consent of consents) {
+    const current = best.get(consent.providerId as string)
+    const rank = SCOPE_RANK[consent.scope ?? 'NONE']
+    const currentRank = current ? SCOPE_RANK[current.scope ?? 'NONE'] : -1
+    if (!current || rank > currentRank || (rank === currentRank && lasts(consent) > lasts(current))) {
+      best.set(consent.providerId as string, consent)
+    }
+  }
+
+  return best
+}
+
+// Whether a consent allows a share at the scope
+export function consentCovers(consent: Pick<Consent, 'scope'> | undefined, scope: ShareScope): consent is Consent {
+  return !!consent && SCOPE_RANK[consent.scope ?? 'NONE'] >= SCOPE_RANK[scope]
+}
+
+// The consent a new or broadened share is made under; throws if there is none
+export async function requireTreatmentConsent(
+  clientId: string,
+  providerId: string,
+  scope: ShareScope,
+  reader: Pick<typeof db, 'consent'> = db
+): Promise<Consent> {
+  const consent = (await findTreatmentConsents(clientId, [providerId], reader)).get(providerId)
+
+  if (!consentCovers(consent, scope)) {
+    throw new Error(CONSENT_REQUIRED_ERROR)
+  }
+
+  return consent
+}
+
+// A share's expiry under a consent: never later than the consent's own
+export function expiryUnderConsent(consent: Pick<Consent, 'expiresAt'>, expiresAt?: Date | null): Date | null {
+  if (!consent.expiresAt) return expiresAt ?? null
+  return expiresAt && expiresAt < consent.expiresAt ? expiresAt : consent.expiresAt
+}
+
+// The clients, of those given, with an AI processing consent in force
+export async function clientsConsentingToAi(clientIds: string[]): Promise<Set<string>> {
+  const consents = await db.consent.findMany({
+    where: { clientId: { in: clientIds }, purpose: 'AI_PROCESSING', ...consentInForceWhere() },
+    select: { clientId: true }
+  })
+
+  return new Set(consents.map(consent => consent.clientId))
+}
+
+export async function hasAiProcessingConsent(clientId: string): Promise<boolean> {
+  return (await clientsConsentingToAi([clientId])).has(clientId)
+}
+
+interface ConsentWithProvider extends Consent {
+  provider: Pick<User, 'firstName' | 'lastName' | 'email'> | null
+  _count: { shares: number }
+}
+
+function toConsentResponse(consent: ConsentWithProvider): ConsentResponse {
+  return {
+    id: consent.id,
+    purpose: consent.purpose,
+    providerId: consent.providerId,
+    providerName: consent.provider
+      ? [consent.provider.firstName, consent.provider.lastName].filter(Boolean).join(' ') || consent.provider.email
+      : null,
+    scope: consent.scope,
+    formVersion: consent.formVersion,
+    consentText: consent.consentText,
+    signature: consent.signature,
+    status: consentStatus(consent),
+    activeShares: consent._count.shares,
+    expiresAt: consent.expiresAt?.toISOString() ?? null,
+    grantedAt: consent.grantedAt.toISOString(),
+    revokedAt: consent.revokedAt?.toISOString() ?? null,
+    revokedReason: consent.revokedReason
+  }
+}
+
+function withProviderAndShareCount() {
+  return {
+    provider: { select: { firstName: true, lastName: true, email: true } },
+    _count: { select: { shares: { where: activeSharesWhere() } } }
+  } as const
+}
+
+export async function listConsents(clientId: string): Promise<ConsentResponse[]> {
+  const consents = await db.consent.findMany({
+    where: { clientId },
+    include: withProviderAndShareCount(),
+    orderBy: { grantedAt: 'desc' }
+  })
+
+  return consents.map(toConsentResponse)
+}
+
+/**
+ * Record a signed consent. The stored text is rendered here from the form
+ * version the client read, so it is exactly what they agreed to.
+ */
+export async function createConsent(
+  clientId: string,
+  data: CreateConsentRequestParams,
+  context: AuditContext
+): Promise<ConsentResponse> {
+  if (data.formVersion !== CONSENT_FORM_VERSION) {
+    throw new Error(CONSENT_FORM_OUTDATED_ERROR)
+  }
+
+  // A consent that has already ended would be signed only to be stored as expired
+  if (data.expiresAt && new Date(data.expiresAt) <= new Date()) {
+    throw new Error(CONSENT_EXPIRY_PAST_ERROR)
+  }
+
+  const treatment = data.purpose === 'TREATMENT'
+  let providerName: string | undefined
+  if (treatment) {
+    const provider = data.providerId ? await db.user.findUnique({ where: { id: data.providerId } }) : null
+
+    if (!provider || !provider.isActive || provider.role !== 'PROVIDER') {
+      throw new Error(CONSENT_PROVIDER_ERROR)
+    }
+
+    providerName = [provider.firstName, provider.lastName].filter(Boolean).join(' ') || provider.email
+  }
+
+  const scope = treatment ? data.scope ?? 'SUMMARY_ONLY' : null
+
+  const consentId = await db.$transaction(async tx => {
+    const consent = await tx.consent.create({
+      data: {
+        clientId,
+        providerId: treatment ? data.providerId : null,
+        purpose: data.purpose,
+        scope,
+        formVersion: data.formVersion,
+        consentText: consentFormText(data.purpose, { providerName, scope, expiresAt: data.expiresAt }),
+        signature: data.signature.trim(),
+        expiresAt: data.expiresAt ? new Date(data.expiresAt) : null,
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent
+      }
+    })
+
+    await createAuditLog(
+      {
+        action: 'CREATE',
+        resource: 'consents',
+        resourceId: consent.id,
+        details: {
+          purpose: consent.purpose,
+          providerId: consent.providerId,
+          scope: consent.scope,
+          formVersion: consent.formVersion,
+          expiresAt: consent.expiresAt?.toISOString()
+        }
+      },
+      context,
+      tx
+    )
+
+    return consent.id
+  })
+
+  const consent = await db.consent.findUniqueOrThrow({
+    where: { id: consentId },
+    include: withProviderAndShareCount()
+  })
+
+  return toConsentResponse(consent)
+}
+
+// Revoke the active shares made under a consent, or up to `take` of them, one audited UNSHARE each
+async function revokeSharesUnderConsent(
+  consentId: string,
+  reason: string,
+  context: AuditContext,
+  tx: AuditWriter & Pick<typeof db, 'entryShare'>,
+  take?: number
+): Promise<number> {
+  const shares = await tx.entryShare.findMany({ where: { consentId, ...activeSharesWhere() }, take })
+
+  for (const share of shares) {
+    await tx.entryShare.update({
+      where: { id: share.id },
+      data: { isRevoked: true, revokedAt: new Date(), revokedReason: reason }
+    })
+
+    await auditShareAction(share.id, 'UNSHARE', context, {
+      reason,
+      entryId: share.entryId,
+      providerId: share.providerId,
+      clientId: share.clientId,
+      consentId,
+      consentRevoked: true
+    }, tx)
+  }
+
+  return shares.length
+}
+
+/**
+ * Revoke the shares made before consents were recorded, each with its
+ * UNSHARE audit in the same transaction. They already grant no access; this
+ * records that they don't. The client can share again under a consent.
+ * Returns how many were revoked.
+ */
+export async function revokeSharesWithoutConsent(context: AuditContext): Promise<number> {
+  const due = await db.entryShare.findMany({
+    where: { consentId: null, isRevoked: false },
+    select: { id: true, entryId: true, providerId: true, clientId: true }
+  })
+
+  let revoked = 0
+  for (const share of due) {
+    const marked = await db.$transaction(async tx => {
+      // Conditional, so a share revoked or re-shared under a consent meanwhile is left alone
+      const { count } = await tx.entryShare.updateMany({
+        where: { id: share.id, consentId: null, isRevoked: false },
+        data: { isRevoked: true, revokedAt: new Date(), revokedReason: NO_CONSENT_REVOKED_REASON }
+      })
+      if (count === 0) return false
+
+      await auditShareAction(share.id, 'UNSHARE', context, {
+        reason: NO_CONSENT_REVOKED_REASON,
+        entryId: share.entryId,
+        providerId: share.providerId,
+        clientId: share.clientId,
+        noConsent: true
+      }, tx)
+
+      return true
+    })
+
+    if (marked) revoked++
+  }
+
+  return revoked
+}
+
+/**
+ * Revoke a consent, and with it every share made under it, each with its own
+ * audited UNSHARE carrying the client's reason. The shares are revoked first,
+ * in batches; if one fails the consent is still in force, and revoking it
+ * again finishes the job. Returns how many shares were revoked.
+ */
+export async function revokeConsent(
+  consentId: string,
+  clientId: string,
+  reason: string,
+  context: AuditContext
+): Promise<number> {
+  const consent = await db.consent.findFirst({ where: { id: consentId, clientId, revokedAt: null } })
+
+  if (!consent) {
+    throw new Error(CONSENT_NOT_FOUND_ERROR)
+  }
+
+  const revokedReason = `Consent revoked: ${reason}`
+
+  let revoked = 0
+  for (;;) {
+    const batch = await db.$transaction(
+      tx => revokeSharesUnderConsent(consentId, revokedReason, context, tx, SHARE_BATCH_SIZE),
+      SHARE_BATCH_TRANSACTION
+    )
+    revoked += batch
+    if (batch < SHARE_BATCH_SIZE) break
+  }
+
+  return db.$transaction(async tx => {
+    await tx.consent.update({
+      where: { id: consentId },
+      data: { revokedAt: new Date(), revokedReason: reason }
+    })
+
+    // Any shared under it while the batches ran
+    revoked += await revokeSharesUnderConsent(consentId, revokedReason, context, tx)
+
+    await createAuditLog(
+      {
+        action: 'UPDATE',
+        resource: 'consents',
+        resourceId: consentId,
+        details: { revoked: true, reason, purpose: consent.purpose, providerId: consent.providerId, revokedShares: revoked }
+      },
+      context,
+      tx
+    )
+
+    return revoked
+  }, SHARE_BATCH_TRANSACTION)
+}
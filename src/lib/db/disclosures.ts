@@ -0,0 +1,243 @@
+import { db } from '@/lib/db'
+import { auditSystemAction } from '@/lib/security/audit'
+import { decryptField } from '@/lib/security/field-encryption'
+import type { AuditAction, AuditContext, AuditLog, User } from '@/types/database'
+import type { DisclosureEntryGroup, DisclosureEvent, DisclosureRecipientGroup, DisclosureReportResponse } from '@/types/api'
+
+/**
+ * Accounting of disclosures (HIPAA §164.528): who other than the client has
+ * seen, summarized or been given access to the client's entries.
+ *
+ * Built from the audit log rather than current state, so entries and shares
+ * deleted since still show up. The client's entries are the ones they
+ * created (journal_entries CREATE rows) plus any they own now, and their
+ * shares likewise come from SHARE rows plus current shares.
+ */
+
+// §164.528(a)(3): a client may ask for up to six years before the request
+export const DISCLOSURE_PERIOD_YEARS = 6
+
+const SHARE_CHANGE_ACTIONS: AuditAction[] = ['SHARE', 'UPDATE', 'UNSHARE']
+
+interface ShareInfo {
+  entryId: string
+  providerId: string
+}
+
+function detail(row: Pick<AuditLog, 'details'>, key: string): unknown {
+  return (row.details as Record<string, unknown> | null)?.[key]
+}
+
+function formatScope(scope: unknown): string {
+  return typeof scope === 'string' ? scope.toLowerCase().replace(/_/g, ' ') : 'unknown scope'
+}
+
+function describe(
+  row: AuditLog,
+  clientId: string,
+  emergencyReasons: Map<string, string>
+): Pick<DisclosureEvent, 'description' | 'purpose'> {
+  const authorizedUse = 'Treatment, under a share you authorized'
+
+  if (detail(row, 'breakTheGlass') === true) {
+    const reason = emergencyReasons.get(detail(row, 'emergencyAccessId') as string)
+    return {
+      description: detail(row, 'view') === 'list'
+        ? 'Saw the entry listed under emergency access'
+        : 'Viewed the entry under emergency access',
+      purpose: reason ? `Emergency access: ${reason}` : 'Emergency access'
+    }
+  }
+
+  // Nothing was sent to the model, but the client sees who asked
+  if (row.resource === 'ai_summary' && detail(row, 'blocked') === true) {
+    return {
+      description: 'AI summary requested and refused',
+      purpose: detail(row, 'reason') === 'no_consent' ? 'No AI processing consent on file' : 'Your AI preference'
+    }
+  }
+
+  if (row.resource === 'ai_summary' && row.action === 'READ') {
+    return {
+      description: detail(row, 'combined') === true
+        ? 'Read a combined AI summary including the entry'
+        : 'Read the AI summary of the entry',
+      purpose: authorizedUse
+    }
+  }
+
+  if (row.resource === 'ai_summary') {
+    return {
+      description: detail(row, 'combined') === true
+        ? 'Included in a combined AI summary'
+        : 'AI summary of the entry generated',
+      purpose: authorizedUse
+    }
+  }
+
+  if (row.action === 'READ') {
+    return {
+      description: row.resource === 'entry_shares'
+        ? `Viewed the shared entry (${formatScope(detail(row, 'scope'))})`
+        : 'Viewed the entry',
+      purpose: authorizedUse
+    }
+  }
+
+  const changedBy = row.userId === clientId ? 'At your request'
+    : row.userId && detail(row, 'careTeamId') ? 'Care team membership changed'
+    : row.userId ? 'Changed by the recipient'
+    : 'Changed automatically'
+
+  switch (row.action) {
+    case 'SHARE':
+      return { description: `Access granted (${formatScope(detail(row, 'scope'))})`, purpose: changedBy }
+    case 'UNSHARE':
+      return {
+        description: detail(row, 'expired') === true ? 'Access expired'
+          : detail(row, 'consentRevoked') === true ? 'Consent revoked'
+          : detail(row, 'noConsent') === true ? 'Revoked: no consent on file'
+          : 'Access revoked',
+        purpose: changedBy
+      }
+    default:
+      return { description: 'Sharing settings changed', purpose: changedBy }
+  }
+}
+
+function recipientName(recipient: Pick<User, 'firstName' | 'lastName' | 'email'> | undefined, recipientId: string | null): string {
+  if (!recipientId) {
+    return 'System'
+  }
+  if (!recipient) {
+    return 'Deleted account'
+  }
+  return [recipient.firstName, recipient.lastName].filter(Boolean).join(' ') || recipient.email
+}
+
+export async function getDisclosureReport(
+  clientId: string,
+  period: { from?: Date; to?: Date },
+  context: AuditContext
+): Promise<DisclosureReportResponse> {
+  const periodEnd = period.to ?? new Date()
+  const periodStart = period.from ?? new Date(
+    new Date(periodEnd).setFullYear(periodEnd.getFullYear() - DISCLOSURE_PERIOD_YEARS)
+  )
+
+  const [ownedEntries, createdEntries, currentShares, shareAudits] = await Promise.all([
+    db.journalEntry.findMany({ where: { userId: clientId }, select: { id: true, title: true } }),
+    db.auditLog.findMany({
+      where: { userId: clientId, action: 'CREATE', resource: 'journal_entries' },
+      select: { entryId: true }
+    }),
+    db.entryShare.findMany({ where: { clientId }, select: { id: true, entryId: true, providerId: true } }),
+    db.auditLog.findMany({
+      where: { userId: clientId, action: 'SHARE', resource: 'entry_shares' },
+      select: { shareId: true, details: true }
+    })
+  ])
+
+  const titles = new Map(ownedEntries.map(entry => [entry.id, entry.title]))
+  const entryIds = [...new Set([
+    ...ownedEntries.map(entry => entry.id),
+    ...createdEntries.map(row => row.entryId).filter((id): id is string => !!id)
+  ])]
+
+  const shares = new Map<string, ShareInfo>()
+  for (const row of shareAudits) {
+    const entryId = detail(row, 'entryId')
+    const providerId = detail(row, 'providerId')
+    if (row.shareId && typeof entryId === 'string' && typeof providerId === 'string') {
+      shares.set(row.shareId, { entryId, providerId })
+    }
+  }
+  for (const share of currentShares) {
+    shares.set(share.id, { entryId: share.entryId, providerId: share.providerId })
+  }
+  const shareIds = [...shares.keys()]
+
+  // The client's own reads and summaries aren't disclosures; share changes are listed whoever made them
+  const rows = await db.auditLog.findMany({
+    where: {
+      createdAt: { gte: periodStart, lte: periodEnd },
+      OR: [
+        { resource: 'journal_entries', action: 'READ', entryId: { in: entryIds }, userId: { not: clientId } },
+        { resource: 'ai_summary', entryId: { in: entryIds }, userId: { not: clientId } },
+        { resource: 'entry_shares', action: 'READ', shareId: { in: shareIds }, userId: { not: clientId } },
+        { resource: 'entry_shares', action: { in: SHARE_CHANGE_ACTIONS }, shareId: { in: shareIds } }
+      ]
+    },
+    orderBy: [{ createdAt: 'asc' }, { sequence: 'asc' }]
+  })
+
+  // Share changes are disclosures to the share's provider, whoever made the change
+  const located = rows.flatMap(row => {
+    const share = row.shareId ? shares.get(row.shareId) : undefined
+    const entryId = row.entryId ?? share?.entryId
+    if (!entryId) {
+      return []
+    }
+    const recipientId = SHARE_CHANGE_ACTIONS.includes(row.action) ? share?.providerId ?? null : row.userId
+    return [{ row, entryId, recipientId }]
+  })
+
+  // Reasons the provider gave, for reads under emergency access
+  const emergencyAccessIds = [...new Set(located
+    .map(({ row }) => detail(row, 'emergencyAccessId'))
+    .filter((id): id is string => typeof id === 'string'))]
+  const emergencyReasons = new Map(await Promise.all(
+    (await db.emergencyAccess.findMany({
+      where: { id: { in: emergencyAccessIds }, clientId },
+      select: { id: true, reason: true }
+    })).map(async access => [access.id, await decryptField(access.reason)] as const)
+  ))
+
+  const recipientIds = [...new Set(located.map(item => item.recipientId).filter((id): id is string => !!id))]
+  const recipients = new Map(
+    (await db.user.findMany({
+      where: { id: { in: recipientIds } },
+      select: { id: true, firstName: true, lastName: true, email: true }
+    })).map(user => [user.id, user])
+  )
+
+  const groups = new Map<string | null, Map<string, DisclosureEvent[]>>()
+  for (const { row, entryId, recipientId } of located) {
+    const byEntry = groups.get(recipientId) ?? new Map<string, DisclosureEvent[]>()
+    const events = byEntry.get(entryId) ?? []
+    events.push({ id: row.id, action: row.action, date: row.createdAt.toISOString(), ...describe(row, clientId, emergencyReasons) })
+    byEntry.set(entryId, events)
+    groups.set(recipientId, byEntry)
+  }
+
+  const recipientGroups: DisclosureRecipientGroup[] = [...groups.entries()].map(([recipientId, byEntry]) => {
+    const entries: DisclosureEntryGroup[] = [...byEntry.entries()].map(([entryId, events]) => ({
+      entryId,
+      entryTitle: titles.get(entryId) ?? null,
+      events
+    }))
+
+    return {
+      recipientId,
+      recipientName: recipientName(recipientId ? recipients.get(recipientId) : undefined, recipientId),
+      recipientEmail: recipientId ? recipients.get(recipientId)?.email ?? null : null,
+      entries,
+      totalEvents: entries.reduce((total, entry) => total + entry.events.length, 0)
+    }
+  }).sort((a, b) => a.recipientName.localeCompare(b.recipientName))
+
+  await auditSystemAction('READ', 'audit_logs', context, {
+    report: 'accounting_of_disclosures',
+    periodStart: periodStart.toISOString(),
+    periodEnd: periodEnd.toISOString(),
+    totalEvents: located.length
+  })
+
+  return {
+    periodStart: periodStart.toISOString(),
+    periodEnd: periodEnd.toISOString(),
+    generatedAt: new Date().toISOString(),
+    totalEvents: located.length,
+    recipients: recipientGroups
+  }
+}
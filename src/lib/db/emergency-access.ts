@@ -0,0 +1,370 @@
+import { db } from '@/lib/db'
+import { auditEntryAccess, createAuditLog } from '@/lib/security/audit'
+import { decryptField, encryptField } from '@/lib/security/field-encryption'
+import { sendMail } from '@/lib/mail/mailer'
+import { appUrl, emergencyAccessClientEmail, emergencyAccessReviewEmail } from '@/lib/mail/templates'
+import type { AuditContext, EmergencyAccess, JournalEntry, User } from '@/types/database'
+import type {
+  AssignedClientResponse,
+  CreateEmergencyAccessRequestParams,
+  EmergencyAccessEntryResponse,
+  EmergencyAccessResponse,
+  EmergencyAccessStatus
+} from '@/types/api'
+
+/**
+ * Emergency ("break-the-glass") access.
+ *
+ * In a crisis a provider can read all of an assigned client's entries (a
+ * client they have a CareRelationship with) without a share, for a limited
+ * time and after stating a reason. Every read is audited with
+ * `breakTheGlass: true` in its details, and once the access is over the
+ * client and every admin are emailed so it can be reviewed.
+ */
+
+export const EMERGENCY_ACCESS_DEFAULT_MINUTES = 60
+export const EMERGENCY_ACCESS_MAX_MINUTES = 4 * 60
+
+export const CLIENT_NOT_ASSIGNED_ERROR = 'Client not found or not in your care'
+export const EMERGENCY_ACCESS_ACTIVE_ERROR = 'Emergency access to this client is already active'
+export const EMERGENCY_ACCESS_INACTIVE_ERROR = 'Emergency access not found or no longer active'
+export const EMERGENCY_ACCESS_NOT_FOUND_ERROR = 'Emergency access not found'
+export const EMERGENCY_ACCESS_IN_PROGRESS_ERROR = 'Emergency access can only be reviewed once it is over'
+
+interface EmergencyAccessWithPeople extends EmergencyAccess {
+  provider: Pick<User, 'firstName' | 'lastName' | 'email'>
+  client: Pick<User, 'firstName' | 'lastName' | 'email'>
+}
+
+const PEOPLE = {
+  provider: { select: { firstName: true, lastName: true, email: true } },
+  client: { select: { firstName: true, lastName: true, email: true } }
+} as const
+
+const ENTRY_FIELDS = {
+  id: true,
+  title: true,
+  status: true,
+  mood: true,
+  tags: true,
+  wordCount: true,
+  aiSummary: true,
+  createdAt: true,
+  updatedAt: true
+} as const
+
+function displayName(user: Pick<User, 'firstName' | 'lastName' | 'email'>): string {
+  return [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email
+}
+
+function emergencyAccessStatus(access: EmergencyAccess): EmergencyAccessStatus {
+  if (access.endedAt) return 'ended'
+  if (access.expiresAt <= new Date()) return 'expired'
+  return 'active'
+}
+
+async function toEmergencyAccessResponse(access: EmergencyAccessWithPeople): Promise<EmergencyAccessResponse> {
+  return {
+    id: access.id,
+    providerId: access.providerId,
+    providerName: displayName(access.provider),
+    clientId: access.clientId,
+    clientName: displayName(access.client),
+    reason: await decryptField(access.reason),
+    status: emergencyAccessStatus(access),
+    expiresAt: access.expiresAt.toISOString(),
+    endedAt: access.endedAt?.toISOString() ?? null,
+    reviewNote: access.reviewNote,
+    reviewedAt: access.reviewedAt?.toISOString() ?? null,
+    createdAt: access.createdAt.toISOString()
+  }
+}
+
+function toEntryResponse(
+  entry: Pick<JournalEntry, keyof typeof ENTRY_FIELDS> & Partial<Pick<JournalEntry, 'content'>>
+): EmergencyAccessEntryResponse {
+  return {
+    ...entry,
+    createdAt: entry.createdAt.toISOString(),
+    updatedAt: entry.updatedAt.toISOString()
+  }
+}
+
+async function findActiveAccess(accessId: string, providerId: string): Promise<EmergencyAccess> {
+  const access = await db.emergencyAccess.findFirst({
+    where: { id: accessId, providerId, endedAt: null, expiresAt: { gt: new Date() } }
+  })
+
+  if (!access) {
+    throw new Error(EMERGENCY_ACCESS_INACTIVE_ERROR)
+  }
+
+  return access
+}
+
+// Clients with a care relationship to the provider, and any emergency access open to them
+export async function getAssignedClients(providerId: string): Promise<AssignedClientResponse[]> {
+  const relationships = await db.careRelationship.findMany({
+    where: { providerId, client: { isActive: true } },
+    include: { client: { select: { id: true, firstName: true, lastName: true, email: true } } }
+  })
+
+  const active = await db.emergencyAccess.findMany({
+    where: { providerId, endedAt: null, expiresAt: { gt: new Date() } },
+    select: { id: true, clientId: true }
+  })
+  const activeByClient = new Map(active.map(access => [access.clientId, access.id]))
+
+  return relationships
+    .map(({ client }) => ({
+      id: client.id,
+      email: client.email,
+      name: displayName(client),
+      activeEmergencyAccessId: activeByClient.get(client.id) ?? null
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name))
+}
+
+export async function startEmergencyAccess(
+  providerId: string,
+  data: CreateEmergencyAccessRequestParams,
+  context: AuditContext
+): Promise<EmergencyAccessResponse> {
+  const relationship = await db.careRelationship.findFirst({
+    where: { providerId, clientId: data.clientId, client: { isActive: true } }
+  })
+
+  if (!relationship) {
+    throw new Error(CLIENT_NOT_ASSIGNED_ERROR)
+  }
+
+  const minutes = Math.min(data.durationMinutes ?? EMERGENCY_ACCESS_DEFAULT_MINUTES, EMERGENCY_ACCESS_MAX_MINUTES)
+  const expiresAt = new Date(Date.now() + minutes * 60 * 1000)
+  const reason = await encryptField(data.reason, data.clientId)
+
+  const access = await db.$transaction(async tx => {
+    const existing = await tx.emergencyAccess.count({
+      where: { providerId, clientId: data.clientId, endedAt: null, expiresAt: { gt: new Date() } }
+    })
+
+    if (existing > 0) {
+      throw new Error(EMERGENCY_ACCESS_ACTIVE_ERROR)
+    }
+
+    const created = await tx.emergencyAccess.create({
+      data: { providerId, clientId: data.clientId, reason, expiresAt },
+      include: PEOPLE
+    })
+
+    // The reason stays out of the audit log; it may describe the crisis
+    await createAuditLog(
+      {
+        action: 'CREATE',
+        resource: 'emergency_access',
+        resourceId: created.id,
+        details: { breakTheGlass: true, clientId: data.clientId, expiresAt: expiresAt.toISOString() }
+      },
+      context,
+      tx
+    )
+
+    return created
+  })
+
+  return toEmergencyAccessResponse(access)
+}
+
+export async function listEmergencyAccessForProvider(providerId: string): Promise<EmergencyAccessResponse[]> {
+  const accesses = await db.emergencyAccess.findMany({
+    where: { providerId },
+    include: PEOPLE,
+    orderBy: { createdAt: 'desc' }
+  })
+
+  return Promise.all(accesses.map(toEmergencyAccessResponse))
+}
+
+// End the access before it expires; the client and admins are told straight away
+export async function endEmergencyAccess(
+  accessId: string,
+  providerId: string,
+  context: AuditContext
+): Promise<void> {
+  await db.$transaction(async tx => {
+    const { count } = await tx.emergencyAccess.updateMany({
+      where: { id: accessId, providerId, endedAt: null, expiresAt: { gt: new Date() } },
+      data: { endedAt: new Date() }
+    })
+
+    if (count === 0) {
+      throw new Error(EMERGENCY_ACCESS_INACTIVE_ERROR)
+    }
+
+    await createAuditLog(
+      { action: 'UPDATE', resource: 'emergency_access', resourceId: accessId, details: { breakTheGlass: true, ended: true } },
+      context,
+      tx
+    )
+  })
+
+  await notifyEndedEmergencyAccess()
+}
+
+/**
+ * The client's entries, newest first. Listing titles discloses them, so
+ * each listed entry gets its own flagged READ, written with the list.
+ */
+export async function getEmergencyAccessEntries(
+  accessId: string,
+  providerId: string,
+  context: AuditContext
+): Promise<EmergencyAccessEntryResponse[]> {
+  const access = await findActiveAccess(accessId, providerId)
+
+  return db.$transaction(async tx => {
+    const entries = await tx.journalEntry.findMany({
+      where: { userId: access.clientId },
+      select: ENTRY_FIELDS,
+      orderBy: { createdAt: 'desc' }
+    })
+
+    for (const entry of entries) {
+      await auditEntryAccess(entry.id, 'READ', context, {
+        breakTheGlass: true,
+        emergencyAccessId: access.id,
+        view: 'list'
+      }, tx)
+    }
+
+    return entries.map(toEntryResponse)
+  })
+}
+
+export async function getEmergencyAccessEntry(
+  accessId: string,
+  entryId: string,
+  providerId: string,
+  context: AuditContext
+): Promise<EmergencyAccessEntryResponse | null> {
+  const access = await findActiveAccess(accessId, providerId)
+
+  const entry = await db.journalEntry.findFirst({
+    where: { id: entryId, userId: access.clientId },
+    select: { ...ENTRY_FIELDS, content: true }
+  })
+
+  if (!entry) {
+    return null
+  }
+
+  await auditEntryAccess(entry.id, 'READ', context, {
+    breakTheGlass: true,
+    emergencyAccessId: access.id
+  })
+
+  return toEntryResponse(entry)
+}
+
+export async function listEmergencyAccessForReview(
+  options: { pendingOnly?: boolean } = {}
+): Promise<EmergencyAccessResponse[]> {
+  const accesses = await db.emergencyAccess.findMany({
+    where: options.pendingOnly ? { reviewedAt: null } : {},
+    include: PEOPLE,
+    orderBy: { createdAt: 'desc' }
+  })
+
+  return Promise.all(accesses.map(toEmergencyAccessResponse))
+}
+
+export async function reviewEmergencyAccess(
+  accessId: string,
+  reviewerId: string,
+  note: string | undefined,
+  context: AuditContext
+): Promise<EmergencyAccessResponse> {
+  const existing = await db.emergencyAccess.findUnique({ where: { id: accessId } })
+  if (!existing) {
+    throw new Error(EMERGENCY_ACCESS_NOT_FOUND_ERROR)
+  }
+
+  if (emergencyAccessStatus(existing) === 'active') {
+    throw new Error(EMERGENCY_ACCESS_IN_PROGRESS_ERROR)
+  }
+
+  const access = await db.$transaction(async tx => {
+    const reviewed = await tx.emergencyAccess.update({
+      where: { id: accessId },
+      data: { reviewedAt: new Date(), reviewedById: reviewerId, reviewNote: note || null },
+      include: PEOPLE
+    })
+
+    await createAuditLog(
+      { action: 'UPDATE', resource: 'emergency_access', resourceId: accessId, details: { breakTheGlass: true, reviewed: true } },
+      context,
+      tx
+    )
+
+    return reviewed
+  })
+
+  return toEmergencyAccessResponse(access)
+}
+
+/**
+ * Email the client and every active admin about each emergency access that
+ * is over and hasn't been announced yet. Run after an access is ended early
+ * and from `npm run emergency-access:notify` for ones that simply expired.
+ * Returns how many accesses were announced.
+ */
+export async function notifyEndedEmergencyAccess(): Promise<number> {
+  const now = new Date()
+  const ended = await db.emergencyAccess.findMany({
+    where: { notifiedAt: null, OR: [{ endedAt: { not: null } }, { expiresAt: { lte: now } }] },
+    include: { provider: PEOPLE.provider, client: { select: { email: true, isActive: true } } }
+  })
+
+  if (ended.length === 0) {
+    return 0
+  }
+
+  const admins = await db.user.findMany({
+    where: { role: 'ADMIN', isActive: true },
+    select: { email: true }
+  })
+
+  let notified = 0
+  for (const access of ended) {
+    // Claimed first, so two runs can't both send
+    const { count } = await db.emergencyAccess.updateMany({
+      where: { id: access.id, notifiedAt: null },
+      data: { notifiedAt: new Date() }
+    })
+    if (count === 0) continue
+
+    try {
+      if (access.client.isActive) {
+        await sendMail({
+          to: access.client.email,
+          ...emergencyAccessClientEmail({
+            providerName: displayName(access.provider),
+            startedAt: access.createdAt,
+            url: appUrl('/client/disclosures')
+          })
+        })
+      }
+
+      for (const admin of admins) {
+        await sendMail({ to: admin.email, ...emergencyAccessReviewEmail({ url: appUrl('/admin/emergency-access') }) })
+      }
+
+      notified++
+    } catch (error) {
+      // Left for the next run
+      console.error(`Failed to send emergency access notifications for ${access.id}:`, error)
+      await db.emergencyAccess.update({ where: { id: access.id }, data: { notifiedAt: null } })
+    }
+  }
+
+  return notified
+}
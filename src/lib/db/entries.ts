@@ -1,6 +1,9 @@
 import { db } from '@/lib/db'
 import { validateTipTapContent } from '@/lib/security/sanitize'
 import { auditEntryAccess } from '@/lib/security/audit'
+import { applyAutomaticShares } from '@/lib/db/shares'
+import { activeSharesWhere, entrySearchWhere } from '@/lib/db/query-helpers'
+import { summaryStalenessData } from '@/lib/db/summary-cache'
 import { toPlainText } from '@/lib/utils/tiptap-parser'
 import type { Prisma } from '@prisma/client'
 import type { 
@@ -31,24 +34,27 @@ export async function createEntry(
   // For now, store the JSON and we'll render it client-side
   const contentHtml = JSON.stringify(data.content)
 
-  const entry = await db.journalEntry.create({
-    data: {
-      title: data.title,
-      content: data.content as Prisma.JsonObject,
-      contentHtml,
-      status: data.status || 'DRAFT',
-      mood: data.mood,
-      tags: (data.tags || []).map(tag => tag.toLowerCase()),
-      wordCount,
-      userId,
-      publishedAt: data.status === 'PUBLISHED' ? new Date() : null
-    }
-  })
+  return db.$transaction(async (tx) => {
+    const entry = await tx.journalEntry.create({
+      data: {
+        title: data.title,
+        content: data.content as Prisma.JsonObject,
+        contentHtml,
+        status: data.status || 'DRAFT',
+        mood: data.mood,
+        tags: (data.tags || []).map(tag => tag.toLowerCase()),
+        wordCount,
+        userId,
+        publishedAt: data.status === 'PUBLISHED' ? new Date() : null
+      }
+    })
 
-  // Audit the creation
-  await auditEntryAccess(entry.id, 'CREATE', context)
+    // Audit the creation
+    await auditEntryAccess(entry.id, 'CREATE', context, undefined, tx)
+    await applyAutomaticShares(entry, context, tx, { newEntry: true })
 
-  return entry
+    return entry
+  })
 }
 
 export async function getEntryById(
@@ -65,11 +71,7 @@ export async function getEntryById(
           shares: {
             some: {
               clientId: userId,
-              isRevoked: false,
-              OR: [
-                { expiresAt: null },
-                { expiresAt: { gt: new Date() } }
-              ]
+              ...activeSharesWhere()
             }
           }
         }
@@ -107,20 +109,19 @@ export async function getEntriesForUser(
     sortOrder = 'desc'
   } = options
 
+  // Search and tag filters both apply when both are given
+  const filters: Prisma.JournalEntryWhereInput[] = []
+  if (search) {
+    filters.push(entrySearchWhere(search))
+  }
+  if (tags && tags.length > 0) {
+    filters.push({ tags: { hasSome: tags.map(tag => tag.toLowerCase()) } })
+  }
+
   const where: Prisma.JournalEntryWhereInput = {
     userId,
     ...(status && { status }),
-    ...(search && {
-      OR: [
-        { title: { contains: search, mode: 'insensitive' } },
-        { contentHtml: { contains: search, mode: 'insensitive' } }
-      ]
-    }),
-    ...(tags && tags.length > 0 && {
-      tags: {
-        hasSome: tags.map(tag => tag.toLowerCase())
-      }
-    })
+    ...(filters.length > 0 && { AND: filters })
   }
 
   const [entries, total] = await Promise.all([
@@ -155,19 +156,6 @@ export async function updateEntry(
     throw new Error('Invalid content format')
   }
 
-  // Create version history
-  await db.entryVersion.create({
-    data: {
-      entryId: id,
-      versionNumber: await getNextVersionNumber(id),
-      title: existingEntry.title,
-      content: existingEntry.content as Prisma.JsonObject,
-      contentHtml: existingEntry.contentHtml ?? null,
-      changeReason: data.changeReason,
-      createdById: userId
-    }
-  })
-
   const updateData: Prisma.JournalEntryUpdateInput = {
     ...(data.title && { title: data.title }),
     ...(data.status && { 
@@ -191,18 +179,40 @@ export async function updateEntry(
     updateData.contentHtml = JSON.stringify(data.content)
   }
 
-  const entry = await db.journalEntry.update({
-    where: { id },
-    data: updateData
-  })
+  const versionNumber = await getNextVersionNumber(id)
+
+  return db.$transaction(async (tx) => {
+    // Create version history
+    await tx.entryVersion.create({
+      data: {
+        entryId: id,
+        versionNumber,
+        title: existingEntry.title,
+        content: existingEntry.content as Prisma.JsonObject,
+        contentHtml: existingEntry.contentHtml ?? null,
+        changeReason: data.changeReason,
+        createdById: userId
+      }
+    })
 
-  // Audit the update
-  await auditEntryAccess(entry.id, 'UPDATE', context, {
-    changes: Object.keys(updateData),
-    changeReason: data.changeReason
-  })
+    const entry = await tx.journalEntry.update({
+      where: { id },
+      data: { ...updateData, ...summaryStalenessData(existingEntry, { ...data, title: data.title || undefined }) }
+    })
 
-  return entry
+    // Audit the update
+    await auditEntryAccess(entry.id, 'UPDATE', context, {
+      changes: Object.keys(updateData),
+      changeReason: data.changeReason
+    }, tx)
+
+    // New tags can bring the entry under a share rule
+    if (data.tags) {
+      await applyAutomaticShares(entry, context, tx, { newEntry: false })
+    }
+
+    return entry
+  })
 }
 
 export async function deleteEntry(
@@ -223,14 +233,14 @@ export async function deleteEntry(
     // Delete related data
     await tx.entryVersion.deleteMany({ where: { entryId: id } })
     await tx.entryShare.deleteMany({ where: { entryId: id } })
-    await tx.auditLog.deleteMany({ where: { entryId: id } })
+    // Audit logs stay: they are append-only and hash-chained
     
     // Delete the entry
     await tx.journalEntry.delete({ where: { id } })
-  })
 
-  // Audit the deletion
-  await auditEntryAccess(id, 'DELETE', context)
+    // Audit the deletion
+    await auditEntryAccess(id, 'DELETE', context, undefined, tx)
+  })
 }
 
 export async function getEntryWithDetails(
@@ -247,11 +257,7 @@ export async function getEntryWithDetails(
           shares: {
             some: {
               clientId: userId,
-              isRevoked: false,
-              OR: [
-                { expiresAt: null },
-                { expiresAt: { gt: new Date() } }
-              ]
+              ...activeSharesWhere()
             }
           }
         }
@@ -264,7 +270,7 @@ export async function getEntryWithDetails(
             select: { id: true, firstName: true, lastName: true, email: true }
           }
         },
-        where: { isRevoked: false }
+        where: activeSharesWhere()
       },
       versions: {
         include: {
@@ -294,11 +300,7 @@ export async function getSharedEntries(
       shares: {
         some: {
           clientId: userId,
-          isRevoked: false,
-          OR: [
-            { expiresAt: null },
-            { expiresAt: { gt: new Date() } }
-          ]
+          ...activeSharesWhere()
         }
       }
     },
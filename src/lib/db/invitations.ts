@@ -0,0 +1,240 @@
+import { db } from '@/lib/db'
+import { createAuditLog, type AuditWriter } from '@/lib/security/audit'
+import { hash } from '@/lib/security/encryption'
+import { issueSignedToken, verifySignedToken } from '@/lib/security/tokens'
+import { sendMail } from '@/lib/mail/mailer'
+import { appUrl, invitationEmail } from '@/lib/mail/templates'
+import type { AuditContext, Invitation, User } from '@/types/database'
+import type { CreateInvitationRequestParams, InvitationDetailsResponse, InvitationResponse, InvitationStatus } from '@/types/api'
+
+/**
+ * Provider-invited client onboarding.
+ *
+ * A provider invites a client by email; the link carries a signed,
+ * single-use token (see lib/security/tokens.ts). Registering with it makes a
+ * CLIENT account linked to the provider through `createdById` and a
+ * CareRelationship, and the client may accept the provider's suggested
+ * default share for their new entries.
+ */
+
+export const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000 // 7 days
+
+const INVITATION_TOKEN_PURPOSE = 'invitation'
+
+export const INVALID_INVITATION_ERROR = 'This invitation is invalid or has expired'
+export const EXISTING_ACCOUNT_ERROR = 'An account already exists for this email'
+export const INVITATION_NOT_PENDING_ERROR = 'Invitation not found or no longer pending'
+
+function invitationStatus(invitation: Invitation): InvitationStatus {
+  if (invitation.acceptedAt) return 'accepted'
+  if (invitation.revokedAt) return 'revoked'
+  if (invitation.expiresAt <= new Date()) return 'expired'
+  return 'pending'
+}
+
+function toInvitationResponse(invitation: Invitation): InvitationResponse {
+  return {
+    id: invitation.id,
+    email: invitation.email,
+    firstName: invitation.firstName,
+    lastName: invitation.lastName,
+    defaultShareScope: invitation.defaultShareScope,
+    status: invitationStatus(invitation),
+    expiresAt: invitation.expiresAt.toISOString(),
+    acceptedAt: invitation.acceptedAt?.toISOString() ?? null,
+    createdAt: invitation.createdAt.toISOString()
+  }
+}
+
+function displayName(user: Pick<User, 'firstName' | 'lastName' | 'email'>): string {
+  return [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email
+}
+
+// Only reachable with a token whose signature and expiry already checked out
+async function findRedeemableInvitation(
+  token: string,
+  client: Pick<typeof db, 'invitation'> = db
+): Promise<Invitation | null> {
+  const tokenHash = verifySignedToken(INVITATION_TOKEN_PURPOSE, token)
+  if (!tokenHash) {
+    return null
+  }
+
+  const invitation = await client.invitation.findUnique({ where: { tokenHash } })
+  return invitation && invitationStatus(invitation) === 'pending' ? invitation : null
+}
+
+/**
+ * Invite a client by email. A new invitation replaces any still pending
+ * from the same provider to the same address.
+ */
+export async function createInvitation(
+  providerId: string,
+  data: CreateInvitationRequestParams,
+  context: AuditContext
+): Promise<InvitationResponse> {
+  const email = data.email.toLowerCase()
+
+  const [existingUser, provider] = await Promise.all([
+    db.user.findUnique({ where: { email }, select: { id: true } }),
+    db.user.findUniqueOrThrow({ where: { id: providerId }, select: { firstName: true, lastName: true, email: true } })
+  ])
+
+  if (existingUser) {
+    throw new Error(EXISTING_ACCOUNT_ERROR)
+  }
+
+  const { token, tokenHash, expiresAt } = issueSignedToken(INVITATION_TOKEN_PURPOSE, INVITATION_TTL_MS)
+
+  const invitation = await db.$transaction(async tx => {
+    await tx.invitation.updateMany({
+      where: { invitedById: providerId, email, acceptedAt: null, revokedAt: null },
+      data: { revokedAt: new Date() }
+    })
+
+    const created = await tx.invitation.create({
+      data: {
+        email,
+        firstName: data.firstName,
+        lastName: data.lastName,
+        defaultShareScope: data.defaultShareScope ?? null,
+        tokenHash,
+        invitedById: providerId,
+        expiresAt
+      }
+    })
+
+    // The address is only kept as a hash: the invitee hasn't agreed to anything yet
+    await createAuditLog(
+      {
+        action: 'CREATE',
+        resource: 'invitations',
+        resourceId: created.id,
+        details: { emailHash: hash(email), defaultShareScope: created.defaultShareScope }
+      },
+      context,
+      tx
+    )
+
+    return created
+  })
+
+  await sendMail({
+    to: email,
+    ...invitationEmail({
+      providerName: displayName(provider),
+      url: appUrl(`/register?invitation=${encodeURIComponent(token)}`),
+      expiresAt
+    })
+  })
+
+  return toInvitationResponse(invitation)
+}
+
+export async function listInvitations(providerId: string): Promise<InvitationResponse[]> {
+  const invitations = await db.invitation.findMany({
+    where: { invitedById: providerId },
+    orderBy: { createdAt: 'desc' }
+  })
+
+  return invitations.map(toInvitationResponse)
+}
+
+export async function revokeInvitation(
+  invitationId: string,
+  providerId: string,
+  context: AuditContext
+): Promise<void> {
+  await db.$transaction(async tx => {
+    const { count } = await tx.invitation.updateMany({
+      where: { id: invitationId, invitedById: providerId, acceptedAt: null, revokedAt: null },
+      data: { revokedAt: new Date() }
+    })
+
+    if (count === 0) {
+      throw new Error(INVITATION_NOT_PENDING_ERROR)
+    }
+
+    await createAuditLog(
+      { action: 'DELETE', resource: 'invitations', resourceId: invitationId },
+      context,
+      tx
+    )
+  })
+}
+
+// For the registration page; says nothing about invitations that can't be used
+export async function getInvitationDetails(token: string): Promise<InvitationDetailsResponse | null> {
+  const invitation = await findRedeemableInvitation(token)
+  if (!invitation) {
+    return null
+  }
+
+  const provider = await db.user.findUnique({
+    where: { id: invitation.invitedById },
+    select: { firstName: true, lastName: true, email: true, isActive: true }
+  })
+
+  if (!provider?.isActive) {
+    return null
+  }
+
+  return {
+    email: invitation.email,
+    firstName: invitation.firstName,
+    lastName: invitation.lastName,
+    defaultShareScope: invitation.defaultShareScope,
+    providerName: displayName(provider),
+    expiresAt: invitation.expiresAt.toISOString()
+  }
+}
+
+/**
+ * Redeem an invitation for a client account being created in `tx`. Marking
+ * it accepted is conditional, so two registrations racing on one token
+ * can't both succeed.
+ */
+export async function acceptInvitation(
+  token: string,
+  client: Pick<User, 'id' | 'email'>,
+  acceptDefaultShare: boolean,
+  context: AuditContext,
+  tx: AuditWriter & Pick<typeof db, 'invitation' | 'careRelationship'>
+): Promise<Invitation> {
+  const invitation = await findRedeemableInvitation(token, tx)
+  if (!invitation || invitation.email !== client.email.toLowerCase()) {
+    throw new Error(INVALID_INVITATION_ERROR)
+  }
+
+  const { count } = await tx.invitation.updateMany({
+    where: { id: invitation.id, acceptedAt: null, revokedAt: null },
+    data: { acceptedAt: new Date(), acceptedById: client.id }
+  })
+
+  if (count === 0) {
+    throw new Error(INVALID_INVITATION_ERROR)
+  }
+
+  const defaultShareScope = acceptDefaultShare ? invitation.defaultShareScope : null
+
+  await tx.careRelationship.create({
+    data: {
+      clientId: client.id,
+      providerId: invitation.invitedById,
+      defaultShareScope
+    }
+  })
+
+  await createAuditLog(
+    {
+      action: 'UPDATE',
+      resource: 'invitations',
+      resourceId: invitation.id,
+      details: { accepted: true, providerId: invitation.invitedById, defaultShareScope }
+    },
+    context,
+    tx
+  )
+
+  return invitation
+}
@@ -0,0 +1,172 @@
+import { db } from '@/lib/db'
+import { evaluateAiProcessing } from '@/lib/db/ai-preferences'
+import { entrySummarizableByUser } from '@/lib/db/query-helpers'
+import { entrySummaryHash } from '@/lib/db/summary-cache'
+import { createAuditLogs, type AuditLogData } from '@/lib/security/audit'
+import { decryptField } from '@/lib/security/field-encryption'
+import { HierarchicalSummaryService } from '@/lib/services/hierarchical-summary'
+import type { AuditContext, JournalEntry, PeriodSummary, SummaryPeriod, User } from '@/types/database'
+import type { GeneratePeriodSummaryRequestParams, PeriodSummaryClientResponse, PeriodSummaryResponse } from '@/types/api'
+
+/**
+ * Period summaries.
+ *
+ * A provider's weekly, monthly and quarterly summaries of a client, built by
+ * HierarchicalSummaryService from the client's published entries that the
+ * provider may summarize. A stored summary shows as outdated once entries in
+ * its period are added or changed, and its content is withheld once it
+ * covers an entry the provider may no longer summarize, until it is
+ * regenerated without it.
+ */
+
+export const PERIOD_SUMMARY_NO_ENTRIES_ERROR = 'No entries in this period can be summarized'
+
+// How far back the list goes, in periods
+const PERIODS_LISTED: Record<SummaryPeriod, number> = { WEEK: 12, MONTH: 12, QUARTER: 8 }
+
+type SummarizableEntry = Pick<JournalEntry, 'id' | 'userId' | 'aiPreference' | 'title' | 'content' | 'contentHtml' | 'mood' | 'createdAt'>
+
+function displayName(user: Pick<User, 'firstName' | 'lastName' | 'email'>): string {
+  return [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email
+}
+
+// The client's published entries in the range that the provider may summarize and the client lets go to the model
+async function summarizableEntries(
+  clientId: string,
+  providerId: string,
+  range: { start: Date; end: Date }
+): Promise<SummarizableEntry[]> {
+  const accessible = await db.journalEntry.findMany({
+    where: {
+      userId: clientId,
+      status: 'PUBLISHED',
+      createdAt: { gte: range.start, lt: range.end },
+      ...entrySummarizableByUser(providerId)
+    },
+    select: { id: true, userId: true, aiPreference: true, title: true, content: true, contentHtml: true, mood: true, createdAt: true }
+  })
+
+  return (await evaluateAiProcessing(accessible, providerId)).allowed
+}
+
+async function toPeriodSummaryResponse(
+  period: SummaryPeriod,
+  bounds: { start: Date; end: Date },
+  entries: SummarizableEntry[],
+  summary: PeriodSummary | undefined
+): Promise<PeriodSummaryResponse> {
+  const summarized = (summary?.entryHashes ?? {}) as Record<string, string>
+  const hashes = new Map(entries.map(entry => [entry.id, entrySummaryHash(entry)]))
+  const withdrawn = Object.keys(summarized).some(entryId => !hashes.has(entryId))
+  const upToDate = !withdrawn &&
+    Object.keys(summarized).length === hashes.size &&
+    [...hashes].every(([entryId, hash]) => summarized[entryId] === hash)
+
+  return {
+    id: summary?.id ?? null,
+    period,
+    periodStart: bounds.start.toISOString(),
+    periodEnd: bounds.end.toISOString(),
+    status: !summary ? 'missing' : upToDate ? 'current' : 'outdated',
+    entryCount: entries.length,
+    content: summary && !withdrawn ? JSON.parse(await decryptField(summary.summary)) : null,
+    model: summary?.model ?? null,
+    generatedAt: summary?.generatedAt.toISOString() ?? null
+  }
+}
+
+// Clients with published entries shared with the provider for summaries
+export async function listSummaryClients(providerId: string): Promise<PeriodSummaryClientResponse[]> {
+  const entries = await db.journalEntry.findMany({
+    where: { userId: { not: providerId }, status: 'PUBLISHED', ...entrySummarizableByUser(providerId) },
+    select: { user: { select: { id: true, firstName: true, lastName: true, email: true } } }
+  })
+
+  const clients = new Map<string, PeriodSummaryClientResponse>()
+  for (const { user } of entries) {
+    const client = clients.get(user.id) ?? { id: user.id, name: displayName(user), entryCount: 0 }
+    client.entryCount++
+    clients.set(user.id, client)
+  }
+
+  return [...clients.values()].sort((a, b) => a.name.localeCompare(b.name))
+}
+
+/**
+ * The provider's summaries of the client for recent periods, newest first:
+ * every period with entries they may summarize or a summary already stored
+ */
+export async function listPeriodSummaries(
+  clientId: string,
+  providerId: string,
+  period: SummaryPeriod,
+  context: AuditContext
+): Promise<PeriodSummaryResponse[]> {
+  const windows: Array<{ start: Date; end: Date }> = []
+  let date = new Date()
+  for (let i = 0; i < PERIODS_LISTED[period]; i++) {
+    const bounds = HierarchicalSummaryService.periodBounds(period, date)
+    windows.push(bounds)
+    date = new Date(bounds.start.getTime() - 1)
+  }
+  const range = { start: windows[windows.length - 1].start, end: windows[0].end }
+
+  const [entries, stored] = await Promise.all([
+    summarizableEntries(clientId, providerId, range),
+    db.periodSummary.findMany({ where: { clientId, providerId, period, periodStart: { gte: range.start } } })
+  ])
+  const storedByStart = new Map(stored.map(summary => [summary.periodStart.getTime(), summary]))
+
+  const summaries: PeriodSummaryResponse[] = []
+  for (const bounds of windows) {
+    const inPeriod = entries.filter(entry => entry.createdAt >= bounds.start && entry.createdAt < bounds.end)
+    const summary = storedByStart.get(bounds.start.getTime())
+    if (inPeriod.length > 0 || summary) {
+      summaries.push(await toPeriodSummaryResponse(period, bounds, inPeriod, summary))
+    }
+  }
+
+  // One row per entry a shown summary covers, so each read shows in the
+  // client's disclosure report; appended together, so none is left half-logged
+  const reads: AuditLogData[] = []
+  for (const summary of stored) {
+    if (!summaries.find(listed => listed.id === summary.id)?.content) continue
+
+    for (const entryId of Object.keys((summary.entryHashes ?? {}) as Record<string, string>)) {
+      reads.push({
+        action: 'READ',
+        resource: 'ai_summary',
+        resourceId: summary.id,
+        entryId,
+        details: { combined: true, period, periodStart: summary.periodStart.toISOString() }
+      })
+    }
+  }
+  await createAuditLogs(reads, context)
+
+  return summaries
+}
+
+// Generate the summary for the period, or bring it up to date
+export async function generatePeriodSummary(
+  providerId: string,
+  data: GeneratePeriodSummaryRequestParams,
+  context: AuditContext
+): Promise<PeriodSummaryResponse> {
+  const summary = await HierarchicalSummaryService.generatePeriodicSummaries(
+    data.clientId,
+    providerId,
+    data.period,
+    new Date(data.periodStart),
+    context
+  )
+
+  if (!summary) {
+    throw new Error(PERIOD_SUMMARY_NO_ENTRIES_ERROR)
+  }
+
+  const bounds = { start: summary.periodStart, end: summary.periodEnd }
+  const entries = await summarizableEntries(data.clientId, providerId, bounds)
+
+  return toPeriodSummaryResponse(data.period, bounds, entries, summary)
+}
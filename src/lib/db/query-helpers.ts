@@ -1,4 +1,65 @@
 import type { Prisma } from '@prisma/client'
+import type { EntryShare } from '@/types/database'
+
+/**
+ * Create a where clause for active shares (not revoked, not expired, made
+ * under a consent)
+ *
+ * Every share-based access check goes through this or isShareActive(). A
+ * share stops granting access the moment expiresAt passes; the expiry job
+ * only records that it did. Shares made before consents were recorded have
+ * no consent behind them, so they grant nothing either.
+ */
+export function activeSharesWhere(now: Date = new Date()): Prisma.EntryShareWhereInput {
+  return {
+    isRevoked: false,
+    consentId: { not: null },
+    ...unexpiredSharesWhere(now)
+  }
+}
+
+/**
+ * Create a where clause for shares that haven't expired, revoked or not
+ */
+export function unexpiredSharesWhere(now: Date = new Date()): Prisma.EntryShareWhereInput {
+  return {
+    OR: [
+      { expiresAt: null },
+      { expiresAt: { gt: now } }
+    ]
+  }
+}
+
+/**
+ * The same test as activeSharesWhere(), for a share that's already loaded
+ */
+export function isShareActive(
+  share: Pick<EntryShare, 'isRevoked' | 'expiresAt' | 'consentId'>,
+  now: Date = new Date()
+): boolean {
+  return !share.isRevoked && !!share.consentId && (!share.expiresAt || share.expiresAt > now)
+}
+
+/**
+ * Changes that create or revoke many shares at once (a share rule, a care
+ * team, a consent) work through them SHARE_BATCH_SIZE at a time, each batch
+ * in its own transaction with its audit rows. Every audit append holds the
+ * audit chain's lock until commit, so one transaction over hundreds of
+ * shares would stall every other audited write and run out of time.
+ */
+export const SHARE_BATCH_SIZE = 50
+
+// Transaction options for one batch
+export const SHARE_BATCH_TRANSACTION = { maxWait: 10_000, timeout: 30_000 }
+
+// Split items into batches of SHARE_BATCH_SIZE
+export function shareBatches<T>(items: T[]): T[][] {
+  const batches: T[][] = []
+  for (let i = 0; i < items.length; i += SHARE_BATCH_SIZE) {
+    batches.push(items.slice(i, i + SHARE_BATCH_SIZE))
+  }
+  return batches
+}
 
 /**
  * Create a where clause for entries accessible by a user
@@ -12,11 +73,7 @@ export function entryAccessibleByUser(userId: string): Prisma.JournalEntryWhereI
         shares: {
           some: {
             clientId: userId,
-            isRevoked: false,
-            OR: [
-              { expiresAt: null },
-              { expiresAt: { gt: new Date() } }
-            ]
+            ...activeSharesWhere()
           }
         }
       }
@@ -25,14 +82,24 @@ export function entryAccessibleByUser(userId: string): Prisma.JournalEntryWhereI
 }
 
 /**
- * Create a where clause for active shares (not revoked, not expired)
+ * Create a where clause for entries a user may summarize: their own, or ones
+ * shared with them at SUMMARY_ONLY or above by a share that is still active
  */
-export function activeSharesWhere(): Prisma.EntryShareWhereInput {
+export function entrySummarizableByUser(userId: string): Prisma.JournalEntryWhereInput {
   return {
-    isRevoked: false,
     OR: [
-      { expiresAt: null },
-      { expiresAt: { gt: new Date() } }
+      { userId },
+      {
+        shares: {
+          some: {
+            AND: [
+              activeSharesWhere(),
+              { OR: [{ clientId: userId }, { providerId: userId }] }
+            ],
+            scope: { in: ['SUMMARY_ONLY', 'FULL_ACCESS'] }
+          }
+        }
+      }
     ]
   }
 }
@@ -88,12 +155,11 @@ export function entryOrderBy(sortBy: 'createdAt' | 'updatedAt' = 'createdAt', or
 
 /**
  * Create a search where clause for entries
+ * Titles and content are encrypted at rest, so the database can't match
+ * them: search finds entries tagged with the search term, case-insensitively
  */
 export function entrySearchWhere(search: string): Prisma.JournalEntryWhereInput {
   return {
-    OR: [
-      { title: { contains: search, mode: 'insensitive' } },
-      { tags: { has: search.toLowerCase() } }
-    ]
+    tags: { has: search.toLowerCase() }
   }
 }
\ No newline at end of file
@@ -0,0 +1,154 @@
+import { db } from '@/lib/db'
+import { auditUserAction } from '@/lib/security/audit'
+import { generateSecureToken } from '@/lib/security/encryption'
+import { IDLE_GRACE_SECONDS } from '@/lib/security/idle-timeout'
+import type { Prisma } from '@prisma/client'
+import type { AuditContext, Session } from '@/types/database'
+import type { SessionListResponse } from '@/types/api'
+
+/**
+ * Server-side session registry.
+ *
+ * Every sign-in gets a Session row whose id travels in the JWT. The jwt
+ * callback checks the row on each request, so clearing `isActive` revokes
+ * a token immediately even though the JWT itself is still valid. Sessions
+ * also end once the user has been idle longer than their role allows.
+ */
+
+export const SESSION_MAX_AGE_SECONDS = 8 * 60 * 60 // 8 hours
+
+// Refresh last activity at most this often to avoid a write per request
+const SESSION_TOUCH_INTERVAL_MS = 5 * 60 * 1000
+
+function nextExpiry(): Date {
+  return new Date(Date.now() + SESSION_MAX_AGE_SECONDS * 1000)
+}
+
+export async function createSession(userId: string, context: AuditContext): Promise<Session> {
+  return db.session.create({
+    data: {
+      userId,
+      sessionToken: generateSecureToken(),
+      expires: nextExpiry(),
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent
+    }
+  })
+}
+
+export interface SessionCheckOptions {
+  idleTimeoutSeconds: number
+  // Set when the client reports user interaction, not for background refetches
+  activity?: boolean
+}
+
+/**
+ * Whether the session may still be used, sliding its expiry when it is.
+ * A session idle for too long is ended here, with a LOGOUT audit.
+ */
+export async function validateSession(
+  sessionId: string,
+  userId: string,
+  options: SessionCheckOptions
+): Promise<boolean> {
+  const session = await db.session.findUnique({
+    where: { id: sessionId },
+    select: { userId: true, isActive: true, expires: true, updatedAt: true, lastActivityAt: true }
+  })
+
+  if (!session || session.userId !== userId || !session.isActive || session.expires <= new Date()) {
+    return false
+  }
+
+  const idleSeconds = (Date.now() - session.lastActivityAt.getTime()) / 1000
+  if (idleSeconds > options.idleTimeoutSeconds + IDLE_GRACE_SECONDS) {
+    await revokeSession(userId, sessionId, {
+      userId,
+      ipAddress: 'unknown',
+      userAgent: 'unknown',
+      sessionId
+    }, 'idle_timeout')
+    return false
+  }
+
+  if (options.activity) {
+    await db.session.update({
+      where: { id: sessionId },
+      data: { lastActivityAt: new Date(), expires: nextExpiry() }
+    })
+  } else if (Date.now() - session.updatedAt.getTime() > SESSION_TOUCH_INTERVAL_MS) {
+    await db.session.update({
+      where: { id: sessionId },
+      data: { expires: nextExpiry() }
+    })
+  }
+
+  return true
+}
+
+export async function listActiveSessions(
+  userId: string,
+  currentSessionId?: string
+): Promise<SessionListResponse[]> {
+  const sessions = await db.session.findMany({
+    where: { userId, isActive: true, expires: { gt: new Date() } },
+    orderBy: { lastActivityAt: 'desc' }
+  })
+
+  return sessions.map(session => ({
+    id: session.id,
+    ipAddress: session.ipAddress,
+    userAgent: session.userAgent,
+    createdAt: session.createdAt.toISOString(),
+    lastActiveAt: session.lastActivityAt.toISOString(),
+    expiresAt: session.expires.toISOString(),
+    current: session.id === currentSessionId
+  }))
+}
+
+async function endSessions(
+  userId: string,
+  where: Prisma.SessionWhereInput,
+  reason: string,
+  context: AuditContext
+): Promise<number> {
+  const sessions = await db.session.findMany({
+    where: { ...where, userId, isActive: true },
+    select: { id: true }
+  })
+
+  if (sessions.length === 0) {
+    return 0
+  }
+
+  await db.$transaction(async tx => {
+    await tx.session.updateMany({
+      where: { id: { in: sessions.map(session => session.id) } },
+      data: { isActive: false }
+    })
+
+    // One LOGOUT per device, so the audit trail shows exactly what was ended
+    for (const session of sessions) {
+      await auditUserAction(userId, 'LOGOUT', context, { sessionId: session.id, reason }, tx)
+    }
+  })
+
+  return sessions.length
+}
+
+export async function revokeSession(
+  userId: string,
+  sessionId: string,
+  context: AuditContext,
+  reason = 'revoked'
+): Promise<boolean> {
+  return (await endSessions(userId, { id: sessionId }, reason, context)) > 0
+}
+
+export async function revokeAllSessions(
+  userId: string,
+  context: AuditContext,
+  reason = 'sign_out_everywhere'
+): Promise<number> {
+  return endSessions(userId, {}, reason, context)
+}
@@ -0,0 +1,133 @@
+import { db } from '@/lib/db'
+import { auditShareAction } from '@/lib/security/audit'
+import { sendMail } from '@/lib/mail/mailer'
+import { appUrl, shareExpiryReminderEmail } from '@/lib/mail/templates'
+import type { AuditContext, User } from '@/types/database'
+
+/**
+ * Scheduled share expiry.
+ *
+ * Access checks stop honouring a share as soon as its expiresAt passes (see
+ * activeSharesWhere), whether or not these jobs have run. They record it:
+ * expireShares() stamps expiredAt and writes the UNSHARE audit event the
+ * client's accounting of disclosures shows, and sendShareExpiryReminders()
+ * warns clients a few days ahead. Both run from `npm run shares:expire`.
+ */
+
+export const SHARE_EXPIRY_REMINDER_DAYS = 3
+
+function displayName(user: Pick<User, 'firstName' | 'lastName' | 'email'>): string {
+  return [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email
+}
+
+/**
+ * Mark every share whose expiresAt has passed as expired, each with its
+ * UNSHARE audit in the same transaction. Returns how many were marked.
+ */
+export async function expireShares(context: AuditContext): Promise<number> {
+  const now = new Date()
+  const due = await db.entryShare.findMany({
+    where: { isRevoked: false, expiredAt: null, expiresAt: { lte: now } },
+    select: { id: true, entryId: true, providerId: true, clientId: true, expiresAt: true }
+  })
+
+  let expired = 0
+  for (const share of due) {
+    const marked = await db.$transaction(async tx => {
+      // Conditional, so a share revoked or extended meanwhile (or marked by another run) is left alone
+      const { count } = await tx.entryShare.updateMany({
+        where: { id: share.id, isRevoked: false, expiredAt: null, expiresAt: { lte: now } },
+        data: { expiredAt: now }
+      })
+      if (count === 0) return false
+
+      await auditShareAction(share.id, 'UNSHARE', context, {
+        expired: true,
+        entryId: share.entryId,
+        providerId: share.providerId,
+        clientId: share.clientId,
+        expiresAt: share.expiresAt?.toISOString()
+      }, tx)
+
+      return true
+    })
+
+    if (marked) expired++
+  }
+
+  return expired
+}
+
+/**
+ * Email each client whose shares expire within SHARE_EXPIRY_REMINDER_DAYS,
+ * once per share. Returns how many clients were emailed.
+ */
+export async function sendShareExpiryReminders(): Promise<number> {
+  const now = new Date()
+  const horizon = new Date(now.getTime() + SHARE_EXPIRY_REMINDER_DAYS * 24 * 60 * 60 * 1000)
+
+  const expiring = await db.entryShare.findMany({
+    where: {
+      isRevoked: false,
+      expiresAt: { gt: now, lte: horizon },
+      expiryReminderSentAt: null,
+      client: { isActive: true }
+    },
+    select: {
+      id: true,
+      clientId: true,
+      providerId: true,
+      expiresAt: true,
+      client: { select: { email: true } },
+      provider: { select: { firstName: true, lastName: true, email: true } }
+    },
+    orderBy: { expiresAt: 'asc' }
+  })
+
+  const byClient = new Map<string, typeof expiring>()
+  for (const share of expiring) {
+    byClient.set(share.clientId, [...(byClient.get(share.clientId) ?? []), share])
+  }
+
+  let reminded = 0
+  for (const shares of byClient.values()) {
+    // Claimed first, so two runs can't both send; only what this run claimed goes in the email
+    const claimed: typeof shares = []
+    for (const share of shares) {
+      const { count } = await db.entryShare.updateMany({
+        where: { id: share.id, expiryReminderSentAt: null },
+        data: { expiryReminderSentAt: new Date() }
+      })
+      if (count > 0) claimed.push(share)
+    }
+    if (claimed.length === 0) continue
+
+    // Shares come ordered by expiry, so the first one seen per provider is the earliest
+    const providers = new Map<string, { providerName: string; shareCount: number; expiresAt: Date }>()
+    for (const share of claimed) {
+      const current = providers.get(share.providerId)
+      providers.set(share.providerId, {
+        providerName: displayName(share.provider),
+        shareCount: (current?.shareCount ?? 0) + 1,
+        expiresAt: current?.expiresAt ?? share.expiresAt as Date
+      })
+    }
+
+    try {
+      await sendMail({
+        to: claimed[0].client.email,
+        ...shareExpiryReminderEmail({ providers: [...providers.values()], url: appUrl('/client') })
+      })
+      reminded++
+    } catch (error) {
+      // Left for the next run
+      console.error(`Failed to send share expiry reminder to client ${claimed[0].clientId}:`, error)
+      await db.entryShare.updateMany({
+        where: { id: { in: claimed.map(share => share.id) } },
+        data: { expiryReminderSentAt: null }
+      })
+    }
+  }
+
+  return reminded
+}
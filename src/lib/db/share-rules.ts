@@ -0,0 +1,259 @@
+import { db } from '@/lib/db'
+import { activeSharesWhere, SHARE_BATCH_SIZE, SHARE_BATCH_TRANSACTION } from '@/lib/db/query-helpers'
+import { auditShareAction, createAuditLog, type AuditWriter } from '@/lib/security/audit'
+import { normalizeTags } from '@/lib/utils/entry-utils'
+import { expiryUnderConsent, requireTreatmentConsent } from '@/lib/db/consents'
+import type { Prisma } from '@prisma/client'
+import type { AuditContext, JournalEntry, ShareRule, User } from '@/types/database'
+import type { CreateShareRuleRequestParams, ShareRuleResponse } from '@/types/api'
+
+/**
+ * Share rules.
+ *
+ * A rule shares every entry of the client that matches it (any of its tags,
+ * written within its dates) with one provider. Creating a rule shares the
+ * matching entries that exist; applyAutomaticShares() in shares.ts applies
+ * it to entries as they are written or edited later. Entries that already
+ * have a share with the provider, revoked or not, are left as they are. A
+ * rule needs a consent to share with the provider at its scope, and stops
+ * sharing new entries once that consent ends.
+ */
+
+export const SHARE_RULE_PROVIDER_ERROR = 'Provider not found, inactive, or invalid role'
+export const SHARE_RULE_NOT_FOUND_ERROR = 'Share rule not found'
+
+const REVOKED_BY_RULE_REASON = 'Share rule removed'
+
+interface ShareRuleWithProvider extends ShareRule {
+  provider: Pick<User, 'firstName' | 'lastName' | 'email'>
+  _count: { shares: number }
+}
+
+function toShareRuleResponse(rule: ShareRuleWithProvider): ShareRuleResponse {
+  return {
+    id: rule.id,
+    providerId: rule.providerId,
+    providerName: [rule.provider.firstName, rule.provider.lastName].filter(Boolean).join(' ') || rule.provider.email,
+    scope: rule.scope,
+    tags: rule.tags,
+    createdAfter: rule.createdAfter?.toISOString() ?? null,
+    createdBefore: rule.createdBefore?.toISOString() ?? null,
+    activeShares: rule._count.shares,
+    createdAt: rule.createdAt.toISOString()
+  }
+}
+
+function withProviderAndShareCount() {
+  return {
+    provider: { select: { firstName: true, lastName: true, email: true } },
+    _count: { select: { shares: { where: activeSharesWhere() } } }
+  } as const
+}
+
+export function shareRuleMatches(
+  rule: Pick<ShareRule, 'tags' | 'createdAfter' | 'createdBefore'>,
+  entry: Pick<JournalEntry, 'tags' | 'createdAt'>
+): boolean {
+  const tags = normalizeTags(entry.tags)
+
+  return (rule.tags.length === 0 || rule.tags.some(tag => tags.includes(tag))) &&
+    (!rule.createdAfter || entry.createdAt >= rule.createdAfter) &&
+    (!rule.createdBefore || entry.createdAt < rule.createdBefore)
+}
+
+// shareRuleMatches() as a query, over the entries that have no share with the provider yet
+function unsharedEntriesMatchingWhere(rule: ShareRule): Prisma.JournalEntryWhereInput {
+  return {
+    userId: rule.clientId,
+    ...(rule.tags.length > 0 && { tags: { hasSome: rule.tags } }),
+    createdAt: {
+      ...(rule.createdAfter && { gte: rule.createdAfter }),
+      ...(rule.createdBefore && { lt: rule.createdBefore })
+    },
+    shares: { none: { providerId: rule.providerId } }
+  }
+}
+
+export async function listShareRules(clientId: string): Promise<ShareRuleResponse[]> {
+  const rules = await db.shareRule.findMany({
+    where: { clientId },
+    include: withProviderAndShareCount(),
+    orderBy: { createdAt: 'desc' }
+  })
+
+  return rules.map(toShareRuleResponse)
+}
+
+/**
+ * Save a rule and share the client's existing matching entries under it. The
+ * entries are shared a batch at a time, each batch in one transaction with
+ * its audit events; if one fails, the rule and the shares made so far stay.
+ */
+export async function createShareRule(
+  clientId: string,
+  data: CreateShareRuleRequestParams,
+  context: AuditContext
+): Promise<ShareRuleResponse> {
+  const provider = await db.user.findUnique({ where: { id: data.providerId } })
+
+  if (!provider || !provider.isActive || provider.role !== 'PROVIDER') {
+    throw new Error(SHARE_RULE_PROVIDER_ERROR)
+  }
+
+  const consent = await requireTreatmentConsent(clientId, data.providerId, data.scope)
+
+  const created = await db.$transaction(async tx => {
+    const rule = await tx.shareRule.create({
+      data: {
+        clientId,
+        providerId: data.providerId,
+        scope: data.scope,
+        tags: normalizeTags(data.tags ?? []),
+        createdAfter: data.createdAfter ? new Date(data.createdAfter) : null,
+        createdBefore: data.createdBefore ? new Date(data.createdBefore) : null
+      }
+    })
+
+    await createAuditLog(
+      {
+        action: 'CREATE',
+        resource: 'share_rules',
+        resourceId: rule.id,
+        details: {
+          providerId: rule.providerId,
+          scope: rule.scope,
+          tags: rule.tags,
+          createdAfter: rule.createdAfter?.toISOString(),
+          createdBefore: rule.createdBefore?.toISOString(),
+          sharedEntries: await tx.journalEntry.count({ where: unsharedEntriesMatchingWhere(rule) })
+        }
+      },
+      context,
+      tx
+    )
+
+    return rule
+  })
+
+  // Shared entries drop out of the query, so each batch picks up where the last left off
+  for (;;) {
+    const shared = await db.$transaction(async tx => {
+      const entries = await tx.journalEntry.findMany({
+        where: unsharedEntriesMatchingWhere(created),
+        select: { id: true },
+        take: SHARE_BATCH_SIZE
+      })
+
+      for (const entry of entries) {
+        const share = await tx.entryShare.create({
+          data: {
+            entryId: entry.id,
+            providerId: created.providerId,
+            clientId,
+            scope: created.scope,
+            shareRuleId: created.id,
+            consentId: consent.id,
+            expiresAt: expiryUnderConsent(consent)
+          }
+        })
+
+        await auditShareAction(share.id, 'SHARE', context, {
+          entryId: entry.id,
+          providerId: created.providerId,
+          scope: created.scope,
+          automatic: 'share_rule',
+          shareRuleId: created.id,
+          consentId: consent.id
+        }, tx)
+      }
+
+      return entries.length
+    }, SHARE_BATCH_TRANSACTION)
+
+    if (shared < SHARE_BATCH_SIZE) break
+  }
+
+  const rule = await db.shareRule.findUniqueOrThrow({
+    where: { id: created.id },
+    include: withProviderAndShareCount()
+  })
+
+  return toShareRuleResponse(rule)
+}
+
+// Revoke the active shares a rule made, or up to `take` of them, one audited UNSHARE each
+async function revokeRuleShares(
+  ruleId: string,
+  context: AuditContext,
+  tx: AuditWriter & Pick<typeof db, 'entryShare'>,
+  take?: number
+): Promise<number> {
+  const shares = await tx.entryShare.findMany({ where: { shareRuleId: ruleId, ...activeSharesWhere() }, take })
+
+  for (const share of shares) {
+    await tx.entryShare.update({
+      where: { id: share.id },
+      data: { isRevoked: true, revokedAt: new Date(), revokedReason: REVOKED_BY_RULE_REASON }
+    })
+
+    await auditShareAction(share.id, 'UNSHARE', context, {
+      reason: REVOKED_BY_RULE_REASON,
+      entryId: share.entryId,
+      providerId: share.providerId,
+      shareRuleId: ruleId
+    }, tx)
+  }
+
+  return shares.length
+}
+
+/**
+ * Stop applying a rule. The entries it shared stay shared unless
+ * revokeShares is set, in which case its active shares are revoked too, in
+ * batches before the rule goes; if one fails the rule stays, and removing it
+ * again finishes the job. Returns how many shares were revoked.
+ */
+export async function deleteShareRule(
+  ruleId: string,
+  clientId: string,
+  options: { revokeShares: boolean },
+  context: AuditContext
+): Promise<number> {
+  const rule = await db.shareRule.findFirst({ where: { id: ruleId, clientId } })
+
+  if (!rule) {
+    throw new Error(SHARE_RULE_NOT_FOUND_ERROR)
+  }
+
+  let revoked = 0
+  while (options.revokeShares) {
+    const batch = await db.$transaction(
+      tx => revokeRuleShares(ruleId, context, tx, SHARE_BATCH_SIZE),
+      SHARE_BATCH_TRANSACTION
+    )
+    revoked += batch
+    if (batch < SHARE_BATCH_SIZE) break
+  }
+
+  return db.$transaction(async tx => {
+    // Any the rule made while the batches ran
+    if (options.revokeShares) {
+      revoked += await revokeRuleShares(ruleId, context, tx)
+    }
+
+    await tx.shareRule.delete({ where: { id: ruleId } })
+
+    await createAuditLog(
+      {
+        action: 'DELETE',
+        resource: 'share_rules',
+        resourceId: ruleId,
+        details: { providerId: rule.providerId, revokedShares: revoked }
+      },
+      context,
+      tx
+    )
+
+    return revoked
+  }, SHARE_BATCH_TRANSACTION)
+}
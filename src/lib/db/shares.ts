@@ -1,6 +1,9 @@
 import { db } from '@/lib/db'
-import { auditShareAction, createAuditLog } from '@/lib/security/audit'
-import type { Prisma } from '@prisma/client'
+import { auditShareAction, createAuditLog, type AuditWriter } from '@/lib/security/audit'
+import { activeSharesWhere, isShareActive, unexpiredSharesWhere } from '@/lib/db/query-helpers'
+import { shareRuleMatches } from '@/lib/db/share-rules'
+import { consentCovers, expiryUnderConsent, findTreatmentConsents, requireTreatmentConsent } from '@/lib/db/consents'
+import { PROJECTABLE_ENTRY_FIELDS, SCOPE_RANK } from '@/lib/security/entry-projection'
 import type { 
   EntryShare, 
   ShareScope,
@@ -11,6 +14,7 @@ import type {
   JournalEntry,
   AuditLog
 } from '@/types/database'
+import type { ProviderShareStatistics, ShareStatisticsResponse } from '@/types/api'
 
 export async function createShare(
   data: CreateShareInput,
@@ -49,44 +53,150 @@ export async function createShare(
     }
   })
 
-  if (existingShare && !existingShare.isRevoked) {
+  // A revoked or expired share is taken over by the new one
+  if (existingShare && isShareActive(existingShare)) {
     throw new Error('Entry is already shared with this provider')
   }
 
-  // Create or update the share
-  const share = existingShare
-    ? await db.entryShare.update({
-        where: { id: existingShare.id },
-        data: {
-          scope: data.scope,
-          message: data.message,
-          expiresAt: data.expiresAt,
-          isRevoked: false,
-          revokedAt: null,
-          revokedReason: null
-        }
-      })
-    : await db.entryShare.create({
-        data: {
-          entryId: data.entryId,
-          providerId: data.providerId,
-          clientId,
-          scope: data.scope,
-          message: data.message,
-          expiresAt: data.expiresAt
-        }
-      })
-
-  // Audit the share creation
-  await auditShareAction(share.id, 'SHARE', context, {
-    entryId: data.entryId,
-    providerId: data.providerId,
-    scope: data.scope,
-    message: data.message,
-    expiresAt: data.expiresAt?.toISOString()
+  const consent = await requireTreatmentConsent(clientId, data.providerId, data.scope)
+  const expiresAt = expiryUnderConsent(consent, data.expiresAt)
+
+  return db.$transaction(async (tx) => {
+    // Create or update the share
+    const share = existingShare
+      ? await tx.entryShare.update({
+          where: { id: existingShare.id },
+          data: {
+            scope: data.scope,
+            message: data.message,
+            expiresAt,
+            consentId: consent.id,
+            isRevoked: false,
+            revokedAt: null,
+            revokedReason: null,
+            expiredAt: null,
+            expiryReminderSentAt: null
+          }
+        })
+      : await tx.entryShare.create({
+          data: {
+            entryId: data.entryId,
+            providerId: data.providerId,
+            clientId,
+            scope: data.scope,
+            message: data.message,
+            expiresAt,
+            consentId: consent.id
+          }
+        })
+
+    // Audit the share creation
+    await auditShareAction(share.id, 'SHARE', context, {
+      entryId: data.entryId,
+      providerId: data.providerId,
+      scope: data.scope,
+      message: data.message,
+      expiresAt: expiresAt?.toISOString(),
+      consentId: consent.id
+    }, tx)
+
+    return share
+  })
+}
+
+/**
+ * Share an entry as the client asked in advance: a new entry with every
+ * provider they agreed to share with by default (an accepted invitation's
+ * default share), and a new or edited one with the provider of each share
+ * rule it matches. Runs inside the entry's own transaction so the entry
+ * never exists unshared.
+ *
+ * A provider the entry already has a share with, even a revoked or expired
+ * one, is skipped: the client's own decision about that entry stands. So is
+ * one the client has no consent in force for at the scope.
+ */
+export async function applyAutomaticShares(
+  entry: Pick<JournalEntry, 'id' | 'userId' | 'tags' | 'createdAt'>,
+  context: AuditContext,
+  tx: AuditWriter & Pick<typeof db, 'careRelationship' | 'entryShare' | 'shareRule' | 'consent'>,
+  options: { newEntry: boolean }
+): Promise<EntryShare[]> {
+  const offers = new Map<string, { scope: ShareScope; shareRuleId: string | null; automatic: string }>()
+  // Broader scopes win when a provider is offered the same entry twice
+  const offer = (providerId: string, scope: ShareScope, shareRuleId: string | null, automatic: string): void => {
+    const current = offers.get(providerId)
+    if (!current || SCOPE_RANK[scope] > SCOPE_RANK[current.scope]) {
+      offers.set(providerId, { scope, shareRuleId, automatic })
+    }
+  }
+
+  if (options.newEntry) {
+    const relationships = await tx.careRelationship.findMany({
+      where: {
+        clientId: entry.userId,
+        defaultShareScope: { not: null },
+        provider: { isActive: true, role: 'PROVIDER' }
+      }
+    })
+
+    for (const relationship of relationships) {
+      offer(relationship.providerId, relationship.defaultShareScope as ShareScope, null, 'care_relationship')
+    }
+  }
+
+  const rules = await tx.shareRule.findMany({
+    where: { clientId: entry.userId, provider: { isActive: true, role: 'PROVIDER' } }
   })
 
-  return share
+  for (const rule of rules.filter(rule => shareRuleMatches(rule, entry))) {
+    offer(rule.providerId, rule.scope, rule.id, 'share_rule')
+  }
+
+  if (offers.size === 0) {
+    return []
+  }
+
+  const existing = await tx.entryShare.findMany({
+    where: { entryId: entry.id, providerId: { in: [...offers.keys()] } },
+    select: { providerId: true }
+  })
+  existing.forEach(share => offers.delete(share.providerId))
+
+  // Without a consent in force at the offered scope the client has not agreed to the share
+  const consents = await findTreatmentConsents(entry.userId, [...offers.keys()], tx)
+
+  const shares: EntryShare[] = []
+  for (const [providerId, { scope, shareRuleId, automatic }] of offers) {
+    const consent = consents.get(providerId)
+    if (!consentCovers(consent, scope)) {
+      continue
+    }
+
+    const share = await tx.entryShare.create({
+      data: {
+        entryId: entry.id,
+        providerId,
+        clientId: entry.userId,
+        scope,
+        shareRuleId,
+        consentId: consent.id,
+        expiresAt: expiryUnderConsent(consent)
+      }
+    })
+
+    await auditShareAction(share.id, 'SHARE', context, {
+      entryId: entry.id,
+      providerId,
+      scope,
+      automatic,
+      consentId: consent.id,
+      ...(shareRuleId && { shareRuleId })
+    }, tx)
+
+    shares.push(share)
+  }
+
+  return shares
 }
 
 export async function getSharesForProvider(
@@ -96,6 +206,7 @@ export async function getSharesForProvider(
     entryId?: string
     clientId?: string
     includeRevoked?: boolean
+    includeExpired?: boolean
     limit?: number
     offset?: number
   } = {}
@@ -104,6 +215,7 @@ export async function getSharesForProvider(
     entryId,
     clientId,
     includeRevoked = false,
+    includeExpired = false,
     limit = 50,
     offset = 0
   } = options
@@ -113,7 +225,8 @@ export async function getSharesForProvider(
       providerId,
       ...(entryId && { entryId }),
       ...(clientId && { clientId }),
-      ...(includeRevoked ? {} : { isRevoked: false })
+      ...(includeRevoked ? {} : { isRevoked: false }),
+      ...(includeExpired ? {} : unexpiredSharesWhere())
     },
     include: {
       entry: {
@@ -171,21 +284,13 @@ export async function getSharesForClient(
     offset = 0
   } = options
 
-  const where: Prisma.EntryShareWhereInput = {
-    clientId,
-    isRevoked: false,
-    ...(providerId && { providerId })
-  }
-
-  if (!includeExpired) {
-    where.OR = [
-      { expiresAt: null },
-      { expiresAt: { gt: new Date() } }
-    ]
-  }
-
   const shares = await db.entryShare.findMany({
-    where,
+    where: {
+      clientId,
+      isRevoked: false,
+      ...(providerId && { providerId }),
+      ...(includeExpired ? {} : unexpiredSharesWhere())
+    },
     include: {
       entry: {
         select: {
@@ -251,23 +356,43 @@ export async function updateShare(
     throw new Error('Share not found or access denied')
   }
 
-  const updatedShare = await db.entryShare.update({
-    where: { id: shareId },
-    data: {
-      ...(updates.scope && { scope: updates.scope }),
-      ...(updates.message !== undefined && { message: updates.message }),
-      ...(updates.expiresAt !== undefined && { expiresAt: updates.expiresAt })
-    }
-  })
+  // Broadening a share, or extending it, needs a consent that covers the result
+  const broadened = !!updates.scope && SCOPE_RANK[updates.scope] > SCOPE_RANK[existingShare.scope]
+  const consent = broadened || updates.expiresAt !== undefined
+    ? await requireTreatmentConsent(existingShare.clientId, existingShare.providerId, updates.scope ?? existingShare.scope)
+    : null
+
+  // A share never outlives the consent it is now under, whether or not its expiry was changed
+  const expiresAt = consent
+    ? expiryUnderConsent(consent, updates.expiresAt !== undefined ? updates.expiresAt : existingShare.expiresAt)
+    : existingShare.expiresAt
+  const expiryChanged = expiresAt?.getTime() !== existingShare.expiresAt?.getTime()
+
+  return db.$transaction(async (tx) => {
+    const updatedShare = await tx.entryShare.update({
+      where: { id: shareId },
+      data: {
+        ...(updates.scope && { scope: updates.scope }),
+        ...(consent && { consentId: consent.id }),
+        ...(updates.message !== undefined && { message: updates.message }),
+        // A new expiry starts over: expired again and reminded again as need be
+        ...(expiryChanged && {
+          expiresAt,
+          expiredAt: null,
+          expiryReminderSentAt: null
+        })
+      }
+    })
 
-  // Audit the share update
-  await auditShareAction(shareId, 'UPDATE', context, {
-    updates,
-    previousScope: existingShare.scope,
-    previousExpiresAt: existingShare.expiresAt?.toISOString()
-  })
+    // Audit the share update
+    await auditShareAction(shareId, 'UPDATE', context, {
+      updates,
+      previousScope: existingShare.scope,
+      previousExpiresAt: existingShare.expiresAt?.toISOString()
+    }, tx)
 
-  return updatedShare
+    return updatedShare
+  })
 }
 
 export async function revokeShare(
@@ -289,20 +414,22 @@ export async function revokeShare(
     throw new Error('Share not found or access denied')
   }
 
-  await db.entryShare.update({
-    where: { id: shareId },
-    data: {
-      isRevoked: true,
-      revokedAt: new Date(),
-      revokedReason: reason
-    }
-  })
+  await db.$transaction(async (tx) => {
+    await tx.entryShare.update({
+      where: { id: shareId },
+      data: {
+        isRevoked: true,
+        revokedAt: new Date(),
+        revokedReason: reason
+      }
+    })
 
-  // Audit the share revocation
-  await auditShareAction(shareId, 'UNSHARE', context, {
-    reason,
-    entryId: existingShare.entryId,
-    clientId: existingShare.clientId
+    // Audit the share revocation
+    await auditShareAction(shareId, 'UNSHARE', context, {
+      reason,
+      entryId: existingShare.entryId,
+      clientId: existingShare.clientId
+    }, tx)
   })
 }
 
@@ -314,30 +441,13 @@ export async function getShareById(
   const share = await db.entryShare.findFirst({
     where: {
       id: shareId,
-      OR: [
-        { providerId: userId },
-        { clientId: userId }
-      ],
-      isRevoked: false
+      AND: [
+        activeSharesWhere(),
+        { OR: [{ providerId: userId }, { clientId: userId }] }
+      ]
     },
     include: {
-      entry: {
-        select: {
-          id: true,
-          title: true,
-          content: true,
-          contentHtml: true,
-          status: true,
-          mood: true,
-          tags: true,
-          aiSummary: true,
-          aiSummaryAt: true,
-          createdAt: true,
-          updatedAt: true,
-          wordCount: true,
-          // analytics fields omitted; only include what's needed for sharing view
-        }
-      },
+      entry: { select: PROJECTABLE_ENTRY_FIELDS },
       provider: {
         select: {
           id: true,
@@ -363,11 +473,6 @@ export async function getShareById(
     return null
   }
 
-  // Check if share has expired
-  if (share.expiresAt && share.expiresAt < new Date()) {
-    return null
-  }
-
   // Audit the share access
   await auditShareAction(shareId, 'READ', context, {
     entryId: share.entryId,
@@ -459,14 +564,7 @@ export async function getShareStatistics(
   ] = await Promise.all([
     db.entryShare.count({ where: { providerId } }),
     db.entryShare.count({
-      where: {
-        providerId,
-        isRevoked: false,
-        OR: [
-          { expiresAt: null },
-          { expiresAt: { gt: new Date() } }
-        ]
-      }
+      where: { providerId, ...activeSharesWhere() }
     }),
     db.entryShare.count({
       where: {
@@ -521,4 +619,95 @@ export async function getShareStatistics(
       createdAt: share.createdAt
     }))
   }
-}
\ No newline at end of file
+}
+const EXPIRING_SOON_DAYS = 7
+
+// Share counts across the whole practice, for the admin console; no entry content or titles
+export async function getPracticeShareStatistics(): Promise<ShareStatisticsResponse> {
+  const now = new Date()
+  const activeWhere = activeSharesWhere(now)
+
+  const [
+    totalShares,
+    activeShares,
+    expiredShares,
+    revokedShares,
+    expiringSoon,
+    scopeStats,
+    sharingClients,
+    providerStats
+  ] = await Promise.all([
+    db.entryShare.count(),
+    db.entryShare.count({ where: activeWhere }),
+    db.entryShare.count({
+      where: {
+        isRevoked: false,
+        expiresAt: { lte: now }
+      }
+    }),
+    db.entryShare.count({ where: { isRevoked: true } }),
+    db.entryShare.count({
+      where: {
+        isRevoked: false,
+        expiresAt: { gt: now, lte: new Date(now.getTime() + EXPIRING_SOON_DAYS * 24 * 60 * 60 * 1000) }
+      }
+    }),
+    db.entryShare.groupBy({
+      by: ['scope'],
+      where: activeWhere,
+      _count: true
+    }),
+    db.entryShare.groupBy({
+      by: ['clientId'],
+      where: activeWhere
+    }),
+    db.entryShare.groupBy({
+      by: ['providerId', 'clientId'],
+      where: activeWhere,
+      _count: true
+    })
+  ])
+
+  const activeByScope: Record<ShareScope, number> = {
+    NONE: 0,
+    TITLE_ONLY: 0,
+    SUMMARY_ONLY: 0,
+    FULL_ACCESS: 0
+  }
+
+  scopeStats.forEach(stat => {
+    activeByScope[stat.scope] = stat._count
+  })
+
+  const byProvider = new Map<string, Pick<ProviderShareStatistics, 'activeShares' | 'clients'>>()
+  providerStats.forEach(stat => {
+    const current = byProvider.get(stat.providerId) ?? { activeShares: 0, clients: 0 }
+    byProvider.set(stat.providerId, {
+      activeShares: current.activeShares + stat._count,
+      clients: current.clients + 1
+    })
+  })
+
+  const providers = await db.user.findMany({
+    where: { id: { in: [...byProvider.keys()] } },
+    select: { id: true, firstName: true, lastName: true, email: true }
+  })
+
+  return {
+    totalShares,
+    activeShares,
+    expiredShares,
+    revokedShares,
+    expiringSoon,
+    activeByScope,
+    sharingClients: sharingClients.length,
+    providers: providers
+      .map(provider => ({
+        providerId: provider.id,
+        providerName: [provider.firstName, provider.lastName].filter(Boolean).join(' ') || provider.email,
+        providerEmail: provider.email,
+        ...(byProvider.get(provider.id) ?? { activeShares: 0, clients: 0 })
+      }))
+      .sort((a, b) => b.activeShares - a.activeShares)
+  }
+}
@@ -0,0 +1,85 @@
+import { getLLMProvider, type LLMProvider } from '@/lib/ai/llm-provider'
+import { ENTRY_SUMMARY_PROMPT_VERSION, type SummaryResult } from '@/lib/ai/summarizer'
+import { ContentProcessor } from '@/lib/services/content-processor'
+import { toPlainText } from '@/lib/utils/tiptap-parser'
+import type { Prisma } from '@prisma/client'
+import type { JournalEntry } from '@/types/database'
+
+/**
+ * Saved entry summaries.
+ *
+ * An entry's aiSummary records what it was written from: the ContentProcessor
+ * hash of the entry's title, text and mood, the LLMProvider, and the prompt
+ * version. Saving the entry with different content marks the summary stale.
+ * A stale summary is still shown, flagged, but is not reused in place of a
+ * new one, and neither is one from another provider or prompt. Only the
+ * entry's owner replaces a saved summary that is still current; anyone else
+ * who may summarize the entry replaces it only once it is missing or stale.
+ */
+
+type SummarySource = Pick<JournalEntry, 'title' | 'content' | 'contentHtml' | 'mood'>
+type CachedSummary = Pick<JournalEntry, 'aiSummary' | 'aiSummaryHash' | 'aiSummaryModel' | 'aiSummaryPrompt' | 'aiSummaryStale'>
+
+// Hash of what the entry's summary is written from
+export function entrySummaryHash(entry: SummarySource): string {
+  return summaryHash(entry.title, entry.content ?? entry.contentHtml, entry.mood)
+}
+
+function summaryHash(title: string | null, content: unknown, mood: number | null): string {
+  return ContentProcessor.summaryInputHash(title || '', toPlainText(content ?? ''), mood ?? null)
+}
+
+// Summaries saved before hashes were recorded can't be vouched for, so they count as stale
+export function isSummaryStale(entry: Pick<CachedSummary, 'aiSummary' | 'aiSummaryHash' | 'aiSummaryStale'>): boolean {
+  return !!entry.aiSummary && (entry.aiSummaryStale || !entry.aiSummaryHash)
+}
+
+// The saved summary, if it is what generating one now would be based on
+export function reusableSummary(entry: CachedSummary, provider: LLMProvider = getLLMProvider()): string | null {
+  if (!entry.aiSummary || isSummaryStale(entry)) {
+    return null
+  }
+  return entry.aiSummaryModel === provider.id && entry.aiSummaryPrompt === ENTRY_SUMMARY_PROMPT_VERSION
+    ? entry.aiSummary
+    : null
+}
+
+// Whether a summary the user generated may be saved over the entry's current one
+export function maySaveSummary(
+  entry: Pick<JournalEntry, 'userId'> & Pick<CachedSummary, 'aiSummary' | 'aiSummaryHash' | 'aiSummaryStale'>,
+  userId: string
+): boolean {
+  return entry.userId === userId || !entry.aiSummary || isSummaryStale(entry)
+}
+
+// Update data saving a new summary along with what it was written from
+export function summaryCacheData(result: SummaryResult, contentHash: string): Prisma.JournalEntryUpdateInput {
+  return {
+    aiSummary: result.summary,
+    aiSummaryAt: result.generatedAt,
+    aiSummaryHash: contentHash,
+    aiSummaryModel: result.model,
+    aiSummaryPrompt: result.promptVersion,
+    aiSummaryStale: false
+  }
+}
+
+/**
+ * Update data flagging the summary when an edit changes what it was written
+ * from, or clearing the flag when the edit puts it back
+ */
+export function summaryStalenessData(
+  existing: SummarySource & Pick<CachedSummary, 'aiSummary' | 'aiSummaryHash'>,
+  changes: { title?: string; content?: unknown; mood?: number | null }
+): Pick<Prisma.JournalEntryUpdateInput, 'aiSummaryStale'> {
+  if (!existing.aiSummary || !existing.aiSummaryHash) {
+    return {}
+  }
+
+  const hash = summaryHash(
+    changes.title ?? existing.title,
+    changes.content ?? existing.content ?? existing.contentHtml,
+    changes.mood !== undefined ? changes.mood : existing.mood
+  )
+  return { aiSummaryStale: hash !== existing.aiSummaryHash }
+}
@@ -0,0 +1,83 @@
+import { db } from '@/lib/db'
+import { createAuditLog } from '@/lib/security/audit'
+import type { AuditContext, SystemConfig } from '@/types/database'
+import type { SystemConfigResponse, UpdateSystemConfigRequestParams } from '@/types/api'
+
+/**
+ * Admin view of SystemConfig.
+ *
+ * Settings under a managed prefix are written by the application itself
+ * (master keys, key rotation progress) and can't be edited here. Encrypted
+ * values are never returned.
+ */
+
+const MANAGED_CONFIG_PREFIXES = ['encryption.']
+
+export const MANAGED_CONFIG_ERROR = 'This setting is managed by the application'
+
+export function isManagedConfigKey(key: string): boolean {
+  return MANAGED_CONFIG_PREFIXES.some(prefix => key.startsWith(prefix))
+}
+
+function toSystemConfigResponse(config: SystemConfig): SystemConfigResponse {
+  return {
+    key: config.key,
+    value: config.isEncrypted ? null : config.value,
+    description: config.description,
+    isEncrypted: config.isEncrypted,
+    readOnly: config.isEncrypted || isManagedConfigKey(config.key),
+    updatedBy: config.updatedBy,
+    updatedAt: config.updatedAt.toISOString()
+  }
+}
+
+export async function listSystemConfig(): Promise<SystemConfigResponse[]> {
+  const configs = await db.systemConfig.findMany({ orderBy: { key: 'asc' } })
+  return configs.map(toSystemConfigResponse)
+}
+
+/**
+ * Create or change a setting. Readers that cache settings (such as the idle
+ * timeout) pick the change up when their cache expires.
+ */
+export async function updateSystemConfig(
+  key: string,
+  data: UpdateSystemConfigRequestParams,
+  context: AuditContext
+): Promise<SystemConfigResponse> {
+  const existing = await db.systemConfig.findUnique({ where: { key } })
+
+  if (isManagedConfigKey(key) || existing?.isEncrypted) {
+    throw new Error(MANAGED_CONFIG_ERROR)
+  }
+
+  return db.$transaction(async tx => {
+    const config = await tx.systemConfig.upsert({
+      where: { key },
+      create: {
+        key,
+        value: data.value,
+        description: data.description,
+        updatedBy: context.userId
+      },
+      update: {
+        value: data.value,
+        ...(data.description !== undefined && { description: data.description }),
+        updatedBy: context.userId
+      }
+    })
+
+    await createAuditLog(
+      {
+        action: existing ? 'UPDATE' : 'CREATE',
+        resource: 'system_config',
+        resourceId: key,
+        details: { previousValue: existing?.value ?? null, value: data.value }
+      },
+      context,
+      tx
+    )
+
+    return toSystemConfigResponse(config)
+  })
+}
@@ -0,0 +1,231 @@
+import { compare, hash as hashPassword } from 'bcryptjs'
+import { db } from '@/lib/db'
+import { revokeAllSessions } from '@/lib/db/sessions'
+import { auditUserAction, createAuditLog } from '@/lib/security/audit'
+import { hash } from '@/lib/security/encryption'
+import { enforcePasswordPolicy, recordPasswordHistory } from '@/lib/security/password'
+import { destroyUserDataKeys, evictDataKeys } from '@/lib/security/key-management'
+import type { Prisma } from '@prisma/client'
+import type { AuditContext, User } from '@/types/database'
+import type { AdminUserAction, AdminUserQueryParams, AdminUserResponse, PaginationResponse } from '@/types/api'
+
+export interface AccountDeletionResult {
+  destroyedKeys: number
+  entriesDeleted: number
+  sharesDeleted: number
+}
+
+/**
+ * Permanently delete a user account.
+ *
+ * The user's data keys are destroyed in the same transaction as their rows,
+ * so entries that survive in backups stay unreadable (crypto-shredding).
+ * A tombstone audit entry records the deletion without any personal data.
+ */
+export async function deleteUserAccount(
+  userId: string,
+  context: AuditContext
+): Promise<AccountDeletionResult> {
+  const user = await db.user.findUnique({
+    where: { id: userId },
+    select: { id: true, email: true, role: true }
+  })
+
+  if (!user) {
+    throw new Error('User not found')
+  }
+
+  const { keyIds, entriesDeleted, sharesDeleted } = await db.$transaction(async tx => {
+    // Keys go first: if anything below fails, nothing is shredded
+    const keyIds = await destroyUserDataKeys(userId, tx)
+
+    // Shares in both directions reference the user without a cascade
+    const shares = await tx.entryShare.deleteMany({
+      where: { OR: [{ clientId: userId }, { providerId: userId }] }
+    })
+
+    // deleteMany rather than delete: the rows are ciphertext under keys that no longer exist
+    await tx.entryVersion.deleteMany({
+      where: { OR: [{ createdById: userId }, { entry: { userId } }] }
+    })
+    const entries = await tx.journalEntry.deleteMany({ where: { userId } })
+
+    await tx.user.delete({
+      where: { id: userId },
+      select: { id: true }
+    })
+
+    // The email is only kept as a hash so a later erasure request can be matched to it
+    await createAuditLog(
+      {
+        action: 'DELETE',
+        resource: 'users',
+        resourceId: userId,
+        details: {
+          tombstone: true,
+          cryptoShredded: true,
+          role: user.role,
+          emailHash: hash(user.email.toLowerCase()),
+          destroyedKeys: keyIds.length,
+          entriesDeleted: entries.count,
+          sharesDeleted: shares.count
+        }
+      },
+      context,
+      tx
+    )
+
+    return { keyIds, entriesDeleted: entries.count, sharesDeleted: shares.count }
+  })
+
+  evictDataKeys(keyIds)
+
+  return { destroyedKeys: keyIds.length, entriesDeleted, sharesDeleted }
+}
+
+/**
+ * Change the user's own password. Returns false if the current password is
+ * wrong and throws PasswordPolicyError if the new one isn't allowed. Clears
+ * an admin's forced reset or an expired password.
+ */
+export async function changePassword(
+  userId: string,
+  currentPassword: string,
+  newPassword: string,
+  context: AuditContext
+): Promise<boolean> {
+  const user = await db.user.findUnique({
+    where: { id: userId },
+    select: { hashedPassword: true, passwordResetRequired: true }
+  })
+
+  if (!user?.hashedPassword || !(await compare(currentPassword, user.hashedPassword))) {
+    return false
+  }
+
+  await enforcePasswordPolicy(newPassword, userId)
+
+  const hashedPassword = await hashPassword(newPassword, 12)
+
+  await db.$transaction(async tx => {
+    await tx.user.update({
+      where: { id: userId },
+      data: { hashedPassword, passwordChangedAt: new Date(), passwordResetRequired: false }
+    })
+    await recordPasswordHistory(userId, hashedPassword, tx)
+
+    await auditUserAction(userId, 'UPDATE', context, {
+      operation: 'change_password',
+      forced: user.passwordResetRequired
+    }, tx)
+  })
+
+  return true
+}
+
+// An admin locking themselves out would need another admin to undo it
+export const OWN_ACCOUNT_ERROR = 'Administrators cannot change their own account here'
+
+const ADMIN_USERS_DEFAULT_PAGE_SIZE = 25
+const ADMIN_USERS_MAX_PAGE_SIZE = 100
+
+function toAdminUserResponse(user: User): AdminUserResponse {
+  return {
+    id: user.id,
+    email: user.email,
+    firstName: user.firstName,
+    lastName: user.lastName,
+    role: user.role,
+    isActive: user.isActive,
+    mfaEnabled: user.mfaEnabled,
+    loginAttempts: user.loginAttempts,
+    passwordResetRequired: user.passwordResetRequired,
+    lockedUntil: user.lockedUntil?.toISOString() ?? null,
+    lastLoginAt: user.lastLoginAt?.toISOString() ?? null,
+    createdAt: user.createdAt.toISOString()
+  }
+}
+
+export async function listUsers(params: AdminUserQueryParams): Promise<PaginationResponse<AdminUserResponse>> {
+  const limit = Math.min(params.limit ?? ADMIN_USERS_DEFAULT_PAGE_SIZE, ADMIN_USERS_MAX_PAGE_SIZE)
+  const page = Math.max(params.page ?? 1, 1)
+
+  const search = params.search ? { contains: params.search, mode: 'insensitive' as const } : undefined
+  const where: Prisma.UserWhereInput = {
+    role: params.role,
+    ...(search && { OR: [{ email: search }, { firstName: search }, { lastName: search }] })
+  }
+
+  const [users, totalItems] = await Promise.all([
+    db.user.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      skip: (page - 1) * limit,
+      take: limit
+    }),
+    db.user.count({ where })
+  ])
+
+  const totalPages = Math.ceil(totalItems / limit)
+
+  return {
+    items: users.map(toAdminUserResponse),
+    totalItems,
+    totalPages,
+    currentPage: page,
+    hasNextPage: page < totalPages,
+    hasPreviousPage: page > 1
+  }
+}
+
+function adminUserChanges(action: AdminUserAction): Prisma.UserUpdateInput {
+  switch (action) {
+    case 'activate':
+      return { isActive: true }
+    case 'deactivate':
+      return { isActive: false }
+    case 'unlock':
+      return { lockedUntil: null, loginAttempts: 0 }
+    case 'reset_login_attempts':
+      return { loginAttempts: 0 }
+    case 'require_password_reset':
+      return { passwordResetRequired: true }
+  }
+}
+
+/**
+ * Apply an administrator's change to another user's account. Deactivating
+ * also signs the user out everywhere; the jwt callback would otherwise only
+ * notice on its next check.
+ */
+export async function applyAdminUserAction(
+  userId: string,
+  action: AdminUserAction,
+  context: AuditContext
+): Promise<AdminUserResponse> {
+  if (userId === context.userId) {
+    throw new Error(OWN_ACCOUNT_ERROR)
+  }
+
+  const existing = await db.user.findUnique({ where: { id: userId }, select: { id: true } })
+  if (!existing) {
+    throw new Error('User not found')
+  }
+
+  const user = await db.$transaction(async tx => {
+    const updated = await tx.user.update({
+      where: { id: userId },
+      data: adminUserChanges(action)
+    })
+
+    await auditUserAction(userId, 'UPDATE', context, { operation: 'admin_user_action', adminAction: action }, tx)
+
+    return updated
+  })
+
+  if (action === 'deactivate') {
+    await revokeAllSessions(userId, context, 'deactivated')
+  }
+
+  return toAdminUserResponse(user)
+}
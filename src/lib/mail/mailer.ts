@@ -0,0 +1,188 @@
+import { mkdir, writeFile } from 'fs/promises'
+import net, { type Socket } from 'net'
+import os from 'os'
+import path from 'path'
+import { generateSecureToken } from '@/lib/security/encryption'
+
+/**
+ * Outgoing email.
+ *
+ * Messages go through whichever Mailer is installed: MAIL_TRANSPORT=file
+ * writes each one as JSON under MAIL_FILE_DIR (default `.mail/`) for tests
+ * and local development, MAIL_TRANSPORT=smtp hands it to an SMTP sink such
+ * as Mailpit (SMTP_HOST/SMTP_PORT, default localhost:1025), and anything
+ * else logs it to the console, outside production only. A deployment or
+ * test can install its own with setMailer().
+ *
+ * Mail leaves the system unencrypted, so messages must never carry PHI;
+ * link back to the app instead.
+ */
+
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>
+}
+
+// Verification, reset and invitation links carry their token in the query string
+function redactLinkQueries(text: string): string {
+  return text.replace(/(https?:\/\/[^\s?]+)\?\S+/g, '$1?[redacted]')
+}
+
+/**
+ * Logs mail with link query strings redacted, so tokens don't end up in
+ * logs; use MAIL_TRANSPORT=file to follow links locally
+ */
+export class ConsoleMailer implements Mailer {
+  async send(message: MailMessage): Promise<void> {
+    console.log(`[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${redactLinkQueries(message.text)}`)
+  }
+}
+
+export class FileMailer implements Mailer {
+  constructor(private readonly directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await mkdir(this.directory, { recursive: true })
+    const filename = `${Date.now()}-${generateSecureToken(4)}.json`
+    await writeFile(
+      path.join(this.directory, filename),
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+    )
+  }
+}
+
+// Reads one reply at a time; a multi-line reply ends at "<code> " rather than "<code>-"
+function smtpReplyReader(socket: Socket): () => Promise<string> {
+  let buffer = ''
+  let failure: Error | null = null
+  let pending: { resolve: (reply: string) => void; reject: (error: Error) => void } | null = null
+
+  const settle = (): void => {
+    if (!pending) return
+    const match = buffer.match(/^(?:\d{3}-[^\r\n]*\r?\n)*\d{3}(?: [^\r\n]*)?\r?\n/)
+    if (match) {
+      buffer = buffer.slice(match[0].length)
+      pending.resolve(match[0].trim())
+      pending = null
+    } else if (failure) {
+      pending.reject(failure)
+      pending = null
+    }
+  }
+
+  socket.setEncoding('utf8')
+  socket.on('data', (chunk: string) => {
+    buffer += chunk
+    settle()
+  })
+  socket.on('error', error => {
+    failure = error
+    settle()
+  })
+  socket.on('close', () => {
+    failure ??= new Error('SMTP connection closed')
+    settle()
+  })
+
+  return () => new Promise((resolve, reject) => {
+    pending = { resolve, reject }
+    settle()
+  })
+}
+
+// RFC 2047 encoded-word for headers that aren't plain ASCII
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`
+}
+
+/**
+ * Plain SMTP with no TLS or authentication, for a local sink such as
+ * Mailpit or MailHog in development and tests. Production mail should go
+ * through a provider's Mailer installed with setMailer().
+ */
+export class SmtpMailer implements Mailer {
+  constructor(private readonly options: { host: string; port: number; from: string }) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const socket = net.createConnection(this.options.port, this.options.host)
+    socket.setTimeout(10_000, () => socket.destroy(new Error('SMTP connection timed out')))
+    const readReply = smtpReplyReader(socket)
+
+    const expect = async (code: number, command?: string): Promise<void> => {
+      if (command !== undefined) {
+        socket.write(`${command}\r\n`)
+      }
+      const reply = await readReply()
+      if (!reply.startsWith(String(code))) {
+        throw new Error(`SMTP server rejected ${command?.split(' ')[0] ?? 'connection'}: ${reply}`)
+      }
+    }
+
+    const sender = this.options.from.match(/<([^>]+)>/)?.[1] ?? this.options.from
+    const body = message.text
+      .split(/\r?\n/)
+      .map(line => line.startsWith('.') ? `.${line}` : line) // dot-stuffing
+      .join('\r\n')
+
+    try {
+      await expect(220)
+      await expect(250, `EHLO ${os.hostname()}`)
+      await expect(250, `MAIL FROM:<${sender}>`)
+      await expect(250, `RCPT TO:<${message.to}>`)
+      await expect(354, 'DATA')
+      await expect(250, [
+        `From: ${this.options.from}`,
+        `To: ${message.to}`,
+        `Subject: ${encodeHeader(message.subject)}`,
+        `Date: ${new Date().toUTCString()}`,
+        'MIME-Version: 1.0',
+        'Content-Type: text/plain; charset=utf-8',
+        'Content-Transfer-Encoding: 8bit',
+        '',
+        body,
+        '.'
+      ].join('\r\n'))
+      await expect(221, 'QUIT')
+    } finally {
+      socket.destroy()
+    }
+  }
+}
+
+let installedMailer: Mailer | null = null
+
+function createMailer(): Mailer {
+  switch (process.env.MAIL_TRANSPORT) {
+    case 'file':
+      return new FileMailer(process.env.MAIL_FILE_DIR || '.mail')
+    case 'smtp':
+      return new SmtpMailer({
+        host: process.env.SMTP_HOST || 'localhost',
+        port: Number(process.env.SMTP_PORT) || 1025,
+        from: process.env.MAIL_FROM || 'HIPAA Journal <no-reply@localhost>'
+      })
+    default:
+      if (process.env.NODE_ENV === 'production') {
+        throw new Error('No mail transport configured: install a Mailer with setMailer() in production')
+      }
+      return new ConsoleMailer()
+  }
+}
+
+export function getMailer(): Mailer {
+  installedMailer ??= createMailer()
+  return installedMailer
+}
+
+export function setMailer(mailer: Mailer): void {
+  installedMailer = mailer
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  await getMailer().send(message)
+}
@@ -0,0 +1,115 @@
+import type { MailMessage } from '@/lib/mail/mailer'
+
+// Links in email need an absolute URL; NEXTAUTH_URL is the app's public origin
+export function appUrl(pathname: string): string {
+  return new URL(pathname, process.env.NEXTAUTH_URL || 'http://localhost:3000').toString()
+}
+
+function formatTimestamp(expiresAt: Date): string {
+  return expiresAt.toLocaleString('en-US', { dateStyle: 'long', timeStyle: 'short', timeZone: 'UTC' }) + ' UTC'
+}
+
+export function invitationEmail(params: {
+  providerName: string
+  url: string
+  expiresAt: Date
+}): Omit<MailMessage, 'to'> {
+  return {
+    subject: `${params.providerName} invited you to HIPAA Journal`,
+    text: [
+      `${params.providerName} has invited you to keep a private journal you can choose to share with them.`,
+      '',
+      `Create your account: ${params.url}`,
+      '',
+      `This link works once and expires on ${formatTimestamp(params.expiresAt)}.`,
+      'If you weren\'t expecting this invitation, you can ignore this email.'
+    ].join('\n')
+  }
+}
+
+export function emailVerificationEmail(params: {
+  url: string
+  expiresAt: Date
+}): Omit<MailMessage, 'to'> {
+  return {
+    subject: 'Verify your HIPAA Journal email address',
+    text: [
+      'Confirm this is your email address to finish setting up your account:',
+      '',
+      params.url,
+      '',
+      `This link works once and expires on ${formatTimestamp(params.expiresAt)}.`,
+      'If you didn\'t create an account, you can ignore this email.'
+    ].join('\n')
+  }
+}
+
+export function passwordResetEmail(params: {
+  url: string
+  expiresAt: Date
+}): Omit<MailMessage, 'to'> {
+  return {
+    subject: 'Reset your HIPAA Journal password',
+    text: [
+      'Someone asked to reset the password for your account. To choose a new one, open:',
+      '',
+      params.url,
+      '',
+      `This link works once and expires on ${formatTimestamp(params.expiresAt)}.`,
+      'Resetting your password signs you out on every device.',
+      'If you didn\'t ask for this, you can ignore this email; your password stays the same.'
+    ].join('\n')
+  }
+}
+
+// To the client, once a provider's emergency access to their journal is over
+export function emergencyAccessClientEmail(params: {
+  providerName: string
+  startedAt: Date
+  url: string
+}): Omit<MailMessage, 'to'> {
+  return {
+    subject: 'A provider used emergency access to your HIPAA Journal',
+    text: [
+      `${params.providerName} used emergency access to read your journal entries on ${formatTimestamp(params.startedAt)}.`,
+      'Emergency access is only for crises, lasts a few hours at most, and is reviewed by an administrator.',
+      '',
+      `See which entries were read and why: ${params.url}`
+    ].join('\n')
+  }
+}
+
+// To every administrator; who and why stay in the app, behind sign-in
+export function emergencyAccessReviewEmail(params: {
+  url: string
+}): Omit<MailMessage, 'to'> {
+  return {
+    subject: 'Emergency access to review',
+    text: [
+      'A provider\'s emergency ("break-the-glass") access to a client\'s journal has ended and is waiting for review.',
+      '',
+      `Review it: ${params.url}`
+    ].join('\n')
+  }
+}
+
+// To the client, a few days before shares expire; no entry titles, they're PHI
+export function shareExpiryReminderEmail(params: {
+  providers: Array<{ providerName: string; shareCount: number; expiresAt: Date }>
+  url: string
+}): Omit<MailMessage, 'to'> {
+  return {
+    subject: 'Some of your shared HIPAA Journal entries expire soon',
+    text: [
+      'Access you gave your providers to some of your journal entries is about to expire:',
+      '',
+      ...params.providers.map(provider =>
+        `- ${provider.shareCount} ${provider.shareCount === 1 ? 'entry' : 'entries'} shared with ${provider.providerName}, from ${formatTimestamp(provider.expiresAt)}`
+      ),
+      '',
+      'Once a share expires your provider can no longer see the entry. You can share it again from the entry whenever you like.',
+      '',
+      `Your journal: ${params.url}`
+    ].join('\n')
+  }
+}
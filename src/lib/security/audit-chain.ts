@@ -0,0 +1,208 @@
+import { db } from '@/lib/db'
+import { hash } from '@/lib/security/encryption'
+import type { Prisma } from '@prisma/client'
+import type { AuditLog } from '@/types/database'
+import type { AuditChainBreak, AuditChainVerificationResponse } from '@/types/api'
+
+/**
+ * Tamper-evident audit log (HIPAA §164.312(b), §164.312(c)(1)).
+ *
+ * Every AuditLog row stores `hash = sha256(canonical content + previousHash)`,
+ * with previousHash taken from the row before it in `sequence` order. Editing a
+ * row changes its hash, and deleting or inserting one breaks the link to the
+ * row after it, so verifyAuditChain() can point at the first place the log
+ * stops adding up.
+ *
+ * The chain can't notice rows removed from the very end. Record `headHash`
+ * from a verification somewhere outside the database to cover that.
+ */
+
+// Arbitrary key for pg_advisory_xact_lock; serializes appends to the chain
+const AUDIT_CHAIN_LOCK_KEY = BigInt(0x4a75644c)
+
+const DEFAULT_BATCH_SIZE = 1000
+
+export type AuditChainFields = Pick<
+  AuditLog,
+  | 'action'
+  | 'resource'
+  | 'resourceId'
+  | 'userId'
+  | 'ipAddress'
+  | 'userAgent'
+  | 'details'
+  | 'sessionId'
+  | 'entryId'
+  | 'shareId'
+  | 'createdAt'
+>
+
+// jsonb doesn't keep key order, so hash objects with their keys sorted
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(canonicalize)
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map(key => [key, canonicalize((value as Record<string, unknown>)[key])])
+    )
+  }
+  return value ?? null
+}
+
+export function computeAuditHash(record: AuditChainFields, previousHash: string | null): string {
+  return hash(JSON.stringify(canonicalize({
+    action: record.action,
+    resource: record.resource,
+    resourceId: record.resourceId,
+    userId: record.userId,
+    ipAddress: record.ipAddress,
+    userAgent: record.userAgent,
+    details: record.details,
+    sessionId: record.sessionId,
+    entryId: record.entryId,
+    shareId: record.shareId,
+    createdAt: record.createdAt.toISOString(),
+    previousHash
+  })))
+}
+
+// Anything that can write audit rows: the client itself or an interactive transaction
+export type AuditWriter = Pick<typeof db, 'auditLog' | '$executeRaw'>
+
+export type AuditRecord = Omit<AuditChainFields, 'createdAt' | 'details'> & {
+  details: Prisma.InputJsonValue | null
+  // When the event happened; defaults to now. Set when replaying queued events.
+  createdAt?: Date
+}
+
+/**
+ * Take the chain's append lock for the rest of the transaction. Re-entrant,
+ * so callers that need to check something under the lock may take it first.
+ */
+export async function lockAuditChain(tx: AuditWriter): Promise<void> {
+  await tx.$executeRaw`SELECT pg_advisory_xact_lock(${AUDIT_CHAIN_LOCK_KEY})`
+}
+
+async function appendWithin(tx: AuditWriter, data: AuditRecord): Promise<AuditLog> {
+  await lockAuditChain(tx)
+
+  const previous = await tx.auditLog.findFirst({
+    orderBy: { sequence: 'desc' },
+    select: { hash: true }
+  })
+  const previousHash = previous?.hash ?? null
+
+  // Set createdAt here rather than by default so the hashed value is the stored one
+  const record = { ...data, createdAt: data.createdAt ?? new Date() }
+  const rowHash = computeAuditHash({ ...record, details: record.details as Prisma.JsonValue }, previousHash)
+
+  return tx.auditLog.create({
+    data: {
+      ...record,
+      details: record.details ?? undefined,
+      previousHash,
+      hash: rowHash
+    }
+  })
+}
+
+/**
+ * Append a row to the end of the chain. Appends take a transaction-scoped
+ * advisory lock so two writers can't both link to the same previous row.
+ * Pass a transaction to make the row commit (or roll back) with it; the lock
+ * is then held until that transaction ends.
+ */
+export async function appendAuditLog(data: AuditRecord, tx?: AuditWriter): Promise<AuditLog> {
+  if (tx) {
+    return appendWithin(tx, data)
+  }
+  return db.$transaction(client => appendWithin(client, data))
+}
+
+/**
+ * Append rows to the end of the chain in order, all in one transaction:
+ * either every row is written or none is.
+ */
+export async function appendAuditLogs(data: AuditRecord[], tx?: AuditWriter): Promise<AuditLog[]> {
+  const appendAll = async (client: AuditWriter): Promise<AuditLog[]> => {
+    const rows: AuditLog[] = []
+    for (const record of data) {
+      rows.push(await appendWithin(client, record))
+    }
+    return rows
+  }
+
+  return tx ? appendAll(tx) : db.$transaction(client => appendAll(client))
+}
+
+/**
+ * Walk the log in sequence order, recomputing every hash and link, and stop
+ * at the first row that doesn't match.
+ */
+export async function verifyAuditChain(
+  options: { batchSize?: number } = {}
+): Promise<AuditChainVerificationResponse> {
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE
+  const result: AuditChainVerificationResponse = {
+    valid: true,
+    checked: 0,
+    unchained: 0,
+    headHash: null,
+    headSequence: null,
+    firstBrokenLink: null
+  }
+
+  let chainStarted = false
+  let expectedPreviousHash: string | null = null
+  let cursor: number | undefined
+
+  for (;;) {
+    const rows: AuditLog[] = await db.auditLog.findMany({
+      where: cursor === undefined ? undefined : { sequence: { gt: cursor } },
+      orderBy: { sequence: 'asc' },
+      take: batchSize
+    })
+
+    for (const row of rows) {
+      let reason: AuditChainBreak | null = null
+
+      if (!row.hash) {
+        if (!chainStarted) {
+          result.unchained++
+          continue
+        }
+        reason = 'missing_hash'
+      } else if (row.previousHash !== expectedPreviousHash) {
+        // Also catches rows removed from the start, since the first link must be null
+        reason = 'previous_hash_mismatch'
+      } else if (computeAuditHash(row, row.previousHash) !== row.hash) {
+        reason = 'hash_mismatch'
+      }
+
+      if (reason) {
+        result.valid = false
+        result.firstBrokenLink = {
+          id: row.id,
+          sequence: row.sequence,
+          createdAt: row.createdAt.toISOString(),
+          reason
+        }
+        return result
+      }
+
+      chainStarted = true
+      expectedPreviousHash = row.hash
+      result.checked++
+      result.headHash = row.hash
+      result.headSequence = row.sequence
+    }
+
+    if (rows.length < batchSize) {
+      return result
+    }
+    cursor = rows[rows.length - 1].sequence
+  }
+}
@@ -0,0 +1,205 @@
+import { db } from '@/lib/db'
+import { appendAuditLog, appendAuditLogs, lockAuditChain, type AuditRecord } from '@/lib/security/audit-chain'
+import type { Prisma } from '@prisma/client'
+import type { AuditOutbox } from '@/types/database'
+import type { AuditHealthResponse } from '@/types/api'
+
+/**
+ * Delivery for audit events that aren't written inside the transaction of the
+ * action they record.
+ *
+ * An event that can't be appended right away goes to the AuditOutbox table
+ * and is retried with backoff until it lands in the log. If the outbox can't
+ * be written either (the database is down), the event is held in memory and
+ * moved to the outbox by the next flush. Flushes run after a successful
+ * write, at most every 30 seconds per server, or from `npm run audit:flush`.
+ */
+
+const DEFAULT_FLUSH_BATCH_SIZE = 100
+const FLUSH_INTERVAL_MS = 30 * 1000
+const BASE_RETRY_DELAY_MS = 30 * 1000
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000 // 1 hour
+
+// Beyond this the oldest held event is dropped (and counted) rather than running out of memory
+const MAX_MEMORY_QUEUE = 1000
+
+// Delivery state for this server process, reported by getAuditHealth()
+const memoryQueue: Array<AuditRecord & { createdAt: Date }> = []
+let droppedEvents = 0
+let lastWriteAt: Date | null = null
+let lastFailureAt: Date | null = null
+let lastFlushAt = 0
+let isFlushing = false
+
+// AUDIT_FAIL_MODE=open lets reads through (auditing them later) when the log is down
+export function getAuditFailMode(): AuditHealthResponse['failMode'] {
+  return process.env.AUDIT_FAIL_MODE === 'open' ? 'open' : 'closed'
+}
+
+// Error messages can quote the data being written, so only keep the code
+function errorCode(error: unknown): string {
+  if (error && typeof error === 'object' && 'code' in error && typeof error.code === 'string') {
+    return error.code
+  }
+  return error instanceof Error ? error.name : 'UnknownError'
+}
+
+function retryDelayMs(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS)
+}
+
+// occurredAt carries the timestamp, as a column rather than inside the JSON
+function toPayload(record: AuditRecord): Prisma.InputJsonObject {
+  const payload: Prisma.InputJsonObject & { createdAt?: Date } = { ...record }
+  delete payload.createdAt
+  return payload
+}
+
+function fromOutbox(item: AuditOutbox): AuditRecord {
+  const payload = item.payload as Omit<AuditRecord, 'createdAt'>
+  return { ...payload, createdAt: item.occurredAt }
+}
+
+function scheduleFlush(): void {
+  if (isFlushing || Date.now() - lastFlushAt < FLUSH_INTERVAL_MS) {
+    return
+  }
+
+  lastFlushAt = Date.now()
+  isFlushing = true
+  flushAuditOutbox()
+    .catch(error => console.error('Audit outbox flush failed:', errorCode(error)))
+    .finally(() => {
+      isFlushing = false
+    })
+}
+
+/**
+ * Append straight to the log. Returns false instead of throwing so the
+ * caller can decide between failing and queueing.
+ */
+export async function tryAppendAuditLog(record: AuditRecord): Promise<boolean> {
+  return tryAppendAuditLogs([record])
+}
+
+// tryAppendAuditLog() for several records, written together or not at all
+export async function tryAppendAuditLogs(records: AuditRecord[]): Promise<boolean> {
+  try {
+    await appendAuditLogs(records)
+    lastWriteAt = new Date()
+    scheduleFlush()
+    return true
+  } catch (error) {
+    lastFailureAt = new Date()
+    console.error('Audit log write failed:', errorCode(error))
+    return false
+  }
+}
+
+export async function enqueueAuditEvent(record: AuditRecord): Promise<void> {
+  const event = { ...record, createdAt: record.createdAt ?? new Date() }
+
+  try {
+    await db.auditOutbox.create({
+      data: { payload: toPayload(event), occurredAt: event.createdAt }
+    })
+  } catch (error) {
+    console.error('Audit outbox unavailable, holding event in memory:', errorCode(error))
+    if (memoryQueue.length >= MAX_MEMORY_QUEUE) {
+      memoryQueue.shift()
+      droppedEvents++
+    }
+    memoryQueue.push(event)
+  }
+}
+
+async function drainMemoryQueue(): Promise<void> {
+  while (memoryQueue.length > 0) {
+    const event = memoryQueue[0]
+    await db.auditOutbox.create({
+      data: { payload: toPayload(event), occurredAt: event.createdAt }
+    })
+    memoryQueue.shift()
+  }
+}
+
+/**
+ * Append due outbox events to the log, oldest first. Each event is removed
+ * from the outbox in the same transaction that appends it, so it is written
+ * exactly once even with several servers flushing.
+ */
+export async function flushAuditOutbox(
+  options: { batchSize?: number } = {}
+): Promise<{ written: number; failed: number }> {
+  await drainMemoryQueue()
+
+  const due = await db.auditOutbox.findMany({
+    where: { nextAttemptAt: { lte: new Date() } },
+    orderBy: { occurredAt: 'asc' },
+    take: options.batchSize ?? DEFAULT_FLUSH_BATCH_SIZE
+  })
+
+  let written = 0
+  let failed = 0
+
+  for (const item of due) {
+    try {
+      await db.$transaction(async tx => {
+        await lockAuditChain(tx)
+        // Another server may have delivered it while this one waited for the lock
+        const { count } = await tx.auditOutbox.deleteMany({ where: { id: item.id } })
+        if (count > 0) {
+          await appendAuditLog(fromOutbox(item), tx)
+        }
+      })
+      written++
+    } catch (error) {
+      failed++
+      const attempts = item.attempts + 1
+      await db.auditOutbox.update({
+        where: { id: item.id },
+        data: {
+          attempts,
+          lastError: errorCode(error),
+          nextAttemptAt: new Date(Date.now() + retryDelayMs(attempts))
+        }
+      }).catch(() => undefined)
+    }
+  }
+
+  if (written > 0) {
+    lastWriteAt = new Date()
+  }
+
+  return { written, failed }
+}
+
+export async function getAuditHealth(): Promise<AuditHealthResponse> {
+  let outbox: { pending: number; retrying: number; oldest: Date | null } | null = null
+
+  try {
+    const [pending, retrying, oldest] = await Promise.all([
+      db.auditOutbox.count(),
+      db.auditOutbox.count({ where: { attempts: { gt: 0 } } }),
+      db.auditOutbox.findFirst({ orderBy: { occurredAt: 'asc' }, select: { occurredAt: true } })
+    ])
+    outbox = { pending, retrying, oldest: oldest?.occurredAt ?? null }
+  } catch {
+    // Reported as unavailable below
+  }
+
+  const isFailing = !!lastFailureAt && (!lastWriteAt || lastFailureAt > lastWriteAt)
+  const hasBacklog = !!outbox?.pending || memoryQueue.length > 0 || droppedEvents > 0
+
+  return {
+    status: !outbox || isFailing ? 'unavailable' : hasBacklog ? 'degraded' : 'healthy',
+    failMode: getAuditFailMode(),
+    outboxPending: outbox?.pending ?? null,
+    outboxRetrying: outbox?.retrying ?? null,
+    oldestPendingAt: outbox?.oldest?.toISOString() ?? null,
+    memoryQueued: memoryQueue.length,
+    dropped: droppedEvents,
+    lastWriteAt: lastWriteAt?.toISOString() ?? null,
+    lastFailureAt: lastFailureAt?.toISOString() ?? null
+  }
+}
@@ -1,35 +1,99 @@
 import type { AuditAction, AuditContext, AuditLog } from '@/types/database'
-import { db } from '@/lib/db'
+import { appendAuditLog, type AuditRecord, type AuditWriter } from '@/lib/security/audit-chain'
+import { enqueueAuditEvent, getAuditFailMode, tryAppendAuditLog, tryAppendAuditLogs } from '@/lib/security/audit-outbox'
+
+export type { AuditWriter } from '@/lib/security/audit-chain'
 
 // Use generated type but omit auto-generated fields and make optional fields truly optional
-export interface AuditLogData extends Omit<AuditLog, 'id' | 'createdAt' | 'userId' | 'ipAddress' | 'userAgent' | 'sessionId' | 'details' | 'entryId' | 'shareId' | 'resourceId'> {
+export interface AuditLogData extends Omit<AuditLog, 'id' | 'createdAt' | 'sequence' | 'previousHash' | 'hash' | 'userId' | 'ipAddress' | 'userAgent' | 'sessionId' | 'details' | 'entryId' | 'shareId' | 'resourceId'> {
   entryId?: string | null
   shareId?: string | null
   resourceId?: string | null
   details?: Record<string, unknown>
 }
 
+// Access that must not happen unless it is on record (see AUDIT_FAIL_MODE)
+const FAIL_CLOSED_ACTIONS: AuditAction[] = ['READ', 'EXPORT', 'PRINT']
+
+export class AuditUnavailableError extends Error {
+  constructor() {
+    super('Audit log unavailable')
+    this.name = 'AuditUnavailableError'
+  }
+}
+
+function toAuditRecord(data: AuditLogData, context: AuditContext): AuditRecord {
+  return {
+    action: data.action,
+    resource: data.resource,
+    resourceId: data.resourceId ?? null,
+    userId: context.userId ?? null,
+    ipAddress: context.ipAddress ?? null,
+    userAgent: context.userAgent ?? null,
+    details: data.details ? JSON.parse(JSON.stringify(data.details)) : null,
+    sessionId: context.sessionId ?? null,
+    entryId: data.entryId ?? null,
+    shareId: data.shareId ?? null,
+    createdAt: new Date()
+  }
+}
+
+/**
+ * Record an audit event.
+ *
+ * With `tx` the row is part of that transaction: if it can't be written the
+ * change it records is rolled back too. Without one, the event is appended
+ * directly or, failing that, queued in the outbox; reads and exports instead
+ * throw AuditUnavailableError (unless AUDIT_FAIL_MODE=open) so callers don't
+ * hand out data that was never logged.
+ */
 export async function createAuditLog(
   data: AuditLogData,
+  context: AuditContext,
+  tx?: AuditWriter
+): Promise<void> {
+  const record = toAuditRecord(data, context)
+
+  if (tx) {
+    await appendAuditLog(record, tx)
+    return
+  }
+
+  if (await tryAppendAuditLog(record)) {
+    return
+  }
+
+  if (FAIL_CLOSED_ACTIONS.includes(data.action) && getAuditFailMode() === 'closed') {
+    throw new AuditUnavailableError()
+  }
+
+  await enqueueAuditEvent(record)
+}
+
+/**
+ * Record several audit events at once, in one transaction: all are appended,
+ * or none are and they are handled as createAuditLog() handles one event it
+ * can't append, throwing AuditUnavailableError if any is a read or export.
+ */
+export async function createAuditLogs(
+  data: AuditLogData[],
   context: AuditContext
 ): Promise<void> {
-  try {
-    await db.auditLog.create({
-      data: {
-        action: data.action,
-        resource: data.resource,
-        resourceId: data.resourceId,
-        userId: context.userId,
-        ipAddress: context.ipAddress,
-        userAgent: context.userAgent,
-        details: data.details ? JSON.parse(JSON.stringify(data.details)) : null,
-        sessionId: context.sessionId,
-        entryId: data.entryId,
-        shareId: data.shareId
-      }
-    })
-  } catch (error) {
-    // Silently fail to avoid logging sensitive information
+  if (data.length === 0) {
+    return
+  }
+
+  const records = data.map(item => toAuditRecord(item, context))
+  if (await tryAppendAuditLogs(records)) {
+    return
+  }
+
+  if (data.some(item => FAIL_CLOSED_ACTIONS.includes(item.action)) && getAuditFailMode() === 'closed') {
+    throw new AuditUnavailableError()
+  }
+
+  for (const record of records) {
+    await enqueueAuditEvent(record)
   }
 }
 
@@ -37,7 +101,8 @@ export async function auditEntryAccess(
   entryId: string,
   action: AuditAction,
   context: AuditContext,
-  details?: Record<string, unknown>
+  details?: Record<string, unknown>,
+  tx?: AuditWriter
 ): Promise<void> {
   await createAuditLog(
     {
@@ -47,7 +112,8 @@ export async function auditEntryAccess(
       entryId,
       details
     },
-    context
+    context,
+    tx
   )
 }
 
@@ -55,7 +121,8 @@ export async function auditShareAction(
   shareId: string,
   action: AuditAction,
   context: AuditContext,
-  details?: Record<string, unknown>
+  details?: Record<string, unknown>,
+  tx?: AuditWriter
 ): Promise<void> {
   await createAuditLog(
     {
@@ -65,7 +132,8 @@ export async function auditShareAction(
       shareId,
       details
     },
-    context
+    context,
+    tx
   )
 }
 
@@ -73,7 +141,8 @@ export async function auditUserAction(
   userId: string,
   action: AuditAction,
   context: AuditContext,
-  details?: Record<string, unknown>
+  details?: Record<string, unknown>,
+  tx?: AuditWriter
 ): Promise<void> {
   await createAuditLog(
     {
@@ -82,7 +151,8 @@ export async function auditUserAction(
       resourceId: userId,
       details
     },
-    context
+    context,
+    tx
   )
 }
 
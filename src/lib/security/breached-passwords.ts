@@ -0,0 +1,63 @@
+import { createHash } from 'crypto'
+import { readFile } from 'fs/promises'
+
+/**
+ * Known-breached passwords, checked locally so a candidate password never
+ * leaves the server.
+ *
+ * A short list of the most common passwords is built in. BREACHED_PASSWORDS_FILE
+ * can point at a larger newline-separated list, either plain passwords or
+ * SHA-1 hashes in the Have I Been Pwned `HASH:count` format. The whole list
+ * is held in memory, so use a top-N extract rather than the full corpus.
+ */
+
+const COMMON_PASSWORDS = [
+  '123456', '123456789', '12345678', '1234567890', '1q2w3e4r', '1qaz2wsx', '1qaz2wsx3edc',
+  'abc123', 'admin', 'admin123', 'administrator', 'changeme', 'dragon', 'football',
+  'iloveyou', 'letmein', 'letmein123!', 'monkey', 'passw0rd', 'passw0rd!', 'password',
+  'password1', 'password1!', 'password123', 'password123!', 'password1234', 'password1234!',
+  'p@ssw0rd', 'p@ssw0rd1', 'p@ssw0rd123', 'p@ssw0rd123!', 'p@ssword123', 'qwerty', 'qwerty123',
+  'qwerty123!', 'qwertyuiop', 'qwertyuiop1!', 'sunshine', 'superman', 'trustno1', 'welcome',
+  'welcome1', 'welcome123', 'welcome123!', 'welcome2024!', 'welcome2025!', 'welcome2026!',
+  'summer2024!', 'summer2025!', 'summer2026!', 'winter2024!', 'winter2025!', 'winter2026!',
+  'spring2025!', 'spring2026!', 'autumn2025!', 'autumn2026!', 'changeme123!', 'letmein2025!',
+  'healthcare1!', 'hospital123!', 'nurse123456!', 'doctor123456!', 'patient12345!',
+  'securepass123!', 'securepassword1!', 'mypassword123!', 'iloveyou123!', 'zaq12wsx!qaz'
+]
+
+const SHA1_LINE = /^([0-9a-f]{40})(?::\d+)?$/i
+
+let breachedList: Promise<Set<string>> | null = null
+
+async function loadBreachedList(): Promise<Set<string>> {
+  const entries = new Set(COMMON_PASSWORDS)
+  const file = process.env.BREACHED_PASSWORDS_FILE
+  if (!file) {
+    return entries
+  }
+
+  try {
+    const contents = await readFile(file, 'utf8')
+    for (const rawLine of contents.split(/\r?\n/)) {
+      const line = rawLine.trim()
+      if (!line) continue
+
+      const sha1 = line.match(SHA1_LINE)?.[1]
+      entries.add(sha1 ? sha1.toUpperCase() : line.toLowerCase())
+    }
+  } catch (error) {
+    // Keep working with the built-in list rather than refusing every new password
+    console.error(`Failed to load breached password list from ${file}:`, error)
+  }
+
+  return entries
+}
+
+// Case-insensitive for plain entries, so "Password123!" matches "password123!"
+export async function isBreachedPassword(password: string): Promise<boolean> {
+  breachedList ??= loadBreachedList()
+  const entries = await breachedList
+
+  const sha1 = createHash('sha1').update(password).digest('hex').toUpperCase()
+  return entries.has(password.toLowerCase()) || entries.has(sha1)
+}
@@ -1,12 +1,12 @@
 import crypto from 'crypto'
 
 // In production, these MUST be set via environment variables
-const ENCRYPTION_KEY = process.env.ENCRYPTION_KEY || 'default-key-for-development-only-32'
+const ENCRYPTION_KEY = process.env.ENCRYPTION_KEY || 'default-key-for-development-32ch'
 const DATA_ENCRYPTION_KEY = process.env.DATA_ENCRYPTION_KEY || 'default-data-key-for-dev-only-32'
 
 // Validate keys in production
 if (process.env.NODE_ENV === 'production') {
-  if (!process.env.ENCRYPTION_KEY || process.env.ENCRYPTION_KEY === 'default-key-for-development-only-32') {
+  if (!process.env.ENCRYPTION_KEY || process.env.ENCRYPTION_KEY === 'default-key-for-development-32ch') {
     throw new Error('ENCRYPTION_KEY must be set in production environment')
   }
   if (!process.env.DATA_ENCRYPTION_KEY || process.env.DATA_ENCRYPTION_KEY === 'default-data-key-for-dev-only-32') {
@@ -27,8 +27,32 @@ const ALGORITHM = 'aes-256-gcm'
 const IV_LENGTH = 16
 const TAG_LENGTH = 16
 
-export function encrypt(text: string, useDataKey = false): string {
-  const key = Buffer.from(useDataKey ? DATA_ENCRYPTION_KEY : ENCRYPTION_KEY, 'utf8')
+// Versioned ciphertext format: `v1:<keyId>:<base64(iv | authTag | ciphertext)>`
+// Blobs without the prefix predate versioning and were written with the env keys
+const CIPHERTEXT_VERSION = 'v1'
+
+// Key ids reserved for the static env keys
+export const ENV_MASTER_KEY_ID = 'env-master'
+export const ENV_DATA_KEY_ID = 'env-data'
+
+export interface ParsedCiphertext {
+  keyId: string | null
+  payload: string
+}
+
+export function formatCiphertext(keyId: string, payload: string): string {
+  return `${CIPHERTEXT_VERSION}:${keyId}:${payload}`
+}
+
+export function parseCiphertext(text: string): ParsedCiphertext {
+  const parts = text.split(':')
+  if (parts.length === 3 && parts[0] === CIPHERTEXT_VERSION) {
+    return { keyId: parts[1], payload: parts[2] }
+  }
+  return { keyId: null, payload: text }
+}
+
+export function encryptWithKey(text: string, key: Buffer): string {
   const iv = crypto.randomBytes(IV_LENGTH)
   const cipher = crypto.createCipheriv(ALGORITHM, key, iv)
   
@@ -47,9 +71,8 @@ export function encrypt(text: string, useDataKey = false): string {
   return combined.toString('base64')
 }
 
-export function decrypt(text: string, useDataKey = false): string {
-  const key = Buffer.from(useDataKey ? DATA_ENCRYPTION_KEY : ENCRYPTION_KEY, 'utf8')
-  const combined = Buffer.from(text, 'base64')
+export function decryptWithKey(payload: string, key: Buffer): string {
+  const combined = Buffer.from(payload, 'base64')
   
   // Extract components
   const iv = combined.subarray(0, IV_LENGTH)
@@ -68,6 +91,29 @@ export function decrypt(text: string, useDataKey = false): string {
   return decrypted.toString('utf8')
 }
 
+export function encrypt(text: string, useDataKey = false): string {
+  const key = Buffer.from(useDataKey ? DATA_ENCRYPTION_KEY : ENCRYPTION_KEY, 'utf8')
+  const keyId = useDataKey ? ENV_DATA_KEY_ID : ENV_MASTER_KEY_ID
+  return formatCiphertext(keyId, encryptWithKey(text, key))
+}
+
+export function decrypt(text: string, useDataKey = false): string {
+  const { keyId, payload } = parseCiphertext(text)
+
+  if (keyId !== null && keyId !== ENV_MASTER_KEY_ID && keyId !== ENV_DATA_KEY_ID) {
+    throw new Error(`Ciphertext was not encrypted with an environment key (${keyId})`)
+  }
+
+  // Versioned blobs name their key; legacy blobs rely on the caller's flag
+  const isDataKey = keyId === null ? useDataKey : keyId === ENV_DATA_KEY_ID
+  const key = Buffer.from(isDataKey ? DATA_ENCRYPTION_KEY : ENCRYPTION_KEY, 'utf8')
+  return decryptWithKey(payload, key)
+}
+
+export function generateDataKey(): Buffer {
+  return crypto.randomBytes(32)
+}
+
 export function hash(text: string): string {
   return crypto.createHash('sha256').update(text).digest('hex')
 }
@@ -76,6 +122,12 @@ export function generateSecureToken(length = 32): string {
   return crypto.randomBytes(length).toString('hex')
 }
 
+// HMAC-SHA256 under a key derived from ENCRYPTION_KEY, so signatures can't double as anything else
+export function sign(text: string): string {
+  const signingKey = crypto.createHmac('sha256', ENCRYPTION_KEY).update('signing').digest()
+  return crypto.createHmac('sha256', signingKey).update(text).digest('base64url')
+}
+
 export function generateMfaSecret(): string {
   return crypto.randomBytes(20).toString('hex')
 }
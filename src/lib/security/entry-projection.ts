@@ -0,0 +1,81 @@
+import type { JournalEntry, ShareScope } from '@/types/database'
+import type { SharedEntryView } from '@/types/api'
+
+/**
+ * Entry projection.
+ *
+ * The single place that decides which of an entry's fields a share scope
+ * exposes. Responses that show a shared entry are built from projectEntry()
+ * rather than by copying entry fields, so content, mood and tags can only
+ * leave the server as part of a FULL_ACCESS view. Each view is built field by
+ * field: fields added to JournalEntry later stay out until added here.
+ */
+
+// Scopes from narrowest to broadest: each shows everything the one before it does
+export const SCOPE_RANK: Record<ShareScope, number> = {
+  NONE: 0,
+  TITLE_ONLY: 1,
+  SUMMARY_ONLY: 2,
+  FULL_ACCESS: 3
+}
+
+// The entry fields projectEntry() reads, for Prisma selects
+export const PROJECTABLE_ENTRY_FIELDS = {
+  id: true,
+  status: true,
+  wordCount: true,
+  createdAt: true,
+  updatedAt: true,
+  title: true,
+  aiSummary: true,
+  aiSummaryAt: true,
+  content: true,
+  contentHtml: true,
+  mood: true,
+  tags: true
+} as const
+
+export function projectEntry(
+  entry: Pick<JournalEntry, keyof typeof PROJECTABLE_ENTRY_FIELDS>,
+  scope: ShareScope
+): SharedEntryView {
+  const base = {
+    id: entry.id,
+    status: entry.status,
+    wordCount: entry.wordCount,
+    createdAt: entry.createdAt.toISOString(),
+    updatedAt: entry.updatedAt.toISOString()
+  }
+
+  switch (scope) {
+    case 'FULL_ACCESS':
+      return {
+        ...base,
+        scope,
+        title: entry.title,
+        aiSummary: entry.aiSummary,
+        aiSummaryAt: entry.aiSummaryAt?.toISOString() ?? null,
+        content: entry.content,
+        contentHtml: entry.contentHtml,
+        mood: entry.mood,
+        tags: entry.tags
+      }
+    case 'SUMMARY_ONLY':
+      return {
+        ...base,
+        scope,
+        title: entry.title,
+        aiSummary: entry.aiSummary,
+        aiSummaryAt: entry.aiSummaryAt?.toISOString() ?? null
+      }
+    case 'TITLE_ONLY':
+      return { ...base, scope, title: entry.title }
+    case 'NONE':
+      return { ...base, scope }
+  }
+}
+
+// The title alone, for lists that show nothing else of the entry
+export function projectEntryTitle(title: string, scope: ShareScope): string | null {
+  return scope === 'NONE' ? null : title
+}
@@ -0,0 +1,286 @@
+import { Prisma } from '@prisma/client'
+import { encryptForUser, decryptData } from '@/lib/security/key-management'
+
+/**
+ * Transparent field-level encryption for journal content at rest.
+ *
+ * Entry and version rows keep `title`, `contentHtml` and `aiSummary` as
+ * prefixed ciphertext strings, encrypted with the entry owner's data key.
+ * The TipTap JSON `content` is moved into `encryptedData` and the `content`
+ * column only holds an empty placeholder. Rows written before encryption
+ * was enabled are returned unchanged.
+ */
+
+const ENCRYPTED_PREFIX = 'enc:'
+
+// Scalar string columns encrypted in place on JournalEntry and EntryVersion
+const ENCRYPTED_STRING_FIELDS = ['title', 'contentHtml', 'aiSummary'] as const
+
+const ENCRYPTED_MODELS = new Set<string>(['JournalEntry', 'EntryVersion'])
+
+// Each model's relation fields and the models they lead to, for finding entries and versions nested in results
+const RELATIONS = new Map(
+  Prisma.dmmf.datamodel.models.map(model => [
+    model.name,
+    model.fields.filter(field => field.kind === 'object').map(field => [field.name, field.type] as const)
+  ])
+)
+
+const WRITE_OPERATIONS = new Set<string>([
+  'create',
+  'createMany',
+  'createManyAndReturn',
+  'update',
+  'updateMany',
+  'updateManyAndReturn',
+  'upsert'
+])
+
+export function isEncryptedField(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(ENCRYPTED_PREFIX)
+}
+
+// Always encrypts: text that merely starts with the prefix is still plaintext
+export async function encryptField(value: string, userId: string): Promise<string> {
+  return `${ENCRYPTED_PREFIX}${await encryptForUser(value, userId)}`
+}
+
+export async function decryptField(value: string): Promise<string> {
+  if (!isEncryptedField(value)) {
+    return value
+  }
+  return decryptData(value.slice(ENCRYPTED_PREFIX.length))
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !(value instanceof Date) &&
+    !Buffer.isBuffer(value)
+  )
+}
+
+function hasEncryptedFields(data: Record<string, unknown>): boolean {
+  return (
+    ENCRYPTED_STRING_FIELDS.some(field => data[field] !== undefined && data[field] !== null) ||
+    (data.content !== undefined && data.content !== null)
+  )
+}
+
+function connectedId(relation: unknown): string | undefined {
+  if (isPlainObject(relation) && isPlainObject(relation.connect)) {
+    const id = relation.connect.id
+    return typeof id === 'string' ? id : undefined
+  }
+  return undefined
+}
+
+/**
+ * Encrypt the sensitive fields of a single create/update payload
+ */
+async function encryptWriteData(
+  data: Record<string, unknown>,
+  ownerId: string
+): Promise<Record<string, unknown>> {
+  const result: Record<string, unknown> = { ...data }
+
+  for (const field of ENCRYPTED_STRING_FIELDS) {
+    const value = result[field]
+    if (typeof value === 'string') {
+      result[field] = await encryptField(value, ownerId)
+    } else if (isPlainObject(value) && typeof value.set === 'string') {
+      result[field] = { set: await encryptField(value.set, ownerId) }
+    }
+  }
+
+  if (result.content !== undefined && result.content !== null) {
+    result.encryptedData = await encryptField(JSON.stringify(result.content), ownerId)
+    result.content = {}
+  }
+
+  return result
+}
+
+/**
+ * Any explicit `select` asking for `content` also needs `encryptedData`,
+ * since that is where the ciphertext lives. `content` only exists on
+ * JournalEntry and EntryVersion, so nested selects can be handled by name.
+ */
+function includeEncryptedData(select: unknown): unknown {
+  if (!isPlainObject(select)) {
+    return select
+  }
+
+  const result: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(select)) {
+    if (isPlainObject(value)) {
+      result[key] = {
+        ...value,
+        ...(value.select !== undefined && { select: includeEncryptedData(value.select) }),
+        ...(value.include !== undefined && { include: includeEncryptedData(value.include) })
+      }
+    } else {
+      result[key] = value
+    }
+  }
+
+  if (result.content === true && result.encryptedData === undefined) {
+    result.encryptedData = true
+  }
+
+  return result
+}
+
+/**
+ * Walk a query result of the given model and decrypt entry and version
+ * fields, including entries and versions nested under other models via
+ * include/select. Other models' columns are left alone, even when user
+ * text in them happens to start with the prefix.
+ */
+export async function decryptResult<T>(model: string, value: T): Promise<T> {
+  if (Array.isArray(value)) {
+    return (await Promise.all(value.map(item => decryptResult(model, item)))) as T
+  }
+
+  if (!isPlainObject(value)) {
+    return value
+  }
+
+  const record = value as Record<string, unknown>
+  if (ENCRYPTED_MODELS.has(model)) {
+    for (const field of ENCRYPTED_STRING_FIELDS) {
+      const fieldValue = record[field]
+      if (isEncryptedField(fieldValue)) {
+        record[field] = await decryptField(fieldValue)
+      }
+    }
+
+    if (isEncryptedField(record.encryptedData)) {
+      record.content = JSON.parse(await decryptField(record.encryptedData))
+      // Never hand ciphertext to callers; content is the decrypted source of truth
+      record.encryptedData = null
+    }
+  }
+
+  for (const [field, relatedModel] of RELATIONS.get(model) ?? []) {
+    if (typeof record[field] === 'object' && record[field] !== null) {
+      record[field] = await decryptResult(relatedModel, record[field])
+    }
+  }
+
+  return value
+}
+
+export const fieldEncryptionExtension = Prisma.defineExtension(client => {
+  /**
+   * Entries are encrypted with their owner's key; versions with the key of
+   * the entry they belong to
+   */
+  async function resolveOwnerId(
+    model: string,
+    data: Record<string, unknown>,
+    where?: unknown
+  ): Promise<string> {
+    if (model === 'JournalEntry') {
+      const ownerId = typeof data.userId === 'string' ? data.userId : connectedId(data.user)
+      if (ownerId) return ownerId
+
+      if (isPlainObject(where)) {
+        const entry = await client.journalEntry.findUnique({
+          where: where as Prisma.JournalEntryWhereUniqueInput,
+          select: { userId: true }
+        })
+        if (entry) return entry.userId
+      }
+    } else {
+      let entryId = typeof data.entryId === 'string' ? data.entryId : connectedId(data.entry)
+      if (!entryId && isPlainObject(where)) {
+        const version = await client.entryVersion.findUnique({
+          where: where as Prisma.EntryVersionWhereUniqueInput,
+          select: { entryId: true }
+        })
+        entryId = version?.entryId
+      }
+
+      if (entryId) {
+        const entry = await client.journalEntry.findUnique({
+          where: { id: entryId },
+          select: { userId: true }
+        })
+        if (entry) return entry.userId
+      }
+    }
+
+    throw new Error(`Unable to resolve the owner of an encrypted ${model} write`)
+  }
+
+  async function encryptWriteArgs(
+    model: string,
+    operation: string,
+    args: Record<string, unknown>
+  ): Promise<Record<string, unknown>> {
+    if (operation === 'upsert') {
+      const create = isPlainObject(args.create) ? args.create : {}
+      const update = isPlainObject(args.update) ? args.update : {}
+      if (!hasEncryptedFields(create) && !hasEncryptedFields(update)) {
+        return args
+      }
+
+      const ownerId = await resolveOwnerId(model, create, args.where)
+      return {
+        ...args,
+        create: await encryptWriteData(create, ownerId),
+        update: await encryptWriteData(update, ownerId)
+      }
+    }
+
+    if (Array.isArray(args.data)) {
+      const data = await Promise.all(
+        args.data.map(async item => {
+          if (!isPlainObject(item) || !hasEncryptedFields(item)) return item
+          return encryptWriteData(item, await resolveOwnerId(model, item))
+        })
+      )
+      return { ...args, data }
+    }
+
+    if (isPlainObject(args.data) && hasEncryptedFields(args.data)) {
+      if (operation.startsWith('updateMany')) {
+        // Rows may belong to different owners, so there is no single key to use
+        throw new Error(`Bulk updates of encrypted ${model} fields are not supported`)
+      }
+
+      const ownerId = await resolveOwnerId(model, args.data, args.where)
+      return { ...args, data: await encryptWriteData(args.data, ownerId) }
+    }
+
+    return args
+  }
+
+  return client.$extends({
+    name: 'field-encryption',
+    query: {
+      $allModels: {
+        async $allOperations({ model, operation, args, query }) {
+          let nextArgs = args as Record<string, unknown>
+
+          if (ENCRYPTED_MODELS.has(model) && WRITE_OPERATIONS.has(operation)) {
+            nextArgs = await encryptWriteArgs(model, operation, nextArgs)
+          }
+
+          if (isPlainObject(nextArgs) && nextArgs.select !== undefined) {
+            nextArgs = { ...nextArgs, select: includeEncryptedData(nextArgs.select) }
+          }
+          if (isPlainObject(nextArgs) && nextArgs.include !== undefined) {
+            nextArgs = { ...nextArgs, include: includeEncryptedData(nextArgs.include) }
+          }
+
+          const result = await query(nextArgs as typeof args)
+          return decryptResult(model, result)
+        }
+      }
+    }
+  })
+})
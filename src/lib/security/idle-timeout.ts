@@ -0,0 +1,50 @@
+import { LRUCache } from 'lru-cache'
+import { db } from '@/lib/db'
+import type { UserRole } from '@/types/database'
+
+/**
+ * Automatic logoff (HIPAA §164.312(a)(2)(iii)).
+ *
+ * Idle timeouts are kept per role in SystemConfig under
+ * `session.idle_timeout.<ROLE>` as a number of minutes. Roles with access to
+ * other people's records get the shorter default.
+ */
+
+const IDLE_TIMEOUT_CONFIG_PREFIX = 'session.idle_timeout.'
+
+const DEFAULT_IDLE_TIMEOUT_MINUTES: Record<UserRole, number> = {
+  CLIENT: 30,
+  PROVIDER: 15,
+  ADMIN: 15
+}
+
+// The client locks itself at the timeout and heartbeats activity at most every
+// 30 seconds; the server allows this much slack before expiring on its own
+export const IDLE_GRACE_SECONDS = 60
+
+// Read on every authenticated request, so keep it briefly in memory
+const timeoutCache = new LRUCache<UserRole, number>({
+  max: 10,
+  ttl: 60 * 1000 // 1 minute
+})
+
+export function idleTimeoutConfigKey(role: UserRole): string {
+  return `${IDLE_TIMEOUT_CONFIG_PREFIX}${role}`
+}
+
+export async function getIdleTimeoutSeconds(role: UserRole): Promise<number> {
+  const cached = timeoutCache.get(role)
+  if (cached !== undefined) {
+    return cached
+  }
+
+  const config = await db.systemConfig.findUnique({
+    where: { key: idleTimeoutConfigKey(role) }
+  })
+
+  const minutes = config ? Number(config.value) : NaN
+  const seconds = (Number.isFinite(minutes) && minutes > 0 ? minutes : DEFAULT_IDLE_TIMEOUT_MINUTES[role]) * 60
+
+  timeoutCache.set(role, seconds)
+  return seconds
+}
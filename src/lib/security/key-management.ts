@@ -0,0 +1,657 @@
+import { LRUCache } from 'lru-cache'
+import { db } from '@/lib/db'
+import { auditSystemAction } from '@/lib/security/audit'
+import {
+  encrypt,
+  decrypt,
+  encryptWithKey,
+  decryptWithKey,
+  formatCiphertext,
+  parseCiphertext,
+  generateDataKey,
+  generateSecureToken,
+  ENV_MASTER_KEY_ID,
+  ENV_DATA_KEY_ID
+} from '@/lib/security/encryption'
+import type { Prisma } from '@prisma/client'
+import type { AuditContext } from '@/types/database'
+
+/**
+ * Envelope encryption
+ *
+ * ENCRYPTION_KEY (env) -> master keys stored encrypted in SystemConfig
+ *                      -> per-user data keys stored wrapped in UserDataKey
+ *                      -> field ciphertext tagged with the data key id
+ *
+ * Rotating a master key only re-wraps data keys. Rotating data keys issues a
+ * new key per user and re-encrypts their entries, versions, emergency access
+ * reasons and period summaries in batches.
+ */
+
+const ACTIVE_MASTER_KEY_CONFIG = 'encryption.master_key.active'
+const MASTER_KEY_CONFIG_PREFIX = 'encryption.master_key.'
+const ROTATION_PROGRESS_CONFIG = 'encryption.rotation.progress'
+
+const DEFAULT_BATCH_SIZE = 100
+
+// Unwrapped keys by key id. Key material for an id never changes, so the
+// only invalidation needed is when a key is destroyed.
+const keyCache = new LRUCache<string, Buffer>({
+  max: 1000,
+  ttl: 10 * 60 * 1000 // 10 minutes
+})
+
+function masterKeyConfigKey(masterKeyId: string): string {
+  return `${MASTER_KEY_CONFIG_PREFIX}${masterKeyId}`
+}
+
+async function createMasterKey(): Promise<string> {
+  const masterKeyId = `mk_${generateSecureToken(8)}`
+  const masterKey = generateDataKey()
+
+  await db.$transaction([
+    db.systemConfig.create({
+      data: {
+        key: masterKeyConfigKey(masterKeyId),
+        value: encrypt(masterKey.toString('base64')),
+        description: 'Master key for wrapping user data keys',
+        isEncrypted: true
+      }
+    }),
+    db.systemConfig.upsert({
+      where: { key: ACTIVE_MASTER_KEY_CONFIG },
+      create: {
+        key: ACTIVE_MASTER_KEY_CONFIG,
+        value: masterKeyId,
+        description: 'Master key used to wrap new user data keys'
+      },
+      update: { value: masterKeyId }
+    })
+  ])
+
+  keyCache.set(masterKeyId, masterKey)
+  return masterKeyId
+}
+
+async function getActiveMasterKeyId(): Promise<string> {
+  const config = await db.systemConfig.findUnique({
+    where: { key: ACTIVE_MASTER_KEY_CONFIG }
+  })
+
+  return config?.value ?? createMasterKey()
+}
+
+async function getMasterKey(masterKeyId: string): Promise<Buffer> {
+  const cached = keyCache.get(masterKeyId)
+  if (cached) {
+    return cached
+  }
+
+  const config = await db.systemConfig.findUnique({
+    where: { key: masterKeyConfigKey(masterKeyId) }
+  })
+
+  if (!config) {
+    throw new Error(`Master key ${masterKeyId} not found`)
+  }
+
+  const masterKey = Buffer.from(decrypt(config.value), 'base64')
+  keyCache.set(masterKeyId, masterKey)
+  return masterKey
+}
+
+function wrapDataKey(dataKey: Buffer, masterKeyId: string, masterKey: Buffer): string {
+  return formatCiphertext(masterKeyId, encryptWithKey(dataKey.toString('base64'), masterKey))
+}
+
+async function unwrapDataKey(wrappedKey: string): Promise<Buffer> {
+  const { keyId, payload } = parseCiphertext(wrappedKey)
+  if (!keyId) {
+    throw new Error('Wrapped data key is missing its master key id')
+  }
+
+  const masterKey = await getMasterKey(keyId)
+  return Buffer.from(decryptWithKey(payload, masterKey), 'base64')
+}
+
+async function createDataKey(userId: string): Promise<{ id: string; key: Buffer }> {
+  const masterKeyId = await getActiveMasterKeyId()
+  const masterKey = await getMasterKey(masterKeyId)
+  const dataKey = generateDataKey()
+
+  const record = await db.userDataKey.create({
+    data: {
+      userId,
+      masterKeyId,
+      wrappedKey: wrapDataKey(dataKey, masterKeyId, masterKey)
+    }
+  })
+
+  keyCache.set(record.id, dataKey)
+  return { id: record.id, key: dataKey }
+}
+
+async function getActiveDataKey(userId: string): Promise<{ id: string; key: Buffer }> {
+  // Not cached: rotation swaps the active key and writes must pick that up at once
+  const record = await db.userDataKey.findFirst({
+    where: { userId, isActive: true },
+    orderBy: { createdAt: 'desc' }
+  })
+
+  if (!record) {
+    return createDataKey(userId)
+  }
+
+  return { id: record.id, key: await getDataKeyById(record.id, record.wrappedKey) }
+}
+
+async function getDataKeyById(keyId: string, wrappedKey?: string): Promise<Buffer> {
+  const cached = keyCache.get(keyId)
+  if (cached) {
+    return cached
+  }
+
+  let wrapped = wrappedKey
+  if (!wrapped) {
+    const record = await db.userDataKey.findUnique({ where: { id: keyId } })
+    if (!record) {
+      throw new Error(`Data key ${keyId} not found`)
+    }
+    wrapped = record.wrappedKey
+  }
+
+  const dataKey = await unwrapDataKey(wrapped)
+  keyCache.set(keyId, dataKey)
+  return dataKey
+}
+
+/**
+ * Encrypt a value with the user's active data key
+ */
+export async function encryptForUser(text: string, userId: string): Promise<string> {
+  const { id, key } = await getActiveDataKey(userId)
+  return formatCiphertext(id, encryptWithKey(text, key))
+}
+
+/**
+ * Decrypt a value using the key named in its ciphertext.
+ * Unversioned and env-key ciphertext falls back to DATA_ENCRYPTION_KEY.
+ */
+export async function decryptData(ciphertext: string): Promise<string> {
+  const { keyId, payload } = parseCiphertext(ciphertext)
+
+  if (keyId === null || keyId === ENV_DATA_KEY_ID || keyId === ENV_MASTER_KEY_ID) {
+    return decrypt(ciphertext, true)
+  }
+
+  const dataKey = await getDataKeyById(keyId)
+  return decryptWithKey(payload, dataKey)
+}
+
+/**
+ * Drop unwrapped keys from the in-process cache
+ */
+export function evictDataKeys(keyIds: string[]): void {
+  keyIds.forEach(keyId => keyCache.delete(keyId))
+}
+
+/**
+ * Crypto-shred a user: delete every wrapped data key they own, so any copy
+ * of their ciphertext (backups, replicas, logs) can no longer be decrypted.
+ * Pass a transaction client to destroy the keys atomically with other
+ * deletions, then evict the returned ids once the transaction commits.
+ */
+export async function destroyUserDataKeys(
+  userId: string,
+  client: Pick<typeof db, 'userDataKey'> = db
+): Promise<string[]> {
+  const keys = await client.userDataKey.findMany({
+    where: { userId },
+    select: { id: true }
+  })
+  const keyIds = keys.map(key => key.id)
+
+  await client.userDataKey.deleteMany({ where: { userId } })
+
+  return keyIds
+}
+
+// ---------------------------------------------------------------------------
+// Rotation
+// ---------------------------------------------------------------------------
+
+export type RotationKind = 'master' | 'data'
+
+export interface RotationProgress {
+  runId: string
+  kind: RotationKind
+  phase: 'rewrap' | 'keys' | 'entries' | 'versions' | 'emergencyAccess' | 'periodSummaries' | 'cleanup' | 'complete'
+  cursor: string | null
+  processed: number
+  targetMasterKeyId?: string
+  startedAt: string
+  updatedAt: string
+}
+
+export interface RotationOptions {
+  batchSize?: number
+  onProgress?: (progress: RotationProgress) => void
+}
+
+const ROTATION_RESOURCE = 'encryption_keys'
+
+export async function getRotationProgress(): Promise<RotationProgress | null> {
+  const config = await db.systemConfig.findUnique({
+    where: { key: ROTATION_PROGRESS_CONFIG }
+  })
+
+  return config ? (JSON.parse(config.value) as RotationProgress) : null
+}
+
+async function saveRotationProgress(
+  progress: RotationProgress,
+  options: RotationOptions
+): Promise<void> {
+  progress.updatedAt = new Date().toISOString()
+
+  await db.systemConfig.upsert({
+    where: { key: ROTATION_PROGRESS_CONFIG },
+    create: {
+      key: ROTATION_PROGRESS_CONFIG,
+      value: JSON.stringify(progress),
+      description: 'Progress of the current encryption key rotation'
+    },
+    update: { value: JSON.stringify(progress) }
+  })
+
+  options.onProgress?.(progress)
+}
+
+async function advancePhase(
+  progress: RotationProgress,
+  phase: RotationProgress['phase'],
+  context: AuditContext,
+  options: RotationOptions
+): Promise<void> {
+  await auditSystemAction('UPDATE', ROTATION_RESOURCE, context, {
+    runId: progress.runId,
+    kind: progress.kind,
+    completedPhase: progress.phase,
+    processed: progress.processed
+  })
+
+  progress.phase = phase
+  progress.cursor = null
+  progress.processed = 0
+  await saveRotationProgress(progress, options)
+}
+
+/**
+ * Load an unfinished run of the same kind, or start a new one
+ */
+async function startOrResume(
+  kind: RotationKind,
+  context: AuditContext,
+  options: RotationOptions,
+  initialise: (progress: RotationProgress) => Promise<void>
+): Promise<RotationProgress> {
+  const existing = await getRotationProgress()
+
+  if (existing && existing.phase !== 'complete') {
+    if (existing.kind !== kind) {
+      throw new Error(`A ${existing.kind} key rotation (${existing.runId}) is still in progress`)
+    }
+
+    await auditSystemAction('UPDATE', ROTATION_RESOURCE, context, {
+      runId: existing.runId,
+      kind,
+      resumedAt: existing.phase,
+      cursor: existing.cursor
+    })
+    return existing
+  }
+
+  const now = new Date().toISOString()
+  const progress: RotationProgress = {
+    runId: generateSecureToken(8),
+    kind,
+    phase: kind === 'master' ? 'rewrap' : 'keys',
+    cursor: null,
+    processed: 0,
+    startedAt: now,
+    updatedAt: now
+  }
+
+  await initialise(progress)
+  await saveRotationProgress(progress, options)
+  await auditSystemAction('UPDATE', ROTATION_RESOURCE, context, {
+    runId: progress.runId,
+    kind,
+    started: true,
+    targetMasterKeyId: progress.targetMasterKeyId
+  })
+
+  return progress
+}
+
+/**
+ * Issue a new master key and re-wrap every user data key with it.
+ * Field ciphertext is untouched. Safe to re-run after an interruption.
+ */
+export async function rotateMasterKey(
+  context: AuditContext,
+  options: RotationOptions = {}
+): Promise<RotationProgress> {
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE
+
+  const progress = await startOrResume('master', context, options, async initial => {
+    initial.targetMasterKeyId = await createMasterKey()
+  })
+
+  const targetMasterKeyId = progress.targetMasterKeyId
+  if (!targetMasterKeyId) {
+    throw new Error('Master key rotation is missing its target key')
+  }
+  const targetMasterKey = await getMasterKey(targetMasterKeyId)
+
+  while (progress.phase === 'rewrap') {
+    const keys = await db.userDataKey.findMany({
+      where: {
+        masterKeyId: { not: targetMasterKeyId },
+        ...(progress.cursor && { id: { gt: progress.cursor } })
+      },
+      orderBy: { id: 'asc' },
+      take: batchSize
+    })
+
+    if (keys.length === 0) {
+      await advancePhase(progress, 'cleanup', context, options)
+      break
+    }
+
+    for (const record of keys) {
+      const dataKey = await unwrapDataKey(record.wrappedKey)
+      await db.userDataKey.update({
+        where: { id: record.id },
+        data: {
+          masterKeyId: targetMasterKeyId,
+          wrappedKey: wrapDataKey(dataKey, targetMasterKeyId, targetMasterKey),
+          rotatedAt: new Date()
+        }
+      })
+    }
+
+    progress.cursor = keys[keys.length - 1].id
+    progress.processed += keys.length
+    await saveRotationProgress(progress, options)
+  }
+
+  if (progress.phase === 'cleanup') {
+    // Retire master keys that no longer wrap anything
+    const masterConfigs = await db.systemConfig.findMany({
+      where: {
+        key: { startsWith: MASTER_KEY_CONFIG_PREFIX, not: ACTIVE_MASTER_KEY_CONFIG }
+      }
+    })
+
+    for (const config of masterConfigs) {
+      const masterKeyId = config.key.slice(MASTER_KEY_CONFIG_PREFIX.length)
+      if (masterKeyId === targetMasterKeyId) continue
+
+      const inUse = await db.userDataKey.count({ where: { masterKeyId } })
+      if (inUse === 0) {
+        await db.systemConfig.delete({ where: { id: config.id } })
+        evictDataKeys([masterKeyId])
+        progress.processed++
+      }
+    }
+
+    await advancePhase(progress, 'complete', context, options)
+  }
+
+  return progress
+}
+
+// Field ciphertext is stored as `enc:<versioned ciphertext>` (see field-encryption.ts)
+const FIELD_PREFIX = 'enc:'
+
+function encryptedWithKey(keyId: string): Prisma.StringFilter {
+  return { startsWith: `${FIELD_PREFIX}${formatCiphertext(keyId, '')}` }
+}
+
+/**
+ * Re-encrypt a field encrypted outside the Prisma extension (emergency
+ * access reasons, period summaries) with the user's active data key
+ */
+async function reencryptField(value: string, userId: string): Promise<string> {
+  const plaintext = value.startsWith(FIELD_PREFIX) ? await decryptData(value.slice(FIELD_PREFIX.length)) : value
+  return `${FIELD_PREFIX}${await encryptForUser(plaintext, userId)}`
+}
+
+async function countRowsUsingKey(keyId: string): Promise<number> {
+  const filter = encryptedWithKey(keyId)
+  const [entries, versions, emergencyAccesses, periodSummaries] = await Promise.all([
+    db.journalEntry.count({
+      where: {
+        OR: [
+          { title: filter },
+          { contentHtml: filter },
+          { aiSummary: filter },
+          { encryptedData: filter }
+        ]
+      }
+    }),
+    db.entryVersion.count({
+      where: {
+        OR: [{ title: filter }, { contentHtml: filter }, { encryptedData: filter }]
+      }
+    }),
+    db.emergencyAccess.count({ where: { reason: filter } }),
+    db.periodSummary.count({
+      where: {
+        OR: [{ summary: filter }, { entrySummaries: filter }]
+      }
+    })
+  ])
+
+  return entries + versions + emergencyAccesses + periodSummaries
+}
+
+/**
+ * Issue a new data key for every user and re-encrypt entries, versions,
+ * emergency access reasons and period summaries with it. Rows still encrypted with the env data key are migrated too.
+ * Old keys are destroyed only once no row references them.
+ */
+export async function rotateDataKeys(
+  context: AuditContext,
+  options: RotationOptions = {}
+): Promise<RotationProgress> {
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE
+  const progress = await startOrResume('data', context, options, async () => {})
+
+  while (progress.phase === 'keys') {
+    const users = await db.user.findMany({
+      where: {
+        OR: [{ entries: { some: {} } }, { dataKeys: { some: {} } }],
+        ...(progress.cursor && { id: { gt: progress.cursor } })
+      },
+      select: { id: true },
+      orderBy: { id: 'asc' },
+      take: batchSize
+    })
+
+    if (users.length === 0) {
+      await advancePhase(progress, 'entries', context, options)
+      break
+    }
+
+    for (const user of users) {
+      await db.userDataKey.updateMany({
+        where: { userId: user.id, isActive: true },
+        data: { isActive: false, rotatedAt: new Date() }
+      })
+      await createDataKey(user.id)
+    }
+
+    progress.cursor = users[users.length - 1].id
+    progress.processed += users.length
+    await saveRotationProgress(progress, options)
+  }
+
+  while (progress.phase === 'entries') {
+    // Reads come back decrypted and writes re-encrypt with the active key
+    const entries = await db.journalEntry.findMany({
+      where: progress.cursor ? { id: { gt: progress.cursor } } : {},
+      select: {
+        id: true,
+        title: true,
+        content: true,
+        contentHtml: true,
+        aiSummary: true,
+        updatedAt: true
+      },
+      orderBy: { id: 'asc' },
+      take: batchSize
+    })
+
+    if (entries.length === 0) {
+      await advancePhase(progress, 'versions', context, options)
+      break
+    }
+
+    for (const entry of entries) {
+      await db.journalEntry.update({
+        where: { id: entry.id },
+        data: {
+          title: entry.title,
+          content: entry.content as Prisma.InputJsonValue,
+          contentHtml: entry.contentHtml,
+          aiSummary: entry.aiSummary,
+          // Re-encryption is not an edit
+          updatedAt: entry.updatedAt
+        }
+      })
+    }
+
+    progress.cursor = entries[entries.length - 1].id
+    progress.processed += entries.length
+    await saveRotationProgress(progress, options)
+  }
+
+  while (progress.phase === 'versions') {
+    const versions = await db.entryVersion.findMany({
+      where: progress.cursor ? { id: { gt: progress.cursor } } : {},
+      select: { id: true, title: true, content: true, contentHtml: true },
+      orderBy: { id: 'asc' },
+      take: batchSize
+    })
+
+    if (versions.length === 0) {
+      await advancePhase(progress, 'emergencyAccess', context, options)
+      break
+    }
+
+    for (const version of versions) {
+      await db.entryVersion.update({
+        where: { id: version.id },
+        data: {
+          title: version.title,
+          content: version.content as Prisma.InputJsonValue,
+          contentHtml: version.contentHtml
+        }
+      })
+    }
+
+    progress.cursor = versions[versions.length - 1].id
+    progress.processed += versions.length
+    await saveRotationProgress(progress, options)
+  }
+
+  // Encrypted with the client's key by emergency-access.ts, not the Prisma extension
+  while (progress.phase === 'emergencyAccess') {
+    const accesses = await db.emergencyAccess.findMany({
+      where: progress.cursor ? { id: { gt: progress.cursor } } : {},
+      select: { id: true, clientId: true, reason: true },
+      orderBy: { id: 'asc' },
+      take: batchSize
+    })
+
+    if (accesses.length === 0) {
+      await advancePhase(progress, 'periodSummaries', context, options)
+      break
+    }
+
+    for (const access of accesses) {
+      await db.emergencyAccess.update({
+        where: { id: access.id },
+        data: { reason: await reencryptField(access.reason, access.clientId) }
+      })
+    }
+
+    progress.cursor = accesses[accesses.length - 1].id
+    progress.processed += accesses.length
+    await saveRotationProgress(progress, options)
+  }
+
+  // Likewise encrypted with the client's key, by HierarchicalSummaryService
+  while (progress.phase === 'periodSummaries') {
+    const summaries = await db.periodSummary.findMany({
+      where: progress.cursor ? { id: { gt: progress.cursor } } : {},
+      select: { id: true, clientId: true, summary: true, entrySummaries: true, updatedAt: true },
+      orderBy: { id: 'asc' },
+      take: batchSize
+    })
+
+    if (summaries.length === 0) {
+      await advancePhase(progress, 'cleanup', context, options)
+      break
+    }
+
+    for (const summary of summaries) {
+      await db.periodSummary.update({
+        where: { id: summary.id },
+        data: {
+          summary: await reencryptField(summary.summary, summary.clientId),
+          entrySummaries: await reencryptField(summary.entrySummaries, summary.clientId),
+          // Re-encryption is not a new summary
+          updatedAt: summary.updatedAt
+        }
+      })
+    }
+
+    progress.cursor = summaries[summaries.length - 1].id
+    progress.processed += summaries.length
+    await saveRotationProgress(progress, options)
+  }
+
+  while (progress.phase === 'cleanup') {
+    const retiredKeys = await db.userDataKey.findMany({
+      where: {
+        isActive: false,
+        ...(progress.cursor && { id: { gt: progress.cursor } })
+      },
+      select: { id: true },
+      orderBy: { id: 'asc' },
+      take: batchSize
+    })
+
+    if (retiredKeys.length === 0) {
+      await advancePhase(progress, 'complete', context, options)
+      break
+    }
+
+    for (const { id } of retiredKeys) {
+      // Anything written with the old key mid-rotation keeps it alive until the next run
+      if ((await countRowsUsingKey(id)) === 0) {
+        await db.userDataKey.delete({ where: { id } })
+        evictDataKeys([id])
+      }
+    }
+
+    progress.cursor = retiredKeys[retiredKeys.length - 1].id
+    progress.processed += retiredKeys.length
+    await saveRotationProgress(progress, options)
+  }
+
+  return progress
+}
@@ -0,0 +1,218 @@
+import QRCode from 'qrcode'
+import { db } from '@/lib/db'
+import { auditUserAction } from '@/lib/security/audit'
+import { encrypt, decrypt, hash, generateMfaSecret, generateSecureToken } from '@/lib/security/encryption'
+import { buildOtpauthUri, toBase32, verifyTotp } from '@/lib/security/totp'
+import type { AuditContext, User, UserRole } from '@/types/database'
+import type { MfaEnrollmentResponse, MfaStatusResponse } from '@/types/api'
+
+const RECOVERY_CODE_COUNT = 10
+
+export type MfaMethod = 'totp' | 'recovery_code'
+
+/**
+ * Roles that may not sign in without a second factor
+ */
+export function isMfaRequired(role: UserRole): boolean {
+  return role === 'PROVIDER' || role === 'ADMIN'
+}
+
+// Recovery codes are shown as xxxxx-xxxxx; match regardless of case, spaces or dashes
+function normalizeRecoveryCode(code: string): string {
+  return code.replace(/[\s-]/g, '').toLowerCase()
+}
+
+function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = generateSecureToken(5)
+    return `${code.slice(0, 5)}-${code.slice(5)}`
+  })
+}
+
+async function replaceRecoveryCodes(userId: string): Promise<string[]> {
+  const codes = generateRecoveryCodes()
+
+  await db.$transaction([
+    db.mfaRecoveryCode.deleteMany({ where: { userId } }),
+    db.mfaRecoveryCode.createMany({
+      data: codes.map(code => ({ userId, codeHash: hash(normalizeRecoveryCode(code)) }))
+    })
+  ])
+
+  return codes
+}
+
+async function getMfaUser(userId: string): Promise<Pick<User, 'id' | 'email' | 'role' | 'mfaEnabled' | 'mfaSecret' | 'mfaLastUsedStep'>> {
+  const user = await db.user.findUnique({
+    where: { id: userId },
+    select: { id: true, email: true, role: true, mfaEnabled: true, mfaSecret: true, mfaLastUsedStep: true }
+  })
+
+  if (!user) {
+    throw new Error('User not found')
+  }
+
+  return user
+}
+
+export async function getMfaStatus(userId: string): Promise<MfaStatusResponse> {
+  const user = await getMfaUser(userId)
+  const recoveryCodesRemaining = await db.mfaRecoveryCode.count({
+    where: { userId, usedAt: null }
+  })
+
+  return {
+    enabled: user.mfaEnabled,
+    required: isMfaRequired(user.role),
+    recoveryCodesRemaining
+  }
+}
+
+/**
+ * Generate a new secret and store it, still disabled, until the user proves
+ * their authenticator works with confirmMfaEnrollment()
+ */
+export async function beginMfaEnrollment(
+  userId: string,
+  context: AuditContext
+): Promise<MfaEnrollmentResponse> {
+  const user = await getMfaUser(userId)
+
+  if (user.mfaEnabled) {
+    throw new Error('Two-factor authentication is already enabled')
+  }
+
+  const secret = generateMfaSecret()
+  await db.user.update({
+    where: { id: userId },
+    data: { mfaSecret: encrypt(secret), mfaLastUsedStep: null }
+  })
+
+  const otpauthUri = buildOtpauthUri(secret, user.email)
+
+  await auditUserAction(userId, 'UPDATE', context, { mfa: 'enrollment_started' })
+
+  return {
+    otpauthUri,
+    qrCodeDataUrl: await QRCode.toDataURL(otpauthUri),
+    secret: toBase32(Buffer.from(secret, 'hex'))
+  }
+}
+
+/**
+ * Turn MFA on once the user enters a valid code for the pending secret.
+ * Returns the recovery codes, which are only ever shown this once.
+ */
+export async function confirmMfaEnrollment(
+  userId: string,
+  code: string,
+  context: AuditContext
+): Promise<string[]> {
+  const user = await getMfaUser(userId)
+
+  if (user.mfaEnabled) {
+    throw new Error('Two-factor authentication is already enabled')
+  }
+  if (!user.mfaSecret) {
+    throw new Error('Start enrollment before confirming a code')
+  }
+
+  const step = verifyTotp(decrypt(user.mfaSecret), code)
+  if (step === null) {
+    throw new Error('Invalid verification code')
+  }
+
+  await db.user.update({
+    where: { id: userId },
+    data: { mfaEnabled: true, mfaLastUsedStep: step }
+  })
+  const recoveryCodes = await replaceRecoveryCodes(userId)
+
+  await auditUserAction(userId, 'UPDATE', context, { mfa: 'enabled' })
+
+  return recoveryCodes
+}
+
+/**
+ * Check a sign-in code, which may be a TOTP code or an unused recovery code.
+ * Either kind is consumed on success so it cannot be replayed.
+ */
+export async function verifyMfaCode(
+  user: Pick<User, 'id' | 'mfaSecret' | 'mfaLastUsedStep'>,
+  code: string
+): Promise<MfaMethod | null> {
+  if (user.mfaSecret) {
+    const step = verifyTotp(decrypt(user.mfaSecret), code, { lastUsedStep: user.mfaLastUsedStep })
+    if (step !== null) {
+      // Conditional update so two concurrent logins can't both spend the same code
+      const { count } = await db.user.updateMany({
+        where: {
+          id: user.id,
+          OR: [{ mfaLastUsedStep: null }, { mfaLastUsedStep: { lt: step } }]
+        },
+        data: { mfaLastUsedStep: step }
+      })
+      return count === 1 ? 'totp' : null
+    }
+  }
+
+  const normalized = normalizeRecoveryCode(code)
+  if (!normalized) {
+    return null
+  }
+
+  const { count } = await db.mfaRecoveryCode.updateMany({
+    where: { userId: user.id, codeHash: hash(normalized), usedAt: null },
+    data: { usedAt: new Date() }
+  })
+
+  return count > 0 ? 'recovery_code' : null
+}
+
+async function requireValidCode(userId: string, code: string): Promise<Pick<User, 'id' | 'role'>> {
+  const user = await getMfaUser(userId)
+
+  if (!user.mfaEnabled) {
+    throw new Error('Two-factor authentication is not enabled')
+  }
+  if (!(await verifyMfaCode(user, code))) {
+    throw new Error('Invalid verification code')
+  }
+
+  return user
+}
+
+export async function regenerateRecoveryCodes(
+  userId: string,
+  code: string,
+  context: AuditContext
+): Promise<string[]> {
+  await requireValidCode(userId, code)
+  const recoveryCodes = await replaceRecoveryCodes(userId)
+
+  await auditUserAction(userId, 'UPDATE', context, { mfa: 'recovery_codes_regenerated' })
+
+  return recoveryCodes
+}
+
+export async function disableMfa(
+  userId: string,
+  code: string,
+  context: AuditContext
+): Promise<void> {
+  const user = await requireValidCode(userId, code)
+
+  if (isMfaRequired(user.role)) {
+    throw new Error('Two-factor authentication is required for your role')
+  }
+
+  await db.$transaction([
+    db.user.update({
+      where: { id: userId },
+      data: { mfaEnabled: false, mfaSecret: null, mfaLastUsedStep: null }
+    }),
+    db.mfaRecoveryCode.deleteMany({ where: { userId } })
+  ])
+
+  await auditUserAction(userId, 'UPDATE', context, { mfa: 'disabled' })
+}
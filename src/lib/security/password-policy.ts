@@ -0,0 +1,99 @@
+import type { PasswordPolicy } from '@/types/api'
+
+/**
+ * Password and lockout rules.
+ *
+ * Everything here is pure so the register page can run the same checks as
+ * the server while the user types. Loading the policy from SystemConfig and
+ * the checks that need the database (history, breached list) live in
+ * lib/security/password.ts.
+ */
+
+export interface LockoutPolicy {
+  // Failed attempts allowed before the account locks
+  maxAttempts: number
+  // First lockout; each further failure doubles it
+  baseLockoutMinutes: number
+  maxLockoutMinutes: number
+}
+
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  minLength: 12,
+  requireLowercase: true,
+  requireUppercase: true,
+  requireNumber: true,
+  requireSymbol: true,
+  maxAgeDays: 0,
+  historyDepth: 5,
+  breachedCheck: true
+}
+
+export const DEFAULT_LOCKOUT_POLICY: LockoutPolicy = {
+  maxAttempts: 5,
+  baseLockoutMinutes: 15,
+  maxLockoutMinutes: 24 * 60
+}
+
+export interface PasswordRuleResult {
+  rule: 'length' | 'lowercase' | 'uppercase' | 'number' | 'symbol'
+  label: string
+  met: boolean
+}
+
+export function checkPasswordRules(password: string, policy: PasswordPolicy): PasswordRuleResult[] {
+  return [
+    { rule: 'length' as const, label: `At least ${policy.minLength} characters`, met: password.length >= policy.minLength },
+    ...(policy.requireLowercase ? [{ rule: 'lowercase' as const, label: 'A lowercase letter', met: /[a-z]/.test(password) }] : []),
+    ...(policy.requireUppercase ? [{ rule: 'uppercase' as const, label: 'An uppercase letter', met: /[A-Z]/.test(password) }] : []),
+    ...(policy.requireNumber ? [{ rule: 'number' as const, label: 'A number', met: /\d/.test(password) }] : []),
+    ...(policy.requireSymbol ? [{ rule: 'symbol' as const, label: 'A symbol', met: /[^A-Za-z0-9]/.test(password) }] : [])
+  ]
+}
+
+// The first unmet rule as a sentence, or null if the password satisfies them all
+export function passwordRuleError(password: string, policy: PasswordPolicy): string | null {
+  const unmet = checkPasswordRules(password, policy).find(result => !result.met)
+  if (!unmet) {
+    return null
+  }
+
+  return unmet.rule === 'length'
+    ? `Password must be at least ${policy.minLength} characters`
+    : `Password must contain ${unmet.label.toLowerCase()}`
+}
+
+/**
+ * A rough 0-4 score for the strength meter: length beyond the minimum and
+ * variety of characters count, repeated characters count against. Only the
+ * rules decide whether a password is accepted.
+ */
+export function passwordStrength(password: string, policy: PasswordPolicy): number {
+  if (!password) {
+    return 0
+  }
+
+  const classes = [/[a-z]/, /[A-Z]/, /\d/, /[^A-Za-z0-9]/].filter(pattern => pattern.test(password)).length
+  const uniqueRatio = new Set(password).size / password.length
+
+  let score = 0
+  if (password.length >= policy.minLength) score++
+  if (password.length >= policy.minLength + 4) score++
+  if (classes >= 3) score++
+  if (classes === 4 && uniqueRatio > 0.6) score++
+
+  return passwordRuleError(password, policy) ? Math.min(score, 1) : score
+}
+
+/**
+ * How long to lock an account after its latest failed sign-in, or null to
+ * leave it open. The lockout doubles with each failure past the limit, so
+ * guessing slows down sharply without locking a forgetful user out for long.
+ */
+export function lockoutDurationMs(failedAttempts: number, policy: LockoutPolicy): number | null {
+  if (failedAttempts < policy.maxAttempts) {
+    return null
+  }
+
+  const minutes = policy.baseLockoutMinutes * 2 ** (failedAttempts - policy.maxAttempts)
+  return Math.min(minutes, policy.maxLockoutMinutes) * 60 * 1000
+}
@@ -0,0 +1,185 @@
+import { compare } from 'bcryptjs'
+import { LRUCache } from 'lru-cache'
+import { db } from '@/lib/db'
+import { isBreachedPassword } from '@/lib/security/breached-passwords'
+import {
+  DEFAULT_LOCKOUT_POLICY,
+  DEFAULT_PASSWORD_POLICY,
+  passwordRuleError,
+  type LockoutPolicy
+} from '@/lib/security/password-policy'
+import type { PasswordPolicy } from '@/types/api'
+import type { User } from '@/types/database'
+
+/**
+ * Password and lockout policy as configured in SystemConfig, and the checks
+ * every new password goes through, whether chosen at registration, on
+ * change or from a reset link.
+ *
+ * Settings (defaults in lib/security/password-policy.ts):
+ *   password.min_length, password.require_lowercase, password.require_uppercase,
+ *   password.require_number, password.require_symbol, password.max_age_days,
+ *   password.history_depth, password.breached_check,
+ *   lockout.max_attempts, lockout.base_minutes, lockout.max_minutes
+ */
+
+// Below this even an admin-configured minimum is ignored
+const MIN_PASSWORD_LENGTH_FLOOR = 8
+
+// The user-facing message is the reason the password was refused
+export class PasswordPolicyError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PasswordPolicyError'
+  }
+}
+
+interface Policies {
+  password: PasswordPolicy
+  lockout: LockoutPolicy
+}
+
+// Read on every sign-in and password change, so keep it briefly in memory
+const policyCache = new LRUCache<'policies', Policies>({
+  max: 1,
+  ttl: 60 * 1000 // 1 minute
+})
+
+async function loadPolicies(): Promise<Policies> {
+  const cached = policyCache.get('policies')
+  if (cached) {
+    return cached
+  }
+
+  const configs = await db.systemConfig.findMany({
+    where: { OR: [{ key: { startsWith: 'password.' } }, { key: { startsWith: 'lockout.' } }] }
+  })
+  const values = new Map(configs.map(config => [config.key, config.value.trim().toLowerCase()]))
+
+  const integer = (key: string, fallback: number, min: number): number => {
+    const value = Number(values.get(key))
+    return values.has(key) && Number.isInteger(value) && value >= min ? value : fallback
+  }
+  const flag = (key: string, fallback: boolean): boolean => {
+    const value = values.get(key)
+    return value === 'true' ? true : value === 'false' ? false : fallback
+  }
+
+  const policies: Policies = {
+    password: {
+      minLength: integer('password.min_length', DEFAULT_PASSWORD_POLICY.minLength, MIN_PASSWORD_LENGTH_FLOOR),
+      requireLowercase: flag('password.require_lowercase', DEFAULT_PASSWORD_POLICY.requireLowercase),
+      requireUppercase: flag('password.require_uppercase', DEFAULT_PASSWORD_POLICY.requireUppercase),
+      requireNumber: flag('password.require_number', DEFAULT_PASSWORD_POLICY.requireNumber),
+      requireSymbol: flag('password.require_symbol', DEFAULT_PASSWORD_POLICY.requireSymbol),
+      maxAgeDays: integer('password.max_age_days', DEFAULT_PASSWORD_POLICY.maxAgeDays, 0),
+      historyDepth: integer('password.history_depth', DEFAULT_PASSWORD_POLICY.historyDepth, 0),
+      breachedCheck: flag('password.breached_check', DEFAULT_PASSWORD_POLICY.breachedCheck)
+    },
+    lockout: {
+      maxAttempts: integer('lockout.max_attempts', DEFAULT_LOCKOUT_POLICY.maxAttempts, 1),
+      baseLockoutMinutes: integer('lockout.base_minutes', DEFAULT_LOCKOUT_POLICY.baseLockoutMinutes, 1),
+      maxLockoutMinutes: integer('lockout.max_minutes', DEFAULT_LOCKOUT_POLICY.maxLockoutMinutes, 1)
+    }
+  }
+
+  policyCache.set('policies', policies)
+  return policies
+}
+
+export async function getPasswordPolicy(): Promise<PasswordPolicy> {
+  return (await loadPolicies()).password
+}
+
+export async function getLockoutPolicy(): Promise<LockoutPolicy> {
+  return (await loadPolicies()).lockout
+}
+
+type PasswordHistoryClient = Pick<typeof db, 'user' | 'passwordHistory'>
+
+async function isPasswordReused(
+  userId: string,
+  password: string,
+  depth: number,
+  client: PasswordHistoryClient
+): Promise<boolean> {
+  const [user, history] = await Promise.all([
+    client.user.findUnique({ where: { id: userId }, select: { hashedPassword: true } }),
+    client.passwordHistory.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      take: depth,
+      select: { hashedPassword: true }
+    })
+  ])
+
+  // The current hash covers accounts that predate the history table
+  const hashes = new Set([user?.hashedPassword, ...history.map(entry => entry.hashedPassword)])
+  for (const hashed of hashes) {
+    if (hashed && await compare(password, hashed)) {
+      return true
+    }
+  }
+
+  return false
+}
+
+/**
+ * Throw PasswordPolicyError if the password breaks a rule, is on the
+ * breached list, or (given the user) repeats one of their recent passwords.
+ */
+export async function enforcePasswordPolicy(
+  password: string,
+  userId?: string,
+  client: PasswordHistoryClient = db
+): Promise<void> {
+  const policy = await getPasswordPolicy()
+
+  const ruleError = passwordRuleError(password, policy)
+  if (ruleError) {
+    throw new PasswordPolicyError(ruleError)
+  }
+
+  if (policy.breachedCheck && await isBreachedPassword(password)) {
+    throw new PasswordPolicyError('This password has appeared in a data breach; choose a different one')
+  }
+
+  if (userId && policy.historyDepth > 0 && await isPasswordReused(userId, password, policy.historyDepth, client)) {
+    throw new PasswordPolicyError(`Password must not match any of your last ${policy.historyDepth} passwords`)
+  }
+}
+
+// Call whenever a password is set, keeping only what the reuse check reads
+export async function recordPasswordHistory(
+  userId: string,
+  hashedPassword: string,
+  client: PasswordHistoryClient = db
+): Promise<void> {
+  const { historyDepth } = await getPasswordPolicy()
+
+  await client.passwordHistory.create({ data: { userId, hashedPassword } })
+
+  const stale = await client.passwordHistory.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'desc' },
+    skip: historyDepth,
+    select: { id: true }
+  })
+
+  if (stale.length > 0) {
+    await client.passwordHistory.deleteMany({ where: { id: { in: stale.map(entry => entry.id) } } })
+  }
+}
+
+// Accounts from before passwordChangedAt was tracked age from their creation
+export function isPasswordExpired(
+  user: Pick<User, 'passwordChangedAt' | 'createdAt'>,
+  policy: PasswordPolicy
+): boolean {
+  if (policy.maxAgeDays <= 0) {
+    return false
+  }
+
+  const changedAt = user.passwordChangedAt ?? user.createdAt
+  return Date.now() - changedAt.getTime() > policy.maxAgeDays * 24 * 60 * 60 * 1000
+}
@@ -1,82 +1,347 @@
 import { LRUCache } from 'lru-cache'
+import type { Redis } from 'ioredis'
 import type { NextRequest } from 'next/server'
 
+/**
+ * Rate limiting for API routes, middleware and sign-in.
+ *
+ * Counters live in whichever RateLimitStore is installed: RATE_LIMIT_STORE=postgres
+ * keeps them in the `rate_limit_buckets` table and RATE_LIMIT_STORE=redis in
+ * Redis at REDIS_URL, so limits hold across instances and restarts; anything
+ * else keeps them in this process's memory. A deployment or test can install
+ * its own with setRateLimitStore().
+ *
+ * Each limit counts with a sliding window (default) or a token bucket. The
+ * algorithms are pure functions of the stored state, so a store only has to
+ * make read-modify-write of one key atomic.
+ */
+
+export type RateLimitAlgorithm = 'sliding-window' | 'token-bucket'
+
 interface RateLimitOptions {
   // Number of requests allowed
   max: number
-  // Time window in milliseconds  
+  // Time window in milliseconds
   windowMs: number
+  // Sliding window unless stated; a token bucket allows bursts of up to max
+  algorithm?: RateLimitAlgorithm
   // Optional custom key generator
   keyGenerator?: (req: NextRequest) => string
 }
 
-interface RateLimitInfo {
-  count: number
+export interface RateLimitResult {
+  allowed: boolean
+  remaining: number
+  // When allowed, the end of the current window; when not, the earliest a retry can succeed
   resetTime: number
 }
 
-// Create separate caches for different endpoints
-const caches = new Map<string, LRUCache<string, RateLimitInfo>>()
+// Plain numbers, so every store can keep it as JSON
+export type RateLimitState = Record<string, number>
+
+export interface RateLimitTransition {
+  state: RateLimitState
+  result: RateLimitResult
+}
+
+export interface RateLimitStore {
+  /**
+   * Replace the state under key with transition(current), atomically with
+   * respect to every other caller sharing the store. `current` is null when
+   * there is no state or it has expired. The transition may be retried, so it
+   * must not have side effects.
+   */
+  update(
+    key: string,
+    ttlMs: number,
+    transition: (current: RateLimitState | null) => RateLimitTransition
+  ): Promise<RateLimitResult>
+}
+
+/**
+ * Approximates a true sliding window from two fixed ones: the previous
+ * window's count weighted by how much of it still overlaps, plus the current
+ * count. Refused requests aren't counted, so a client that keeps retrying
+ * gets in as soon as the window has moved on.
+ */
+function slidingWindow(
+  current: RateLimitState | null,
+  now: number,
+  { max, windowMs }: RateLimitOptions
+): RateLimitTransition {
+  const windowStart = Math.floor(now / windowMs) * windowMs
+  let count = 0
+  let previousCount = 0
+
+  if (current?.windowStart === windowStart) {
+    count = current.count
+    previousCount = current.previousCount
+  } else if (current?.windowStart === windowStart - windowMs) {
+    previousCount = current.count
+  }
+
+  const overlap = 1 - (now - windowStart) / windowMs
+  const used = previousCount * overlap + count
+
+  if (used + 1 <= max) {
+    return {
+      state: { windowStart, count: count + 1, previousCount },
+      result: { allowed: true, remaining: Math.max(0, Math.floor(max - used - 1)), resetTime: windowStart + windowMs }
+    }
+  }
+
+  // Solve for the overlap at which one more request fits
+  const retryAt = count + 1 <= max
+    ? windowStart + (1 - (max - 1 - count) / previousCount) * windowMs
+    : windowStart + windowMs + (1 - (max - 1) / count) * windowMs
+
+  return {
+    state: { windowStart, count, previousCount },
+    result: { allowed: false, remaining: 0, resetTime: Math.ceil(Math.max(retryAt, now)) }
+  }
+}
+
+// A bucket of max tokens that refills completely over windowMs
+function tokenBucket(
+  current: RateLimitState | null,
+  now: number,
+  { max, windowMs }: RateLimitOptions
+): RateLimitTransition {
+  const refillPerMs = max / windowMs
+  const elapsed = current ? Math.max(0, now - current.updatedAt) : 0
+  const tokens = current ? Math.min(max, current.tokens + elapsed * refillPerMs) : max
 
-function getCache(namespace: string, maxSize: number = 500): LRUCache<string, RateLimitInfo> {
-  if (!caches.has(namespace)) {
-    caches.set(namespace, new LRUCache<string, RateLimitInfo>({
-      max: maxSize,
-      ttl: 15 * 60 * 1000, // 15 minutes TTL
-    }))
+  if (tokens >= 1) {
+    return {
+      state: { tokens: tokens - 1, updatedAt: now },
+      result: {
+        allowed: true,
+        remaining: Math.floor(tokens - 1),
+        resetTime: Math.ceil(now + (max - tokens + 1) / refillPerMs)
+      }
+    }
+  }
+
+  return {
+    state: { tokens, updatedAt: now },
+    result: { allowed: false, remaining: 0, resetTime: Math.ceil(now + (1 - tokens) / refillPerMs) }
+  }
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly cache = new LRUCache<string, RateLimitState>({ max: 10000 })
+
+  async update(
+    key: string,
+    ttlMs: number,
+    transition: (current: RateLimitState | null) => RateLimitTransition
+  ): Promise<RateLimitResult> {
+    const { state, result } = transition(this.cache.get(key) ?? null)
+    this.cache.set(key, state, { ttl: ttlMs })
+    return result
   }
-  return caches.get(namespace)!
+}
+
+// How often an instance clears out expired rows
+const POSTGRES_SWEEP_INTERVAL_MS = 60 * 1000
+
+export class PostgresRateLimitStore implements RateLimitStore {
+  private lastSweep = 0
+
+  async update(
+    key: string,
+    ttlMs: number,
+    transition: (current: RateLimitState | null) => RateLimitTransition
+  ): Promise<RateLimitResult> {
+    // Loaded here so the memory and Redis stores don't pull Prisma into middleware
+    const { db } = await import('@/lib/db')
+
+    const result = await db.$transaction(async tx => {
+      // Make sure there is a row to lock, then hold it until the new state is written
+      await tx.$executeRaw`
+        INSERT INTO rate_limit_buckets (key, state, "expiresAt")
+        VALUES (${key}, '{}'::jsonb, now())
+        ON CONFLICT (key) DO NOTHING`
+      const [row] = await tx.$queryRaw<Array<{ state: RateLimitState; expiresAt: Date }>>`
+        SELECT state, "expiresAt" FROM rate_limit_buckets WHERE key = ${key} FOR UPDATE`
+
+      const now = new Date()
+      const next = transition(row && row.expiresAt > now ? row.state : null)
+      await tx.rateLimitBucket.update({
+        where: { key },
+        data: { state: next.state, expiresAt: new Date(now.getTime() + ttlMs) }
+      })
+
+      return next.result
+    })
+
+    if (Date.now() - this.lastSweep > POSTGRES_SWEEP_INTERVAL_MS) {
+      this.lastSweep = Date.now()
+      await db.rateLimitBucket.deleteMany({ where: { expiresAt: { lt: new Date() } } })
+    }
+
+    return result
+  }
+}
+
+// Write ARGV[2] only if the key still holds ARGV[1] ('' meaning absent)
+const REDIS_COMPARE_AND_SET = `
+local current = redis.call('GET', KEYS[1])
+if (current or '') ~= ARGV[1] then
+  return 0
+end
+redis.call('SET', KEYS[1], ARGV[2], 'PX', ARGV[3])
+return 1`
+
+const REDIS_MAX_ATTEMPTS = 5
+
+export class RedisRateLimitStore implements RateLimitStore {
+  private client: Promise<Redis> | null = null
+
+  constructor(private readonly url: string) {}
+
+  private connect(): Promise<Redis> {
+    // Only deployments that choose Redis need the client installed
+    this.client ??= import('ioredis').then(({ Redis }) => new Redis(this.url, { maxRetriesPerRequest: 1 }))
+    return this.client
+  }
+
+  async update(
+    key: string,
+    ttlMs: number,
+    transition: (current: RateLimitState | null) => RateLimitTransition
+  ): Promise<RateLimitResult> {
+    const redis = await this.connect()
+    const redisKey = `ratelimit:${key}`
+
+    // Optimistic: if another instance wrote in between, start again from its state
+    for (let attempt = 0; attempt < REDIS_MAX_ATTEMPTS; attempt++) {
+      const stored = await redis.get(redisKey)
+      const next = transition(stored ? JSON.parse(stored) as RateLimitState : null)
+      const written = await redis.eval(
+        REDIS_COMPARE_AND_SET, 1, redisKey, stored ?? '', JSON.stringify(next.state), String(ttlMs)
+      )
+
+      if (written === 1) {
+        return next.result
+      }
+    }
+
+    throw new Error(`Rate limit state for ${key} kept changing under contention`)
+  }
+}
+
+let installedStore: RateLimitStore | null = null
+
+function createRateLimitStore(): RateLimitStore {
+  switch (process.env.RATE_LIMIT_STORE) {
+    case 'postgres':
+      return new PostgresRateLimitStore()
+    case 'redis':
+      return new RedisRateLimitStore(process.env.REDIS_URL || 'redis://localhost:6379')
+    default:
+      return new MemoryRateLimitStore()
+  }
+}
+
+export function getRateLimitStore(): RateLimitStore {
+  installedStore ??= createRateLimitStore()
+  return installedStore
+}
+
+export function setRateLimitStore(store: RateLimitStore): void {
+  installedStore = store
+}
+
+// Give back one request counted earlier, e.g. a sign-in attempt that turned out not to be a failure
+function refund(current: RateLimitState, options: RateLimitOptions): RateLimitState {
+  return options.algorithm === 'token-bucket'
+    ? { ...current, tokens: Math.min(options.max, current.tokens + 1) }
+    : { ...current, count: Math.max(0, current.count - 1) }
 }
 
 /**
- * Simple rate limiting middleware for API routes
- * Uses in-memory LRU cache (resets on server restart)
- * For production, consider Redis or database-backed solution
+ * Count one request against the limit under key, or with `refund` give one
+ * back. If the store can't be reached the request is allowed: an outage of
+ * the counters shouldn't take the whole API down with it, and lockout still
+ * guards sign-in.
+ */
+async function applyRateLimit(
+  key: string,
+  options: RateLimitOptions,
+  mode: 'consume' | 'refund'
+): Promise<RateLimitResult> {
+  const algorithm = options.algorithm === 'token-bucket' ? tokenBucket : slidingWindow
+  // The sliding window still reads the previous window's count
+  const ttlMs = options.algorithm === 'token-bucket' ? options.windowMs : 2 * options.windowMs
+
+  try {
+    return await getRateLimitStore().update(key, ttlMs, stored => {
+      // A refund made before anything was counted leaves an empty state
+      const current = stored && Object.keys(stored).length > 0 ? stored : null
+      if (mode === 'consume') {
+        return algorithm(current, Date.now(), options)
+      }
+
+      const state = current ? refund(current, options) : {}
+      const { result } = algorithm(current ? state : null, Date.now(), options)
+      return { state, result }
+    })
+  } catch (error) {
+    console.error('Rate limit store unavailable, allowing request:', error)
+    return { allowed: true, remaining: options.max, resetTime: Date.now() + options.windowMs }
+  }
+}
+
+// Count one request against the limit for key
+export async function consumeRateLimit(
+  key: string,
+  options: RateLimitOptions
+): Promise<RateLimitResult> {
+  return applyRateLimit(key, options, 'consume')
+}
+
+// Give back one request consumeRateLimit() counted for key
+export async function refundRateLimit(
+  key: string,
+  options: RateLimitOptions
+): Promise<RateLimitResult> {
+  return applyRateLimit(key, options, 'refund')
+}
+
+/**
+ * The client address as seen by the proxy in front of the app. Each proxy
+ * appends the address it got the request from to X-Forwarded-For, and
+ * anything to the left of that may have been sent by the client itself, so
+ * the address is read TRUSTED_PROXY_HOPS (default 1) entries from the right.
+ */
+export function getClientIp(req: { headers: Pick<Headers, 'get'> }): string {
+  const forwarded = req.headers.get('x-forwarded-for')
+    ?.split(',')
+    .map(address => address.trim())
+    .filter(Boolean) ?? []
+  const hops = Math.max(1, Number(process.env.TRUSTED_PROXY_HOPS) || 1)
+
+  // Fewer entries than proxies means the request skipped one; the leftmost is the best there is
+  return forwarded[Math.max(0, forwarded.length - hops)] || '127.0.0.1'
+}
+
+/**
+ * Rate limit a request, by client IP unless a key generator is given
  */
 export async function rateLimit(
   req: NextRequest,
   options: RateLimitOptions,
   namespace: string = 'default',
   customKeyGenerator?: (req: NextRequest) => string
-): Promise<{ allowed: boolean; remaining: number; resetTime: number }> {
-  const cache = getCache(namespace)
-  
-  // Generate key based on IP or session
-  const defaultKeyGen = (request: NextRequest): string => {
-    const forwarded = request.headers.get('x-forwarded-for')
-    const ip = forwarded ? forwarded.split(',')[0] : '127.0.0.1'
-    return `${namespace}:${ip}`
-  }
-  
-  const key = customKeyGenerator ? customKeyGenerator(req) : options.keyGenerator ? options.keyGenerator(req) : defaultKeyGen(req)
-  const now = Date.now()
-  
-  // Get current rate limit info
-  let info = cache.get(key)
-  
-  // Reset if window expired
-  if (!info || now > info.resetTime) {
-    info = {
-      count: 0,
-      resetTime: now + options.windowMs
-    }
-  }
-  
-  // Increment count
-  info.count++
-  
-  // Update cache
-  cache.set(key, info)
-  
-  // Check if limit exceeded
-  const allowed = info.count <= options.max
-  const remaining = Math.max(0, options.max - info.count)
-  
-  return {
-    allowed,
-    remaining,
-    resetTime: info.resetTime
-  }
+): Promise<RateLimitResult> {
+  const key = customKeyGenerator
+    ? customKeyGenerator(req)
+    : options.keyGenerator
+      ? options.keyGenerator(req)
+      : `${namespace}:${getClientIp(req)}`
+
+  return consumeRateLimit(key, options)
 }
 
 /**
@@ -88,22 +353,23 @@ export const RATE_LIMITS = {
     max: 10,
     windowMs: 60 * 1000,
   },
-  
-  // Combined summary: 5 requests per 5 minutes per user  
+
+  // Combined summary: 5 requests per 5 minutes per user
   combinedSummary: {
     max: 5,
     windowMs: 5 * 60 * 1000,
   },
-  
-  // General API: 100 requests per minute per IP
+
+  // General API: 100 requests per minute per IP, in bursts if need be
   general: {
     max: 100,
     windowMs: 60 * 1000,
+    algorithm: 'token-bucket',
   },
-  
+
   // Auth endpoints: 5 attempts per 15 minutes
   auth: {
     max: 5,
     windowMs: 15 * 60 * 1000,
   }
-}
\ No newline at end of file
+} satisfies Record<string, RateLimitOptions>
@@ -0,0 +1,50 @@
+import { constantTimeCompare, generateSecureToken, hash, sign } from '@/lib/security/encryption'
+
+/**
+ * Single-use tokens sent by email, as `<secret>.<expiry>.<signature>`.
+ *
+ * The signature covers the purpose and expiry, so a token can't be reused
+ * for another flow or extended, and forged or expired tokens are turned
+ * away without a database lookup. Only a hash of the secret is stored, so
+ * a copy of the database can't be used to redeem outstanding tokens.
+ */
+
+export interface IssuedToken {
+  token: string
+  tokenHash: string
+  expiresAt: Date
+}
+
+export function issueSignedToken(purpose: string, ttlMs: number): IssuedToken {
+  const secret = generateSecureToken()
+  const expiresAt = new Date(Date.now() + ttlMs)
+  const payload = `${secret}.${Math.floor(expiresAt.getTime() / 1000)}`
+
+  return {
+    token: `${payload}.${sign(`${purpose}:${payload}`)}`,
+    tokenHash: hash(secret),
+    expiresAt
+  }
+}
+
+/**
+ * The stored hash to look the token up by, or null if the token is
+ * malformed, signed for another purpose, or past its expiry.
+ */
+export function verifySignedToken(purpose: string, token: string): string | null {
+  const [secret, expiry, signature] = token.split('.')
+  if (!secret || !expiry || !signature) {
+    return null
+  }
+
+  const payload = `${secret}.${expiry}`
+  if (!constantTimeCompare(signature, sign(`${purpose}:${payload}`))) {
+    return null
+  }
+
+  if (Number(expiry) * 1000 <= Date.now()) {
+    return null
+  }
+
+  return hash(secret)
+}
@@ -0,0 +1,99 @@
+import crypto from 'crypto'
+import { constantTimeCompare } from '@/lib/security/encryption'
+
+/**
+ * RFC 6238 time-based one-time passwords (HMAC-SHA1, 6 digits, 30 seconds),
+ * the defaults every authenticator app supports. Secrets are the hex strings
+ * produced by generateMfaSecret().
+ */
+
+const TOTP_PERIOD_SECONDS = 30
+const TOTP_DIGITS = 6
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+
+export const TOTP_ISSUER = 'HIPAA Journal'
+
+export function toBase32(buffer: Buffer): string {
+  let bits = 0
+  let value = 0
+  let output = ''
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31]
+  }
+
+  return output
+}
+
+export function currentTimeStep(now = Date.now()): number {
+  return Math.floor(now / 1000 / TOTP_PERIOD_SECONDS)
+}
+
+export function generateTotp(secretHex: string, timeStep: number): string {
+  const counter = Buffer.alloc(8)
+  counter.writeBigUInt64BE(BigInt(timeStep))
+
+  const digest = crypto.createHmac('sha1', Buffer.from(secretHex, 'hex')).update(counter).digest()
+
+  // Dynamic truncation (RFC 4226 section 5.3)
+  const offset = digest[digest.length - 1] & 0x0f
+  const binary = digest.readUInt32BE(offset) & 0x7fffffff
+
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0')
+}
+
+/**
+ * Check a code against the current time step and `window` steps either side
+ * to allow for clock drift. Returns the matching step, or null. Steps at or
+ * before `lastUsedStep` are rejected so a code can only be used once.
+ */
+export function verifyTotp(
+  secretHex: string,
+  code: string,
+  options: { window?: number; lastUsedStep?: number | null; now?: number } = {}
+): number | null {
+  const normalized = code.replace(/\s/g, '')
+  if (!/^\d+$/.test(normalized) || normalized.length !== TOTP_DIGITS) {
+    return null
+  }
+
+  const window = options.window ?? 1
+  const step = currentTimeStep(options.now)
+
+  for (let candidate = step - window; candidate <= step + window; candidate++) {
+    if (options.lastUsedStep != null && candidate <= options.lastUsedStep) {
+      continue
+    }
+    if (constantTimeCompare(generateTotp(secretHex, candidate), normalized)) {
+      return candidate
+    }
+  }
+
+  return null
+}
+
+/**
+ * Key URI understood by authenticator apps, see
+ * https://github.com/google/google-authenticator/wiki/Key-Uri-Format
+ */
+export function buildOtpauthUri(secretHex: string, accountName: string): string {
+  const label = encodeURIComponent(`${TOTP_ISSUER}:${accountName}`)
+  const params = new URLSearchParams({
+    secret: toBase32(Buffer.from(secretHex, 'hex')),
+    issuer: TOTP_ISSUER,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS)
+  })
+
+  return `otpauth://totp/${label}?${params.toString()}`
+}
@@ -77,6 +77,20 @@ export class ContentProcessor {
     return { text: truncated, contentHash }
   }
 
+  /**
+   * Hash of everything an entry summary is written from (title, text and
+   * mood, as the model would see them), so an unchanged entry can keep its
+   * summary
+   */
+  static summaryInputHash(title: string, content: unknown, mood: number | null): string {
+    const parts = [
+      this.prepareForAI(title).contentHash,
+      this.prepareForAI(content).contentHash,
+      mood === null ? '' : String(mood)
+    ]
+    return this.computeHash(parts.join(':'))
+  }
+
   /** Sanitize for XSS */
   static sanitizeText(text: string): string {
     return DOMPurify.sanitize(text, {
@@ -1,7 +1,14 @@
 import { db } from '@/lib/db';
 // import type { Tables } from '@/types/database';
 import { generateEntrySummary as aiGenerateEntrySummary, generateCombinedSummary as aiGenerateCombinedSummary } from '@/lib/ai/summarizer'
+import { getLLMProvider, type LLMProvider } from '@/lib/ai/llm-provider'
+import { checkAiProcessing } from '@/lib/db/ai-preferences'
+import { entrySummarizableByUser } from '@/lib/db/query-helpers'
+import { entrySummaryHash } from '@/lib/db/summary-cache'
+import { createAuditLog } from '@/lib/security/audit'
+import { decryptField, encryptField } from '@/lib/security/field-encryption'
 import { toPlainText } from '@/lib/utils/tiptap-parser'
+import type { AuditContext, JournalEntry, PeriodSummary, SummaryPeriod } from '@/types/database'
 
 // Note: Per-entry rule-based generation helpers removed in favor of AI summaries
 
@@ -41,101 +48,232 @@ interface SummaryContent {
   };
 }
 
+// An entry's AI summary as kept in PeriodSummary.entrySummaries
+interface StoredEntrySummary {
+  contentHash: string;
+  summary: string;
+  themes: string[];
+  wordCount: number;
+  model: string;
+}
+
+export const PERIODS: SummaryPeriod[] = ['WEEK', 'MONTH', 'QUARTER'];
+
+// Phrases in an entry's text that raise each risk flag; calculateOverallRiskLevel() ranks the flags
+const RISK_KEYWORDS: Record<string, string[]> = {
+  SELF_HARM: ['suicide', 'suicidal', 'kill myself', 'end my life', 'self-harm', 'self harm', 'cutting myself', 'hurt myself', 'better off dead'],
+  VIOLENCE: ['hurt someone', 'kill him', 'kill her', 'kill them', 'violent', 'assault'],
+  SUBSTANCE: ['overdose', 'relapse', 'relapsed', 'drunk', 'high again', 'using again'],
+  PSYCHOSIS: ['hearing voices', 'voices telling', 'hallucinat', 'paranoid', 'being watched'],
+  HOPELESSNESS: ['hopeless', 'worthless', 'no way out', 'give up', "can't go on"],
+};
+
 export class HierarchicalSummaryService {
-  private static readonly WINDOW_SIZES = {
-    WEEK: 7 * 24 * 60 * 60 * 1000,
-    MONTH: 30 * 24 * 60 * 60 * 1000,
-    QUARTER: 90 * 24 * 60 * 60 * 1000,
-  };
+  /**
+   * The calendar week (from Monday), month or quarter containing a date, in UTC
+   */
+  static periodBounds(period: SummaryPeriod, date: Date): { start: Date; end: Date } {
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth();
+
+    switch (period) {
+      case 'WEEK': {
+        const start = new Date(Date.UTC(year, month, date.getUTCDate() - ((date.getUTCDay() + 6) % 7)));
+        return { start, end: new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate() + 7)) };
+      }
+      case 'MONTH':
+        return { start: new Date(Date.UTC(year, month, 1)), end: new Date(Date.UTC(year, month + 1, 1)) };
+      case 'QUARTER': {
+        const first = month - (month % 3);
+        return { start: new Date(Date.UTC(year, first, 1)), end: new Date(Date.UTC(year, first + 3, 1)) };
+      }
+    }
+  }
 
   /**
-   * Generate summaries for a user's entries
+   * Bring a provider's current week, month and quarter summaries of a client
+   * up to date
    */
-  static async generateSummariesForUser(userId: string): Promise<void> {
-    // Generate weekly summaries
-    await this.generatePeriodicSummaries(userId, 'WEEK');
+  static async generateSummariesForUser(
+    clientId: string,
+    providerId: string,
+    context: AuditContext,
+    provider: LLMProvider = getLLMProvider()
+  ): Promise<void> {
+    const now = new Date();
+    for (const period of PERIODS) {
+      await this.generatePeriodicSummaries(clientId, providerId, period, now, context, provider);
+    }
   }
 
   // Rule-based helpers removed; AI summaries are used for content
 
   /**
-   * Generate periodic summaries (weekly, monthly, etc.)
+   * Generate, or bring up to date, a provider's summary of a client's
+   * published entries in the period containing `date`. Only entries the
+   * provider may summarize and the client lets go to the model are included,
+   * and entries whose hash is unchanged keep the summary they already have.
+   * Returns null, removing any stored summary, when no entry qualifies.
    */
-  private static async generatePeriodicSummaries(
-    userId: string,
-    period: 'WEEK' | 'MONTH' | 'QUARTER'
-  ): Promise<void> {
-    const windowSize = this.WINDOW_SIZES[period];
-    const now = new Date();
-    const windowStart = new Date(now.getTime() - windowSize);
+  static async generatePeriodicSummaries(
+    clientId: string,
+    providerId: string,
+    period: SummaryPeriod,
+    date: Date,
+    context: AuditContext,
+    provider: LLMProvider = getLLMProvider()
+  ): Promise<PeriodSummary | null> {
+    const { start, end } = this.periodBounds(period, date);
+    const key = { clientId, providerId, period, periodStart: start };
 
     // Fetch entries in the period
-    const entries = await db.journalEntry.findMany({
+    const accessible = await db.journalEntry.findMany({
       where: {
-        userId,
+        userId: clientId,
         status: 'PUBLISHED',
-        createdAt: { gte: windowStart, lte: now },
+        createdAt: { gte: start, lt: end },
+        ...entrySummarizableByUser(providerId),
       },
       orderBy: { createdAt: 'asc' },
     });
+    const { allowed: entries } = await checkAiProcessing(accessible, providerId, context);
+
+    const previous = await db.periodSummary.findUnique({
+      where: { clientId_providerId_period_periodStart: key },
+    });
 
-    if (!entries.length) return;
+    if (!entries.length) {
+      if (previous) {
+        await db.periodSummary.delete({ where: { id: previous.id } });
+      }
+      return null;
+    }
+
+    const hashes = new Map(entries.map(entry => [entry.id, entrySummaryHash(entry)]));
+    const previousHashes = (previous?.entryHashes ?? {}) as Record<string, string>;
+    const unchanged = previous?.model === provider.id &&
+      Object.keys(previousHashes).length === hashes.size &&
+      [...hashes].every(([entryId, hash]) => previousHashes[entryId] === hash);
+    if (previous && unchanged) {
+      return previous;
+    }
 
-    // Generate AI summaries per entry (redaction/sanitization handled in summarizer)
-    const entrySummaries: { content: { bullets: any[]; themes: any[]; risks: any; sentiment: any; topics: string[]; metadata: any }; entryId: string }[] = []
+    const stored: Record<string, StoredEntrySummary> = previous
+      ? JSON.parse(await decryptField(previous.entrySummaries))
+      : {};
+
+    // AI summaries per entry (redaction/sanitization handled in summarizer), reused while the entry is unchanged
+    const summaries: Record<string, StoredEntrySummary> = {};
+    const entrySummaries: { content: SummaryContent; entryId: string; mood: number | null }[] = [];
 
     for (const entry of entries) {
-      try {
-        const contentText = toPlainText(entry.content ?? entry.contentHtml ?? '')
-        const ai = await aiGenerateEntrySummary(entry.title || '', contentText, entry.mood ?? null, (entry as any).tags || [])
-        // Map AI summary into our rule-based structure as bullets/themes minimal placeholder
-        entrySummaries.push({
-          entryId: entry.id,
-          content: {
-            bullets: [{ text: ai.summary, entryIds: [entry.id], timestamp: entry.createdAt, confidence: 0.7 }],
-            themes: (ai.keyThemes || []).map((t: string) => ({ name: t, bullets: [], prevalence: 0 })),
-            risks: { level: 'NONE', flags: [], keywords: [] },
-            sentiment: { overall: 0, trend: 'stable' },
-            topics: [],
-            metadata: { entryCount: 1, dateRange: { start: entry.createdAt, end: entry.createdAt }, wordCount: ai.wordCount },
-          }
-        })
-      } catch (e) {
-        // Skip failures but continue
-        continue
+      const contentHash = hashes.get(entry.id) as string;
+      let summary: StoredEntrySummary | undefined = stored[entry.id];
+
+      if (summary?.contentHash !== contentHash || summary.model !== provider.id) {
+        try {
+          const ai = await aiGenerateEntrySummary(entry.title || '', this.entryText(entry), entry.mood ?? null, entry.tags, { provider });
+          summary = { contentHash, summary: ai.summary, themes: ai.keyThemes, wordCount: ai.wordCount, model: ai.model };
+        } catch {
+          // Skip failures but continue; the entry is retried next time
+          continue;
+        }
       }
-    }
 
-    if (!entrySummaries.length) return
+      summaries[entry.id] = summary;
+      entrySummaries.push({ entryId: entry.id, content: this.entrySummaryContent(entry, summary), mood: entry.mood ?? null });
+    }
 
-    // Merge summaries (rule-based aggregation of AI outputs)
-    const mergedContent = this.mergeSummaries(entrySummaries as any)
+    if (!entrySummaries.length) {
+      throw new Error('Failed to generate summaries for the period');
+    }
 
-    // Apply salience filtering  
-    this.applySalienceFiltering(mergedContent, period);
+    // Merge summaries (rule-based aggregation of AI outputs) and keep what is most salient
+    const merged = this.applySalienceFiltering(this.mergeSummaries(entrySummaries), period);
 
     // Also produce an AI combined overview from AI entry summaries
+    let overview: string | null = null;
     try {
-      await aiGenerateCombinedSummary(
-        entrySummaries.map(s => ({ entryId: s.entryId, title: '', summary: String(s.content.bullets[0]?.text || '') })),
+      const combined = await aiGenerateCombinedSummary(
+        entrySummaries.map(s => ({ entryId: s.entryId, title: '', summary: summaries[s.entryId].summary })),
         period === 'WEEK' ? 'weekly' : period === 'MONTH' ? 'monthly' : 'custom',
-        { dateRange: { start: windowStart.toISOString(), end: now.toISOString() } }
-      )
-    } catch {}
+        { dateRange: { start: start.toISOString(), end: end.toISOString() }, provider }
+      );
+      overview = combined.summary;
+    } catch {
+      // The merged bullets stand on their own
+    }
 
-    // Store the periodic summary (would need a new table in production)
+    const data = {
+      periodEnd: end,
+      summary: await encryptField(JSON.stringify({ ...merged, overview }), clientId),
+      entrySummaries: await encryptField(JSON.stringify(summaries), clientId),
+      entryHashes: Object.fromEntries(Object.entries(summaries).map(([entryId, s]) => [entryId, s.contentHash])),
+      model: provider.id,
+      generatedAt: new Date(),
+    };
+
+    return db.$transaction(async tx => {
+      const periodSummary = await tx.periodSummary.upsert({
+        where: { clientId_providerId_period_periodStart: key },
+        create: { ...key, ...data },
+        update: data,
+      });
+
+      // One row per entry, so each shows in the client's disclosure report
+      for (const entryId of Object.keys(summaries)) {
+        await createAuditLog(
+          {
+            action: 'CREATE',
+            resource: 'ai_summary',
+            resourceId: periodSummary.id,
+            entryId,
+            details: { combined: true, period, periodStart: start.toISOString() },
+          },
+          context,
+          tx
+        );
+      }
+
+      return periodSummary;
+    });
+  }
+
+  private static entryText(entry: Pick<JournalEntry, 'content' | 'contentHtml'>): string {
+    return toPlainText(entry.content ?? entry.contentHtml ?? '');
   }
 
   /**
-   * Merge multiple summaries into one
+   * An entry's AI summary in the rule-based structure: one bullet, under each
+   * of its themes, with the risks found in the entry's own text and its mood
+   */
+  private static entrySummaryContent(
+    entry: Pick<JournalEntry, 'id' | 'createdAt' | 'title' | 'content' | 'contentHtml' | 'mood'>,
+    summary: StoredEntrySummary
+  ): SummaryContent {
+    const bullet = { text: summary.summary, entryIds: [entry.id], timestamp: entry.createdAt, confidence: 0.7 };
+    const risks = this.detectRisks(`${entry.title || ''}\n${this.entryText(entry)}`);
+    return {
+      bullets: [bullet],
+      themes: summary.themes.map(name => ({ name, bullets: [bullet], prevalence: 0 })),
+      risks: { level: this.calculateOverallRiskLevel(risks.flags), ...risks },
+      sentiment: { overall: this.moodSentiment(entry.mood ?? null) ?? 0, trend: 'stable' },
+      topics: [],
+      metadata: { entryCount: 1, dateRange: { start: entry.createdAt, end: entry.createdAt }, wordCount: summary.wordCount },
+    };
+  }
+
+  /**
+   * Merge multiple summaries into one. Sentiment comes from the entries with
+   * a mood, in the order given, so pass them oldest first for the trend.
    */
   private static mergeSummaries(
-    summaries: { content: SummaryContent; entryId: string }[]
+    summaries: { content: SummaryContent; entryId: string; mood: number | null }[]
   ): SummaryContent {
     const allBullets: SummaryBullet[] = [];
     const themeMap = new Map<string, SummaryBullet[]>();
     const allRiskFlags = new Set<string>();
-    let totalSentiment = 0;
+    const allRiskKeywords = new Set<string>();
     let totalWordCount = 0;
     const allTopics = new Set<string>();
     
@@ -147,7 +285,7 @@ export class HierarchicalSummaryService {
       for (const bullet of content.bullets) {
         allBullets.push({
           ...bullet,
-          entryIds: [...bullet.entryIds, entryId],
+          entryIds: [...new Set([...bullet.entryIds, entryId])],
         });
       }
 
@@ -161,9 +299,7 @@ export class HierarchicalSummaryService {
 
       // Collect risk flags
       content.risks.flags.forEach(flag => allRiskFlags.add(flag));
-
-      // Aggregate sentiment
-      totalSentiment += content.sentiment.overall;
+      content.risks.keywords.forEach(keyword => allRiskKeywords.add(keyword));
 
       // Collect topics
       content.topics.forEach(topic => allTopics.add(topic));
@@ -178,6 +314,9 @@ export class HierarchicalSummaryService {
       }
     }
 
+    // Entries without a mood say nothing about sentiment
+    const sentiments = summaries.filter(s => s.mood !== null).map(s => s.content.sentiment.overall);
+
     // Deduplicate bullets
     const deduplicatedBullets = this.deduplicateBullets(allBullets);
 
@@ -197,11 +336,11 @@ export class HierarchicalSummaryService {
       risks: {
         level: this.calculateOverallRiskLevel(Array.from(allRiskFlags)),
         flags: Array.from(allRiskFlags),
-        keywords: [],
+        keywords: Array.from(allRiskKeywords),
       },
       sentiment: {
-        overall: totalSentiment / summaries.length,
-        trend: this.calculateSentimentTrend(summaries.map(s => s.content.sentiment.overall)),
+        overall: sentiments.length ? sentiments.reduce((a, b) => a + b, 0) / sentiments.length : 0,
+        trend: this.calculateSentimentTrend(sentiments),
       },
       topics: Array.from(allTopics),
       metadata: {
@@ -304,6 +443,32 @@ export class HierarchicalSummaryService {
     return score;
   }
 
+  /**
+   * Risk flags raised by the text, with the phrases that raised them
+   */
+  private static detectRisks(text: string): { flags: string[]; keywords: string[] } {
+    const lower = text.toLowerCase();
+    const flags: string[] = [];
+    const keywords: string[] = [];
+
+    for (const [flag, phrases] of Object.entries(RISK_KEYWORDS)) {
+      const found = phrases.filter(phrase => lower.includes(phrase));
+      if (found.length > 0) {
+        flags.push(flag);
+        keywords.push(...found);
+      }
+    }
+
+    return { flags, keywords };
+  }
+
+  /**
+   * An entry's mood (1-10) as sentiment from -1 to 1, or null without one
+   */
+  private static moodSentiment(mood: number | null): number | null {
+    return mood === null ? null : (mood - 5.5) / 4.5;
+  }
+
   /**
    * Calculate overall risk level from flags
    */
@@ -1,9 +1,59 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { withAuth } from 'next-auth/middleware'
 import { getToken } from 'next-auth/jwt'
+import { rateLimited } from '@/lib/api/responses'
+import { getClientIp, rateLimit, RATE_LIMITS, type RateLimitResult } from '@/lib/security/rate-limit'
+
+// Routes a user who still has to enroll in MFA may use
+function isMfaSetupPath(pathname: string): boolean {
+  return pathname === '/login' || pathname.startsWith('/mfa') ||
+    pathname.startsWith('/api/auth/') || pathname.startsWith('/api/account/mfa')
+}
+
+// Routes a user an admin has asked to change their password may use
+function isPasswordChangePath(pathname: string): boolean {
+  return pathname === '/login' || pathname === '/account/password' ||
+    pathname.startsWith('/api/auth/') || pathname === '/api/account/password'
+}
+
+// Endpoints that take a password or send mail, held to the stricter auth limit.
+// Sign-in counts only failed attempts, in authorize() (lib/auth.ts)
+const AUTH_RATE_LIMITED_PATHS = new Set([
+  '/api/auth/register',
+  '/api/auth/password-reset',
+  '/api/auth/password-reset/confirm',
+  '/api/auth/verify-email/resend'
+])
+
+function tooManyRequests(max: number, result: RateLimitResult): NextResponse {
+  const response = rateLimited(new Date(result.resetTime))
+
+  response.headers.set('Retry-After', String(Math.max(1, Math.ceil((result.resetTime - Date.now()) / 1000))))
+  response.headers.set('X-RateLimit-Limit', String(max))
+  response.headers.set('X-RateLimit-Remaining', String(result.remaining))
+  response.headers.set('X-RateLimit-Reset', String(result.resetTime))
+  return response
+}
 
 export default withAuth(
   async function middleware(req: NextRequest) {
+    const { pathname } = req.nextUrl
+
+    // Per client IP, and shared between instances when a shared store is configured
+    if (pathname.startsWith('/api/')) {
+      const general = await rateLimit(req, RATE_LIMITS.general, 'api')
+      if (!general.allowed) {
+        return tooManyRequests(RATE_LIMITS.general.max, general)
+      }
+
+      if (req.method === 'POST' && AUTH_RATE_LIMITED_PATHS.has(pathname)) {
+        const auth = await rateLimit(req, RATE_LIMITS.auth, 'auth', () => `auth:${pathname}:${getClientIp(req)}`)
+        if (!auth.allowed) {
+          return tooManyRequests(RATE_LIMITS.auth.max, auth)
+        }
+      }
+    }
+
     const response = NextResponse.next()
 
     // Security headers
@@ -56,9 +106,40 @@ export default withAuth(
     }
 
     const token = await getToken({ req, secret: process.env.NEXTAUTH_SECRET })
-    const { pathname } = req.nextUrl
 
-    // Role-based access control
+    // Roles that require MFA can't go anywhere else until it is set up
+    if (token?.mfaSetupRequired && !isMfaSetupPath(pathname)) {
+      if (pathname.startsWith('/api/')) {
+        return NextResponse.json(
+          { success: false, error: 'Two-factor authentication setup required' },
+          { status: 403 }
+        )
+      }
+      return NextResponse.redirect(new URL('/mfa/setup', req.url))
+    }
+
+    if (token?.passwordResetRequired && !isPasswordChangePath(pathname)) {
+      if (pathname.startsWith('/api/')) {
+        return NextResponse.json(
+          { success: false, error: 'Password change required' },
+          { status: 403 }
+        )
+      }
+      return NextResponse.redirect(new URL('/account/password', req.url))
+    }
+
+    // Role-based access control. The practice-wide audit log is admin-only too
+    if ((pathname.startsWith('/api/admin') || pathname.startsWith('/api/audit')) && token?.role !== 'ADMIN') {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    if (pathname.startsWith('/admin') && token?.role !== 'ADMIN') {
+      return NextResponse.redirect(new URL('/unauthorized', req.url))
+    }
+
     if (pathname.startsWith('/provider') && token?.role !== 'PROVIDER') {
       return NextResponse.redirect(new URL('/unauthorized', req.url))
     }
@@ -67,10 +148,6 @@ export default withAuth(
       return NextResponse.redirect(new URL('/unauthorized', req.url))
     }
 
-    // Rate limiting (basic implementation)
-    // In production, use Redis for proper rate limiting
-    // This is a basic implementation for development
-
     return response
   },
   {
@@ -80,7 +157,8 @@ export default withAuth(
 
         // Allow access to auth pages without token
         if (pathname === '/login' || pathname === '/register' || 
-            pathname.startsWith('/auth/')) {
+            pathname === '/forgot-password' || pathname === '/reset-password' ||
+            pathname === '/verify-email' || pathname.startsWith('/auth/')) {
           return true
         }
 
@@ -96,7 +174,8 @@ export default withAuth(
 
         // Require authentication for dashboard routes
         if (pathname.startsWith('/dashboard') || pathname.startsWith('/client') || 
-            pathname.startsWith('/provider')) {
+            pathname.startsWith('/provider') || pathname.startsWith('/mfa') ||
+            pathname.startsWith('/account') || pathname.startsWith('/admin')) {
           return !!token
         }
 
@@ -107,11 +186,14 @@ export default withAuth(
 )
 
 export const config = {
+  // The rate limit stores need Node (Prisma, Redis), not the edge runtime
+  runtime: 'nodejs',
   matcher: [
     '/((?!_next/static|_next/image|favicon.ico).*)',
     '/api/:path*',
     '/dashboard/:path*',
     '/client/:path*',
-    '/provider/:path*'
+    '/provider/:path*',
+    '/admin/:path*'
   ]
 }
\ No newline at end of file
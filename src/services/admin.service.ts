@@ -0,0 +1,158 @@
+/**
+ * Admin Service
+ * Practice administration: user accounts, system settings, share statistics,
+ * care teams and review of emergency access
+ */
+
+import { apiClient } from '@/lib/api/client'
+import type {
+  AdminUserAction,
+  AdminUserQueryParams,
+  AdminUserResponse,
+  CareTeamResponse,
+  CreateCareTeamRequestParams,
+  EmergencyAccessResponse,
+  PaginationResponse,
+  ReviewEmergencyAccessRequestParams,
+  ShareStatisticsResponse,
+  SystemConfigResponse,
+  UpdateSystemConfigRequestParams
+} from '@/types/api'
+
+export class AdminService {
+  async getUsers(params: AdminUserQueryParams = {}): Promise<PaginationResponse<AdminUserResponse>> {
+    const query = Object.fromEntries(
+      Object.entries(params)
+        .filter(([, value]) => value !== undefined && value !== '')
+        .map(([key, value]) => [key, String(value)])
+    )
+    const response = await apiClient.get<PaginationResponse<AdminUserResponse>>('/api/admin/users', query)
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to fetch users')
+    }
+
+    return response.data
+  }
+
+  async updateUser(userId: string, action: AdminUserAction): Promise<AdminUserResponse> {
+    const response = await apiClient.patch<AdminUserResponse>(`/api/admin/users/${userId}`, { action })
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to update user')
+    }
+
+    return response.data
+  }
+
+  async getSystemConfig(): Promise<SystemConfigResponse[]> {
+    const response = await apiClient.get<SystemConfigResponse[]>('/api/admin/config')
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to fetch settings')
+    }
+
+    return response.data
+  }
+
+  async updateSystemConfig(key: string, data: UpdateSystemConfigRequestParams): Promise<SystemConfigResponse> {
+    const response = await apiClient.put<SystemConfigResponse>(`/api/admin/config/${encodeURIComponent(key)}`, data)
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to save setting')
+    }
+
+    return response.data
+  }
+
+  async getShareStatistics(): Promise<ShareStatisticsResponse> {
+    const response = await apiClient.get<ShareStatisticsResponse>('/api/admin/shares')
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to fetch share statistics')
+    }
+
+    return response.data
+  }
+
+  async getEmergencyAccess(pendingOnly = false): Promise<EmergencyAccessResponse[]> {
+    const response = await apiClient.get<EmergencyAccessResponse[]>(
+      '/api/admin/emergency-access',
+      pendingOnly ? { pending: 'true' } : undefined
+    )
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to fetch emergency access')
+    }
+
+    return response.data
+  }
+
+  async reviewEmergencyAccess(accessId: string, data: ReviewEmergencyAccessRequestParams): Promise<EmergencyAccessResponse> {
+    const response = await apiClient.patch<EmergencyAccessResponse>(`/api/admin/emergency-access/${accessId}`, data)
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to record review')
+    }
+
+    return response.data
+  }
+
+  async getCareTeams(): Promise<CareTeamResponse[]> {
+    const response = await apiClient.get<CareTeamResponse[]>('/api/admin/care-teams')
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to fetch care teams')
+    }
+
+    return response.data
+  }
+
+  async createCareTeam(data: CreateCareTeamRequestParams): Promise<CareTeamResponse> {
+    const response = await apiClient.post<CareTeamResponse>('/api/admin/care-teams', data)
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to create care team')
+    }
+
+    return response.data
+  }
+
+  async deleteCareTeam(teamId: string): Promise<void> {
+    const response = await apiClient.delete(`/api/admin/care-teams/${teamId}`)
+
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to delete care team')
+    }
+  }
+
+  // Returns how many of the team's shares the new member was given
+  async addCareTeamMember(teamId: string, providerId: string): Promise<number> {
+    const response = await apiClient.post<{ grantedShares: number }>(
+      `/api/admin/care-teams/${teamId}/members`,
+      { providerId }
+    )
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to add team member')
+    }
+
+    return response.data.grantedShares
+  }
+
+  // Returns how many shares the member lost
+  async removeCareTeamMember(teamId: string, providerId: string): Promise<number> {
+    const response = await apiClient.delete<{ revokedShares: number }>(
+      `/api/admin/care-teams/${teamId}/members/${providerId}`
+    )
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to remove team member')
+    }
+
+    return response.data.revokedShares
+  }
+}
+
+// Export singleton instance
+export const adminService = new AdminService()
@@ -0,0 +1,86 @@
+/**
+ * Audit Service
+ * Read access to the audit log: browsing, export and hash chain verification
+ * for compliance review, and each user's own accounting of disclosures
+ */
+
+import { apiClient } from '@/lib/api/client'
+import type {
+  AuditChainVerificationResponse,
+  AuditHealthResponse,
+  AuditLogExportFormat,
+  AuditLogFilters,
+  AuditLogPageResponse,
+  AuditLogQueryParams,
+  DisclosureReportResponse
+} from '@/types/api'
+
+function toQueryParams(params: AuditLogQueryParams): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(params)
+      .filter(([, value]) => value !== undefined && value !== '')
+      .map(([key, value]) => [key, String(value)])
+  )
+}
+
+export class AuditService {
+  async getLogs(params: AuditLogQueryParams = {}): Promise<AuditLogPageResponse> {
+    const response = await apiClient.get<AuditLogPageResponse>('/api/audit', toQueryParams(params))
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to fetch audit log')
+    }
+
+    return response.data
+  }
+
+  // The export is a file download rather than an ApiResponse, so skip apiClient
+  async exportLogs(filters: AuditLogFilters, format: AuditLogExportFormat): Promise<Blob> {
+    const query = new URLSearchParams({ ...toQueryParams(filters), format })
+    const response = await fetch(`/api/audit/export?${query}`)
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => null)
+      throw new Error(data?.error || 'Failed to export audit log')
+    }
+
+    return response.blob()
+  }
+
+  async verifyChain(): Promise<AuditChainVerificationResponse> {
+    const response = await apiClient.get<AuditChainVerificationResponse>('/api/audit/verify')
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to verify audit log')
+    }
+
+    return response.data
+  }
+
+  async getHealth(): Promise<AuditHealthResponse> {
+    const response = await apiClient.get<AuditHealthResponse>('/api/audit/health')
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to check audit health')
+    }
+
+    return response.data
+  }
+
+  async getDisclosureReport(period: { from?: string; to?: string } = {}): Promise<DisclosureReportResponse> {
+    const queryParams = Object.fromEntries(
+      Object.entries(period).filter(([, value]) => value !== undefined)
+    )
+
+    const response = await apiClient.get<DisclosureReportResponse>('/api/account/disclosures', queryParams)
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to load disclosure report')
+    }
+
+    return response.data
+  }
+}
+
+// Export singleton instance
+export const auditService = new AuditService()
@@ -5,7 +5,19 @@
 
 import { apiClient } from '@/lib/api/client'
 import type { User } from '@/types/database'
-import type { RegisterRequestParams, LoginRequestParams } from '@/types/api'
+import type {
+  RegisterRequestParams,
+  LoginRequestParams,
+  MfaStatusResponse,
+  MfaEnrollmentResponse,
+  MfaRecoveryCodesResponse,
+  PasswordUpdateRequestParams,
+  PasswordResetRequestParams,
+  PasswordResetConfirmRequestParams,
+  EmailVerificationRequestParams,
+  PasswordPolicy,
+  SessionListResponse
+} from '@/types/api'
 
 export type RegisterData = RegisterRequestParams
 
@@ -40,6 +52,147 @@ export class AuthService {
 
     return response.data
   }
+
+  async getMfaStatus(): Promise<MfaStatusResponse> {
+    const response = await apiClient.get<MfaStatusResponse>('/api/account/mfa')
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to fetch two-factor status')
+    }
+
+    return response.data
+  }
+
+  async startMfaEnrollment(): Promise<MfaEnrollmentResponse> {
+    const response = await apiClient.post<MfaEnrollmentResponse>('/api/account/mfa/enroll')
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to start two-factor enrollment')
+    }
+
+    return response.data
+  }
+
+  async confirmMfaEnrollment(code: string): Promise<string[]> {
+    const response = await apiClient.post<MfaRecoveryCodesResponse>('/api/account/mfa/verify', { code })
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to verify code')
+    }
+
+    return response.data.recoveryCodes
+  }
+
+  async regenerateRecoveryCodes(code: string): Promise<string[]> {
+    const response = await apiClient.post<MfaRecoveryCodesResponse>('/api/account/mfa/recovery-codes', { code })
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to regenerate recovery codes')
+    }
+
+    return response.data.recoveryCodes
+  }
+
+  async disableMfa(code: string): Promise<void> {
+    const response = await apiClient.delete('/api/account/mfa', { code })
+
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to disable two-factor authentication')
+    }
+  }
+
+  async getSessions(): Promise<SessionListResponse[]> {
+    const response = await apiClient.get<SessionListResponse[]>('/api/account/sessions')
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to fetch sessions')
+    }
+
+    return response.data
+  }
+
+  async revokeSession(sessionId: string): Promise<void> {
+    const response = await apiClient.delete(`/api/account/sessions/${sessionId}`)
+
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to sign out session')
+    }
+  }
+
+  async signOutEverywhere(): Promise<number> {
+    const response = await apiClient.delete<{ revoked: number }>('/api/account/sessions')
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to sign out of all sessions')
+    }
+
+    return response.data.revoked
+  }
+
+  async changePassword(params: PasswordUpdateRequestParams): Promise<void> {
+    const response = await apiClient.put('/api/account/password', params)
+
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to change password')
+    }
+  }
+
+  async getPasswordPolicy(): Promise<PasswordPolicy> {
+    const response = await apiClient.get<PasswordPolicy>('/api/auth/password-policy')
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to fetch password policy')
+    }
+
+    return response.data
+  }
+
+  async requestPasswordReset(params: PasswordResetRequestParams): Promise<string | undefined> {
+    const response = await apiClient.post('/api/auth/password-reset', params)
+
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to request password reset')
+    }
+
+    return response.message
+  }
+
+  async confirmPasswordReset(params: PasswordResetConfirmRequestParams): Promise<void> {
+    const response = await apiClient.post('/api/auth/password-reset/confirm', params)
+
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to reset password')
+    }
+  }
+
+  async verifyEmail(params: EmailVerificationRequestParams): Promise<void> {
+    const response = await apiClient.post('/api/auth/verify-email', params)
+
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to verify email address')
+    }
+  }
+
+  async resendVerificationEmail(params: Pick<User, 'email'>): Promise<string | undefined> {
+    const response = await apiClient.post('/api/auth/verify-email/resend', params)
+
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to send verification email')
+    }
+
+    return response.message
+  }
+
+  async deleteAccount(password: string): Promise<void> {
+    const response = await apiClient.delete('/api/account', {
+      password,
+      confirmation: 'DELETE'
+    })
+
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to delete account')
+    }
+  }
 }
 
 // Export singleton instance
@@ -0,0 +1,43 @@
+/**
+ * Consent Service
+ * A client's signed consents to share entries and to AI processing
+ */
+
+import { apiClient } from '@/lib/api/client'
+import type { ConsentResponse, CreateConsentRequestParams } from '@/types/api'
+
+export class ConsentService {
+  async getConsents(): Promise<ConsentResponse[]> {
+    const response = await apiClient.get<ConsentResponse[]>('/api/consents')
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to fetch consents')
+    }
+
+    return response.data
+  }
+
+  async createConsent(data: CreateConsentRequestParams): Promise<ConsentResponse> {
+    const response = await apiClient.post<ConsentResponse>('/api/consents', data)
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to record consent')
+    }
+
+    return response.data
+  }
+
+  // Returns how many shares were revoked along with the consent
+  async revokeConsent(consentId: string, reason: string): Promise<number> {
+    const response = await apiClient.delete<{ revokedShares: number }>(`/api/consents/${consentId}`, { reason })
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to revoke consent')
+    }
+
+    return response.data.revokedShares
+  }
+}
+
+// Export singleton instance
+export const consentService = new ConsentService()
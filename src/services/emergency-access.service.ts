@@ -0,0 +1,75 @@
+/**
+ * Emergency Access Service
+ * Break-the-glass access for providers to an assigned client's entries
+ */
+
+import { apiClient } from '@/lib/api/client'
+import type {
+  AssignedClientResponse,
+  CreateEmergencyAccessRequestParams,
+  EmergencyAccessEntryResponse,
+  EmergencyAccessResponse
+} from '@/types/api'
+
+export class EmergencyAccessService {
+  async getAssignedClients(): Promise<AssignedClientResponse[]> {
+    const response = await apiClient.get<AssignedClientResponse[]>('/api/emergency-access/clients')
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to fetch clients')
+    }
+
+    return response.data
+  }
+
+  async getEmergencyAccess(): Promise<EmergencyAccessResponse[]> {
+    const response = await apiClient.get<EmergencyAccessResponse[]>('/api/emergency-access')
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to fetch emergency access')
+    }
+
+    return response.data
+  }
+
+  async startEmergencyAccess(data: CreateEmergencyAccessRequestParams): Promise<EmergencyAccessResponse> {
+    const response = await apiClient.post<EmergencyAccessResponse>('/api/emergency-access', data)
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to grant emergency access')
+    }
+
+    return response.data
+  }
+
+  async endEmergencyAccess(accessId: string): Promise<void> {
+    const response = await apiClient.delete(`/api/emergency-access/${accessId}`)
+
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to end emergency access')
+    }
+  }
+
+  async getEntries(accessId: string): Promise<EmergencyAccessEntryResponse[]> {
+    const response = await apiClient.get<EmergencyAccessEntryResponse[]>(`/api/emergency-access/${accessId}/entries`)
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to fetch entries')
+    }
+
+    return response.data
+  }
+
+  async getEntry(accessId: string, entryId: string): Promise<EmergencyAccessEntryResponse> {
+    const response = await apiClient.get<EmergencyAccessEntryResponse>(`/api/emergency-access/${accessId}/entries/${entryId}`)
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to fetch entry')
+    }
+
+    return response.data
+  }
+}
+
+// Export singleton instance
+export const emergencyAccessService = new EmergencyAccessService()
@@ -9,9 +9,10 @@ import type {
   JournalEntry,
   CreateEntryInput,
   UpdateEntryInput,
-  EntryStatus
+  EntryStatus,
+  AiPreference
 } from '@/types/database'
-import type { EntriesListResponse } from '@/types/api'
+import type { AiPreferenceResponse, EntriesListResponse, GenerateSummaryResponse, UpdateAiPreferenceRequestParams } from '@/types/api'
 
 export interface EntriesListParams {
   page?: number
@@ -68,7 +69,12 @@ export class EntriesService {
       publishedAt: entry.publishedAt ? new Date(entry.publishedAt) : null,
       userId: '', // Will be set by API context
       aiSummary: entry.aiSummary,
-      aiSummaryAt: entry.aiSummaryAt ? new Date(entry.aiSummaryAt) : null
+      aiSummaryAt: entry.aiSummaryAt ? new Date(entry.aiSummaryAt) : null,
+      aiSummaryHash: null,
+      aiSummaryModel: null,
+      aiSummaryPrompt: null,
+      aiSummaryStale: entry.aiSummaryStale,
+      aiPreference: null
     }))
 
     return {
@@ -110,9 +116,9 @@ export class EntriesService {
     }
   }
 
-  async generateSummary(id: string, saveToDatabase = true): Promise<{ summary: string; wordCount: number; generatedAt: string }> {
+  async generateSummary(id: string, saveToDatabase = true): Promise<GenerateSummaryResponse> {
     // Use 60 second timeout for summary generation as it can take longer
-    const response = await apiClient.post<{ summary: string; wordCount: number; generatedAt: string }>(
+    const response = await apiClient.post<GenerateSummaryResponse>(
       `/api/entries/${id}/summary`, 
       { saveToDatabase },
       60000 // 60 seconds timeout
@@ -124,6 +130,36 @@ export class EntriesService {
 
     return response.data
   }
+
+  async getAiPreference(id: string): Promise<AiPreferenceResponse> {
+    const response = await apiClient.get<AiPreferenceResponse>(`/api/entries/${id}/ai-preference`)
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to fetch AI preference')
+    }
+
+    return response.data
+  }
+
+  // Null makes the entry follow the client's default again
+  async updateEntryAiPreference(id: string, aiPreference: AiPreference | null): Promise<AiPreferenceResponse> {
+    const request: UpdateAiPreferenceRequestParams = { aiPreference }
+    const response = await apiClient.put<AiPreferenceResponse>(`/api/entries/${id}/ai-preference`, request)
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to update AI preference')
+    }
+
+    return response.data
+  }
+
+  async updateClientAiPreference(aiPreference: AiPreference): Promise<void> {
+    const response = await apiClient.put('/api/account/ai-preference', { aiPreference })
+
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to update AI preference')
+    }
+  }
 }
 
 // Export singleton instance
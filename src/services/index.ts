@@ -6,6 +6,12 @@
 export { entriesService, EntriesService } from './entries.service'
 export { sharingService, SharingService } from './sharing.service'
 export { authService, AuthService } from './auth.service'
+export { auditService, AuditService } from './audit.service'
+export { adminService, AdminService } from './admin.service'
+export { invitationService, InvitationService } from './invitation.service'
+export { emergencyAccessService, EmergencyAccessService } from './emergency-access.service'
+export { consentService, ConsentService } from './consent.service'
+export { periodSummaryService, PeriodSummaryService } from './period-summary.service'
 
 // Re-export types
 export type {
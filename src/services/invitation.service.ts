@@ -0,0 +1,54 @@
+/**
+ * Invitation Service
+ * Provider invitations for onboarding new clients
+ */
+
+import { apiClient } from '@/lib/api/client'
+import type {
+  CreateInvitationRequestParams,
+  InvitationDetailsResponse,
+  InvitationResponse
+} from '@/types/api'
+
+export class InvitationService {
+  async getInvitations(): Promise<InvitationResponse[]> {
+    const response = await apiClient.get<InvitationResponse[]>('/api/invitations')
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to fetch invitations')
+    }
+
+    return response.data
+  }
+
+  async createInvitation(data: CreateInvitationRequestParams): Promise<InvitationResponse> {
+    const response = await apiClient.post<InvitationResponse>('/api/invitations', data)
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to send invitation')
+    }
+
+    return response.data
+  }
+
+  async revokeInvitation(invitationId: string): Promise<void> {
+    const response = await apiClient.delete(`/api/invitations/${invitationId}`)
+
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to revoke invitation')
+    }
+  }
+
+  async getInvitationDetails(token: string): Promise<InvitationDetailsResponse> {
+    const response = await apiClient.get<InvitationDetailsResponse>('/api/auth/invitation', { token })
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'This invitation is invalid or has expired')
+    }
+
+    return response.data
+  }
+}
+
+// Export singleton instance
+export const invitationService = new InvitationService()
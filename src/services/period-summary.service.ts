@@ -0,0 +1,45 @@
+/**
+ * Period Summary Service
+ * A provider's weekly, monthly and quarterly summaries of their clients
+ */
+
+import { apiClient } from '@/lib/api/client'
+import type { SummaryPeriod } from '@/types/database'
+import type { GeneratePeriodSummaryRequestParams, PeriodSummaryClientResponse, PeriodSummaryResponse } from '@/types/api'
+
+export class PeriodSummaryService {
+  async getClients(): Promise<PeriodSummaryClientResponse[]> {
+    const response = await apiClient.get<PeriodSummaryClientResponse[]>('/api/summaries/periods/clients')
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to fetch clients')
+    }
+
+    return response.data
+  }
+
+  async getSummaries(clientId: string, period: SummaryPeriod): Promise<PeriodSummaryResponse[]> {
+    const params = new URLSearchParams({ clientId, period })
+    const response = await apiClient.get<PeriodSummaryResponse[]>(`/api/summaries/periods?${params}`)
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to fetch period summaries')
+    }
+
+    return response.data
+  }
+
+  async generateSummary(data: GeneratePeriodSummaryRequestParams): Promise<PeriodSummaryResponse> {
+    // A period's entries may each need a summary first, so allow two minutes
+    const response = await apiClient.post<PeriodSummaryResponse>('/api/summaries/periods', data, 120000)
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to generate period summary')
+    }
+
+    return response.data
+  }
+}
+
+// Export singleton instance
+export const periodSummaryService = new PeriodSummaryService()
@@ -5,8 +5,18 @@
  */
 
 import { apiClient } from '@/lib/api/client'
-import type { ShareListResponse, ProviderListResponse, CreateShareRequestParams } from '@/types/api'
-import type { JournalEntry, EntryStatus, EntryShare, EntryShareWithRelationsData, ShareScope } from '@/types/database'
+import type {
+  ShareListResponse,
+  ProviderListResponse,
+  CreateShareRequestParams,
+  CreateShareRuleRequestParams,
+  CreateTeamShareRequestParams,
+  CareTeamResponse,
+  ShareRuleResponse,
+  SharedEntryResponse,
+  TeamShareResponse
+} from '@/types/api'
+import type { JournalEntry, EntryStatus, EntryShare, ShareScope } from '@/types/database'
 
 export type CreateShareData = CreateShareRequestParams
 
@@ -63,6 +73,11 @@ export class SharingService {
       userId: '',
       aiSummary: null,
       aiSummaryAt: null,
+      aiSummaryHash: null,
+      aiSummaryModel: null,
+      aiSummaryPrompt: null,
+      aiSummaryStale: false,
+      aiPreference: null,
       shareId: share.id,
       clientName: share.clientName || undefined,
       shareScope: share.scope,
@@ -71,8 +86,8 @@ export class SharingService {
     }))
   }
 
-  async getShareById(shareId: string): Promise<EntryShareWithRelationsData | null> {
-    const response = await apiClient.get<EntryShareWithRelationsData>(`/api/shares/${shareId}`)
+  async getShareById(shareId: string): Promise<SharedEntryResponse | null> {
+    const response = await apiClient.get<SharedEntryResponse>(`/api/shares/${shareId}`)
 
     if (!response.success) {
       if (response.error?.includes('not found')) {
@@ -111,6 +126,77 @@ export class SharingService {
 
     return response.data ?? []
   }
+
+  async getShareRules(): Promise<ShareRuleResponse[]> {
+    const response = await apiClient.get<ShareRuleResponse[]>('/api/share-rules')
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to fetch share rules')
+    }
+
+    return response.data
+  }
+
+  async createShareRule(data: CreateShareRuleRequestParams): Promise<ShareRuleResponse> {
+    const response = await apiClient.post<ShareRuleResponse>('/api/share-rules', data)
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to create share rule')
+    }
+
+    return response.data
+  }
+
+  // Returns how many shares were revoked along with the rule
+  async deleteShareRule(ruleId: string, revokeShares: boolean): Promise<number> {
+    const response = await apiClient.delete<{ revokedShares: number }>(
+      `/api/share-rules/${ruleId}${revokeShares ? '?revokeShares=true' : ''}`
+    )
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to delete share rule')
+    }
+
+    return response.data.revokedShares
+  }
+
+  async getCareTeams(): Promise<CareTeamResponse[]> {
+    const response = await apiClient.get<CareTeamResponse[]>('/api/care-teams')
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to fetch care teams')
+    }
+
+    return response.data
+  }
+
+  async getTeamShares(entryId: string): Promise<TeamShareResponse[]> {
+    const response = await apiClient.get<TeamShareResponse[]>('/api/team-shares', { entryId })
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to fetch team shares')
+    }
+
+    return response.data
+  }
+
+  async shareWithTeam(data: CreateTeamShareRequestParams): Promise<{ id: string }> {
+    const response = await apiClient.post<{ id: string }>('/api/team-shares', data)
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to share with the care team')
+    }
+
+    return response.data
+  }
+
+  async revokeTeamShare(teamShareId: string): Promise<void> {
+    const response = await apiClient.delete(`/api/team-shares/${teamShareId}`)
+
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to revoke care team share')
+    }
+  }
 }
 
 // Export singleton instance
@@ -1,4 +1,4 @@
-import type { UserRole, ShareScope, EntryStatus, SafeUserData, JournalEntry, EntryVersion, EntryShare, User, AuditLog } from './database'
+import type { UserRole, ShareScope, AiPreference, SummaryPeriod, EntryStatus, SafeUserData, JournalEntry, EntryVersion, EntryShare, User, AuditLog, Session, SystemConfig, Invitation, EmergencyAccess, ShareRule, CareTeam, TeamShare, Consent } from './database'
 
 export interface ApiResponse<T = unknown> {
   success: boolean
@@ -42,17 +42,80 @@ export interface RegisterRequestParams {
   firstName?: string
   lastName?: string
   role?: UserRole
+  // Registering from a provider's invitation
+  invitationToken?: string
+  acceptDefaultShare?: boolean
 }
 
 export interface PasswordResetRequestParams {
   email: string
 }
 
+// Password rules in force, from SystemConfig; public so forms can check as the user types
+export interface PasswordPolicy {
+  minLength: number
+  requireLowercase: boolean
+  requireUppercase: boolean
+  requireNumber: boolean
+  requireSymbol: boolean
+  // Days before a password must be changed; 0 means never
+  maxAgeDays: number
+  // How many previous passwords a new one may not repeat
+  historyDepth: number
+  breachedCheck: boolean
+}
+
+export interface PasswordResetConfirmRequestParams {
+  token: string
+  password: string
+}
+
 export interface PasswordUpdateRequestParams {
   currentPassword: string
   newPassword: string
 }
 
+export interface EmailVerificationRequestParams {
+  token: string
+}
+
+// Errors the credentials provider raises: RATE_LIMITED before the password is
+// checked, the others once it is known to be right
+export type LoginErrorCode = 'MFA_REQUIRED' | 'MFA_INVALID' | 'EMAIL_NOT_VERIFIED' | 'RATE_LIMITED'
+
+export interface MfaCodeRequestParams {
+  code: string
+}
+
+export interface MfaStatusResponse {
+  enabled: boolean
+  required: boolean
+  recoveryCodesRemaining: number
+}
+
+export interface MfaEnrollmentResponse {
+  otpauthUri: string
+  qrCodeDataUrl: string
+  secret: string
+}
+
+export interface MfaRecoveryCodesResponse {
+  recoveryCodes: string[]
+}
+
+// Payloads sent through useSession().update()
+export interface SessionUpdateParams {
+  activity?: boolean
+  idleLock?: boolean
+}
+
+export interface SessionListResponse extends Pick<Session, 'id' | 'ipAddress' | 'userAgent'> {
+  createdAt: string
+  lastActiveAt: string
+  expiresAt: string
+  current: boolean
+}
+
 // Entry API types
 export interface CreateEntryRequestParams {
   title: string
@@ -72,7 +135,7 @@ export interface UpdateEntryRequestParams {
 }
 
 export interface EntryListResponse extends Pick<JournalEntry, 
-  'id' | 'title' | 'status' | 'mood' | 'tags' | 'wordCount' | 'aiSummary'> {
+  'id' | 'title' | 'status' | 'mood' | 'tags' | 'wordCount' | 'aiSummary' | 'aiSummaryStale'> {
   createdAt: string
   updatedAt: string
   publishedAt: string | null
@@ -117,13 +180,183 @@ export interface UpdateShareRequestParams {
 }
 
 export interface ShareListResponse extends Pick<EntryShare, 'id' | 'entryId' | 'scope' | 'message'> {
-  entryTitle: string
+  // Null when the share's scope does not show the title
+  entryTitle: string | null
   providerName: string | null
   clientName: string | null
   expiresAt: string | null
   createdAt: string
 }
 
+// What a share's scope lets its recipient see of an entry. Only built by
+// projectEntry() in lib/security/entry-projection.ts
+export interface EntryViewBase extends Pick<JournalEntry, 'id' | 'status' | 'wordCount'> {
+  createdAt: string
+  updatedAt: string
+}
+
+export interface MetadataEntryView extends EntryViewBase {
+  scope: 'NONE'
+}
+
+export interface TitleOnlyEntryView extends EntryViewBase, Pick<JournalEntry, 'title'> {
+  scope: 'TITLE_ONLY'
+}
+
+export interface SummaryEntryView extends EntryViewBase, Pick<JournalEntry, 'title' | 'aiSummary'> {
+  scope: 'SUMMARY_ONLY'
+  aiSummaryAt: string | null
+}
+
+export interface FullEntryView extends Omit<SummaryEntryView, 'scope'>,
+  Pick<JournalEntry, 'content' | 'contentHtml' | 'mood' | 'tags'> {
+  scope: 'FULL_ACCESS'
+}
+
+export type SharedEntryView = MetadataEntryView | TitleOnlyEntryView | SummaryEntryView | FullEntryView
+
+export interface SharedEntryResponse extends Pick<EntryShare, 'id' | 'entryId' | 'providerId' | 'clientId' | 'scope' | 'message'> {
+  entry: SharedEntryView
+  provider: Pick<User, 'id' | 'firstName' | 'lastName' | 'email'>
+  client: Pick<User, 'id' | 'firstName' | 'lastName' | 'email'>
+  expiresAt: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+// Share rules: share a client's matching entries with a provider, existing and future
+export interface CreateShareRuleRequestParams extends Pick<ShareRule, 'providerId' | 'scope'> {
+  tags?: string[]
+  createdAfter?: string
+  createdBefore?: string
+}
+
+export interface ShareRuleResponse extends Pick<ShareRule, 'id' | 'providerId' | 'scope' | 'tags'> {
+  providerName: string
+  createdAfter: string | null
+  createdBefore: string | null
+  // Shares made by the rule that still grant access
+  activeShares: number
+  createdAt: string
+}
+
+// Care teams: providers an entry can be shared with together
+export interface CareTeamMemberResponse {
+  providerId: string
+  name: string
+  email: string
+}
+
+export interface CareTeamResponse extends Pick<CareTeam, 'id' | 'name' | 'description'> {
+  members: CareTeamMemberResponse[]
+  // Team shares that still grant access
+  activeShares: number
+  createdAt: string
+}
+
+export interface CreateCareTeamRequestParams extends Pick<CareTeam, 'name'> {
+  description?: string
+}
+
+export interface AddCareTeamMemberRequestParams {
+  providerId: string
+}
+
+export interface CreateTeamShareRequestParams extends Pick<TeamShare, 'entryId' | 'teamId' | 'scope'> {
+  message?: string
+  expiresAt?: string
+}
+
+export interface TeamShareResponse extends Pick<TeamShare, 'id' | 'entryId' | 'teamId' | 'scope' | 'message'> {
+  teamName: string
+  // Each current member, and whether they can see the entry (through this share or their own)
+  members: Array<CareTeamMemberResponse & { hasAccess: boolean }>
+  expiresAt: string | null
+  createdAt: string
+}
+
+// Consents: what a client agreed to disclose, to whom, why and until when
+export interface CreateConsentRequestParams extends Pick<Consent, 'purpose' | 'formVersion' | 'signature'> {
+  providerId?: string
+  scope?: ShareScope
+  expiresAt?: string
+}
+
+export interface RevokeConsentRequestParams {
+  reason: string
+}
+
+export interface ConsentResponse extends Pick<Consent,
+  'id' | 'purpose' | 'providerId' | 'scope' | 'formVersion' | 'consentText' | 'signature' | 'revokedReason'> {
+  providerName: string | null
+  status: 'active' | 'expired' | 'revoked'
+  // Shares made under the consent that still grant access
+  activeShares: number
+  expiresAt: string | null
+  grantedAt: string
+  revokedAt: string | null
+}
+
+// AI processing preference of an entry and of its owner
+export interface AiPreferenceResponse {
+  clientPreference: AiPreference
+  // Null when the entry follows the client's preference
+  entryPreference: AiPreference | null
+  effectivePreference: AiPreference
+  hasAiConsent: boolean
+}
+
+export interface UpdateAiPreferenceRequestParams {
+  aiPreference: AiPreference | null
+}
+
+// Period summaries: a provider's weekly, monthly and quarterly summaries of a client
+export interface PeriodSummaryClientResponse extends Pick<User, 'id'> {
+  name: string
+  // Entries the provider may summarize
+  entryCount: number
+}
+
+export interface PeriodSummaryBullet {
+  text: string
+  entryIds: string[]
+  timestamp: string
+  confidence: number
+}
+
+export interface PeriodSummaryContent {
+  overview: string | null
+  bullets: PeriodSummaryBullet[]
+  themes: Array<{ name: string; bullets: PeriodSummaryBullet[]; prevalence: number }>
+  risks: { level: string; flags: string[]; keywords: string[] }
+  sentiment: { overall: number; trend: 'improving' | 'stable' | 'declining' }
+  topics: string[]
+  metadata: { entryCount: number; dateRange: { start: string; end: string }; wordCount: number }
+}
+
+export interface PeriodSummaryResponse {
+  // Null until a summary has been generated for the period
+  id: string | null
+  period: SummaryPeriod
+  periodStart: string
+  periodEnd: string
+  // Outdated when entries in the period were added, changed, or are no longer shared for summaries
+  status: 'current' | 'outdated' | 'missing'
+  // Entries in the period the provider may summarize now
+  entryCount: number
+  // Withheld when the summary covers entries the provider may no longer summarize
+  content: PeriodSummaryContent | null
+  model: string | null
+  generatedAt: string | null
+}
+
+export interface GeneratePeriodSummaryRequestParams {
+  clientId: string
+  period: SummaryPeriod
+  // Any time in the period
+  periodStart: string
+}
+
 // User API types
 export interface UserListResponse extends Pick<User,
   'id' | 'email' | 'firstName' | 'lastName' | 'role' | 'isActive'> {
@@ -142,9 +375,123 @@ export interface CreateUserRequestParams extends Pick<User, 'email' | 'role'> {
   sendInvite?: boolean
 }
 
+// Invitation API types
+export type InvitationStatus = 'pending' | 'accepted' | 'expired' | 'revoked'
+
+export interface CreateInvitationRequestParams extends Pick<Invitation, 'email'> {
+  firstName?: Invitation['firstName']
+  lastName?: Invitation['lastName']
+  defaultShareScope?: ShareScope | null
+}
+
+export interface InvitationResponse extends Pick<Invitation,
+  'id' | 'email' | 'firstName' | 'lastName' | 'defaultShareScope'> {
+  status: InvitationStatus
+  expiresAt: string
+  acceptedAt: string | null
+  createdAt: string
+}
+
+// What the registration page shows before the invitation is accepted
+export interface InvitationDetailsResponse extends Pick<Invitation,
+  'email' | 'firstName' | 'lastName' | 'defaultShareScope'> {
+  providerName: string
+  expiresAt: string
+}
+
+// Emergency ("break-the-glass") access types
+export type EmergencyAccessStatus = 'active' | 'ended' | 'expired'
+
+export interface CreateEmergencyAccessRequestParams extends Pick<EmergencyAccess, 'clientId' | 'reason'> {
+  durationMinutes?: number
+}
+
+export interface EmergencyAccessResponse extends Pick<EmergencyAccess,
+  'id' | 'providerId' | 'clientId' | 'reason' | 'reviewNote'> {
+  providerName: string
+  clientName: string
+  status: EmergencyAccessStatus
+  expiresAt: string
+  endedAt: string | null
+  reviewedAt: string | null
+  createdAt: string
+}
+
+// A client the provider cares for, and so may open emergency access to
+export interface AssignedClientResponse extends Pick<User, 'id' | 'email'> {
+  name: string
+  activeEmergencyAccessId: string | null
+}
+
+export interface EmergencyAccessEntryResponse extends Pick<JournalEntry,
+  'id' | 'title' | 'status' | 'mood' | 'tags' | 'wordCount' | 'aiSummary'> {
+  content?: JournalEntry['content']
+  createdAt: string
+  updatedAt: string
+}
+
+export interface ReviewEmergencyAccessRequestParams {
+  note?: string
+}
+
+// Admin console types
+export interface AdminUserResponse extends UserListResponse,
+  Pick<User, 'loginAttempts' | 'mfaEnabled' | 'passwordResetRequired'> {
+  lockedUntil: string | null
+}
+
+export interface AdminUserQueryParams extends Pick<PaginationParams, 'page' | 'limit'> {
+  role?: UserRole
+  search?: string
+}
+
+export type AdminUserAction =
+  | 'activate'
+  | 'deactivate'
+  | 'unlock'
+  | 'reset_login_attempts'
+  | 'require_password_reset'
+
+export interface AdminUserActionRequestParams {
+  action: AdminUserAction
+}
+
+export interface SystemConfigResponse extends Pick<SystemConfig, 'key' | 'description' | 'isEncrypted' | 'updatedBy'> {
+  // Null for encrypted settings, which never leave the server
+  value: string | null
+  // Managed by the application (keys, rotation state) rather than by hand
+  readOnly: boolean
+  updatedAt: string
+}
+
+export interface UpdateSystemConfigRequestParams extends Pick<SystemConfig, 'value'> {
+  description?: SystemConfig['description']
+}
+
+export interface ProviderShareStatistics {
+  providerId: string
+  providerName: string
+  providerEmail: string
+  activeShares: number
+  clients: number
+}
+
+export interface ShareStatisticsResponse {
+  totalShares: number
+  activeShares: number
+  revokedShares: number
+  expiredShares: number
+  // Active shares within the next 7 days of expiring
+  expiringSoon: number
+  activeByScope: Record<ShareScope, number>
+  sharingClients: number
+  providers: ProviderShareStatistics[]
+}
+
 // Audit API types
 export interface AuditLogResponse extends Pick<AuditLog,
-  'id' | 'action' | 'resource' | 'resourceId' | 'ipAddress' | 'details'> {
+  'id' | 'sequence' | 'action' | 'resource' | 'resourceId' | 'userId' | 'ipAddress' | 'userAgent' |
+  'sessionId' | 'entryId' | 'shareId' | 'details'> {
   userEmail: string | null
   createdAt: string
 }
@@ -152,11 +499,91 @@ export interface AuditLogResponse extends Pick<AuditLog,
 export interface AuditLogFilters {
   action?: AuditLog['action']
   resource?: AuditLog['resource']
-  userId?: AuditLog['userId']
+  userId?: string
+  entryId?: string
+  shareId?: string
   startDate?: string
   endDate?: string
 }
 
+export interface AuditLogQueryParams extends AuditLogFilters {
+  cursor?: string
+  limit?: number
+}
+
+export interface AuditLogPageResponse {
+  items: AuditLogResponse[]
+  // Opaque; pass back as `cursor` for the next (older) page
+  nextCursor: string | null
+}
+
+export type AuditLogExportFormat = 'csv' | 'json'
+
+export type AuditChainBreak = 'missing_hash' | 'previous_hash_mismatch' | 'hash_mismatch'
+
+export interface AuditChainVerificationResponse {
+  valid: boolean
+  checked: number
+  // Rows written before the log was chained; they are counted but not verifiable
+  unchained: number
+  headHash: string | null
+  headSequence: number | null
+  firstBrokenLink: {
+    id: string
+    sequence: number
+    createdAt: string
+    reason: AuditChainBreak
+  } | null
+}
+
+export type AuditHealthStatus = 'healthy' | 'degraded' | 'unavailable'
+
+export interface AuditHealthResponse {
+  status: AuditHealthStatus
+  // 'closed' refuses reads that can't be audited; 'open' queues their audit instead
+  failMode: 'closed' | 'open'
+  // Null when the outbox itself can't be read
+  outboxPending: number | null
+  outboxRetrying: number | null
+  oldestPendingAt: string | null
+  // Held in this server's memory because the outbox couldn't be written either
+  memoryQueued: number
+  dropped: number
+  lastWriteAt: string | null
+  lastFailureAt: string | null
+}
+
+// Accounting of disclosures (HIPAA §164.528) for a client's own entries
+export interface DisclosureEvent extends Pick<AuditLog, 'id' | 'action'> {
+  date: string
+  description: string
+  purpose: string
+}
+
+export interface DisclosureEntryGroup {
+  entryId: string
+  // Null once the entry has been deleted
+  entryTitle: string | null
+  events: DisclosureEvent[]
+}
+
+export interface DisclosureRecipientGroup {
+  // Null for changes made by the system, e.g. a share expiring
+  recipientId: string | null
+  recipientName: string
+  recipientEmail: string | null
+  entries: DisclosureEntryGroup[]
+  totalEvents: number
+}
+
+export interface DisclosureReportResponse {
+  periodStart: string
+  periodEnd: string
+  generatedAt: string
+  totalEvents: number
+  recipients: DisclosureRecipientGroup[]
+}
+
 // AI API types
 export interface GenerateSummaryRequestParams {
   entryId: string
@@ -167,6 +594,8 @@ export interface GenerateSummaryResponse {
   summary: string
   wordCount: number
   generatedAt: string
+  // The entry has been edited since the summary was written
+  stale: boolean
 }
 
 // Analytics types
@@ -1,7 +1,7 @@
-import type { User, Session, JournalEntry, EntryVersion, EntryShare, AuditLog, SystemConfig, UserRole, ShareScope, EntryStatus, AuditAction } from '.prisma/client'
+import type { User, Session, JournalEntry, EntryVersion, EntryShare, AuditLog, AuditOutbox, SystemConfig, UserDataKey, MfaRecoveryCode, Invitation, CareRelationship, AccountToken, PasswordHistory, EmergencyAccess, ShareRule, CareTeam, CareTeamMember, TeamShare, Consent, PeriodSummary, UserRole, ShareScope, EntryStatus, AuditAction, AccountTokenPurpose, ConsentPurpose, AiPreference, SummaryPeriod } from '.prisma/client'
 
-export type { User, Session, JournalEntry, EntryVersion, EntryShare, AuditLog, SystemConfig }
-export type { UserRole, ShareScope, EntryStatus, AuditAction }
+export type { User, Session, JournalEntry, EntryVersion, EntryShare, AuditLog, AuditOutbox, SystemConfig, UserDataKey, MfaRecoveryCode, Invitation, CareRelationship, AccountToken, PasswordHistory, EmergencyAccess, ShareRule, CareTeam, CareTeamMember, TeamShare, Consent, PeriodSummary }
+export type { UserRole, ShareScope, EntryStatus, AuditAction, AccountTokenPurpose, ConsentPurpose, AiPreference, SummaryPeriod }
 
 // Database relation types
 export interface UserWithSessionsData extends User {